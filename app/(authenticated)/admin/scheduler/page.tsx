@@ -0,0 +1,225 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import Card, {
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { getServerUser } from "@/lib/auth/getServerUser";
+import { isAdminUser } from "@/lib/auth/admin";
+import { loadSchedulerHealth, type SchedulerRunRow } from "@/lib/analytics/schedulerHealth";
+import { SCHEDULER_POST_OUTCOMES } from "@/lib/publishing";
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) {
+    return "–";
+  }
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function runBadgeVariant(status: SchedulerRunRow["status"]) {
+  switch (status) {
+    case "completed":
+      return "success";
+    case "failed":
+      return "danger";
+    default:
+      return "warning";
+  }
+}
+
+export default async function SchedulerAdminPage() {
+  const user = await getServerUser();
+
+  if (!isAdminUser(user)) {
+    return notFound();
+  }
+
+  const health = await loadSchedulerHealth();
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div>
+        <h1 className="text-h2">Scheduler</h1>
+        <p className="text-body-m text-text-secondary">
+          postScheduler runs, overdue posts and per-platform publishing health.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Card variant="elevated" padding="lg">
+          <CardHeader>
+            <CardTitle>Success rate by platform</CardTitle>
+            <CardDescription>
+              Publish attempts in the last {health.windowDays} days.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {health.platformRates.length === 0 ? (
+              <p className="text-body-s text-text-tertiary">No publish attempts yet.</p>
+            ) : (
+              <table className="w-full text-left text-body-s">
+                <thead className="text-text-tertiary">
+                  <tr>
+                    <th className="py-2 font-medium">Platform</th>
+                    <th className="py-2 font-medium text-right">Attempts</th>
+                    <th className="py-2 font-medium text-right">Success</th>
+                    <th className="py-2 font-medium text-right">Transient</th>
+                    <th className="py-2 font-medium text-right">Permanent</th>
+                    <th className="py-2 font-medium text-right">Avg latency</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {health.platformRates.map((rate) => (
+                    <tr key={rate.platformId} className="border-t border-border">
+                      <td className="py-2">{rate.platformId}</td>
+                      <td className="py-2 text-right">{rate.attempts}</td>
+                      <td className="py-2 text-right">{formatPercent(rate.successRate)}</td>
+                      <td className="py-2 text-right">{rate.transientFailures}</td>
+                      <td className="py-2 text-right">{rate.permanentFailures}</td>
+                      <td className="py-2 text-right">
+                        {formatDuration(Math.round(rate.averageLatencyMs))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card variant="elevated" padding="lg">
+          <CardHeader>
+            <CardTitle>Stuck posts</CardTitle>
+            <CardDescription>
+              Scheduled posts past their time, and publishing leases that expired.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {health.stuckPosts.length === 0 ? (
+              <p className="text-body-s text-text-tertiary">Nothing is stuck.</p>
+            ) : (
+              <ul className="space-y-3">
+                {health.stuckPosts.map((post) => (
+                  <li key={post.id} className="space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <Link
+                        href={`/campaigns/${post.campaign_id}`}
+                        className="text-body-m underline-offset-4 hover:underline"
+                      >
+                        {post.campaign_name}
+                      </Link>
+                      <div className="flex shrink-0 gap-2">
+                        {post.platform_id && <Badge variant="secondary">{post.platform_id}</Badge>}
+                        <Badge variant="warning">{post.status}</Badge>
+                      </div>
+                    </div>
+                    <p className="text-body-s text-text-tertiary">
+                      {post.scheduled_for &&
+                        `Due ${formatDistanceToNow(new Date(post.scheduled_for), {
+                          addSuffix: true,
+                        })}`}
+                      {post.retry_count > 0 && ` · ${post.retry_count} retries`}
+                      {post.last_error && ` · ${post.last_error}`}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card variant="elevated" padding="lg">
+        <CardHeader>
+          <CardTitle>Recent runs</CardTitle>
+          <CardDescription>Newest first, with what happened to each due post.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {health.runs.length === 0 ? (
+            <p className="text-body-s text-text-tertiary">No runs recorded yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-body-s">
+                <thead className="text-text-tertiary">
+                  <tr>
+                    <th className="py-2 font-medium">Started</th>
+                    <th className="py-2 font-medium">Status</th>
+                    <th className="py-2 font-medium text-right">Duration</th>
+                    <th className="py-2 font-medium text-right">Due</th>
+                    {SCHEDULER_POST_OUTCOMES.map((outcome) => (
+                      <th key={outcome} className="py-2 font-medium text-right capitalize">
+                        {outcome.replace("_", " ")}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {health.runs.map((run) => (
+                    <tr key={run.id} className="border-t border-border align-top">
+                      <td className="py-2">
+                        {new Date(run.started_at).toLocaleString()}
+                        {run.error && <p className="text-danger">{run.error}</p>}
+                      </td>
+                      <td className="py-2">
+                        <Badge variant={runBadgeVariant(run.status)}>{run.status}</Badge>
+                      </td>
+                      <td className="py-2 text-right">{formatDuration(run.duration_ms)}</td>
+                      <td className="py-2 text-right">{run.due_count}</td>
+                      {SCHEDULER_POST_OUTCOMES.map((outcome) => (
+                        <td key={outcome} className="py-2 text-right">
+                          {run.counts[outcome] ?? 0}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card variant="elevated" padding="lg">
+        <CardHeader>
+          <CardTitle>Recent failures</CardTitle>
+          <CardDescription>Failed attempts and how they were classified.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {health.recentFailures.length === 0 ? (
+            <p className="text-body-s text-text-tertiary">No failures recorded.</p>
+          ) : (
+            <ul className="space-y-3">
+              {health.recentFailures.map((failure, index) => (
+                <li key={`${failure.run_id}-${failure.campaign_post_id}-${index}`} className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {failure.platform_id && (
+                      <Badge variant="secondary">{failure.platform_id}</Badge>
+                    )}
+                    <Badge variant={failure.outcome === "retrying" ? "warning" : "danger"}>
+                      {failure.outcome.replace("_", " ")}
+                    </Badge>
+                    {failure.failure_kind && (
+                      <Badge variant="outline">{failure.failure_kind}</Badge>
+                    )}
+                    <span className="text-body-s text-text-tertiary">
+                      {formatDistanceToNow(new Date(failure.created_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                  {failure.error && <p className="text-body-s">{failure.error}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,516 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { AlertTriangle, ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import Badge from "@/components/ui/badge";
+import { ScheduleModal } from "@/components/scheduler/ScheduleModal";
+import { DEAD_LETTER_STATUS, isFailedPostStatus } from "@/lib/publishing";
+import {
+  calendarTime,
+  findScheduleConflicts,
+  CONFLICT_WINDOW_MINUTES,
+  type CalendarPost,
+} from "@/lib/campaigns/calendar";
+import type { PersonaSocialAccount } from "@/types/social";
+
+type CalendarView = "month" | "week";
+
+interface CalendarClientProps {
+  personas: { id: string; display_name: string }[];
+  accounts: PersonaSocialAccount[];
+}
+
+const PLATFORM_COLORS: Record<string, string> = {
+  reddit: "border-l-orange-500",
+  x: "border-l-gray-900",
+  twitter: "border-l-gray-900",
+  linkedin: "border-l-blue-600",
+  facebook: "border-l-indigo-500",
+  instagram: "border-l-pink-500",
+};
+
+const STATUS_DOTS: Record<string, string> = {
+  scheduled: "bg-warning",
+  publishing: "bg-primary",
+  published: "bg-success",
+  simulated: "bg-gray-300",
+  failed: "bg-danger",
+  dead_letter: "bg-danger",
+  deleted: "bg-gray-300",
+  draft: "bg-gray-500",
+};
+
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+function visibleDays(view: CalendarView, anchor: Date): Date[] {
+  if (view === "week") {
+    return eachDayOfInterval({
+      start: startOfWeek(anchor, WEEK_OPTIONS),
+      end: endOfWeek(anchor, WEEK_OPTIONS),
+    });
+  }
+  return eachDayOfInterval({
+    start: startOfWeek(startOfMonth(anchor), WEEK_OPTIONS),
+    end: endOfWeek(endOfMonth(anchor), WEEK_OPTIONS),
+  });
+}
+
+/**
+ * Moves `original` onto `day`, keeping its local time of day.
+ */
+function moveToDay(original: string | null, day: Date): Date {
+  const moved = new Date(day);
+  if (original) {
+    const source = new Date(original);
+    moved.setHours(source.getHours(), source.getMinutes(), 0, 0);
+  } else {
+    moved.setHours(9, 0, 0, 0);
+  }
+  return moved;
+}
+
+function canReschedule(post: CalendarPost): boolean {
+  return (
+    (post.status === "scheduled" || isFailedPostStatus(post.status)) &&
+    Boolean(post.persona_social_account_id)
+  );
+}
+
+export function CalendarClient({ personas, accounts }: CalendarClientProps) {
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [personaFilter, setPersonaFilter] = useState("");
+  const [posts, setPosts] = useState<CalendarPost[]>([]);
+  const [drafts, setDrafts] = useState<CalendarPost[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingDraft, setPendingDraft] = useState<{
+    post: CalendarPost;
+    day: Date;
+  } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [modalError, setModalError] = useState<string | null>(null);
+  const [refreshNonce, setRefreshNonce] = useState(0);
+
+  const days = useMemo(() => visibleDays(view, anchor), [view, anchor]);
+  const rangeStart = days[0];
+  const rangeEnd = addDays(days[days.length - 1], 1);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    async function loadCalendar() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({
+          from: rangeStart.toISOString(),
+          to: rangeEnd.toISOString(),
+        });
+        const response = await fetch(`/api/campaigns/calendar?${params.toString()}`, {
+          credentials: "include",
+          cache: "no-store",
+        });
+        if (!response.ok) {
+          const payload = await response.json().catch(() => null);
+          throw new Error(payload?.error || "Failed to load calendar.");
+        }
+        const data = (await response.json()) as {
+          posts: CalendarPost[];
+          drafts: CalendarPost[];
+        };
+        if (!isCancelled) {
+          setPosts(data.posts);
+          setDrafts(data.drafts);
+        }
+      } catch (error) {
+        if (!isCancelled) {
+          setError(error instanceof Error ? error.message : "Unexpected error loading calendar.");
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadCalendar();
+
+    return () => {
+      isCancelled = true;
+    };
+    // rangeStart/rangeEnd are derived from view and anchor
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [view, anchor, refreshNonce]);
+
+  const visiblePosts = useMemo(
+    () => posts.filter((post) => !personaFilter || post.persona_id === personaFilter),
+    [posts, personaFilter]
+  );
+  const visibleDrafts = useMemo(
+    () => drafts.filter((post) => !personaFilter || post.persona_id === personaFilter),
+    [drafts, personaFilter]
+  );
+  // Conflicts are per account, so they are computed before the persona filter
+  const conflicts = useMemo(() => findScheduleConflicts(posts), [posts]);
+  const postsById = useMemo(
+    () => new Map([...posts, ...drafts].map((post) => [post.id, post])),
+    [posts, drafts]
+  );
+
+  const schedulePost = useCallback(
+    async (
+      post: CalendarPost,
+      scheduledFor: Date,
+      accountId: string,
+      platformId?: string,
+      confirmDeadLetter?: boolean
+    ) => {
+      const response = await fetch(`/api/campaigns/content/${post.id}/schedule`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          scheduledFor: scheduledFor.toISOString(),
+          personaSocialAccountId: accountId,
+          platformId,
+          confirmDeadLetter,
+        }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to reschedule post.");
+      }
+    },
+    []
+  );
+
+  const handleDropOnDay = async (postId: string, day: Date) => {
+    const post = postsById.get(postId);
+    if (!post) {
+      return;
+    }
+
+    if (post.status === "draft") {
+      setModalError(null);
+      setPendingDraft({ post, day });
+      return;
+    }
+
+    if (!canReschedule(post)) {
+      return;
+    }
+
+    // Dead-lettered posts may have gone out already
+    const confirmDeadLetter = post.status === DEAD_LETTER_STATUS;
+    if (
+      confirmDeadLetter &&
+      !window.confirm(
+        "This post may already be live. Check the platform first. Reschedule it anyway?"
+      )
+    ) {
+      return;
+    }
+
+    const scheduledFor = moveToDay(post.scheduled_for, day);
+    const previous = posts;
+    setError(null);
+    setPosts((prev) =>
+      prev.map((entry) =>
+        entry.id === post.id
+          ? { ...entry, status: "scheduled", scheduled_for: scheduledFor.toISOString() }
+          : entry
+      )
+    );
+
+    try {
+      await schedulePost(
+        post,
+        scheduledFor,
+        post.persona_social_account_id as string,
+        post.platform_id ?? undefined,
+        confirmDeadLetter
+      );
+    } catch (error) {
+      setPosts(previous);
+      setError(error instanceof Error ? error.message : "Failed to reschedule post.");
+    }
+  };
+
+  const handleDropOnTray = async (postId: string) => {
+    const post = postsById.get(postId);
+    if (!post || post.status !== "scheduled") {
+      return;
+    }
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/campaigns/content/${post.id}/unschedule`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to unschedule post.");
+      }
+      setPosts((prev) => prev.filter((entry) => entry.id !== post.id));
+      setDrafts((prev) => [
+        {
+          ...post,
+          status: "draft",
+          scheduled_for: null,
+          persona_social_account_id: null,
+          account_handle: null,
+        },
+        ...prev,
+      ]);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to unschedule post.");
+    }
+  };
+
+  const handleScheduleDraft = async (payload: {
+    scheduledFor: string;
+    personaSocialAccountId: string;
+    platformId?: string;
+  }) => {
+    if (!pendingDraft) {
+      return;
+    }
+
+    setIsSaving(true);
+    setModalError(null);
+    try {
+      await schedulePost(
+        pendingDraft.post,
+        new Date(payload.scheduledFor),
+        payload.personaSocialAccountId,
+        payload.platformId
+      );
+      setPendingDraft(null);
+      setRefreshNonce((prev) => prev + 1);
+    } catch (error) {
+      setModalError(error instanceof Error ? error.message : "Failed to schedule post.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const shift = (direction: 1 | -1) => {
+    setAnchor((prev) => (view === "month" ? addMonths(prev, direction) : addWeeks(prev, direction)));
+  };
+
+  const renderPost = (post: CalendarPost) => {
+    const conflictIds = conflicts.get(post.id);
+    const time = calendarTime(post);
+    const draggable = canReschedule(post) || post.status === "draft";
+    const conflictTitles = (conflictIds ?? [])
+      .map((id) => postsById.get(id)?.title)
+      .filter(Boolean)
+      .join(", ");
+
+    return (
+      <div
+        key={post.id}
+        draggable={draggable}
+        onDragStart={(event) => event.dataTransfer.setData("text/plain", post.id)}
+        title={[
+          `${post.title} — ${post.persona_name} · ${post.campaign_name}`,
+          post.account_handle ? `Account: ${post.account_handle}` : null,
+          `Status: ${post.status}`,
+          post.last_error ? `Error: ${post.last_error}` : null,
+          conflictIds
+            ? `Within ${CONFLICT_WINDOW_MINUTES} minutes of: ${conflictTitles}`
+            : null,
+        ]
+          .filter(Boolean)
+          .join("\n")}
+        className={`rounded-sm border-l-4 bg-surface-container px-1.5 py-1 text-xs ${
+          PLATFORM_COLORS[post.platform_id ?? ""] ?? "border-l-gray-300"
+        } ${conflictIds ? "ring-2 ring-danger" : ""} ${
+          draggable ? "cursor-grab" : "cursor-default"
+        }`}
+      >
+        <div className="flex items-center gap-1">
+          <span
+            className={`h-2 w-2 shrink-0 rounded-full ${STATUS_DOTS[post.status] ?? "bg-gray-500"}`}
+          />
+          {time && <span className="text-text-tertiary">{format(new Date(time), "HH:mm")}</span>}
+          {conflictIds && <AlertTriangle className="h-3 w-3 shrink-0 text-danger" />}
+        </div>
+        <Link
+          href={`/campaigns/${post.campaign_id}/content/${post.id}`}
+          className="line-clamp-2 hover:underline"
+        >
+          {post.title}
+        </Link>
+      </div>
+    );
+  };
+
+  const dropTargetProps = (onDrop: (postId: string) => void) => ({
+    onDragOver: (event: React.DragEvent) => event.preventDefault(),
+    onDrop: (event: React.DragEvent) => {
+      event.preventDefault();
+      const postId = event.dataTransfer.getData("text/plain");
+      if (postId) {
+        onDrop(postId);
+      }
+    },
+  });
+
+  const draftAccounts = pendingDraft
+    ? accounts.filter((account) => account.persona_id === pendingDraft.post.persona_id)
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => shift(-1)} aria-label="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setAnchor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => shift(1)} aria-label="Next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="ml-2 text-lg font-semibold">
+            {view === "month"
+              ? format(anchor, "MMMM yyyy")
+              : `Week of ${format(days[0], "MMM d, yyyy")}`}
+          </h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={personaFilter}
+            onChange={(event) => setPersonaFilter(event.target.value)}
+            className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+          >
+            <option value="">All personas</option>
+            {personas.map((persona) => (
+              <option key={persona.id} value={persona.id}>
+                {persona.display_name}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant={view === "month" ? "default" : "outline"}
+            onClick={() => setView("month")}
+          >
+            Month
+          </Button>
+          <Button
+            variant={view === "week" ? "default" : "outline"}
+            onClick={() => setView("week")}
+          >
+            Week
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-text-tertiary">
+        {Object.entries(STATUS_DOTS).map(([status, color]) => (
+          <span key={status} className="flex items-center gap-1 capitalize">
+            <span className={`h-2 w-2 rounded-full ${color}`} />
+            {status}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <AlertTriangle className="h-3 w-3 text-danger" />
+          Same account within {CONFLICT_WINDOW_MINUTES} min
+        </span>
+        <span>Drag a scheduled post to another day to reschedule it.</span>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-[1fr_16rem]">
+        <div className={isLoading ? "opacity-60" : undefined}>
+          <div className="grid grid-cols-7 gap-px text-center text-xs font-medium text-text-tertiary">
+            {days.slice(0, 7).map((day) => (
+              <div key={day.toISOString()} className="py-1">
+                {format(day, "EEE")}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7 gap-px overflow-hidden rounded-md border border-border bg-border">
+            {days.map((day) => {
+              const dayPosts = visiblePosts
+                .filter((post) => {
+                  const time = calendarTime(post);
+                  return time !== null && isSameDay(new Date(time), day);
+                })
+                .sort(
+                  (a, b) =>
+                    new Date(calendarTime(a) as string).getTime() -
+                    new Date(calendarTime(b) as string).getTime()
+                );
+              return (
+                <div
+                  key={day.toISOString()}
+                  {...dropTargetProps((postId) => handleDropOnDay(postId, day))}
+                  className={`space-y-1 bg-surface p-1.5 ${
+                    view === "week" ? "min-h-[24rem]" : "min-h-[7rem]"
+                  } ${view === "month" && !isSameMonth(day, anchor) ? "opacity-50" : ""}`}
+                >
+                  <div
+                    className={`text-xs ${
+                      isSameDay(day, new Date()) ? "font-bold text-primary" : "text-text-secondary"
+                    }`}
+                  >
+                    {format(day, "d")}
+                  </div>
+                  {dayPosts.map(renderPost)}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div
+          {...dropTargetProps(handleDropOnTray)}
+          className="space-y-2 rounded-md border border-dashed border-border p-3"
+        >
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Unscheduled drafts</h3>
+            <Badge variant="secondary">{visibleDrafts.length}</Badge>
+          </div>
+          <p className="text-xs text-text-tertiary">
+            Drag a draft onto a day to schedule it, or drop a scheduled post here to
+            unschedule it.
+          </p>
+          {visibleDrafts.map(renderPost)}
+        </div>
+      </div>
+
+      <ScheduleModal
+        isOpen={pendingDraft !== null}
+        onClose={() => setPendingDraft(null)}
+        onSave={handleScheduleDraft}
+        accounts={draftAccounts}
+        defaultDate={pendingDraft ? moveToDay(null, pendingDraft.day).toISOString() : null}
+        defaultAccountId={pendingDraft?.post.persona_social_account_id}
+        defaultPlatformId={pendingDraft?.post.platform_id}
+        saving={isSaving}
+        error={modalError}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { notFound } from "next/navigation";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { listSchedulableAccounts } from "@/lib/campaigns/calendarPosts";
+import { CalendarClient } from "./CalendarClient";
+
+export default async function CalendarPage() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return notFound();
+  }
+
+  const [{ data: personas }, accounts] = await Promise.all([
+    supabase
+      .from("personas")
+      .select("id, display_name")
+      .eq("user_id", user.id)
+      .order("display_name", { ascending: true }),
+    listSchedulableAccounts(user.id),
+  ]);
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 px-4 py-8">
+      <div>
+        <h1 className="text-3xl font-bold">Calendar</h1>
+        <p className="text-muted-foreground">
+          Every scheduled and published post across your personas and campaigns.
+        </p>
+      </div>
+      <CalendarClient personas={personas ?? []} accounts={accounts} />
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { PersonaSocialAccount } from "@/types/social";
+import Card, {
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+
+interface CampaignAccountsCardProps {
+  campaignId: string;
+  accounts: PersonaSocialAccount[];
+  assignments: Record<string, string>;
+  onAssignmentsChange: (assignments: Record<string, string>) => void;
+}
+
+function accountLabel(account: PersonaSocialAccount) {
+  return (
+    account.account_handle ??
+    account.provider_username ??
+    account.display_name ??
+    "Unnamed account"
+  );
+}
+
+/**
+ * Picks the account each platform's posts go out on when they don't name
+ * one. Only shown for platforms where the persona has a choice.
+ */
+export function CampaignAccountsCard({
+  campaignId,
+  accounts,
+  assignments,
+  onAssignmentsChange,
+}: CampaignAccountsCardProps) {
+  const [savingPlatform, setSavingPlatform] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const accountsByPlatform = useMemo(() => {
+    const grouped = new Map<string, PersonaSocialAccount[]>();
+    for (const account of accounts) {
+      if (account.status !== "connected") {
+        continue;
+      }
+      grouped.set(account.platform_id, [
+        ...(grouped.get(account.platform_id) ?? []),
+        account,
+      ]);
+    }
+    return Array.from(grouped.entries()).filter(
+      ([, platformAccounts]) => platformAccounts.length > 1
+    );
+  }, [accounts]);
+
+  if (accountsByPlatform.length === 0) {
+    return null;
+  }
+
+  const handleChange = async (platformId: string, accountId: string) => {
+    setError(null);
+    setSavingPlatform(platformId);
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/accounts`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ platformId, accountId: accountId || null }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to save account assignment");
+      }
+      const data = (await response.json()) as {
+        account_assignments: Record<string, string>;
+      };
+      onAssignmentsChange(data.account_assignments);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to save account assignment"
+      );
+    } finally {
+      setSavingPlatform(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Posting accounts</CardTitle>
+        <CardDescription>
+          The account this campaign posts from on each platform, unless a post
+          picks its own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {accountsByPlatform.map(([platformId, platformAccounts]) => {
+          const defaultAccount = platformAccounts.find((account) => account.is_default);
+          const assigned = platformAccounts.some(
+            (account) => account.id === assignments[platformId]
+          )
+            ? assignments[platformId]
+            : "";
+
+          return (
+            <div key={platformId} className="space-y-2">
+              <Label htmlFor={`campaign-account-${platformId}`} className="capitalize">
+                {platformId}
+              </Label>
+              <select
+                id={`campaign-account-${platformId}`}
+                value={assigned}
+                onChange={(event) => handleChange(platformId, event.target.value)}
+                disabled={savingPlatform === platformId}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <option value="">
+                  Persona default
+                  {defaultAccount ? ` (${accountLabel(defaultAccount)})` : ""}
+                </option>
+                {platformAccounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {accountLabel(account)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
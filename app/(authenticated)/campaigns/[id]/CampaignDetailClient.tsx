@@ -17,7 +17,13 @@ import Card, {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { ScheduleModal } from "@/components/scheduler/ScheduleModal";
+import { CampaignAccountsCard } from "./CampaignAccountsCard";
+import { CampaignPerformanceCard } from "./CampaignPerformanceCard";
+import { PostMetrics } from "./PostMetrics";
+import { SimulationPreview } from "./SimulationPreview";
 
 interface CampaignDetailClientProps {
   campaign: Campaign;
@@ -44,6 +50,11 @@ export default function CampaignDetailClient({
   );
   const [scheduleSaving, setScheduleSaving] = useState(false);
   const [actionError, setActionError] = useState<string | null>(null);
+  const [dryRun, setDryRun] = useState(campaign.dry_run);
+  const [dryRunSaving, setDryRunSaving] = useState(false);
+  const [accountAssignments, setAccountAssignments] = useState(
+    campaign.account_assignments
+  );
   const [isGenerating, startGenerateTransition] = useTransition();
 
   useEffect(() => {
@@ -173,12 +184,39 @@ export default function CampaignDetailClient({
     setContentItems((prev) => prev.filter((content) => content.id !== item.id));
   };
 
+  const handleDryRunChange = async (checked: boolean) => {
+    setActionError(null);
+    setDryRunSaving(true);
+    try {
+      const response = await fetch(`/api/campaigns/${campaign.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ dry_run: checked }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to update dry run");
+      }
+      const updated = (await response.json()) as Campaign;
+      setDryRun(updated.dry_run);
+    } catch (error) {
+      setActionError(
+        error instanceof Error ? error.message : "Failed to update dry run"
+      );
+    } finally {
+      setDryRunSaving(false);
+    }
+  };
+
   const statusBadgeVariant = (status: string) => {
     switch (status) {
       case "scheduled":
         return "secondary";
       case "published":
         return "default";
+      case "simulated":
+        return "warning";
       case "failed":
         return "danger";
       default:
@@ -204,10 +242,27 @@ export default function CampaignDetailClient({
             <p className="text-sm text-muted-foreground">Campaign</p>
             <h1 className="text-3xl font-bold">{campaign.name}</h1>
           </div>
-          <Badge variant="outline" className="capitalize text-base">
-            {campaign.status}
-          </Badge>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="campaign-dry-run"
+                checked={dryRun}
+                onCheckedChange={handleDryRunChange}
+                disabled={dryRunSaving}
+              />
+              <Label htmlFor="campaign-dry-run">Dry run</Label>
+            </div>
+            <Badge variant="outline" className="capitalize text-base">
+              {campaign.status}
+            </Badge>
+          </div>
         </div>
+        {dryRun && (
+          <p className="text-sm text-muted-foreground">
+            Dry run is on: scheduled posts are simulated and nothing is sent to
+            the platforms.
+          </p>
+        )}
         <div className="flex flex-wrap gap-3 text-sm text-muted-foreground">
           <span>
             Persona: <span className="font-medium text-foreground">{personaName}</span>
@@ -258,6 +313,18 @@ export default function CampaignDetailClient({
         )}
       </div>
 
+      <CampaignPerformanceCard
+        metrics={campaign.metrics}
+        contentItems={contentItems}
+      />
+
+      <CampaignAccountsCard
+        campaignId={campaign.id}
+        accounts={accounts}
+        assignments={accountAssignments}
+        onAssignmentsChange={setAccountAssignments}
+      />
+
       <Card>
         <CardHeader>
           <CardTitle>Content items</CardTitle>
@@ -320,6 +387,12 @@ export default function CampaignDetailClient({
                       <p>Not scheduled</p>
                     )}
                   </div>
+                  {item.status === "published" && item.metrics && (
+                    <PostMetrics contentId={item.id} metrics={item.metrics} />
+                  )}
+                  {item.status === "simulated" && item.simulation && (
+                    <SimulationPreview simulation={item.simulation} />
+                  )}
                   <div className="mt-4 flex flex-wrap gap-2">
                     <Button
                       variant="outline"
@@ -368,7 +441,13 @@ export default function CampaignDetailClient({
         onSave={handleScheduleSave}
         accounts={accounts}
         defaultDate={scheduleTarget?.scheduled_for}
-        defaultAccountId={scheduleTarget?.persona_social_account_id ?? undefined}
+        defaultAccountId={
+          scheduleTarget?.persona_social_account_id ??
+          (scheduleTarget?.platform_id
+            ? accountAssignments[scheduleTarget.platform_id]
+            : undefined)
+        }
+        defaultPlatformId={scheduleTarget?.platform_id}
         saving={scheduleSaving}
         error={actionError}
       />
@@ -0,0 +1,92 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import type { CampaignPerformance } from "@/lib/publishing";
+import type { CampaignContent } from "@/types/campaign";
+import Card, {
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+interface CampaignPerformanceCardProps {
+  metrics: Record<string, unknown>;
+  contentItems: CampaignContent[];
+}
+
+export function CampaignPerformanceCard({
+  metrics,
+  contentItems,
+}: CampaignPerformanceCardProps) {
+  const performance = metrics.performance as CampaignPerformance | undefined;
+
+  if (!performance || performance.posts_tracked === 0) {
+    return null;
+  }
+
+  const topPost = contentItems.find((item) => item.id === performance.top_post_id);
+  const stats = [
+    { label: "Engagement", value: performance.engagement },
+    { label: "Likes", value: performance.totals.likes },
+    { label: "Comments", value: performance.totals.comments },
+    { label: "Shares", value: performance.totals.shares },
+  ];
+
+  if (performance.totals.impressions > 0) {
+    stats.push({ label: "Impressions", value: performance.totals.impressions });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Performance</CardTitle>
+        <CardDescription>
+          Across {performance.posts_tracked} published{" "}
+          {performance.posts_tracked === 1 ? "post" : "posts"}, updated{" "}
+          {formatDistanceToNow(new Date(performance.updated_at), {
+            addSuffix: true,
+          })}
+          .
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+          {stats.map((stat) => (
+            <div key={stat.label}>
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className="text-2xl font-semibold">
+                {stat.value.toLocaleString()}
+              </p>
+            </div>
+          ))}
+          {performance.average_upvote_ratio !== null && (
+            <div>
+              <p className="text-xs text-muted-foreground">Upvote ratio</p>
+              <p className="text-2xl font-semibold">
+                {Math.round(performance.average_upvote_ratio * 100)}%
+              </p>
+            </div>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(performance.by_platform).map(([platformId, platform]) => (
+            <Badge key={platformId} variant="secondary">
+              {platformId}: {platform.engagement.toLocaleString()} across{" "}
+              {platform.posts}
+            </Badge>
+          ))}
+        </div>
+        {topPost && (
+          <p className="text-sm text-muted-foreground">
+            Top post:{" "}
+            <span className="font-medium text-foreground">
+              {topPost.content_json.title || topPost.content_json.text.slice(0, 80)}
+            </span>
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
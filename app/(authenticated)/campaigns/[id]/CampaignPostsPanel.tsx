@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useTransition } from "react";
+import { useEffect, useMemo, useState, useTransition } from "react";
 import Card, {
   CardContent,
   CardDescription,
@@ -13,10 +13,17 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
+import {
+  accountMismatchReason,
+  isFailedPostStatus,
+  isPublishablePlatform,
+} from "@/lib/publishing";
 
 interface CampaignPostsPanelProps {
   campaignId: string;
   personaId: string;
+  /** The campaign's account per platform, preselected for new posts. */
+  accountAssignments?: Record<string, string>;
 }
 
 interface CampaignPost {
@@ -33,16 +40,48 @@ interface CampaignPost {
   created_at: string;
   error_message: string | null;
   last_error: string | null;
+  retry_count: number;
+  last_attempt_at: string | null;
 }
 
 interface PersonaSocialAccountOption {
   id: string;
+  persona_id: string;
   platform_id: string;
   account_handle: string | null;
+  provider_username: string | null;
   status: string;
+  is_default?: boolean;
   access_token_expires_at: string | null;
 }
 
+function accountOptionLabel(account: PersonaSocialAccountOption) {
+  const name = account.account_handle ?? account.provider_username ?? "N/A";
+  const flags = [account.is_default ? "default" : null, account.status]
+    .filter(Boolean)
+    .join(", ");
+  return `${name} (${flags})`;
+}
+
+/**
+ * The account a new post on `platformId` starts with: the campaign's
+ * account, then the persona's default, then the first one listed.
+ */
+function preferredAccountId(
+  accounts: PersonaSocialAccountOption[],
+  platformId: string,
+  accountAssignments: Record<string, string>
+): string {
+  const platformAccounts = accounts.filter(
+    (account) => account.platform_id === platformId
+  );
+  const preferred =
+    platformAccounts.find((account) => account.id === accountAssignments[platformId]) ??
+    platformAccounts.find((account) => account.is_default) ??
+    platformAccounts[0];
+  return preferred?.id ?? "";
+}
+
 const POST_STATUSES = [
   { value: "draft", label: "Draft" },
   { value: "scheduled", label: "Scheduled" },
@@ -52,6 +91,7 @@ const POST_STATUSES = [
 export function CampaignPostsPanel({
   campaignId,
   personaId,
+  accountAssignments = {},
 }: CampaignPostsPanelProps) {
   const [posts, setPosts] = useState<CampaignPost[]>([]);
   const [accounts, setAccounts] = useState<PersonaSocialAccountOption[]>([]);
@@ -61,6 +101,7 @@ export function CampaignPostsPanel({
   const [formError, setFormError] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
   const [formData, setFormData] = useState({
+    platform_id: "",
     persona_social_account_id: "",
     status: "draft",
     scheduled_for: "",
@@ -68,6 +109,7 @@ export function CampaignPostsPanel({
   });
   const [editingPostId, setEditingPostId] = useState<string | null>(null);
   const [editData, setEditData] = useState({
+    persona_social_account_id: "",
     status: "draft",
     scheduled_for: "",
     content_text: "",
@@ -116,9 +158,15 @@ export function CampaignPostsPanel({
         const data = (await response.json()) as PersonaSocialAccountOption[];
         setAccounts(data);
         if (data.length > 0) {
+          const platformId = data[0].platform_id;
           setFormData((prev) => ({
             ...prev,
-            persona_social_account_id: data[0].id,
+            platform_id: platformId,
+            persona_social_account_id: preferredAccountId(
+              data,
+              platformId,
+              accountAssignments
+            ),
           }));
         }
       } catch (error) {
@@ -133,8 +181,21 @@ export function CampaignPostsPanel({
     }
 
     loadAccounts();
+    // Assignments only pick the initial account; don't refetch when they change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [personaId]);
 
+  const platformOptions = useMemo(
+    () => Array.from(new Set(accounts.map((account) => account.platform_id))),
+    [accounts]
+  );
+
+  const platformAccounts = useMemo(
+    () =>
+      accounts.filter((account) => account.platform_id === formData.platform_id),
+    [accounts, formData.platform_id]
+  );
+
   const handleFormChange = (
     event:
       | React.ChangeEvent<HTMLInputElement>
@@ -148,6 +209,21 @@ export function CampaignPostsPanel({
     setFormData((prev) => ({ ...prev, status: event.target.value }));
   };
 
+  const handlePlatformChange = (
+    event: React.ChangeEvent<HTMLSelectElement>
+  ) => {
+    const platformId = event.target.value;
+    setFormData((prev) => ({
+      ...prev,
+      platform_id: platformId,
+      persona_social_account_id: preferredAccountId(
+        accounts,
+        platformId,
+        accountAssignments
+      ),
+    }));
+  };
+
   const handleAccountChange = (
     event: React.ChangeEvent<HTMLSelectElement>
   ) => {
@@ -166,6 +242,17 @@ export function CampaignPostsPanel({
       return;
     }
 
+    const selectedAccount = accounts.find(
+      (account) => account.id === formData.persona_social_account_id
+    );
+    const accountMismatch = selectedAccount
+      ? accountMismatchReason(selectedAccount, personaId, formData.platform_id)
+      : "Selected account not found";
+    if (!selectedAccount || accountMismatch) {
+      setFormError(accountMismatch);
+      return;
+    }
+
     if (!formData.content_text) {
       setFormError("Content text is required.");
       return;
@@ -173,18 +260,11 @@ export function CampaignPostsPanel({
 
     startTransition(async () => {
       try {
-        const selectedAccount = accounts.find(
-          (account) => account.id === formData.persona_social_account_id
-        );
-        if (!selectedAccount) {
-          throw new Error("Selected account not found");
-        }
-
         const payload = {
           campaign_id: campaignId,
           persona_id: personaId,
           persona_social_account_id: selectedAccount.id,
-          platform_id: selectedAccount.platform_id,
+          platform_id: formData.platform_id,
           status: formData.status,
           scheduled_for: formData.scheduled_for || null,
           content_json: {
@@ -227,6 +307,7 @@ export function CampaignPostsPanel({
   const startEditingPost = (post: CampaignPost) => {
     setEditingPostId(post.id);
     setEditData({
+      persona_social_account_id: post.persona_social_account_id ?? "",
       status: post.status,
       scheduled_for: post.scheduled_for
         ? new Date(post.scheduled_for).toISOString().slice(0, 16)
@@ -238,6 +319,7 @@ export function CampaignPostsPanel({
   const cancelEditing = () => {
     setEditingPostId(null);
     setEditData({
+      persona_social_account_id: "",
       status: "draft",
       scheduled_for: "",
       content_text: "",
@@ -255,7 +337,7 @@ export function CampaignPostsPanel({
     setEditData((prev) => ({ ...prev, [name]: value }));
   };
 
-  const saveEditedPost = async (postId: string) => {
+  const saveEditedPost = async (post: CampaignPost) => {
     setFormError(null);
 
     if (!editData.content_text) {
@@ -263,9 +345,24 @@ export function CampaignPostsPanel({
       return;
     }
 
+    const editedAccount = accounts.find(
+      (account) => account.id === editData.persona_social_account_id
+    );
+    if (editData.persona_social_account_id) {
+      const accountMismatch = editedAccount
+        ? accountMismatchReason(editedAccount, post.persona_id, post.platform_id)
+        : "Selected account not found";
+      if (accountMismatch) {
+        setFormError(accountMismatch);
+        return;
+      }
+    }
+
     try {
       const payload = {
-        id: postId,
+        id: post.id,
+        // An empty choice leaves the pick to the campaign or persona default
+        persona_social_account_id: editData.persona_social_account_id || null,
         status: editData.status,
         scheduled_for: editData.scheduled_for || null,
         content_json: {
@@ -350,7 +447,7 @@ export function CampaignPostsPanel({
       if (!response.ok) {
         const payload = await response.json().catch(() => null);
         throw new Error(
-          payload?.error || "Failed to post to Reddit"
+          payload?.error || "Failed to publish post"
         );
       }
 
@@ -362,7 +459,7 @@ export function CampaignPostsPanel({
       const errorMessage =
         error instanceof Error
           ? error.message
-          : "Unexpected error posting to Reddit";
+          : "Unexpected error publishing post";
       setPostingError(errorMessage);
       setFormError(errorMessage);
     } finally {
@@ -370,9 +467,63 @@ export function CampaignPostsPanel({
     }
   };
 
+  const handleRetryNow = async (postId: string) => {
+    setPostingPostId(postId);
+    setPostingError(null);
+    setFormError(null);
+
+    try {
+      const response = await fetch(`/api/campaigns/content/${postId}/retry`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to retry post");
+      }
+
+      const updatedPost = (await response.json()) as CampaignPost;
+      setPosts((prev) =>
+        prev.map((post) => (post.id === updatedPost.id ? updatedPost : post))
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unexpected error retrying post";
+      setPostingError(errorMessage);
+      setFormError(errorMessage);
+    } finally {
+      setPostingPostId(null);
+    }
+  };
+
+  const postAccountLabel = (post: CampaignPost) => {
+    if (!post.persona_social_account_id) {
+      return "campaign or persona default";
+    }
+    const account = accounts.find(
+      (option) => option.id === post.persona_social_account_id
+    );
+    return account
+      ? account.account_handle ?? account.provider_username ?? "N/A"
+      : "unavailable";
+  };
+
+  // Posts saved before account validation may point at another platform
+  const postAccountMismatch = (post: CampaignPost) => {
+    const account = accounts.find(
+      (option) => option.id === post.persona_social_account_id
+    );
+    return account
+      ? accountMismatchReason(account, post.persona_id, post.platform_id)
+      : null;
+  };
+
   const renderStatusActions = (post: CampaignPost) => {
-    const isReddit = post.platform_id === "reddit";
-    const canPostNow = isReddit && (post.status === "draft" || post.status === "scheduled");
+    const canPostNow =
+      isPublishablePlatform(post.platform_id) &&
+      (post.status === "draft" || post.status === "scheduled");
     const isPosting = postingPostId === post.id;
 
     if (post.status === "draft") {
@@ -385,7 +536,7 @@ export function CampaignPostsPanel({
               onClick={() => handlePostNow(post.id)}
               disabled={isPosting}
             >
-              {isPosting ? "Posting..." : "Post to Reddit now"}
+              {isPosting ? "Posting..." : "Post now"}
             </Button>
           )}
           <Button
@@ -418,7 +569,7 @@ export function CampaignPostsPanel({
               onClick={() => handlePostNow(post.id)}
               disabled={isPosting}
             >
-              {isPosting ? "Posting..." : "Post to Reddit now"}
+              {isPosting ? "Posting..." : "Post now"}
             </Button>
           )}
           <Button
@@ -452,7 +603,7 @@ export function CampaignPostsPanel({
               asChild
             >
               <a href={post.post_url} target="_blank" rel="noopener noreferrer">
-                View on Reddit
+                View post
               </a>
             </Button>
           )}
@@ -467,6 +618,45 @@ export function CampaignPostsPanel({
       );
     }
 
+    if (post.status === "simulated") {
+      return (
+        <div className="flex gap-2 flex-wrap">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updatePostStatus(post.id, "draft")}
+          >
+            Back to Draft
+          </Button>
+        </div>
+      );
+    }
+
+    if (isFailedPostStatus(post.status)) {
+      return (
+        <div className="flex gap-2 flex-wrap">
+          {isPublishablePlatform(post.platform_id) && (
+            <Button
+              variant="default"
+              size="sm"
+              onClick={() => handleRetryNow(post.id)}
+              disabled={isPosting}
+            >
+              {isPosting ? "Retrying..." : "Retry now"}
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updatePostStatus(post.id, "draft")}
+            disabled={isPosting}
+          >
+            Back to Draft
+          </Button>
+        </div>
+      );
+    }
+
     return null;
   };
 
@@ -487,6 +677,26 @@ export function CampaignPostsPanel({
         <CardContent>
           <form className="space-y-4" onSubmit={handleSubmit}>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="platform_id">Platform</Label>
+                <select
+                  id="platform_id"
+                  name="platform_id"
+                  value={formData.platform_id}
+                  onChange={handlePlatformChange}
+                  disabled={loadingAccounts || platformOptions.length === 0}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {platformOptions.length === 0 && (
+                    <option value="">No connected platforms</option>
+                  )}
+                  {platformOptions.map((platform) => (
+                    <option key={platform} value={platform}>
+                      {platform}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="persona_social_account_id">
                   Target account
@@ -496,16 +706,15 @@ export function CampaignPostsPanel({
                   name="persona_social_account_id"
                   value={formData.persona_social_account_id}
                   onChange={handleAccountChange}
-                  disabled={loadingAccounts || accounts.length === 0}
+                  disabled={loadingAccounts || platformAccounts.length === 0}
                   className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
                 >
-                  {accounts.length === 0 && (
+                  {platformAccounts.length === 0 && (
                     <option value="">No connected accounts</option>
                   )}
-                  {accounts.map((account) => (
+                  {platformAccounts.map((account) => (
                     <option key={account.id} value={account.id}>
-                      {account.platform_id} • {account.account_handle ?? "N/A"} (
-                      {account.status})
+                      {accountOptionLabel(account)}
                     </option>
                   ))}
                 </select>
@@ -588,8 +797,11 @@ export function CampaignPostsPanel({
                   className="border rounded-lg p-4 flex flex-col gap-2"
                 >
                   <div className="flex items-center justify-between gap-2 flex-wrap">
-                    <Badge variant="outline" className="capitalize">
-                      {post.status}
+                    <Badge
+                      variant={isFailedPostStatus(post.status) ? "danger" : "outline"}
+                      className="capitalize"
+                    >
+                      {post.status.replace("_", " ")}
                     </Badge>
                     <span className="text-xs text-muted-foreground">
                       Created{" "}
@@ -603,6 +815,7 @@ export function CampaignPostsPanel({
                   </p>
                   <div className="text-xs text-muted-foreground flex gap-4 flex-wrap">
                     <span>Platform: {post.platform_id}</span>
+                    <span>Account: {postAccountLabel(post)}</span>
                     {post.scheduled_for && (
                       <span>
                         Scheduled{" "}
@@ -615,11 +828,28 @@ export function CampaignPostsPanel({
                       </span>
                     )}
                   </div>
+                  {postAccountMismatch(post) && (
+                    <p className="text-xs text-destructive">
+                      {postAccountMismatch(post)}. Pick another account before
+                      publishing.
+                    </p>
+                  )}
                   {(post.error_message || post.last_error) && (
                     <p className="text-xs text-destructive">
                       Error: {post.last_error || post.error_message}
                     </p>
                   )}
+                  {post.retry_count > 0 &&
+                    (post.status === "scheduled" || isFailedPostStatus(post.status)) && (
+                    <p className="text-xs text-muted-foreground">
+                      {post.status === "scheduled" ? "Retrying automatically" : "Gave up"} after{" "}
+                      {post.retry_count} {post.retry_count === 1 ? "retry" : "retries"}
+                      {post.last_attempt_at &&
+                        `, last attempt ${formatDistanceToNow(new Date(post.last_attempt_at), {
+                          addSuffix: true,
+                        })}`}
+                    </p>
+                  )}
                   {postingPostId === post.id && postingError && (
                     <p className="text-xs text-destructive">
                       Posting error: {postingError}
@@ -652,6 +882,31 @@ export function CampaignPostsPanel({
                         />
                       </div>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor={`edit-account-${post.id}`}>
+                            Account
+                          </Label>
+                          <select
+                            id={`edit-account-${post.id}`}
+                            name="persona_social_account_id"
+                            value={editData.persona_social_account_id}
+                            onChange={handleEditChange}
+                            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                          >
+                            <option value="">Campaign or persona default</option>
+                            {accounts
+                              .filter(
+                                (account) =>
+                                  account.platform_id === post.platform_id ||
+                                  account.id === editData.persona_social_account_id
+                              )
+                              .map((account) => (
+                                <option key={account.id} value={account.id}>
+                                  {account.platform_id} • {accountOptionLabel(account)}
+                                </option>
+                              ))}
+                          </select>
+                        </div>
                         <div className="space-y-2">
                           <Label htmlFor={`edit-status-${post.id}`}>
                             Status
@@ -687,7 +942,7 @@ export function CampaignPostsPanel({
                         <Button variant="ghost" onClick={cancelEditing}>
                           Cancel
                         </Button>
-                        <Button onClick={() => saveEditedPost(post.id)}>
+                        <Button onClick={() => saveEditedPost(post)}>
                           Save
                         </Button>
                       </div>
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import type { PostMetricsSnapshot } from "@/lib/publishing";
+import { Button } from "@/components/ui/button";
+
+interface PostMetricsProps {
+  contentId: string;
+  metrics: PostMetricsSnapshot;
+}
+
+function formatCount(value: number | null): string {
+  return value === null ? "–" : value.toLocaleString();
+}
+
+/**
+ * Latest metrics for a published post, with its snapshot history on demand.
+ */
+export function PostMetrics({ contentId, metrics }: PostMetricsProps) {
+  const [history, setHistory] = useState<PostMetricsSnapshot[] | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleHistory = async () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+
+    setIsOpen(true);
+    if (history) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/campaigns/content/${contentId}/metrics`,
+        { credentials: "include" }
+      );
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to load metrics history");
+      }
+      const data = (await response.json()) as { snapshots: PostMetricsSnapshot[] };
+      setHistory(data.snapshots);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to load metrics history"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-muted-foreground">
+        {metrics.score !== null && <span>Score {formatCount(metrics.score)}</span>}
+        {metrics.upvote_ratio !== null && (
+          <span>{Math.round(metrics.upvote_ratio * 100)}% upvoted</span>
+        )}
+        {metrics.likes !== null && metrics.score === null && (
+          <span>Likes {formatCount(metrics.likes)}</span>
+        )}
+        <span>Comments {formatCount(metrics.comments)}</span>
+        {metrics.shares !== null && <span>Shares {formatCount(metrics.shares)}</span>}
+        {metrics.impressions !== null && (
+          <span>Impressions {formatCount(metrics.impressions)}</span>
+        )}
+        <span>
+          as of{" "}
+          {formatDistanceToNow(new Date(metrics.collected_at), { addSuffix: true })}
+        </span>
+        <Button variant="ghost" size="sm" onClick={toggleHistory}>
+          {isOpen ? "Hide history" : "History"}
+        </Button>
+      </div>
+      {isOpen && (
+        <div className="overflow-x-auto rounded-md border border-border">
+          {isLoading ? (
+            <p className="p-2 text-muted-foreground">Loading history...</p>
+          ) : error ? (
+            <p className="p-2 text-destructive">{error}</p>
+          ) : !history || history.length === 0 ? (
+            <p className="p-2 text-muted-foreground">No snapshots yet.</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="p-2 font-medium">Collected</th>
+                  <th className="p-2 font-medium">Score</th>
+                  <th className="p-2 font-medium">Likes</th>
+                  <th className="p-2 font-medium">Comments</th>
+                  <th className="p-2 font-medium">Shares</th>
+                  <th className="p-2 font-medium">Impressions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map((snapshot) => (
+                  <tr key={snapshot.collected_at} className="border-t border-border">
+                    <td className="p-2">
+                      {new Date(snapshot.collected_at).toLocaleString()}
+                    </td>
+                    <td className="p-2">{formatCount(snapshot.score)}</td>
+                    <td className="p-2">{formatCount(snapshot.likes)}</td>
+                    <td className="p-2">{formatCount(snapshot.comments)}</td>
+                    <td className="p-2">{formatCount(snapshot.shares)}</td>
+                    <td className="p-2">{formatCount(snapshot.impressions)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import type { SimulatedPublish } from "@/lib/publishing";
+import { Button } from "@/components/ui/button";
+
+interface SimulationPreviewProps {
+  simulation: SimulatedPublish;
+}
+
+const REASON_LABELS: Record<SimulatedPublish["reason"], string> = {
+  dry_run: "Dry run",
+  no_publisher: "No publisher for this platform",
+};
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * What a simulated post would have sent to its platform.
+ */
+export function SimulationPreview({ simulation }: SimulationPreviewProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { preview, validation } = simulation;
+
+  return (
+    <div className="mt-3 space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-muted-foreground">
+        <span>{REASON_LABELS[simulation.reason]}</span>
+        {preview.target && <span>Target {preview.target}</span>}
+        {simulation.rendered_at && (
+          <span>
+            simulated{" "}
+            {formatDistanceToNow(new Date(simulation.rendered_at), { addSuffix: true })}
+          </span>
+        )}
+        <Button variant="ghost" size="sm" onClick={() => setIsOpen((open) => !open)}>
+          {isOpen ? "Hide preview" : "Preview"}
+        </Button>
+      </div>
+      {validation && !validation.valid && (
+        <p className="text-destructive">Would have been rejected: {validation.error}</p>
+      )}
+      {isOpen && (
+        <div className="space-y-2 rounded-md border border-border p-2">
+          {preview.endpoint && (
+            <p className="font-mono text-muted-foreground">POST {preview.endpoint}</p>
+          )}
+          <dl className="space-y-1">
+            {Object.entries(preview.body).map(([key, value]) => (
+              <div key={key}>
+                <dt className="font-medium">{key}</dt>
+                <dd className="whitespace-pre-wrap text-muted-foreground">
+                  {formatValue(value)}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+}
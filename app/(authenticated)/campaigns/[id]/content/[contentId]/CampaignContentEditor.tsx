@@ -16,6 +16,20 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { ScheduleModal } from "@/components/scheduler/ScheduleModal";
+import {
+  DEAD_LETTER_STATUS,
+  getPlatformPublisher,
+  type PostVisibilityState,
+} from "@/lib/publishing";
+import MediaAttachments from "./MediaAttachments";
+
+const VISIBILITY_LABELS: Record<PostVisibilityState, string> = {
+  visible: "Visible",
+  removed: "Removed",
+  shadow_removed: "Hidden from visitors",
+  not_found: "Not found",
+  unknown: "Visibility unknown",
+};
 
 interface CampaignContentEditorProps {
   campaignId: string;
@@ -43,6 +57,7 @@ export default function CampaignContentEditor({
   const [accountsLoading, setAccountsLoading] = useState(true);
   const [scheduleSaving, setScheduleSaving] = useState(false);
   const [workingContent, setWorkingContent] = useState<CampaignContent>(content);
+  const [platformSaving, setPlatformSaving] = useState(false);
 
   useEffect(() => {
     async function loadAccounts() {
@@ -125,6 +140,17 @@ export default function CampaignContentEditor({
     personaSocialAccountId: string;
     platformId?: string;
   }) => {
+    // Dead-lettered posts may have gone out already
+    const confirmDeadLetter = workingContent.status === DEAD_LETTER_STATUS;
+    if (
+      confirmDeadLetter &&
+      !window.confirm(
+        "This post may already be live. Check the platform first. Reschedule it anyway?"
+      )
+    ) {
+      return;
+    }
+
     setScheduleSaving(true);
     setActionError(null);
     try {
@@ -134,7 +160,7 @@ export default function CampaignContentEditor({
           method: "POST",
           headers: { "Content-Type": "application/json" },
           credentials: "include",
-          body: JSON.stringify(payload),
+          body: JSON.stringify({ ...payload, confirmDeadLetter }),
         }
       );
       if (!response.ok) {
@@ -153,6 +179,34 @@ export default function CampaignContentEditor({
     }
   };
 
+  const handleAddToQueue = async (accountId: string) => {
+    setScheduleSaving(true);
+    setActionError(null);
+    try {
+      const response = await fetch(
+        `/api/social/persona-accounts/${accountId}/queue`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ postId: workingContent.id }),
+        }
+      );
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to add content to queue");
+      }
+      const updated = (await response.json()) as CampaignContent;
+      setWorkingContent(updated);
+    } catch (error) {
+      setActionError(
+        error instanceof Error ? error.message : "Failed to add content to queue"
+      );
+    } finally {
+      setScheduleSaving(false);
+    }
+  };
+
   const handleUnschedule = async () => {
     setActionError(null);
     const response = await fetch(
@@ -171,6 +225,53 @@ export default function CampaignContentEditor({
     setWorkingContent(updated);
   };
 
+  const handlePlatformAction = async (action: "edit" | "delete") => {
+    if (
+      action === "delete" &&
+      !window.confirm("Delete this post from the platform? This can't be undone.")
+    ) {
+      return;
+    }
+
+    setPlatformSaving(true);
+    setActionError(null);
+    try {
+      const response = await fetch(
+        `/api/campaigns/content/${workingContent.id}/platform`,
+        action === "edit"
+          ? {
+              method: "PATCH",
+              headers: { "Content-Type": "application/json" },
+              credentials: "include",
+              body: JSON.stringify({ text: formState.text }),
+            }
+          : { method: "DELETE", credentials: "include" }
+      );
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || `Failed to ${action} post on platform`);
+      }
+      const updated = (await response.json()) as CampaignContent;
+      setWorkingContent(updated);
+      router.refresh();
+    } catch (error) {
+      setActionError(
+        error instanceof Error ? error.message : `Failed to ${action} post on platform`
+      );
+    } finally {
+      setPlatformSaving(false);
+    }
+  };
+
+  const isPublished = workingContent.status === "published";
+  const canEditOnPlatform = Boolean(
+    getPlatformPublisher(workingContent.platform_id)?.editPost
+  );
+
+  const queueAccounts = accounts.filter(
+    (account) => (account.posting_slots?.length ?? 0) > 0
+  );
+
   return (
     <div className="mx-auto max-w-4xl space-y-6 px-4 py-8">
       <div className="space-y-1">
@@ -249,6 +350,90 @@ export default function CampaignContentEditor({
         </CardContent>
       </Card>
 
+      {(isPublished || workingContent.platform_history.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>On {workingContent.platform_id ?? "platform"}</CardTitle>
+            <CardDescription>
+              {workingContent.status === "deleted"
+                ? `Deleted from the platform${
+                    workingContent.deleted_at
+                      ? ` on ${new Date(workingContent.deleted_at).toLocaleString()}`
+                      : ""
+                  }.`
+                : "Changes here go straight to the live post."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {workingContent.visibility && (
+              <div className="flex items-center gap-2">
+                <Badge
+                  variant={workingContent.removed_at ? "danger" : "outline"}
+                >
+                  {VISIBILITY_LABELS[workingContent.visibility.state]}
+                </Badge>
+                <span className="text-sm text-muted-foreground">
+                  {workingContent.visibility.reason
+                    ? `${workingContent.visibility.reason}, checked `
+                    : "Checked "}
+                  {new Date(workingContent.visibility.checked_at).toLocaleString()}
+                </span>
+              </div>
+            )}
+            {workingContent.post_url && (
+              <a
+                href={workingContent.post_url}
+                target="_blank"
+                rel="noreferrer"
+                className="text-sm text-primary underline"
+              >
+                View post
+              </a>
+            )}
+            {isPublished && (
+              <div className="flex flex-wrap gap-2">
+                {canEditOnPlatform ? (
+                  <Button
+                    variant="secondary"
+                    onClick={() => handlePlatformAction("edit")}
+                    disabled={platformSaving || !formState.text}
+                  >
+                    Update text on platform
+                  </Button>
+                ) : (
+                  <span className="text-sm text-muted-foreground">
+                    {workingContent.platform_id} posts can&apos;t be edited once published.
+                  </span>
+                )}
+                <Button
+                  variant="ghost"
+                  onClick={() => handlePlatformAction("delete")}
+                  disabled={platformSaving}
+                >
+                  Delete from platform
+                </Button>
+              </div>
+            )}
+            {workingContent.platform_history.length > 0 && (
+              <ul className="space-y-1 text-sm text-muted-foreground">
+                {workingContent.platform_history.map((entry) => (
+                  <li key={`${entry.action}-${entry.at}`}>
+                    {entry.action === "edited" ? "Text edited" : "Deleted"}{" "}
+                    {new Date(entry.at).toLocaleString()}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <MediaAttachments
+        content={workingContent}
+        personaId={personaId}
+        onChange={setWorkingContent}
+      />
+
       <Card>
         <CardHeader>
           <CardTitle>Schedule</CardTitle>
@@ -276,6 +461,19 @@ export default function CampaignContentEditor({
             >
               {workingContent.scheduled_for ? "Reschedule" : "Schedule"}
             </Button>
+            {workingContent.status !== "published" &&
+              queueAccounts.map((account) => (
+                <Button
+                  key={account.id}
+                  variant="outline"
+                  onClick={() => handleAddToQueue(account.id)}
+                  disabled={scheduleSaving}
+                >
+                  {queueAccounts.length === 1
+                    ? "Add to queue"
+                    : `Add to ${account.account_handle ?? account.platform_id} queue`}
+                </Button>
+              ))}
             {workingContent.scheduled_for && (
               <Button variant="ghost" onClick={handleUnschedule}>
                 Unschedule
@@ -300,6 +498,7 @@ export default function CampaignContentEditor({
         accounts={accounts}
         defaultDate={workingContent.scheduled_for}
         defaultAccountId={workingContent.persona_social_account_id ?? undefined}
+        defaultPlatformId={workingContent.platform_id}
         saving={scheduleSaving}
         error={actionError}
       />
@@ -0,0 +1,352 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Card, {
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  isPublishablePlatform,
+  MEDIA_LIBRARY_MIME_TYPES,
+  PLATFORM_MEDIA_RULES,
+} from "@/lib/publishing";
+import type { MediaFile } from "@/lib/media/library";
+import type { CampaignContent } from "@/types/campaign";
+
+interface MediaAttachmentsProps {
+  content: CampaignContent;
+  personaId: string;
+  onChange: (content: CampaignContent) => void;
+}
+
+function describeRules(platformId: string | null): string {
+  if (!isPublishablePlatform(platformId)) {
+    return "Images are sent with the post when its platform supports them.";
+  }
+  const rules = PLATFORM_MEDIA_RULES[platformId];
+  if (rules.maxItems === 0) {
+    return `${platformId} posts can't carry images yet.`;
+  }
+  const formats = rules.mimeTypes.map((type) => type.replace("image/", "")).join(", ");
+  return `${platformId}: up to ${rules.maxItems} image${rules.maxItems === 1 ? "" : "s"}, ${formats}, ${Math.round(rules.maxBytes / (1024 * 1024))} MB each.`;
+}
+
+export default function MediaAttachments({
+  content,
+  personaId,
+  onChange,
+}: MediaAttachmentsProps) {
+  const [library, setLibrary] = useState<MediaFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [altText, setAltText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const locked = content.status === "published" || content.status === "publishing";
+  const imagePrompt = content.content_json.image_prompt?.trim();
+  const attachedIds = content.media_assets.map((asset) => asset.media_id);
+  const urlsById = new Map(library.map((file) => [file.id, file.url]));
+
+  useEffect(() => {
+    async function loadLibrary() {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/media?personaId=${personaId}`, {
+          credentials: "include",
+        });
+        if (!response.ok) {
+          const payload = await response.json().catch(() => null);
+          throw new Error(payload?.error || "Failed to load media library");
+        }
+        const data = (await response.json()) as { media: MediaFile[] };
+        setLibrary(data.media);
+      } catch (loadError) {
+        setError(
+          loadError instanceof Error ? loadError.message : "Failed to load media library"
+        );
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadLibrary();
+  }, [personaId]);
+
+  const saveAttachments = async (mediaIds: string[]) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/campaigns/content/${content.id}/media`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ mediaIds }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to update media");
+      }
+      onChange((await response.json()) as CampaignContent);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to update media");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      form.append("personaId", personaId);
+      if (altText) {
+        form.append("altText", altText);
+      }
+
+      const response = await fetch("/api/media", {
+        method: "POST",
+        credentials: "include",
+        body: form,
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to upload media");
+      }
+      const uploaded = (await response.json()) as MediaFile;
+      setLibrary((prev) => [uploaded, ...prev]);
+      setAltText("");
+      await saveAttachments([...attachedIds, uploaded.id]);
+    } catch (uploadError) {
+      setError(uploadError instanceof Error ? uploadError.message : "Failed to upload media");
+      setSaving(false);
+    } finally {
+      if (fileInput.current) {
+        fileInput.current.value = "";
+      }
+    }
+  };
+
+  const generateImages = async (replace: boolean) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/campaigns/content/${content.id}/images`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ replace }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to generate images");
+      }
+      const result = (await response.json()) as {
+        content: CampaignContent;
+        media: MediaFile[];
+      };
+      setLibrary((prev) => [...result.media, ...prev]);
+      onChange(result.content);
+    } catch (generateError) {
+      setError(
+        generateError instanceof Error ? generateError.message : "Failed to generate images"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const generateVariations = async (mediaId: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/media/${mediaId}/variations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ count: 2 }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to generate variations");
+      }
+      const data = (await response.json()) as { media: MediaFile[] };
+      setLibrary((prev) => [...data.media, ...prev]);
+    } catch (variationError) {
+      setError(
+        variationError instanceof Error
+          ? variationError.message
+          : "Failed to generate variations"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const generatedIds = new Set(
+    library.filter((file) => file.generation).map((file) => file.id)
+  );
+  const unattached = library.filter((file) => !attachedIds.includes(file.id));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Media</CardTitle>
+        <CardDescription>{describeRules(content.platform_id)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {content.media_assets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No images attached.</p>
+        ) : (
+          <div className="flex flex-wrap gap-3">
+            {content.media_assets.map((asset) => {
+              const url = urlsById.get(asset.media_id);
+              return (
+                <div key={asset.media_id} className="w-32 space-y-1">
+                  {url ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={url}
+                      alt={asset.alt_text ?? asset.file_name}
+                      className="h-32 w-32 rounded-md object-cover"
+                    />
+                  ) : (
+                    <div className="flex h-32 w-32 items-center justify-center rounded-md bg-muted text-xs text-muted-foreground">
+                      {asset.file_name}
+                    </div>
+                  )}
+                  {!locked && (
+                    <div className="flex flex-wrap">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() =>
+                          saveAttachments(attachedIds.filter((id) => id !== asset.media_id))
+                        }
+                      >
+                        Remove
+                      </Button>
+                      {generatedIds.has(asset.media_id) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={saving}
+                          onClick={() => generateVariations(asset.media_id)}
+                          title="Add two variations to your library"
+                        >
+                          Variations
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {!locked && (
+          <>
+            {imagePrompt && (
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  variant="secondary"
+                  disabled={saving}
+                  onClick={() => generateImages(false)}
+                >
+                  Generate from image prompt
+                </Button>
+                {content.media_assets.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    disabled={saving}
+                    onClick={() => generateImages(true)}
+                  >
+                    Regenerate
+                  </Button>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Uses the saved image prompt and the persona&apos;s visual style.
+                </p>
+              </div>
+            )}
+
+            <div className="grid gap-2 sm:grid-cols-[1fr_auto] sm:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="media_alt_text">Alt text for the next upload</Label>
+                <Input
+                  id="media_alt_text"
+                  value={altText}
+                  onChange={(event) => setAltText(event.target.value)}
+                  placeholder="Describe the image for screen readers"
+                />
+              </div>
+              <input
+                ref={fileInput}
+                type="file"
+                accept={MEDIA_LIBRARY_MIME_TYPES.join(",")}
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) {
+                    handleUpload(file);
+                  }
+                }}
+              />
+              <Button
+                variant="secondary"
+                disabled={saving}
+                onClick={() => fileInput.current?.click()}
+              >
+                {saving ? "Saving..." : "Upload image"}
+              </Button>
+            </div>
+
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading library...</p>
+            ) : (
+              unattached.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">From your library</p>
+                  <div className="flex flex-wrap gap-2">
+                    {unattached.map((file) => (
+                      <button
+                        key={file.id}
+                        type="button"
+                        disabled={saving}
+                        onClick={() => saveAttachments([...attachedIds, file.id])}
+                        className="h-20 w-20 overflow-hidden rounded-md border border-border hover:border-primary disabled:opacity-50"
+                        title={`Attach ${file.file_name}`}
+                      >
+                        {file.url ? (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            src={file.url}
+                            alt={file.alt_text ?? file.file_name}
+                            className="h-full w-full object-cover"
+                          />
+                        ) : (
+                          <span className="text-xs text-muted-foreground">{file.file_name}</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,37 +1,323 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
 import Card, {
   CardHeader,
   CardTitle,
   CardDescription,
   CardContent,
 } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import {
+  DASHBOARD_RANGES,
+  loadDashboardAnalytics,
+  type DashboardRange,
+  type RankedEntity,
+} from "@/lib/analytics/dashboard";
+
+interface DashboardPageProps {
+  searchParams: Promise<{ range?: string; persona?: string }>;
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatNumber(value: number, fractionDigits = 0): string {
+  return value.toLocaleString(undefined, {
+    maximumFractionDigits: fractionDigits,
+  });
+}
+
+function dashboardHref(range: DashboardRange, personaId?: string): string {
+  const params = new URLSearchParams({ range });
+  if (personaId) {
+    params.set("persona", personaId);
+  }
+  return `/dashboard?${params.toString()}`;
+}
+
+function RankingTable({
+  entities,
+  hrefFor,
+  emptyLabel,
+}: {
+  entities: RankedEntity[];
+  hrefFor: (id: string) => string;
+  emptyLabel: string;
+}) {
+  if (entities.length === 0) {
+    return <p className="text-body-s text-text-tertiary">{emptyLabel}</p>;
+  }
 
-export default function DashboardPage() {
   return (
-    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-      <h1 className="text-h2 mb-6">Dashboard</h1>
+    <table className="w-full text-left text-body-s">
+      <thead className="text-text-tertiary">
+        <tr>
+          <th className="py-2 font-medium">Name</th>
+          <th className="py-2 font-medium text-right">Posts</th>
+          <th className="py-2 font-medium text-right">Engagement</th>
+          <th className="py-2 font-medium text-right">Per post</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entities.map((entity) => (
+          <tr key={entity.id} className="border-t border-border">
+            <td className="py-2">
+              <Link href={hrefFor(entity.id)} className="underline-offset-4 hover:underline">
+                {entity.name}
+              </Link>
+            </td>
+            <td className="py-2 text-right">{entity.posts}</td>
+            <td className="py-2 text-right">{formatNumber(entity.engagement)}</td>
+            <td className="py-2 text-right">
+              {formatNumber(entity.averageEngagement, 1)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default async function DashboardPage({ searchParams }: DashboardPageProps) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return notFound();
+  }
+
+  const params = await searchParams;
+  const range: DashboardRange =
+    DASHBOARD_RANGES.find((option) => option.value === params.range)?.value ?? "30d";
+
+  const { data: personas } = await supabase
+    .from("personas")
+    .select("id, display_name")
+    .eq("user_id", user.id)
+    .order("display_name", { ascending: true });
+
+  const selectedPersona = personas?.find((persona) => persona.id === params.persona);
+  const analytics = await loadDashboardAnalytics(user.id, {
+    range,
+    personaId: selectedPersona?.id,
+  });
+
+  const stats = [
+    { label: "Posts published", value: formatNumber(analytics.totals.published) },
+    { label: "Engagement", value: formatNumber(analytics.totals.engagement) },
+    { label: "Failed posts", value: formatNumber(analytics.totals.failed) },
+    { label: "Failure rate", value: formatPercent(analytics.totals.failureRate) },
+  ];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-h2">Dashboard</h1>
+          <p className="text-body-m text-text-secondary">
+            {selectedPersona
+              ? `How ${selectedPersona.display_name} is performing.`
+              : "How your personas and campaigns are performing."}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {DASHBOARD_RANGES.map((option) => (
+            <Link
+              key={option.value}
+              href={dashboardHref(option.value, selectedPersona?.id)}
+              className={
+                option.value === range
+                  ? "rounded-md bg-primary px-3 py-1.5 text-body-s text-text-on-primary"
+                  : "rounded-md border border-border px-3 py-1.5 text-body-s text-text-secondary"
+              }
+            >
+              {option.label}
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      {(personas?.length ?? 0) > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-body-s text-text-tertiary">Persona:</span>
+          <Link href={dashboardHref(range)}>
+            <Badge variant={selectedPersona ? "outline" : "default"}>All</Badge>
+          </Link>
+          {personas?.map((persona) => (
+            <Link key={persona.id} href={dashboardHref(range, persona.id)}>
+              <Badge variant={selectedPersona?.id === persona.id ? "default" : "outline"}>
+                {persona.display_name}
+              </Badge>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {stats.map((stat) => (
+          <Card key={stat.label} variant="outlined" padding="md">
+            <p className="text-body-s text-text-tertiary">{stat.label}</p>
+            <p className="text-h3">{stat.value}</p>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        {!selectedPersona && (
+          <Card variant="elevated" padding="lg">
+            <CardHeader>
+              <CardTitle>Personas</CardTitle>
+              <CardDescription>Ranked by engagement on posts published in range.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RankingTable
+                entities={analytics.personas}
+                hrefFor={(id) => dashboardHref(range, id)}
+                emptyLabel="No published posts in this range."
+              />
+            </CardContent>
+          </Card>
+        )}
+        <Card variant="elevated" padding="lg">
+          <CardHeader>
+            <CardTitle>Campaigns</CardTitle>
+            <CardDescription>Ranked by engagement on posts published in range.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RankingTable
+              entities={analytics.campaigns}
+              hrefFor={(id) => `/campaigns/${id}`}
+              emptyLabel="No published posts in this range."
+            />
+          </CardContent>
+        </Card>
+      </div>
+
       <Card variant="elevated" padding="lg">
         <CardHeader>
-          <CardTitle>Welcome to your dashboard</CardTitle>
-          <CardDescription>
-            Overview of your AI influencer management
-          </CardDescription>
+          <CardTitle>Top posts</CardTitle>
+          <CardDescription>Using the latest collected metrics for each post.</CardDescription>
         </CardHeader>
         <CardContent>
-          <p className="text-body-m text-text-secondary mb-4">
-            Dashboard content will be implemented here.
-          </p>
-          <p className="text-body-s text-text-tertiary mb-2">
-            This page will display:
-          </p>
-          <ul className="list-disc list-inside space-y-1 text-body-s text-text-tertiary ml-4">
-            <li>Overview of all personas</li>
-            <li>Upcoming scheduled posts</li>
-            <li>Recent analytics</li>
-            <li>Quick actions</li>
-          </ul>
+          {analytics.topPosts.length === 0 ? (
+            <p className="text-body-s text-text-tertiary">
+              No metrics collected for posts in this range yet.
+            </p>
+          ) : (
+            <ol className="space-y-3">
+              {analytics.topPosts.map((post, index) => (
+                <li key={post.id} className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <p className="text-body-m">
+                      <span className="text-text-tertiary">{index + 1}.</span>{" "}
+                      <Link
+                        href={`/campaigns/${post.campaignId}`}
+                        className="underline-offset-4 hover:underline"
+                      >
+                        {post.title}
+                      </Link>
+                    </p>
+                    <p className="text-body-s text-text-tertiary">
+                      {post.personaName} · {post.campaignName} ·{" "}
+                      {new Date(post.postedAt).toLocaleDateString()}
+                      {post.postUrl && (
+                        <>
+                          {" · "}
+                          <a
+                            href={post.postUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="underline underline-offset-4"
+                          >
+                            View post
+                          </a>
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    {post.platformId && <Badge variant="secondary">{post.platformId}</Badge>}
+                    <span className="text-body-m font-semibold">
+                      {formatNumber(post.engagement)}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
         </CardContent>
       </Card>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Card variant="elevated" padding="lg">
+          <CardHeader>
+            <CardTitle>Posting cadence</CardTitle>
+            <CardDescription>Published posts per platform, by week.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {analytics.cadence.length === 0 ? (
+              <p className="text-body-s text-text-tertiary">Nothing published in this range.</p>
+            ) : (
+              analytics.cadence.map((platform) => {
+                const busiestWeek = Math.max(...platform.weeks.map((week) => week.posts));
+                return (
+                  <div key={platform.platformId} className="space-y-2">
+                    <div className="flex items-center justify-between text-body-s">
+                      <span className="font-medium">{platform.platformId}</span>
+                      <span className="text-text-tertiary">
+                        {platform.posts} posts · {formatNumber(platform.postsPerWeek, 1)}/week
+                      </span>
+                    </div>
+                    <div className="flex h-12 items-end gap-1">
+                      {platform.weeks.map((week) => (
+                        <div
+                          key={week.weekStart}
+                          title={`Week of ${week.weekStart}: ${week.posts} posts`}
+                          className="flex-1 rounded-sm bg-primary opacity-70"
+                          style={{ height: `${(week.posts / busiestWeek) * 100}%` }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+
+        <Card variant="elevated" padding="lg">
+          <CardHeader>
+            <CardTitle>Failures</CardTitle>
+            <CardDescription>Failed publish attempts per platform.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {analytics.failures.length === 0 ? (
+              <p className="text-body-s text-text-tertiary">No publish attempts in this range.</p>
+            ) : (
+              analytics.failures.map((platform) => (
+                <div key={platform.platformId} className="space-y-1">
+                  <div className="flex items-center justify-between text-body-s">
+                    <span className="font-medium">{platform.platformId}</span>
+                    <Badge variant={platform.failed > 0 ? "danger" : "success"}>
+                      {platform.failed}/{platform.attempts} failed (
+                      {formatPercent(platform.failureRate)})
+                    </Badge>
+                  </div>
+                  {platform.topErrors.map((error) => (
+                    <p key={error.message} className="text-body-s text-text-tertiary">
+                      {error.count}× {error.message}
+                    </p>
+                  ))}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
     </div>
   );
 }
-
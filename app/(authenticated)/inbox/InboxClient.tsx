@@ -0,0 +1,343 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Card, {
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { formatDistanceToNow } from "date-fns";
+import type {
+  EngagementInboxItem,
+  EngagementItem,
+  EngagementItemStatus,
+} from "@/types/social";
+
+interface InboxClientProps {
+  personas: { id: string; display_name: string }[];
+  initialItems: EngagementInboxItem[];
+}
+
+const STATUS_TABS: { value: EngagementItemStatus; label: string }[] = [
+  { value: "unreviewed", label: "Unreviewed" },
+  { value: "suggested_reply_ready", label: "Reply ready" },
+  { value: "replied", label: "Replied" },
+  { value: "skipped", label: "Skipped" },
+];
+
+export function InboxClient({ personas, initialItems }: InboxClientProps) {
+  const [status, setStatus] = useState<EngagementItemStatus>("unreviewed");
+  const [personaId, setPersonaId] = useState("");
+  const [items, setItems] = useState<EngagementInboxItem[]>(initialItems);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isInitialLoad = useRef(true);
+
+  useEffect(() => {
+    // The server already rendered the default view
+    if (isInitialLoad.current) {
+      isInitialLoad.current = false;
+      return;
+    }
+
+    async function loadItems() {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ status });
+        if (personaId) {
+          params.set("personaId", personaId);
+        }
+        const response = await fetch(
+          `/api/engagement/items?${params.toString()}`,
+          { credentials: "include" }
+        );
+        if (!response.ok) {
+          throw new Error("Failed to load engagement items");
+        }
+        const data = (await response.json()) as { items: EngagementInboxItem[] };
+        setItems(data.items);
+      } catch (error) {
+        setError(
+          error instanceof Error
+            ? error.message
+            : "Unexpected error loading engagement items."
+        );
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadItems();
+  }, [status, personaId]);
+
+  // Items that moved to another status drop out of the current tab
+  const applyUpdate = (updated: EngagementItem) => {
+    setItems((prev) =>
+      updated.status === status
+        ? prev.map((item) =>
+            item.id === updated.id ? { ...item, ...updated } : item
+          )
+        : prev.filter((item) => item.id !== updated.id)
+    );
+  };
+
+  const runItemAction = async (
+    itemId: string,
+    url: string,
+    init: RequestInit,
+    fallbackError: string
+  ) => {
+    setBusyItemId(itemId);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || fallbackError);
+      }
+
+      const data = (await response.json()) as { item: EngagementItem };
+      applyUpdate(data.item);
+      return data.item;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : fallbackError);
+      return null;
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handleSuggest = async (itemId: string) => {
+    const updated = await runItemAction(
+      itemId,
+      `/api/engagement/items/${itemId}/suggest`,
+      { method: "POST" },
+      "Failed to generate a suggested reply"
+    );
+    if (updated?.ai_suggested_reply) {
+      setDrafts((prev) => ({ ...prev, [itemId]: updated.ai_suggested_reply! }));
+    }
+  };
+
+  const handleReply = async (item: EngagementInboxItem) => {
+    const text = drafts[item.id] ?? item.ai_suggested_reply ?? "";
+    await runItemAction(
+      item.id,
+      `/api/engagement/items/${item.id}/reply`,
+      { method: "POST", body: JSON.stringify({ text }) },
+      "Failed to send reply"
+    );
+  };
+
+  const handleStatusChange = async (
+    itemId: string,
+    nextStatus: "skipped" | "unreviewed"
+  ) => {
+    await runItemAction(
+      itemId,
+      `/api/engagement/items/${itemId}`,
+      { method: "PATCH", body: JSON.stringify({ status: nextStatus }) },
+      "Failed to update engagement item"
+    );
+  };
+
+  const renderActions = (item: EngagementInboxItem) => {
+    const isBusy = busyItemId === item.id;
+    const draft = drafts[item.id] ?? item.ai_suggested_reply ?? "";
+
+    if (item.status === "replied") {
+      return (
+        <div className="space-y-2 rounded-md bg-muted/50 p-3 text-sm">
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <span>Your reply</span>
+            {item.reply_mode && (
+              <Badge variant="outline" className="capitalize">
+                {item.reply_mode.replace("_", " ")}
+              </Badge>
+            )}
+          </div>
+          <p className="whitespace-pre-wrap">{item.final_reply}</p>
+        </div>
+      );
+    }
+
+    if (item.status === "skipped") {
+      return (
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleStatusChange(item.id, "unreviewed")}
+            disabled={isBusy}
+          >
+            Move to Unreviewed
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor={`reply-${item.id}`}>Reply</Label>
+          <Textarea
+            id={`reply-${item.id}`}
+            value={draft}
+            onChange={(event) =>
+              setDrafts((prev) => ({ ...prev, [item.id]: event.target.value }))
+            }
+            placeholder="Write a reply or generate one in the persona's voice"
+            rows={4}
+            disabled={isBusy}
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            onClick={() => handleReply(item)}
+            disabled={isBusy || draft.trim().length === 0}
+          >
+            {isBusy ? "Working..." : "Send reply"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleSuggest(item.id)}
+            disabled={isBusy}
+          >
+            {item.ai_suggested_reply ? "Regenerate suggestion" : "Suggest reply"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleStatusChange(item.id, "skipped")}
+            disabled={isBusy}
+          >
+            Skip
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div className="flex flex-wrap gap-2">
+          {STATUS_TABS.map((tab) => (
+            <Button
+              key={tab.value}
+              variant={status === tab.value ? "default" : "outline"}
+              size="sm"
+              onClick={() => setStatus(tab.value)}
+            >
+              {tab.label}
+            </Button>
+          ))}
+        </div>
+        <select
+          aria-label="Filter by persona"
+          value={personaId}
+          onChange={(event) => setPersonaId(event.target.value)}
+          className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring md:w-56"
+        >
+          <option value="">All personas</option>
+          {personas.map((persona) => (
+            <option key={persona.id} value={persona.id}>
+              {persona.display_name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <Card className="border-destructive/50 bg-destructive/5">
+          <CardContent className="p-4 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading engagement...</p>
+      ) : items.length === 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Nothing here</CardTitle>
+            <CardDescription>
+              New comments on published posts show up here after the next
+              engagement sync.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {items.map((item) => {
+            const permalink =
+              typeof item.platform_context?.permalink === "string"
+                ? item.platform_context.permalink
+                : null;
+
+            return (
+              <Card key={item.id}>
+                <CardHeader className="space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <CardTitle className="text-base">
+                      {item.author_handle ?? "Unknown author"}
+                    </CardTitle>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">{item.platform_id}</Badge>
+                      {item.priority > 0 && (
+                        <Badge variant="warning">
+                          {item.priority >= 2 ? "Reply to persona" : "Top-level"}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <CardDescription className="flex flex-wrap items-center gap-2 text-sm">
+                    <span>
+                      {item.persona_name}
+                      {item.account_handle ? ` • ${item.account_handle}` : ""}
+                    </span>
+                    <span>
+                      {formatDistanceToNow(new Date(item.received_at), {
+                        addSuffix: true,
+                      })}
+                    </span>
+                    {permalink && (
+                      <a
+                        href={permalink}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline"
+                      >
+                        View thread
+                      </a>
+                    )}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="whitespace-pre-wrap text-sm">
+                    {item.content_text ?? ""}
+                  </p>
+                  {renderActions(item)}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { notFound } from "next/navigation";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { listEngagementInboxItems } from "@/lib/social/engagementInbox";
+import { InboxClient } from "./InboxClient";
+
+export default async function InboxPage() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return notFound();
+  }
+
+  const [{ data: personas }, items] = await Promise.all([
+    supabase
+      .from("personas")
+      .select("id, display_name")
+      .eq("user_id", user.id)
+      .order("display_name", { ascending: true }),
+    listEngagementInboxItems(user.id, { status: "unreviewed" }),
+  ]);
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 px-4 py-8">
+      <div>
+        <h1 className="text-3xl font-bold">Inbox</h1>
+        <p className="text-muted-foreground">
+          Comments on your personas&apos; posts, with replies drafted in each
+          persona&apos;s voice.
+        </p>
+      </div>
+      <InboxClient personas={personas ?? []} initialItems={items} />
+    </div>
+  );
+}
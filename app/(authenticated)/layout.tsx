@@ -1,5 +1,14 @@
-import { LayoutDashboard, Users, Search, FileText } from "lucide-react";
+import {
+  LayoutDashboard,
+  Users,
+  Search,
+  FileText,
+  Inbox,
+  CalendarDays,
+  Activity,
+} from "lucide-react";
 import { getServerUser } from "@/lib/auth/getServerUser";
+import { isAdminUser } from "@/lib/auth/admin";
 import AuthenticatedLayoutClient from "@/components/auth/AuthenticatedLayoutClient";
 
 export default async function AuthenticatedLayout({
@@ -8,7 +17,7 @@ export default async function AuthenticatedLayout({
   children: React.ReactNode;
 }>) {
   // Verify user is authenticated - redirects to /auth/login if not
-  await getServerUser();
+  const user = await getServerUser();
 
   const sidebarItems = [
     {
@@ -21,6 +30,16 @@ export default async function AuthenticatedLayout({
       href: "/personas",
       icon: <Users className="h-5 w-5" />,
     },
+    {
+      label: "Inbox",
+      href: "/inbox",
+      icon: <Inbox className="h-5 w-5" />,
+    },
+    {
+      label: "Calendar",
+      href: "/calendar",
+      icon: <CalendarDays className="h-5 w-5" />,
+    },
     {
       label: "Resonance Research",
       href: "/resonance",
@@ -31,6 +50,15 @@ export default async function AuthenticatedLayout({
       href: "/linkedin-persona-analysis",
       icon: <FileText className="h-5 w-5" />,
     },
+    ...(isAdminUser(user)
+      ? [
+          {
+            label: "Scheduler",
+            href: "/admin/scheduler",
+            icon: <Activity className="h-5 w-5" />,
+          },
+        ]
+      : []),
   ];
 
   return (
@@ -0,0 +1,394 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Modal, ModalFooter } from "@/components/ui/modal";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import Badge from "@/components/ui/badge";
+import { formatDistanceToNow } from "date-fns";
+import type {
+  EngagementPolicyDecision,
+  EngagementReplyPolicy,
+} from "@/types/social";
+
+interface AutoReplyPolicyModalProps {
+  accountId: string;
+  accountLabel: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface PolicyFormState {
+  enabled: boolean;
+  auto_reply_keywords: string;
+  review_keywords: string;
+  skip_keywords: string;
+  author_allowlist: string;
+  author_denylist: string;
+  max_auto_replies_per_hour: string;
+  min_sentiment_for_auto_reply: string;
+  skip_below_sentiment: string;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  timezone: string;
+  forbidden_phrases: string;
+}
+
+const LIST_FIELDS: {
+  key: keyof PolicyFormState;
+  label: string;
+  hint: string;
+}[] = [
+  {
+    key: "auto_reply_keywords",
+    label: "Auto-reply keywords",
+    hint: "Only auto-reply when one of these appears. Leave empty for any comment.",
+  },
+  {
+    key: "review_keywords",
+    label: "Review keywords",
+    hint: "Always send these to the inbox.",
+  },
+  {
+    key: "skip_keywords",
+    label: "Skip keywords",
+    hint: "Always skip, e.g. spam phrases.",
+  },
+  {
+    key: "author_allowlist",
+    label: "Author allow list",
+    hint: "Only auto-reply to these handles. Leave empty for anyone.",
+  },
+  {
+    key: "author_denylist",
+    label: "Author deny list",
+    hint: "Always skip these handles.",
+  },
+  {
+    key: "forbidden_phrases",
+    label: "Forbidden phrases in replies",
+    hint: "Auto-replies containing these go to the inbox instead.",
+  },
+];
+
+function toFormState(policy: EngagementReplyPolicy | null): PolicyFormState {
+  const guardrails = (policy?.guardrails ?? {}) as { forbiddenPhrases?: string[] };
+
+  return {
+    enabled: policy?.enabled ?? false,
+    auto_reply_keywords: (policy?.auto_reply_keywords ?? []).join(", "),
+    review_keywords: (policy?.review_keywords ?? []).join(", "),
+    skip_keywords: (policy?.skip_keywords ?? []).join(", "),
+    author_allowlist: (policy?.author_allowlist ?? []).join(", "),
+    author_denylist: (policy?.author_denylist ?? []).join(", "),
+    max_auto_replies_per_hour: String(policy?.max_auto_replies_per_hour ?? 5),
+    min_sentiment_for_auto_reply: String(policy?.min_sentiment_for_auto_reply ?? 0),
+    skip_below_sentiment:
+      policy?.skip_below_sentiment !== null && policy?.skip_below_sentiment !== undefined
+        ? String(policy.skip_below_sentiment)
+        : "",
+    quiet_hours_start:
+      policy?.quiet_hours_start !== null && policy?.quiet_hours_start !== undefined
+        ? String(policy.quiet_hours_start)
+        : "",
+    quiet_hours_end:
+      policy?.quiet_hours_end !== null && policy?.quiet_hours_end !== undefined
+        ? String(policy.quiet_hours_end)
+        : "",
+    timezone:
+      policy?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone ?? "UTC",
+    forbidden_phrases: (guardrails.forbiddenPhrases ?? []).join(", "),
+  };
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+function toOptionalNumber(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+function toPayload(form: PolicyFormState) {
+  const forbiddenPhrases = splitList(form.forbidden_phrases);
+
+  return {
+    enabled: form.enabled,
+    auto_reply_keywords: splitList(form.auto_reply_keywords),
+    review_keywords: splitList(form.review_keywords),
+    skip_keywords: splitList(form.skip_keywords),
+    author_allowlist: splitList(form.author_allowlist),
+    author_denylist: splitList(form.author_denylist),
+    max_auto_replies_per_hour: Number(form.max_auto_replies_per_hour),
+    min_sentiment_for_auto_reply: Number(form.min_sentiment_for_auto_reply),
+    skip_below_sentiment: toOptionalNumber(form.skip_below_sentiment),
+    quiet_hours_start: toOptionalNumber(form.quiet_hours_start),
+    quiet_hours_end: toOptionalNumber(form.quiet_hours_end),
+    timezone: form.timezone.trim(),
+    guardrails: forbiddenPhrases.length > 0 ? { forbiddenPhrases } : {},
+  };
+}
+
+const DECISION_VARIANTS: Record<string, "success" | "warning" | "secondary"> = {
+  auto_reply: "success",
+  review: "warning",
+  skip: "secondary",
+};
+
+export function AutoReplyPolicyModal({
+  accountId,
+  accountLabel,
+  isOpen,
+  onClose,
+}: AutoReplyPolicyModalProps) {
+  const [form, setForm] = useState<PolicyFormState>(() => toFormState(null));
+  const [decisions, setDecisions] = useState<EngagementPolicyDecision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let isCancelled = false;
+
+    async function loadPolicy() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(
+          `/api/social/persona-accounts/${accountId}/reply-policy`,
+          { credentials: "include", cache: "no-store" }
+        );
+        if (!response.ok) {
+          const payload = await response.json().catch(() => null);
+          throw new Error(payload?.error || "Failed to load auto-reply rules.");
+        }
+        const data = (await response.json()) as {
+          policy: EngagementReplyPolicy | null;
+          decisions: EngagementPolicyDecision[];
+        };
+        if (isCancelled) {
+          return;
+        }
+        setForm(toFormState(data.policy));
+        setDecisions(data.decisions);
+      } catch (error) {
+        if (!isCancelled) {
+          setError(
+            error instanceof Error
+              ? error.message
+              : "Unexpected error loading auto-reply rules."
+          );
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadPolicy();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [accountId, isOpen]);
+
+  const updateField = (key: keyof PolicyFormState, value: string | boolean) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/social/persona-accounts/${accountId}/reply-policy`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify(toPayload(form)),
+        }
+      );
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to save auto-reply rules.");
+      }
+      onClose();
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Unexpected error saving auto-reply rules."
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Auto-reply rules"
+      description={`Decide which comments on ${accountLabel} get an automatic reply in the persona's voice, go to the inbox, or are skipped.`}
+      size="lg"
+    >
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading rules...</p>
+      ) : (
+        <div className="space-y-4">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="auto-reply-enabled">Enable auto-replies</Label>
+            <Switch
+              id="auto-reply-enabled"
+              checked={form.enabled}
+              onCheckedChange={(checked) => updateField("enabled", checked)}
+            />
+          </div>
+
+          {LIST_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`policy-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`policy-${field.key}`}
+                value={form[field.key] as string}
+                onChange={(event) => updateField(field.key, event.target.value)}
+                placeholder="Comma-separated"
+              />
+              <p className="text-xs text-muted-foreground">{field.hint}</p>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="policy-max-per-hour">Max auto-replies per hour</Label>
+              <Input
+                id="policy-max-per-hour"
+                type="number"
+                min={0}
+                max={60}
+                value={form.max_auto_replies_per_hour}
+                onChange={(event) =>
+                  updateField("max_auto_replies_per_hour", event.target.value)
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="policy-min-sentiment">Min sentiment to auto-reply</Label>
+              <Input
+                id="policy-min-sentiment"
+                type="number"
+                min={-1}
+                max={1}
+                step={0.1}
+                value={form.min_sentiment_for_auto_reply}
+                onChange={(event) =>
+                  updateField("min_sentiment_for_auto_reply", event.target.value)
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="policy-skip-sentiment">Skip below sentiment</Label>
+              <Input
+                id="policy-skip-sentiment"
+                type="number"
+                min={-1}
+                max={1}
+                step={0.1}
+                value={form.skip_below_sentiment}
+                onChange={(event) =>
+                  updateField("skip_below_sentiment", event.target.value)
+                }
+                placeholder="Off"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="policy-quiet-start">Quiet hours start</Label>
+              <Input
+                id="policy-quiet-start"
+                type="number"
+                min={0}
+                max={23}
+                value={form.quiet_hours_start}
+                onChange={(event) =>
+                  updateField("quiet_hours_start", event.target.value)
+                }
+                placeholder="e.g. 22"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="policy-quiet-end">Quiet hours end</Label>
+              <Input
+                id="policy-quiet-end"
+                type="number"
+                min={0}
+                max={23}
+                value={form.quiet_hours_end}
+                onChange={(event) => updateField("quiet_hours_end", event.target.value)}
+                placeholder="e.g. 7"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="policy-timezone">Timezone</Label>
+              <Input
+                id="policy-timezone"
+                value={form.timezone}
+                onChange={(event) => updateField("timezone", event.target.value)}
+              />
+            </div>
+          </div>
+
+          {decisions.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Recent decisions</h3>
+              <ul className="space-y-2 text-xs">
+                {decisions.map((decision) => (
+                  <li key={decision.id} className="flex items-start gap-2">
+                    <Badge
+                      variant={DECISION_VARIANTS[decision.decision] ?? "secondary"}
+                      className="shrink-0"
+                    >
+                      {decision.decision.replace("_", " ")}
+                    </Badge>
+                    <span className="text-muted-foreground">
+                      {decision.reasons.join("; ")}
+                      {decision.outcome !== "applied" && ` (${decision.outcome.replace(/_/g, " ")})`}
+                      {" · "}
+                      {formatDistanceToNow(new Date(decision.created_at), {
+                        addSuffix: true,
+                      })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <ModalFooter>
+            <Button variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save rules"}
+            </Button>
+          </ModalFooter>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import { Modal, ModalFooter } from "@/components/ui/modal";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { CampaignContent } from "@/types/campaign";
+import type { PostingSlot } from "@/types/social";
+
+interface PostingQueueModalProps {
+  accountId: string;
+  accountLabel: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export function PostingQueueModal({
+  accountId,
+  accountLabel,
+  isOpen,
+  onClose,
+}: PostingQueueModalProps) {
+  const [slots, setSlots] = useState<PostingSlot[]>([]);
+  const [timezone, setTimezone] = useState("UTC");
+  const [posts, setPosts] = useState<CampaignContent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isReordering, setIsReordering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let isCancelled = false;
+
+    async function loadQueue() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/social/persona-accounts/${accountId}/queue`, {
+          credentials: "include",
+          cache: "no-store",
+        });
+        if (!response.ok) {
+          const payload = await response.json().catch(() => null);
+          throw new Error(payload?.error || "Failed to load posting queue.");
+        }
+        const data = (await response.json()) as {
+          slots: PostingSlot[];
+          timezone: string;
+          posts: CampaignContent[];
+        };
+        if (isCancelled) {
+          return;
+        }
+        setSlots(data.slots);
+        setTimezone(data.timezone);
+        setPosts(data.posts);
+      } catch (error) {
+        if (!isCancelled) {
+          setError(
+            error instanceof Error ? error.message : "Unexpected error loading posting queue."
+          );
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadQueue();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [accountId, isOpen]);
+
+  const updateSlot = (index: number, changes: Partial<PostingSlot>) => {
+    setSlots((prev) =>
+      prev.map((slot, slotIndex) => (slotIndex === index ? { ...slot, ...changes } : slot))
+    );
+  };
+
+  const handleSaveSlots = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/social/persona-accounts/${accountId}/posting-slots`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ slots }),
+        }
+      );
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to save posting slots.");
+      }
+      const data = (await response.json()) as { slots: PostingSlot[] };
+      setSlots(data.slots);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Unexpected error saving posting slots."
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= posts.length) {
+      return;
+    }
+
+    const reordered = [...posts];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    setIsReordering(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/social/persona-accounts/${accountId}/queue`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ postIds: reordered.map((post) => post.id) }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || "Failed to reorder queue.");
+      }
+      const data = (await response.json()) as { posts: CampaignContent[] };
+      setPosts(data.posts);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unexpected error reordering queue.");
+    } finally {
+      setIsReordering(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Posting queue"
+      description={`Weekly slots for ${accountLabel}. "Add to queue" on a post fills the next free slot.`}
+      size="lg"
+    >
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading queue...</p>
+      ) : (
+        <div className="space-y-6">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold">Slots</h3>
+              <span className="text-xs text-muted-foreground">Times in {timezone}</span>
+            </div>
+            {slots.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No slots yet. Add one to start queueing posts.
+              </p>
+            )}
+            {slots.map((slot, index) => (
+              <div key={index} className="flex items-end gap-2">
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor={`slot-day-${index}`}>Day</Label>
+                  <select
+                    id={`slot-day-${index}`}
+                    value={slot.day_of_week}
+                    onChange={(event) =>
+                      updateSlot(index, { day_of_week: Number(event.target.value) })
+                    }
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    {DAY_NAMES.map((name, day) => (
+                      <option key={name} value={day}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor={`slot-time-${index}`}>Time</Label>
+                  <Input
+                    id={`slot-time-${index}`}
+                    type="time"
+                    value={slot.time}
+                    onChange={(event) => updateSlot(index, { time: event.target.value })}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove slot"
+                  onClick={() =>
+                    setSlots((prev) => prev.filter((_, slotIndex) => slotIndex !== index))
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSlots((prev) => [...prev, { day_of_week: 2, time: "09:00" }])}
+              >
+                Add slot
+              </Button>
+              <Button size="sm" onClick={handleSaveSlots} disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save slots"}
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Upcoming</h3>
+            {posts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing queued.</p>
+            ) : (
+              <ol className="space-y-2">
+                {posts.map((post, index) => (
+                  <li
+                    key={post.id}
+                    className="flex items-center justify-between gap-2 rounded-md border border-border px-3 py-2 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">
+                        {post.content_json.title || post.content_json.text || "Untitled post"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {post.scheduled_for &&
+                          new Date(post.scheduled_for).toLocaleString(undefined, {
+                            timeZone: timezone,
+                            dateStyle: "medium",
+                            timeStyle: "short",
+                          })}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Move earlier"
+                        onClick={() => handleMove(index, -1)}
+                        disabled={isReordering || index === 0}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Move later"
+                        onClick={() => handleMove(index, 1)}
+                        disabled={isReordering || index === posts.length - 1}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          <ModalFooter>
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </ModalFooter>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,306 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Card, { CardContent } from "@/components/ui/card";
+import Badge from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { formatDistanceToNow } from "date-fns";
+import type {
+  PersonaRecommendation,
+  PersonaRecommendationSet,
+  RecommendedPostingTime,
+} from "@/types/recommendations";
+import type { Campaign } from "@/types/campaign";
+
+interface RecommendationsSectionProps {
+  personaId: string;
+}
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function formatPostingTime(postingTime: RecommendedPostingTime): string {
+  return `${DAY_NAMES[postingTime.day_of_week]} ${String(postingTime.hour).padStart(2, "0")}:00 UTC`;
+}
+
+export function RecommendationsSection({ personaId }: RecommendationsSectionProps) {
+  const [recommendationSet, setRecommendationSet] =
+    useState<PersonaRecommendationSet | null>(null);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [targetCampaignId, setTargetCampaignId] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [convertingIndex, setConvertingIndex] = useState<number | null>(null);
+  const [convertedCampaigns, setConvertedCampaigns] = useState<Record<number, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    async function loadRecommendations() {
+      setIsLoading(true);
+      try {
+        const [recommendationsResponse, campaignsResponse] = await Promise.all([
+          fetch(`/api/personas/${personaId}/recommendations`, {
+            credentials: "include",
+            cache: "no-store",
+          }),
+          fetch(`/api/campaigns?personaId=${personaId}`, {
+            credentials: "include",
+            cache: "no-store",
+          }),
+        ]);
+        if (!recommendationsResponse.ok) {
+          throw new Error("Failed to load recommendations.");
+        }
+        const data = (await recommendationsResponse.json()) as {
+          recommendations: PersonaRecommendationSet | null;
+        };
+        const campaignList = campaignsResponse.ok
+          ? ((await campaignsResponse.json()) as Campaign[])
+          : [];
+        if (!isCancelled) {
+          setRecommendationSet(data.recommendations);
+          setCampaigns(campaignList);
+        }
+      } catch (error) {
+        if (!isCancelled) {
+          setError(
+            error instanceof Error ? error.message : "Unexpected error loading recommendations."
+          );
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadRecommendations();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [personaId]);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/personas/${personaId}/recommendations`, {
+        method: "POST",
+        credentials: "include",
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "Failed to generate recommendations.");
+      }
+      setRecommendationSet(payload.recommendations as PersonaRecommendationSet);
+      setConvertedCampaigns({});
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Unexpected error generating recommendations."
+      );
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleConvert = async (index: number) => {
+    if (!recommendationSet) {
+      return;
+    }
+
+    setConvertingIndex(index);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/personas/${personaId}/recommendations/${recommendationSet.id}/convert`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({
+            index,
+            campaignId: targetCampaignId || undefined,
+          }),
+        }
+      );
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "Failed to create draft.");
+      }
+      const { postId, campaignId } = payload as { postId: string; campaignId: string };
+      setRecommendationSet((prev) =>
+        prev
+          ? {
+              ...prev,
+              recommendations: prev.recommendations.map((entry, entryIndex) =>
+                entryIndex === index ? { ...entry, converted_post_id: postId } : entry
+              ),
+            }
+          : prev
+      );
+      setConvertedCampaigns((prev) => ({ ...prev, [index]: campaignId }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unexpected error creating draft.");
+    } finally {
+      setConvertingIndex(null);
+    }
+  };
+
+  const renderCitations = (recommendation: PersonaRecommendation) => {
+    if (!recommendationSet || recommendation.citations.length === 0) {
+      return (
+        <p className="text-xs text-muted-foreground">
+          No supporting posts or research were cited.
+        </p>
+      );
+    }
+
+    return (
+      <ul className="space-y-1 text-xs">
+        {recommendation.citations.map((citation, citationIndex) => {
+          if (citation.type === "post") {
+            const source = recommendationSet.sources.posts[citation.post_id];
+            return (
+              <li key={citationIndex} className="text-muted-foreground">
+                <span className="font-medium text-foreground">
+                  Post: {source?.title ?? "Unknown post"}
+                </span>
+                {source && ` (${source.platform_id ?? "unknown"}, ${source.engagement} engagement)`}
+                {" — "}
+                {citation.detail}
+              </li>
+            );
+          }
+
+          const source = recommendationSet.sources.research[citation.research_id];
+          return (
+            <li key={citationIndex} className="text-muted-foreground">
+              <Link
+                href={`/resonance-research/${citation.research_id}`}
+                className="font-medium text-foreground underline underline-offset-4"
+              >
+                Research: {source?.title ?? "Unknown study"}
+              </Link>
+              {" — "}
+              {citation.detail}
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <div>
+      <div className="mb-4 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">What should this persona do next?</h2>
+          <p className="text-sm text-muted-foreground">
+            Next-week themes, formats, hooks and posting times based on how past posts
+            performed and the persona&apos;s linked research.
+          </p>
+        </div>
+        <Button onClick={handleGenerate} disabled={isGenerating || isLoading}>
+          {isGenerating
+            ? "Thinking..."
+            : recommendationSet
+              ? "Regenerate"
+              : "Get recommendations"}
+        </Button>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading recommendations...</p>
+      ) : !recommendationSet ? (
+        <p className="text-sm text-muted-foreground">
+          No recommendations yet. Generate some once the persona has a few published posts
+          or linked research.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span>
+              For the week of {recommendationSet.week_start} · generated{" "}
+              {formatDistanceToNow(new Date(recommendationSet.created_at), {
+                addSuffix: true,
+              })}
+            </span>
+            <label className="flex items-center gap-2">
+              Create drafts in
+              <select
+                value={targetCampaignId}
+                onChange={(event) => setTargetCampaignId(event.target.value)}
+                className="rounded-md border border-input bg-background px-2 py-1 text-xs"
+              >
+                <option value="">A new campaign for that week</option>
+                {campaigns.map((campaign) => (
+                  <option key={campaign.id} value={campaign.id}>
+                    {campaign.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {recommendationSet.summary && (
+            <p className="text-sm">{recommendationSet.summary}</p>
+          )}
+
+          {recommendationSet.recommendations.map((recommendation, index) => (
+            <Card key={index}>
+              <CardContent className="space-y-3 pt-6">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h3 className="font-semibold">{recommendation.theme}</h3>
+                  <Badge variant="secondary">{recommendation.format}</Badge>
+                  {recommendation.platform_id && (
+                    <Badge variant="outline">{recommendation.platform_id}</Badge>
+                  )}
+                  {recommendation.posting_time && (
+                    <Badge variant="outline">
+                      {formatPostingTime(recommendation.posting_time)}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm italic">&ldquo;{recommendation.hook}&rdquo;</p>
+                <p className="text-sm text-muted-foreground">{recommendation.rationale}</p>
+                {renderCitations(recommendation)}
+                <details className="text-sm">
+                  <summary className="cursor-pointer text-muted-foreground">
+                    Draft: {recommendation.draft.title}
+                  </summary>
+                  <p className="mt-2 whitespace-pre-wrap">{recommendation.draft.text}</p>
+                </details>
+                <div className="flex items-center justify-end gap-2">
+                  {recommendation.converted_post_id ? (
+                    convertedCampaigns[index] ? (
+                      <Button variant="outline" size="sm" asChild>
+                        <Link href={`/campaigns/${convertedCampaigns[index]}`}>
+                          View draft
+                        </Link>
+                      </Button>
+                    ) : (
+                      <Badge variant="success">Draft created</Badge>
+                    )
+                  ) : (
+                    <Button
+                      size="sm"
+                      onClick={() => handleConvert(index)}
+                      disabled={convertingIndex !== null}
+                    >
+                      {convertingIndex === index ? "Creating..." : "Create draft post"}
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
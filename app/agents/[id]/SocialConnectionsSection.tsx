@@ -4,9 +4,25 @@ import { useEffect, useState } from "react";
 import Card, { CardContent } from "@/components/ui/card";
 import Badge from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { PersonaSocialAccount, SocialPlatform } from "@/types/social";
+import {
+  ConnectionHealth,
+  PersonaSocialAccount,
+  SocialPlatform,
+} from "@/types/social";
 import Link from "next/link";
 import { formatDistanceToNow } from "date-fns";
+import { AutoReplyPolicyModal } from "./AutoReplyPolicyModal";
+import { PostingQueueModal } from "./PostingQueueModal";
+
+const HEALTH_BADGES: Record<
+  ConnectionHealth,
+  { label: string; variant: "success" | "warning" | "danger" }
+> = {
+  healthy: { label: "Healthy", variant: "success" },
+  degraded: { label: "Refresh failing", variant: "warning" },
+  expired: { label: "Expired", variant: "danger" },
+  revoked: { label: "Revoked", variant: "danger" },
+};
 
 interface SocialConnectionsSectionProps {
   personaId: string;
@@ -40,6 +56,20 @@ export function SocialConnectionsSection({
     null
   );
   const [connectError, setConnectError] = useState<string | null>(null);
+  const [disconnectingAccount, setDisconnectingAccount] = useState<
+    string | null
+  >(null);
+  const [defaultingAccount, setDefaultingAccount] = useState<string | null>(
+    null
+  );
+  const [policyAccount, setPolicyAccount] = useState<{
+    id: string;
+    label: string;
+  } | null>(null);
+  const [queueAccount, setQueueAccount] = useState<{
+    id: string;
+    label: string;
+  } | null>(null);
 
   useEffect(() => {
     let isCancelled = false;
@@ -129,30 +159,67 @@ export function SocialConnectionsSection({
   const error = platformState.error || accountState.error;
   const platforms = platformState.data;
   const socialAccounts = accountState.data;
+  const atRiskAccounts = socialAccounts.filter(
+    (account) => (account.scheduled_post_count ?? 0) > 0
+  );
 
   const handleRetry = () => {
     setRefreshNonce((prev) => prev + 1);
   };
 
-  const handleRedditConnect = async () => {
-    if (connectingPlatform === "reddit") {
+  useEffect(() => {
+    function handleMessage(event: MessageEvent) {
+      if (
+        event.origin !== window.location.origin ||
+        event.data?.type !== "social-oauth-result"
+      ) {
+        return;
+      }
+
+      setConnectingPlatform(null);
+      if (event.data.status === "success") {
+        setConnectError(null);
+        setRefreshNonce((prev) => prev + 1);
+      } else {
+        setConnectError(
+          event.data.error || "Unexpected error completing OAuth connection."
+        );
+      }
+    }
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  const handleConnect = async (platform: SocialPlatform) => {
+    if (connectingPlatform) {
       return;
     }
 
     setConnectError(null);
-    setConnectingPlatform("reddit");
 
-    try {
-      const params = new URLSearchParams({
-        personaId,
-        redirectTo: window.location.href,
-      });
+    // Opened before the request so popup blockers treat it as user-initiated
+    const popup = window.open("", "social-oauth", "width=600,height=720");
+    if (!popup) {
+      setConnectError(
+        `Allow popups for this site to connect ${platform.display_name}.`
+      );
+      return;
+    }
 
+    setConnectingPlatform(platform.id);
+
+    try {
       const response = await fetch(
-        `/api/social/oauth/reddit/start?${params.toString()}`,
+        `/api/social/oauth/${platform.id}/start`,
         {
-          method: "GET",
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
           credentials: "include",
+          body: JSON.stringify({
+            personaId,
+            redirectUri: `${window.location.origin}/social/oauth/callback`,
+          }),
         }
       );
 
@@ -160,26 +227,267 @@ export function SocialConnectionsSection({
         const payload = await response.json().catch(() => null);
         throw new Error(
           payload?.error ||
-            "Failed to initiate Reddit OAuth. Please try again."
+            `Failed to initiate ${platform.display_name} OAuth. Please try again.`
         );
       }
 
       const data = await response.json();
-      if (!data?.url) {
-        throw new Error("Missing Reddit authorization URL.");
+      if (!data?.authorize_url) {
+        throw new Error(
+          `Missing ${platform.display_name} authorization URL.`
+        );
       }
 
-      window.location.href = data.url;
+      popup.location.href = data.authorize_url;
+
+      // Closing the popup without finishing leaves nothing to report back
+      const closedPoll = window.setInterval(() => {
+        if (popup.closed) {
+          window.clearInterval(closedPoll);
+          setConnectingPlatform((current) =>
+            current === platform.id ? null : current
+          );
+        }
+      }, 500);
     } catch (error) {
+      popup.close();
       setConnectingPlatform(null);
       setConnectError(
         error instanceof Error
           ? error.message
-          : "Unexpected error starting Reddit OAuth."
+          : `Unexpected error starting ${platform.display_name} OAuth.`
+      );
+    }
+  };
+
+  const handleDisconnect = async (
+    account: PersonaSocialAccount,
+    platform: SocialPlatform
+  ) => {
+    const label = account.account_handle || account.provider_username;
+    const confirmed = window.confirm(
+      `Disconnect ${label ? `${label} on ` : ""}${platform.display_name}? Access is revoked at ${platform.display_name} and posts scheduled on this account go back to drafts.`
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    setConnectError(null);
+    setDisconnectingAccount(account.id);
+
+    try {
+      const response = await fetch(
+        `/api/social/persona-accounts/${account.id}`,
+        {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ scheduledPosts: "cancel" }),
+        }
+      );
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(
+          payload?.error ||
+            `Failed to disconnect ${platform.display_name}. Please try again.`
+        );
+      }
+
+      setRefreshNonce((prev) => prev + 1);
+    } catch (error) {
+      setConnectError(
+        error instanceof Error
+          ? error.message
+          : `Unexpected error disconnecting ${platform.display_name}.`
+      );
+    } finally {
+      setDisconnectingAccount(null);
+    }
+  };
+
+  const handleMakeDefault = async (
+    account: PersonaSocialAccount,
+    platform: SocialPlatform
+  ) => {
+    setConnectError(null);
+    setDefaultingAccount(account.id);
+
+    try {
+      const response = await fetch(
+        `/api/social/persona-accounts/${account.id}/default`,
+        {
+          method: "POST",
+          credentials: "include",
+        }
+      );
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(
+          payload?.error ||
+            `Failed to make this the default ${platform.display_name} account.`
+        );
+      }
+
+      setRefreshNonce((prev) => prev + 1);
+    } catch (error) {
+      setConnectError(
+        error instanceof Error
+          ? error.message
+          : `Unexpected error changing the default ${platform.display_name} account.`
       );
+    } finally {
+      setDefaultingAccount(null);
     }
   };
 
+  const renderAccount = (
+    account: PersonaSocialAccount,
+    platform: SocialPlatform,
+    hasSiblings: boolean
+  ) => {
+    const isConnected = account.status === "connected";
+    const accountLabel =
+      account.account_handle ||
+      account.provider_username ||
+      account.display_name ||
+      null;
+    const health = account.health ?? null;
+    const lastRefreshed =
+      account.last_refreshed_at || account.last_token_refresh_at;
+
+    return (
+      <div
+        key={account.id}
+        className="flex flex-col gap-4 rounded-lg border p-4 md:flex-row md:items-center md:justify-between"
+      >
+        <div className="text-sm text-muted-foreground space-y-2">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="font-medium text-foreground">
+              {accountLabel ?? platform.display_name}
+            </span>
+            {account.is_default && hasSiblings && (
+              <Badge variant="outline" className="text-xs">
+                Default
+              </Badge>
+            )}
+            {health && (
+              <Badge variant={HEALTH_BADGES[health].variant} className="text-xs">
+                {HEALTH_BADGES[health].label}
+              </Badge>
+            )}
+          </div>
+          {!isConnected && (
+            <p>
+              {`The ${platform.display_name} connection is ${account.status}. Reconnect to keep publishing.`}
+            </p>
+          )}
+          {health && health !== "healthy" && account.last_token_error && (
+            <p className="text-xs text-destructive">{account.last_token_error}</p>
+          )}
+          {(account.scheduled_post_count ?? 0) > 0 && (
+            <p className="text-xs text-destructive">
+              {account.scheduled_post_count} scheduled{" "}
+              {account.scheduled_post_count === 1 ? "post uses" : "posts use"}{" "}
+              this account and may fail until it&apos;s fixed.
+            </p>
+          )}
+          {isConnected && account.profile_url && (
+            <p>
+              <a
+                href={account.profile_url}
+                target="_blank"
+                rel="noreferrer"
+                className="underline underline-offset-4"
+              >
+                View profile
+              </a>
+            </p>
+          )}
+          {isConnected && (
+            <div className="text-xs space-y-1">
+              {account.access_token_expires_at && (
+                <p>
+                  Access renews{" "}
+                  {formatDistanceToNow(new Date(account.access_token_expires_at), {
+                    addSuffix: true,
+                  })}
+                </p>
+              )}
+              {lastRefreshed && (
+                <p>
+                  Last refreshed{" "}
+                  {formatDistanceToNow(new Date(lastRefreshed), {
+                    addSuffix: true,
+                  })}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col items-end gap-2 min-w-[180px]">
+          {isConnected ? (
+            <>
+              {hasSiblings && !account.is_default && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleMakeDefault(account, platform)}
+                  disabled={defaultingAccount === account.id}
+                >
+                  {defaultingAccount === account.id ? "Saving..." : "Make default"}
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setPolicyAccount({
+                    id: account.id,
+                    label: accountLabel ?? platform.display_name,
+                  })
+                }
+              >
+                Auto-reply rules
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setQueueAccount({
+                    id: account.id,
+                    label: accountLabel ?? platform.display_name,
+                  })
+                }
+              >
+                Posting queue
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="default"
+              size="sm"
+              onClick={() => handleConnect(platform)}
+              disabled={connectingPlatform !== null}
+            >
+              {connectingPlatform === platform.id ? "Connecting..." : "Reconnect"}
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleDisconnect(account, platform)}
+            disabled={disconnectingAccount === account.id}
+          >
+            {disconnectingAccount === account.id ? "Disconnecting..." : "Disconnect"}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div>
       <div className="mb-4">
@@ -207,6 +515,25 @@ export function SocialConnectionsSection({
         </Card>
       )}
 
+      {atRiskAccounts.length > 0 && (
+        <Card className="mb-4 border-warning/40 bg-warning/5">
+          <CardContent className="p-4 text-sm space-y-1">
+            <p className="font-medium">
+              Scheduled posts depend on accounts that need attention
+            </p>
+            {atRiskAccounts.map((account) => (
+              <p key={account.id} className="text-muted-foreground">
+                {platforms.find((platform) => platform.id === account.platform_id)
+                  ?.display_name ?? account.platform_id}
+                {account.account_handle ? ` (${account.account_handle})` : ""}:{" "}
+                {account.scheduled_post_count} scheduled{" "}
+                {account.scheduled_post_count === 1 ? "post" : "posts"}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {isLoading ? (
         <div className="grid grid-cols-1 gap-4">
           {[0, 1].map((key) => (
@@ -235,136 +562,98 @@ export function SocialConnectionsSection({
       ) : (
         <div className="grid grid-cols-1 gap-4">
           {platforms.map((platform) => {
-            const account = socialAccounts.find(
-              (acc) => acc.platform_id === platform.id
+            // Accounts the user disconnected stay around for history only
+            const platformAccounts = socialAccounts
+              .filter(
+                (acc) => acc.platform_id === platform.id && !acc.revoked_at
+              )
+              .sort((a, b) => Number(Boolean(b.is_default)) - Number(Boolean(a.is_default)));
+            const supportsOAuth = Boolean(
+              platform.oauth_authorize_url && platform.oauth_token_url
             );
-            const isReddit = platform.id === "reddit";
-            const redditConnected =
-              isReddit && account?.status === "connected";
-            const redditUsername =
-              account?.provider_username ||
-              account?.account_handle ||
-              account?.display_name ||
-              null;
-            const redditHandle = redditUsername
-              ? redditUsername.startsWith("u/")
-                ? redditUsername
-                : `u/${redditUsername}`
-              : null;
-            const lastRefreshed =
-              account?.last_refreshed_at || account?.last_token_refresh_at;
 
             return (
               <Card key={platform.id}>
-                <CardContent className="flex flex-col gap-4 p-6 md:flex-row md:items-center md:justify-between">
-                  <div className="space-y-3">
-                    <div className="flex items-center gap-2">
-                      <h3 className="font-semibold">{platform.display_name}</h3>
-                      <Badge
-                        variant={
-                          platform.status === "active" ? "default" : "secondary"
-                        }
-                        className="text-xs"
-                      >
-                        {platform.status}
-                      </Badge>
-                    </div>
-                    <div className="flex gap-2 text-xs text-muted-foreground flex-wrap">
-                      {platform.supports_text && <span>Text</span>}
-                      {platform.supports_images && <span>Images</span>}
-                      {platform.supports_comments && <span>Comments</span>}
-                      {platform.supports_dms && <span>DMs</span>}
-                    </div>
-                    {isReddit ? (
-                      <div className="text-sm text-muted-foreground space-y-2">
-                        <p>
-                          {redditConnected
-                            ? "Reddit connection is active."
-                            : "Connect Reddit to schedule posts and sync engagement."}
-                        </p>
-                        {redditConnected && redditHandle && (
-                          <Badge variant="outline" className="w-fit">
-                            Connected as {redditHandle}
-                          </Badge>
-                        )}
-                        {redditConnected && account?.profile_url && (
-                          <p>
-                            <a
-                              href={account.profile_url}
-                              target="_blank"
-                              rel="noreferrer"
-                              className="underline underline-offset-4"
-                            >
-                              View profile
-                            </a>
-                          </p>
-                        )}
-                        {redditConnected && (
-                          <div className="text-xs space-y-1">
-                            <p>
-                              Status:{" "}
-                              <span className="font-medium">
-                                {account?.status}
-                              </span>
-                            </p>
-                            {account?.access_token_expires_at && (
-                              <p>
-                                Access renews{" "}
-                                {formatDistanceToNow(
-                                  new Date(account.access_token_expires_at),
-                                  { addSuffix: true }
-                                )}
-                              </p>
-                            )}
-                            {lastRefreshed && (
-                              <p>
-                                Last refreshed{" "}
-                                {formatDistanceToNow(new Date(lastRefreshed), {
-                                  addSuffix: true,
-                                })}
-                              </p>
-                            )}
-                          </div>
-                        )}
+                <CardContent className="flex flex-col gap-4 p-6">
+                  <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                    <div className="space-y-3">
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-semibold">{platform.display_name}</h3>
+                        <Badge
+                          variant={
+                            platform.status === "active" ? "default" : "secondary"
+                          }
+                          className="text-xs"
+                        >
+                          {platform.status}
+                        </Badge>
+                      </div>
+                      <div className="flex gap-2 text-xs text-muted-foreground flex-wrap">
+                        {platform.supports_text && <span>Text</span>}
+                        {platform.supports_images && <span>Images</span>}
+                        {platform.supports_comments && <span>Comments</span>}
+                        {platform.supports_dms && <span>DMs</span>}
                       </div>
-                    ) : (
                       <p className="text-sm text-muted-foreground">
-                        OAuth integration coming soon.
+                        {!supportsOAuth
+                          ? "OAuth integration coming soon."
+                          : platformAccounts.length === 0
+                            ? `Connect ${platform.display_name} to schedule posts and sync engagement.`
+                            : platformAccounts.length > 1
+                              ? "Posts use the default account unless the post or its campaign picks another."
+                              : null}
                       </p>
-                    )}
-                  </div>
+                    </div>
 
-                  <div className="text-right min-w-[180px]">
-                    {isReddit ? (
-                      redditConnected ? (
-                        <div className="flex flex-col items-end gap-2">
-                          <Button variant="outline" size="sm" disabled>
-                            Disconnect (coming soon)
-                          </Button>
-                        </div>
-                      ) : (
+                    <div className="text-right min-w-[180px]">
+                      {supportsOAuth ? (
                         <Button
-                          variant="default"
-                          onClick={handleRedditConnect}
-                          disabled={connectingPlatform === "reddit"}
+                          variant={platformAccounts.length === 0 ? "default" : "outline"}
+                          onClick={() => handleConnect(platform)}
+                          disabled={connectingPlatform !== null}
                         >
-                          {connectingPlatform === "reddit"
+                          {connectingPlatform === platform.id
                             ? "Connecting..."
-                            : "Connect Reddit"}
+                            : platformAccounts.length === 0
+                              ? `Connect ${platform.display_name}`
+                              : "Add another account"}
                         </Button>
-                      )
-                    ) : (
-                      <Button variant="secondary" disabled>
-                        Connect (Coming soon)
-                      </Button>
-                    )}
+                      ) : (
+                        <Button variant="secondary" disabled>
+                          Connect (Coming soon)
+                        </Button>
+                      )}
+                    </div>
                   </div>
+
+                  {supportsOAuth &&
+                    platformAccounts.map((account) =>
+                      renderAccount(account, platform, platformAccounts.length > 1)
+                    )}
                 </CardContent>
               </Card>
             );
           })}
         </div>
       )}
+
+      {policyAccount && (
+        <AutoReplyPolicyModal
+          accountId={policyAccount.id}
+          accountLabel={policyAccount.label}
+          isOpen={policyAccount !== null}
+          onClose={() => setPolicyAccount(null)}
+        />
+      )}
+
+      {queueAccount && (
+        <PostingQueueModal
+          accountId={queueAccount.id}
+          accountLabel={queueAccount.label}
+          isOpen={queueAccount !== null}
+          onClose={() => setQueueAccount(null)}
+        />
+      )}
     </div>
   );
 }
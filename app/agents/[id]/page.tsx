@@ -6,6 +6,7 @@ import Card, { CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import Badge from "@/components/ui/badge";
 import { ResonanceResearchLinker, Study } from "./ResonanceResearchLinker";
 import { SocialConnectionsSection } from "./SocialConnectionsSection";
+import { RecommendationsSection } from "./RecommendationsSection";
 
 export default async function AgentDetailPage({
   params,
@@ -119,6 +120,8 @@ export default async function AgentDetailPage({
 
           {/* Social Connections Section */}
           <SocialConnectionsSection personaId={persona.id} />
+
+          <RecommendationsSection personaId={persona.id} />
         </div>
 
         {/* Sidebar */}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { accountMismatchReason } from "@/lib/publishing";
 import { CampaignPost } from "@/types/social";
 
 const CampaignPostQuerySchema = z.object({
@@ -38,6 +39,8 @@ const CampaignPostCreateSchema = z.object({
 const CampaignPostUpdateSchema = z
   .object({
     id: z.string().uuid(),
+    // Another account of the post's persona on the post's platform
+    persona_social_account_id: z.string().uuid().optional().nullable(),
     status: z.enum(["draft", "scheduled", "published", "failed"]).optional(),
     scheduled_for: z.string().datetime().optional().nullable(),
     posted_at: z.string().datetime().optional().nullable(),
@@ -204,18 +207,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    if (accountRecord.persona_id !== body.persona_id) {
-      return NextResponse.json(
-        { error: "Social account does not belong to persona" },
-        { status: 400 }
-      );
-    }
-
-    if (accountRecord.platform_id !== body.platform_id) {
-      return NextResponse.json(
-        { error: "Platform mismatch between account and request" },
-        { status: 400 }
-      );
+    const accountMismatch = accountMismatchReason(
+      accountRecord,
+      body.persona_id,
+      body.platform_id
+    );
+    if (accountMismatch) {
+      return NextResponse.json({ error: accountMismatch }, { status: 400 });
     }
 
     const insertPayload = {
@@ -300,6 +298,30 @@ export async function PATCH(req: NextRequest) {
       );
     }
 
+    if (updates.persona_social_account_id) {
+      const { data: accountRecord, error: accountError } = await supabase
+        .from("persona_social_accounts")
+        .select("id, persona_id, platform_id")
+        .eq("id", updates.persona_social_account_id)
+        .single();
+
+      if (accountError || !accountRecord) {
+        return NextResponse.json(
+          { error: "Persona social account not found" },
+          { status: 404 }
+        );
+      }
+
+      const accountMismatch = accountMismatchReason(
+        accountRecord,
+        postRecord.persona_id,
+        postRecord.platform_id
+      );
+      if (accountMismatch) {
+        return NextResponse.json({ error: accountMismatch }, { status: 400 });
+      }
+    }
+
     const normalizedUpdates = {
       ...updates,
       scheduled_for:
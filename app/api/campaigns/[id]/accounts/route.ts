@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { setCampaignAccountAssignment } from "@/lib/campaigns/accountAssignments";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// A null account clears the assignment; posts fall back to the default
+const AccountAssignmentSchema = z.object({
+  platformId: z.string().min(1),
+  accountId: z.string().uuid().nullable(),
+});
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: campaignId } = await context.params;
+    const body = await req.json().catch(() => null);
+    const parsed = AccountAssignmentSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const accountAssignments = await setCampaignAccountAssignment(
+      campaignId,
+      user.id,
+      parsed.data.platformId,
+      parsed.data.accountId
+    );
+
+    return NextResponse.json({ account_assignments: accountAssignments });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to save account assignment";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    if (errorMessage.includes("Invalid account assignment")) {
+      return NextResponse.json({ error: errorMessage }, { status: 422 });
+    }
+
+    console.error("Error saving campaign account assignment:", error);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
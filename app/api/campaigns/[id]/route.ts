@@ -25,6 +25,7 @@ const CampaignUpdateSchema = z
     budget_cents: z.number().int().optional().nullable(),
     budget_currency: z.string().length(3).optional().nullable(),
     archived_at: z.string().datetime().optional().nullable(),
+    dry_run: z.boolean().optional(),
   })
   .refine((value) => Object.keys(value).length > 0, {
     message: "At least one field must be provided",
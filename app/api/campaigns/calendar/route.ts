@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import {
+  listCalendarPosts,
+  listUnscheduledDrafts,
+} from "@/lib/campaigns/calendarPosts";
+
+// A six-week month grid plus slack; keeps one request from pulling everything
+const MAX_RANGE_DAYS = 62;
+
+const CalendarQuerySchema = z
+  .object({
+    from: z.string().datetime(),
+    to: z.string().datetime(),
+  })
+  .refine(
+    ({ from, to }) => {
+      const span = new Date(to).getTime() - new Date(from).getTime();
+      return span > 0 && span <= MAX_RANGE_DAYS * 24 * 60 * 60 * 1000;
+    },
+    `Range must be positive and at most ${MAX_RANGE_DAYS} days`
+  );
+
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const parsed = CalendarQuerySchema.safeParse({
+      from: searchParams.get("from") ?? undefined,
+      to: searchParams.get("to") ?? undefined,
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const [posts, drafts] = await Promise.all([
+      listCalendarPosts(user.id, parsed.data),
+      listUnscheduledDrafts(user.id),
+    ]);
+
+    return NextResponse.json({ posts, drafts });
+  } catch (error) {
+    console.error("Error loading content calendar:", error);
+    return NextResponse.json(
+      { error: "Failed to load content calendar" },
+      { status: 500 }
+    );
+  }
+}
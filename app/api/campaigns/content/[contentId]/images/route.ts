@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { generatePostImages } from "@/lib/media/imageGeneration";
+import { MAX_IMAGES_PER_REQUEST } from "@/lib/media/imageProviders";
+
+interface RouteContext {
+  params: Promise<{ contentId: string }>;
+}
+
+const GenerateImagesSchema = z.object({
+  count: z.number().int().min(1).max(MAX_IMAGES_PER_REQUEST).optional(),
+  // Replace the current attachments instead of adding to them
+  replace: z.boolean().optional(),
+});
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { contentId } = await context.params;
+    const body = await req.json().catch(() => ({}));
+    const parsed = GenerateImagesSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const result = await generatePostImages(contentId, user.id, parsed.data);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error generating content images:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to generate images";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    if (
+      errorMessage.includes("Invalid media") ||
+      errorMessage.includes("status") ||
+      errorMessage.includes("no image prompt")
+    ) {
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { setPostMedia } from "@/lib/media/library";
+
+interface RouteContext {
+  params: Promise<{ contentId: string }>;
+}
+
+const PostMediaSchema = z.object({
+  mediaIds: z.array(z.string().uuid()).max(10),
+});
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { contentId } = await context.params;
+    const body = await req.json().catch(() => null);
+    const parsed = PostMediaSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const content = await setPostMedia(contentId, user.id, parsed.data.mediaIds);
+    return NextResponse.json(content);
+  } catch (error) {
+    console.error("Error updating content media:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to update media";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    if (errorMessage.includes("Invalid media") || errorMessage.includes("status")) {
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+
+interface RouteContext {
+  params: Promise<{ contentId: string }>;
+}
+
+export async function GET(_req: NextRequest, context: RouteContext) {
+  const supabase = await createSupabaseServerClient();
+  const { contentId } = await context.params;
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: postRecord, error: postError } = await supabase
+    .from("campaign_posts")
+    .select(
+      `
+      id,
+      campaigns!inner ( user_id )
+    `
+    )
+    .eq("id", contentId)
+    .eq("campaigns.user_id", user.id)
+    .single();
+
+  if (postError || !postRecord) {
+    return NextResponse.json({ error: "Content not found" }, { status: 404 });
+  }
+
+  const { data: snapshots, error } = await supabase
+    .from("campaign_post_metrics")
+    .select(
+      "collected_at, score, upvote_ratio, likes, comments, shares, impressions"
+    )
+    .eq("campaign_post_id", contentId)
+    .order("collected_at", { ascending: true })
+    .limit(500);
+
+  if (error) {
+    console.error("Failed to load post metrics", error);
+    return NextResponse.json(
+      { error: "Failed to load post metrics" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ snapshots: snapshots ?? [] });
+}
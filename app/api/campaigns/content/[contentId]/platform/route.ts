@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import {
+  deletePublishedPost,
+  editPublishedPost,
+} from "@/lib/campaigns/publishedPosts";
+import { PlatformApiError } from "@/lib/publishing";
+
+interface RouteContext {
+  params: Promise<{ contentId: string }>;
+}
+
+const EditPublishedSchema = z.object({
+  text: z.string().trim().min(1),
+});
+
+function errorResponse(error: unknown, fallback: string) {
+  const errorMessage = error instanceof Error ? error.message : fallback;
+
+  // Platform rejections are upstream failures, whatever their wording
+  if (error instanceof PlatformApiError) {
+    return NextResponse.json({ error: errorMessage }, { status: 502 });
+  }
+
+  if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+    return NextResponse.json({ error: errorMessage }, { status: 404 });
+  }
+
+  if (errorMessage.includes("no longer connected")) {
+    return NextResponse.json({ error: errorMessage }, { status: 422 });
+  }
+
+  if (
+    errorMessage.includes("status") ||
+    errorMessage.includes("not supported") ||
+    errorMessage.includes("can be edited") ||
+    errorMessage.includes("Text")
+  ) {
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+
+  return NextResponse.json({ error: errorMessage }, { status: 500 });
+}
+
+/**
+ * Edits a published post's text on its platform.
+ */
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { contentId } = await context.params;
+    const body = await req.json().catch(() => null);
+    const parsed = EditPublishedSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await editPublishedPost(contentId, user.id, parsed.data));
+  } catch (error) {
+    console.error("Error editing published content:", error);
+    return errorResponse(error, "Failed to edit post");
+  }
+}
+
+/**
+ * Deletes a published post from its platform and marks it deleted.
+ */
+export async function DELETE(_req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { contentId } = await context.params;
+    return NextResponse.json(await deletePublishedPost(contentId, user.id));
+  } catch (error) {
+    console.error("Error deleting published content:", error);
+    return errorResponse(error, "Failed to delete post");
+  }
+}
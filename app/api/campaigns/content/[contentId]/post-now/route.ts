@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
-import { postCampaignContentToReddit } from "@/lib/campaigns/posting";
+import { postCampaignContentNow } from "@/lib/campaigns/posting";
+import { PlatformApiError } from "@/lib/publishing";
 
 interface RouteContext {
   params: Promise<{ contentId: string }>;
@@ -29,24 +30,41 @@ export async function POST(
       );
     }
 
-    // Post to Reddit using shared helper
-    const updatedContent = await postCampaignContentToReddit(contentId, user.id);
+    // Publish through the platform publisher using shared helper
+    const updatedContent = await postCampaignContentNow(contentId, user.id);
 
     return NextResponse.json(updatedContent);
   } catch (error) {
-    console.error("Error posting campaign content to Reddit:", error);
+    console.error("Error posting campaign content:", error);
 
     const errorMessage =
       error instanceof Error
         ? error.message
-        : "Failed to post content to Reddit";
+        : "Failed to post content";
+
+    // Platform rejections are upstream failures, whatever their wording
+    if (error instanceof PlatformApiError) {
+      return NextResponse.json({ error: errorMessage }, { status: 502 });
+    }
 
     // Return appropriate status codes based on error type
+    if (errorMessage.includes("already being published")) {
+      return NextResponse.json({ error: errorMessage }, { status: 409 });
+    }
+
+    if (errorMessage.startsWith("Rate limit")) {
+      return NextResponse.json({ error: errorMessage }, { status: 429 });
+    }
+
+    if (errorMessage.startsWith("Subreddit blocked")) {
+      return NextResponse.json({ error: errorMessage }, { status: 409 });
+    }
+
     if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
       return NextResponse.json({ error: errorMessage }, { status: 404 });
     }
 
-    if (errorMessage.includes("not configured for Reddit")) {
+    if (errorMessage.includes("Publishing is not supported")) {
       return NextResponse.json({ error: errorMessage }, { status: 400 });
     }
 
@@ -54,11 +72,11 @@ export async function POST(
       return NextResponse.json({ error: errorMessage }, { status: 400 });
     }
 
-    if (errorMessage.includes("No connected Reddit account")) {
+    if (errorMessage.includes("No connected")) {
       return NextResponse.json({ error: errorMessage }, { status: 422 });
     }
 
-    if (errorMessage.includes("Subreddit") || errorMessage.includes("Invalid content")) {
+    if (errorMessage.includes("Invalid content")) {
       return NextResponse.json({ error: errorMessage }, { status: 400 });
     }
 
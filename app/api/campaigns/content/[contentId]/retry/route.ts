@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { retryCampaignContentNow } from "@/lib/campaigns/posting";
+import { PlatformApiError } from "@/lib/publishing";
+
+interface RouteContext {
+  params: Promise<{ contentId: string }>;
+}
+
+export async function POST(
+  req: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { contentId } = await context.params;
+
+    if (!contentId) {
+      return NextResponse.json(
+        { error: "Content ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Reset the retry budget and publish immediately
+    const updatedContent = await retryCampaignContentNow(contentId, user.id);
+
+    return NextResponse.json(updatedContent);
+  } catch (error) {
+    console.error("Error retrying campaign content:", error);
+
+    const errorMessage =
+      error instanceof Error
+        ? error.message
+        : "Failed to retry content";
+
+    // Platform rejections are upstream failures, whatever their wording
+    if (error instanceof PlatformApiError) {
+      return NextResponse.json({ error: errorMessage }, { status: 502 });
+    }
+
+    // Return appropriate status codes based on error type
+    if (errorMessage.includes("already being published")) {
+      return NextResponse.json({ error: errorMessage }, { status: 409 });
+    }
+
+    if (errorMessage.startsWith("Rate limit")) {
+      return NextResponse.json({ error: errorMessage }, { status: 429 });
+    }
+
+    if (errorMessage.startsWith("Subreddit blocked")) {
+      return NextResponse.json({ error: errorMessage }, { status: 409 });
+    }
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    if (errorMessage.includes("Publishing is not supported")) {
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+
+    if (errorMessage.includes("status")) {
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+
+    if (errorMessage.includes("No connected")) {
+      return NextResponse.json({ error: errorMessage }, { status: 422 });
+    }
+
+    if (errorMessage.includes("Invalid content")) {
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
@@ -25,6 +25,7 @@ export async function DELETE(_req: Request, context: RouteContext) {
       `
       id,
       campaign_id,
+      status,
       campaigns!inner ( user_id )
     `
     )
@@ -43,6 +44,14 @@ export async function DELETE(_req: Request, context: RouteContext) {
     );
   }
 
+  // Live posts are deleted through the platform so the record survives
+  if (postRecord.status === "published") {
+    return NextResponse.json(
+      { error: "Delete published content from its platform first" },
+      { status: 409 }
+    );
+  }
+
   const { error: deleteError } = await supabase
     .from("campaign_posts")
     .delete()
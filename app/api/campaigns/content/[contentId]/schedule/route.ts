@@ -2,13 +2,21 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
 import { mapCampaignContentRow } from "@/lib/campaigns/mappers";
+import { checkPostRateLimits } from "@/lib/campaigns/rateLimits";
+import { checkCommunityRemovals } from "@/lib/analytics/communityRemovals";
+import { DEAD_LETTER_STATUS, RELEASED_LEASE } from "@/lib/publishing";
 
 const ScheduleSchema = z.object({
   scheduledFor: z.string().datetime(),
   personaSocialAccountId: z.string().uuid(),
   platformId: z.string().optional(),
+  // A dead-lettered post may already be live; rescheduling it is opt-in
+  confirmDeadLetter: z.boolean().optional(),
 });
 
+// Posts that aren't going out, haven't gone out and aren't simulated
+const SCHEDULABLE_STATUSES = ["draft", "scheduled", "failed"];
+
 interface RouteContext {
   params: Promise<{ contentId: string }>;
 }
@@ -34,7 +42,11 @@ export async function POST(req: NextRequest, context: RouteContext) {
     );
   }
 
-  const { scheduledFor, personaSocialAccountId, platformId } = parsed.data;
+  const { scheduledFor, personaSocialAccountId, platformId, confirmDeadLetter } =
+    parsed.data;
+  const allowedStatuses = confirmDeadLetter
+    ? [...SCHEDULABLE_STATUSES, DEAD_LETTER_STATUS]
+    : SCHEDULABLE_STATUSES;
 
   const {
     data: postRecord,
@@ -62,9 +74,21 @@ export async function POST(req: NextRequest, context: RouteContext) {
     );
   }
 
+  if (!allowedStatuses.includes(postRecord.status)) {
+    return NextResponse.json(
+      {
+        error:
+          postRecord.status === DEAD_LETTER_STATUS
+            ? "This post may already be live. Check the platform, then confirm to reschedule it."
+            : `Cannot schedule content with status "${postRecord.status}"`,
+      },
+      { status: 409 }
+    );
+  }
+
   const { data: accountRecord, error: accountError } = await supabase
     .from("persona_social_accounts")
-    .select("id, platform_id, persona_id, status")
+    .select("id, platform_id, persona_id, status, rate_limits")
     .eq("id", personaSocialAccountId)
     .single();
 
@@ -82,7 +106,42 @@ export async function POST(req: NextRequest, context: RouteContext) {
     );
   }
 
-  const resolvedPlatform = platformId ?? accountRecord.platform_id;
+  if (platformId && platformId !== accountRecord.platform_id) {
+    return NextResponse.json(
+      {
+        error: `Social account is a ${accountRecord.platform_id} account, not ${platformId}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const resolvedPlatform = accountRecord.platform_id;
+
+  const rateLimit = await checkPostRateLimits(
+    postRecord,
+    accountRecord,
+    new Date(scheduledFor)
+  );
+
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        error: rateLimit.message,
+        rule: rateLimit.rule,
+        nextAllowedAt: rateLimit.nextAllowedAt,
+      },
+      { status: 409 }
+    );
+  }
+
+  const blockedReason = await checkCommunityRemovals({
+    ...postRecord,
+    platform_id: resolvedPlatform,
+  });
+
+  if (blockedReason) {
+    return NextResponse.json({ error: blockedReason }, { status: 409 });
+  }
 
   const { data: updatedPost, error: updateError } = await supabase
     .from("campaign_posts")
@@ -92,12 +151,17 @@ export async function POST(req: NextRequest, context: RouteContext) {
       platform_id: resolvedPlatform,
       scheduled_for: scheduledFor,
       error_message: null,
+      // A manual reschedule starts a fresh retry budget
+      retry_count: 0,
+      ...RELEASED_LEASE,
     })
     .eq("id", contentId)
+    // The scheduler may have claimed it since it was loaded
+    .in("status", allowedStatuses)
     .select("*")
-    .single();
+    .maybeSingle();
 
-  if (updateError || !updatedPost) {
+  if (updateError) {
     console.error("Failed to schedule content", updateError);
     return NextResponse.json(
       { error: "Failed to schedule content" },
@@ -105,6 +169,13 @@ export async function POST(req: NextRequest, context: RouteContext) {
     );
   }
 
+  if (!updatedPost) {
+    return NextResponse.json(
+      { error: "Content changed while scheduling; reload and try again" },
+      { status: 409 }
+    );
+  }
+
   return NextResponse.json(mapCampaignContentRow(updatedPost));
 }
 
@@ -0,0 +1,53 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { processAutoReplies } from "@/lib/social/autoReply";
+
+const AutoReplyRunSchema = z.object({
+  accountIds: z.array(z.string().uuid()).optional(),
+});
+
+/**
+ * Checks the shared secret the engagementSync edge function sends. This
+ * route runs for every user, so it is never reachable with a session alone.
+ */
+function isAuthorized(req: NextRequest): boolean {
+  const secret = process.env.ENGAGEMENT_AUTOMATION_SECRET;
+  const header = req.headers.get("authorization");
+
+  if (!secret || !header?.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const provided = Buffer.from(header.slice("Bearer ".length));
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+export async function POST(req: NextRequest) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const parsed = AutoReplyRunSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const summary = await processAutoReplies({ accountIds: parsed.data.accountIds });
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Unexpected error in POST /api/engagement/auto-reply:", error);
+    return NextResponse.json(
+      { error: "Auto-reply run failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { sendEngagementReply } from "@/lib/social/engagementInbox";
+import { PlatformApiError } from "@/lib/publishing";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const ReplySchema = z.object({
+  text: z.string().trim().min(1).max(10000),
+});
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await req.json().catch(() => null);
+    const parsed = ReplySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const item = await sendEngagementReply(id, user.id, parsed.data.text);
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    console.error("Error sending engagement reply:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to send reply";
+
+    // Platform rejections are upstream failures, whatever their wording
+    if (error instanceof PlatformApiError) {
+      return NextResponse.json({ error: errorMessage }, { status: 502 });
+    }
+
+    if (errorMessage.includes("No connected")) {
+      return NextResponse.json({ error: errorMessage }, { status: 422 });
+    }
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    if (
+      errorMessage.includes("already replied") ||
+      errorMessage.includes("already being replied")
+    ) {
+      return NextResponse.json({ error: errorMessage }, { status: 409 });
+    }
+
+    if (errorMessage.includes("not supported")) {
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
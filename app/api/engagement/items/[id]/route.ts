@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { updateEngagementItemStatus } from "@/lib/social/engagementInbox";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const EngagementItemUpdateSchema = z.object({
+  status: z.enum(["skipped", "unreviewed"]),
+});
+
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await req.json().catch(() => null);
+    const parsed = EngagementItemUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const item = await updateEngagementItemStatus(id, user.id, parsed.data.status);
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    console.error("Error updating engagement item:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to update engagement item";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    if (
+      errorMessage.includes("already replied") ||
+      errorMessage.includes("already being replied")
+    ) {
+      return NextResponse.json({ error: errorMessage }, { status: 409 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
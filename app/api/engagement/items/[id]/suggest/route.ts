@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { generateSuggestedReply } from "@/lib/social/engagementInbox";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(_req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const item = await generateSuggestedReply(id, user.id);
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    console.error("Error generating suggested reply:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to generate reply";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    if (errorMessage.includes("already replied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 409 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
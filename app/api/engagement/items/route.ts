@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { listEngagementInboxItems } from "@/lib/social/engagementInbox";
+
+const EngagementQuerySchema = z.object({
+  status: z
+    .enum(["unreviewed", "suggested_reply_ready", "replied", "skipped"])
+    .optional(),
+  personaId: z.string().uuid().optional(),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const parsed = EngagementQuerySchema.safeParse({
+      status: searchParams.get("status") ?? undefined,
+      personaId: searchParams.get("personaId") ?? undefined,
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const items = await listEngagementInboxItems(user.id, parsed.data);
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("Unexpected error in GET /api/engagement/items:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch engagement items" },
+      { status: 500 }
+    );
+  }
+}
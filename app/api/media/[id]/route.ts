@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { deleteMediaFile } from "@/lib/media/library";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(_req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    await deleteMediaFile(user.id, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting media:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to delete media";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
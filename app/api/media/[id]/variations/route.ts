@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { generateMediaVariations } from "@/lib/media/imageGeneration";
+import { MAX_IMAGES_PER_REQUEST } from "@/lib/media/imageProviders";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const VariationsSchema = z.object({
+  count: z.number().int().min(1).max(MAX_IMAGES_PER_REQUEST).optional(),
+});
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await req.json().catch(() => ({}));
+    const parsed = VariationsSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const media = await generateMediaVariations(id, user.id, parsed.data.count);
+    return NextResponse.json({ media }, { status: 201 });
+  } catch (error) {
+    console.error("Error generating media variations:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to generate variations";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    if (errorMessage.includes("Only generated images")) {
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
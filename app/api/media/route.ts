@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { listMediaFiles, uploadMediaFile } from "@/lib/media/library";
+
+const MediaQuerySchema = z.object({
+  personaId: z.string().uuid().optional(),
+});
+
+const MediaUploadSchema = z.object({
+  personaId: z.string().uuid().optional(),
+  altText: z.string().optional(),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = MediaQuerySchema.safeParse({
+      personaId: new URL(req.url).searchParams.get("personaId") || undefined,
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const media = await listMediaFiles(user.id, parsed.data);
+
+    return NextResponse.json({ media });
+  } catch (error) {
+    console.error("Error loading media:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load media" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const form = await req.formData().catch(() => null);
+    const file = form?.get("file");
+
+    if (!form || !(file instanceof File)) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: { file: "A file is required" } },
+        { status: 400 }
+      );
+    }
+
+    const parsed = MediaUploadSchema.safeParse({
+      personaId: form.get("personaId") || undefined,
+      altText: form.get("altText") ?? undefined,
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { personaId, altText } = parsed.data;
+    const media = await uploadMediaFile(user.id, file, {
+      personaId: personaId ?? null,
+      altText: altText ? altText.slice(0, 1000) : null,
+    });
+
+    return NextResponse.json(media, { status: 201 });
+  } catch (error) {
+    console.error("Error uploading media:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to upload media";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    if (errorMessage.includes("Unsupported media type")) {
+      return NextResponse.json({ error: errorMessage }, { status: 415 });
+    }
+
+    if (errorMessage.includes("too large")) {
+      return NextResponse.json({ error: errorMessage }, { status: 413 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { generatePersonaAvatar } from "@/lib/media/imageGeneration";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const AvatarSchema = z.object({
+  // Falls back to the persona's avatar_prompt
+  prompt: z.string().trim().min(1).max(2000).optional(),
+});
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await req.json().catch(() => ({}));
+    const parsed = AvatarSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const avatar = await generatePersonaAvatar(id, user.id, parsed.data);
+    return NextResponse.json(avatar, { status: 201 });
+  } catch (error) {
+    console.error("Error generating persona avatar:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to generate avatar";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { getCommunityRemovalRates } from "@/lib/analytics/communityRemovals";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const communities = await getCommunityRemovalRates(id, user.id);
+
+    return NextResponse.json({ communities });
+  } catch (error) {
+    console.error("Error loading community removal rates:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to load removal rates";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
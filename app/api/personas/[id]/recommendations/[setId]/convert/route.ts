@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { convertRecommendationToDraft } from "@/lib/analytics/recommendations";
+
+interface RouteContext {
+  params: Promise<{ id: string; setId: string }>;
+}
+
+const ConvertSchema = z.object({
+  index: z.number().int().min(0),
+  campaignId: z.string().uuid().optional(),
+});
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { setId } = await context.params;
+    const body = await req.json().catch(() => null);
+    const parsed = ConvertSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const result = await convertRecommendationToDraft(
+      setId,
+      parsed.data.index,
+      user.id,
+      { campaignId: parsed.data.campaignId }
+    );
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error converting recommendation:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to convert recommendation";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    if (errorMessage.includes("already been converted")) {
+      return NextResponse.json({ error: errorMessage }, { status: 409 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import {
+  generateRecommendationsForPersona,
+  getLatestRecommendations,
+} from "@/lib/analytics/recommendations";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const recommendations = await getLatestRecommendations(id, user.id);
+
+    return NextResponse.json({ recommendations });
+  } catch (error) {
+    console.error("Error loading persona recommendations:", error);
+    return NextResponse.json(
+      { error: "Failed to load recommendations" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(_req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const recommendations = await generateRecommendationsForPersona(id, user.id);
+
+    return NextResponse.json({ recommendations }, { status: 201 });
+  } catch (error) {
+    console.error("Error generating persona recommendations:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to generate recommendations";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import {
+  getPersonaVisualStyle,
+  updatePersonaVisualStyle,
+} from "@/lib/media/imageGeneration";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const VisualStyleSchema = z
+  .object({
+    description: z.string().trim().max(1000).optional(),
+    medium: z.string().trim().max(200).optional(),
+    palette: z.array(z.string().trim().min(1).max(50)).max(8).optional(),
+    mood: z.string().trim().max(200).optional(),
+    avoid: z.array(z.string().trim().min(1).max(100)).max(10).optional(),
+  })
+  .strict();
+
+function errorResponse(error: unknown, fallback: string) {
+  const errorMessage = error instanceof Error ? error.message : fallback;
+
+  if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+    return NextResponse.json({ error: errorMessage }, { status: 404 });
+  }
+
+  return NextResponse.json({ error: errorMessage }, { status: 500 });
+}
+
+export async function GET(_req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    return NextResponse.json(await getPersonaVisualStyle(id, user.id));
+  } catch (error) {
+    console.error("Error loading visual style:", error);
+    return errorResponse(error, "Failed to load visual style");
+  }
+}
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await req.json().catch(() => null);
+    const parsed = VisualStyleSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await updatePersonaVisualStyle(id, user.id, parsed.data));
+  } catch (error) {
+    console.error("Error saving visual style:", error);
+    return errorResponse(error, "Failed to save visual style");
+  }
+}
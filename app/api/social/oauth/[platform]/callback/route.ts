@@ -77,6 +77,7 @@ export async function GET(req: NextRequest, context: RouteContext) {
     }
 
     redirectUrl.searchParams.set("platform", platform);
+    redirectUrl.searchParams.set("personaId", session.persona_id);
     redirectUrl.searchParams.set("state", state);
 
     if (errorCode || errorDescription) {
@@ -4,23 +4,28 @@ import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
 import {
   resolvePlatformClientId,
   resolvePlatformClientSecret,
+  resolvePlatformRedirectUri,
 } from "@/lib/social/oauth";
+import {
+  exchangeAuthorizationCode,
+  fetchOAuthProfile,
+  getOAuthProvider,
+  type OAuthProfile,
+  type OAuthProvider,
+  type OAuthTokenSet,
+} from "@/lib/social/config";
+import {
+  resolveFacebookPageIdentities,
+  type ConnectedIdentity,
+} from "@/lib/social/facebookPages";
 import { encryptSecret } from "@/lib/security/encryption";
+import { PlatformApiError } from "@/lib/publishing";
 import { PersonaSocialAccount } from "@/types/social";
 
 const ExchangeSchema = z.object({
   state: z.string().min(10),
 });
 
-const TokenResponseSchema = z.object({
-  access_token: z.string(),
-  token_type: z.string().optional(),
-  expires_in: z.number().optional(),
-  refresh_token: z.string().optional(),
-  scope: z.string().optional(),
-  id_token: z.string().optional(),
-});
-
 interface RouteContext {
   params: Promise<{ platform: string }>;
 }
@@ -84,31 +89,27 @@ export async function POST(req: NextRequest, context: RouteContext) {
       );
     }
 
-    const { data: platformRecord, error: platformError } = await supabase
-      .from("social_platforms")
-      .select("*")
-      .eq("id", platformId)
-      .single();
-
-    if (platformError || !platformRecord) {
-      return NextResponse.json(
-        { error: "Platform not found" },
-        { status: 404 }
-      );
-    }
-
-    if (!platformRecord.oauth_token_url) {
-      return NextResponse.json(
-        { error: "Platform not configured for token exchange" },
-        { status: 422 }
-      );
+    let provider: OAuthProvider;
+    try {
+      provider = await getOAuthProvider(platformId);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to load platform configuration";
+      const status = message.includes("not found")
+        ? 404
+        : message.includes("not configured")
+          ? 422
+          : 500;
+      return NextResponse.json({ error: message }, { status });
     }
 
     let clientId: string;
     let clientSecret: string;
+    let providerRedirectUri: string;
     try {
       ({ clientId } = resolvePlatformClientId(platformId));
       ({ clientSecret } = resolvePlatformClientSecret(platformId));
+      providerRedirectUri = resolvePlatformRedirectUri(platformId);
     } catch (error) {
       return NextResponse.json(
         { error: error instanceof Error ? error.message : "Missing OAuth credentials" },
@@ -116,122 +117,177 @@ export async function POST(req: NextRequest, context: RouteContext) {
       );
     }
 
-    const tokenResponse = await fetch(platformRecord.oauth_token_url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        grant_type: "authorization_code",
+    let tokens: OAuthTokenSet;
+    let profile: OAuthProfile | null;
+    let identities: ConnectedIdentity[];
+    try {
+      tokens = await exchangeAuthorizationCode(provider, {
         code: session.authorization_code,
-        redirect_uri: session.redirect_uri,
-        client_id: clientId,
-        client_secret: clientSecret,
-        code_verifier: session.code_verifier,
-      }),
-    });
-
-    if (!tokenResponse.ok) {
-      const text = await tokenResponse.text();
-      console.error("OAuth token exchange failed:", tokenResponse.status, text);
+        redirectUri: providerRedirectUri,
+        codeVerifier: session.code_verifier,
+        clientId,
+        clientSecret,
+      });
+      profile = await fetchOAuthProfile(provider, tokens.accessToken);
+      // The login is a Facebook user; what gets connected are their Pages
+      identities =
+        platformId === "facebook"
+          ? await resolveFacebookPageIdentities(tokens, { clientId, clientSecret })
+          : [{ tokens, profile }];
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("No Facebook Pages")) {
+        await supabase
+          .from("social_oauth_sessions")
+          .update({ error: "no_facebook_pages", authorization_code: null })
+          .eq("id", session.id);
+
+        return NextResponse.json(
+          {
+            error:
+              "Facebook publishing needs a Page. Create or get admin access to a Page, then connect again.",
+          },
+          { status: 422 }
+        );
+      }
+
+      console.error("OAuth token exchange failed:", error);
+      const failure =
+        error instanceof PlatformApiError
+          ? `token_exchange_failed:${error.status}`
+          : "token_exchange_failed";
       await supabase
         .from("social_oauth_sessions")
         .update({
-          error: `token_exchange_failed:${tokenResponse.status}`,
-          raw_callback: { token_response: text },
+          error: failure,
+          raw_callback: {
+            token_response: error instanceof Error ? error.message : String(error),
+          },
         })
         .eq("id", session.id);
 
       return NextResponse.json(
-        { error: "Token exchange failed" },
-        { status: 502 }
-      );
-    }
-
-    const tokenJson = await tokenResponse.json();
-    const parsedToken = TokenResponseSchema.safeParse(tokenJson);
-
-    if (!parsedToken.success) {
-      return NextResponse.json(
-        { error: "Unexpected token response shape" },
+        {
+          error:
+            error instanceof PlatformApiError ? error.message : "Token exchange failed",
+        },
         { status: 502 }
       );
     }
 
     const now = Date.now();
-    const accessTokenExpiresAt = parsedToken.data.expires_in
-      ? new Date(now + parsedToken.data.expires_in * 1000).toISOString()
-      : null;
-
-    const scopeArray = parsedToken.data.scope
-      ? parsedToken.data.scope
-          .split(/[ ,]/)
-          .map((s) => s.trim())
-          .filter(Boolean)
-      : session.scopes ?? [];
-
-    const accessTokenEncrypted = encryptSecret(parsedToken.data.access_token);
-    const refreshTokenEncrypted = encryptSecret(
-      parsedToken.data.refresh_token ?? ""
-    );
 
-    const { data: existingAccount } = await supabase
+    // A persona can hold several accounts per platform, so reconnecting
+    // matches on the provider's account id. Providers without a profile
+    // endpoint can't tell accounts apart; those reconnect the default one.
+    const { data: personaAccounts, error: personaAccountsError } = await supabase
       .from("persona_social_accounts")
       .select("*")
       .eq("persona_id", session.persona_id)
-      .eq("platform_id", platformId)
-      .maybeSingle();
-
-    const upsertPayload = {
-      id: existingAccount?.id,
-      persona_id: session.persona_id,
-      platform_id: platformId,
-      platform_account_id: existingAccount?.platform_account_id ?? null,
-      display_name: existingAccount?.display_name ?? null,
-      account_handle: existingAccount?.account_handle ?? null,
-      profile_url: existingAccount?.profile_url ?? null,
-      avatar_url: existingAccount?.avatar_url ?? null,
-      token_type: parsedToken.data.token_type ?? "bearer",
-      access_token_expires_at: accessTokenExpiresAt,
-      refresh_token_expires_at: null,
-      scopes: scopeArray,
-      status: "connected",
-      last_token_refresh_at: new Date(now).toISOString(),
-      last_token_error: null,
-      metadata: existingAccount?.metadata ?? {},
-      last_synced_at: existingAccount?.last_synced_at ?? null,
-      last_engagement_sync_at: existingAccount?.last_engagement_sync_at ?? null,
-      revoked_at: null,
-      updated_at: new Date(now).toISOString(),
-    } as Record<string, unknown>;
-
-    if (accessTokenEncrypted) {
-      upsertPayload["access_token_encrypted"] = accessTokenEncrypted;
-    }
-    if (refreshTokenEncrypted) {
-      upsertPayload["refresh_token_encrypted"] = refreshTokenEncrypted;
-    }
+      .eq("platform_id", platformId);
 
-    const { data: upsertedAccount, error: upsertError } = await supabase
-      .from("persona_social_accounts")
-      .upsert(upsertPayload)
-      .select("*")
-      .single();
-
-    if (upsertError || !upsertedAccount) {
-      console.error("Failed to upsert persona social account:", upsertError);
+    if (personaAccountsError) {
+      console.error("Failed to load persona social accounts:", personaAccountsError);
       return NextResponse.json(
         { error: "Failed to persist account tokens" },
         { status: 500 }
       );
     }
 
+    let hasDefaultAccount = (personaAccounts ?? []).some(
+      (account) => account.is_default
+    );
+
+    const upsertedAccounts = [];
+    for (const identity of identities) {
+      const { tokens: identityTokens, profile: identityProfile } = identity;
+
+      const accessTokenExpiresAt = identityTokens.expiresIn
+        ? new Date(now + identityTokens.expiresIn * 1000).toISOString()
+        : null;
+      const refreshTokenExpiresAt = identityTokens.refreshTokenExpiresIn
+        ? new Date(now + identityTokens.refreshTokenExpiresIn * 1000).toISOString()
+        : null;
+
+      const scopeArray = identityTokens.scopes ?? session.scopes ?? [];
+
+      const accessTokenEncrypted = await encryptSecret(identityTokens.accessToken);
+      const refreshTokenEncrypted = await encryptSecret(identityTokens.refreshToken);
+
+      const existingAccount = identityProfile?.accountId
+        ? personaAccounts?.find(
+            (account) => account.provider_account_id === identityProfile?.accountId
+          )
+        : personaAccounts?.find((account) => account.is_default) ??
+          (personaAccounts?.length === 1 ? personaAccounts[0] : undefined);
+
+      const upsertPayload = {
+        id: existingAccount?.id,
+        persona_id: session.persona_id,
+        platform_id: platformId,
+        platform_account_id:
+          identityProfile?.accountId ?? existingAccount?.platform_account_id ?? null,
+        display_name:
+          identityProfile?.displayName ?? existingAccount?.display_name ?? null,
+        account_handle:
+          identityProfile?.handle ?? existingAccount?.account_handle ?? null,
+        profile_url:
+          identityProfile?.profileUrl ?? existingAccount?.profile_url ?? null,
+        avatar_url: existingAccount?.avatar_url ?? null,
+        provider_account_id:
+          identityProfile?.accountId ?? existingAccount?.provider_account_id ?? null,
+        provider_username:
+          identityProfile?.username ?? existingAccount?.provider_username ?? null,
+        token_type: identityTokens.tokenType,
+        access_token_expires_at: accessTokenExpiresAt,
+        refresh_token_expires_at: refreshTokenExpiresAt,
+        scopes: scopeArray,
+        status: "connected",
+        last_token_refresh_at: new Date(now).toISOString(),
+        last_refreshed_at: new Date(now).toISOString(),
+        last_token_error: null,
+        metadata: existingAccount?.metadata ?? {},
+        last_synced_at: existingAccount?.last_synced_at ?? null,
+        last_engagement_sync_at: existingAccount?.last_engagement_sync_at ?? null,
+        revoked_at: null,
+        // The persona's first account on a platform becomes its default
+        is_default: existingAccount?.is_default ?? !hasDefaultAccount,
+        updated_at: new Date(now).toISOString(),
+      } as Record<string, unknown>;
+
+      if (accessTokenEncrypted) {
+        upsertPayload["access_token_encrypted"] = accessTokenEncrypted;
+      }
+      if (refreshTokenEncrypted) {
+        upsertPayload["refresh_token_encrypted"] = refreshTokenEncrypted;
+      }
+
+      const { data: upsertedAccount, error: upsertError } = await supabase
+        .from("persona_social_accounts")
+        .upsert(upsertPayload)
+        .select("*")
+        .single();
+
+      if (upsertError || !upsertedAccount) {
+        console.error("Failed to upsert persona social account:", upsertError);
+        return NextResponse.json(
+          { error: "Failed to persist account tokens" },
+          { status: 500 }
+        );
+      }
+
+      hasDefaultAccount = hasDefaultAccount || Boolean(upsertedAccount.is_default);
+      upsertedAccounts.push(upsertedAccount);
+    }
+
+    // A Facebook login can connect several Pages; the first stands for them
+    const [upsertedAccount] = upsertedAccounts;
+
     await supabase
       .from("social_oauth_sessions")
       .update({
         authorization_code: null,
         error: null,
-        raw_callback: tokenJson,
+        raw_callback: tokens.raw,
         processed_at: new Date(now).toISOString(),
         persona_social_account_id: upsertedAccount.id,
       })
@@ -260,6 +316,7 @@ export async function POST(req: NextRequest, context: RouteContext) {
       last_synced_at: upsertedAccount.last_synced_at,
       last_engagement_sync_at: upsertedAccount.last_engagement_sync_at,
       revoked_at: upsertedAccount.revoked_at,
+      is_default: upsertedAccount.is_default,
       created_at: upsertedAccount.created_at,
       updated_at: upsertedAccount.updated_at,
     };
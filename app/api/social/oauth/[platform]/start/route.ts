@@ -6,7 +6,13 @@ import {
   generateOAuthState,
   generatePkcePair,
   resolvePlatformClientId,
+  resolvePlatformRedirectUri,
 } from "@/lib/social/oauth";
+import {
+  buildAuthorizeUrl,
+  getOAuthProvider,
+  type OAuthProvider,
+} from "@/lib/social/config";
 
 const StartRequestSchema = z.object({
   personaId: z.string().uuid(),
@@ -65,49 +71,30 @@ export async function POST(req: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    const { data: platformRecord, error: platformError } = await supabase
-      .from("social_platforms")
-      .select("*")
-      .eq("id", platformId)
-      .maybeSingle();
-
-    if (platformError) {
-      console.error("Error fetching social platform:", platformError);
-      return NextResponse.json(
-        { error: "Failed to load platform configuration" },
-        { status: 500 }
-      );
-    }
-
-    if (!platformRecord) {
-      return NextResponse.json({ error: "Platform not found" }, { status: 404 });
-    }
-
-    if (!platformRecord.oauth_authorize_url) {
-      return NextResponse.json(
-        { error: "Platform is not configured for OAuth" },
-        { status: 422 }
-      );
+    let provider: OAuthProvider;
+    try {
+      provider = await getOAuthProvider(platformId);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to load platform configuration";
+      const status = message.includes("not found")
+        ? 404
+        : message.includes("not configured")
+          ? 422
+          : 500;
+      return NextResponse.json({ error: message }, { status });
     }
 
     const platformScopes =
       requestedScopes && requestedScopes.length > 0
         ? requestedScopes
-        : platformRecord.default_scopes ?? [];
-
-    let authorizeUrl: URL;
-    try {
-      authorizeUrl = new URL(platformRecord.oauth_authorize_url);
-    } catch {
-      return NextResponse.json(
-        { error: "Invalid platform authorization URL" },
-        { status: 500 }
-      );
-    }
+        : provider.defaultScopes;
 
     let clientId: string;
+    let providerRedirectUri: string;
     try {
       ({ clientId } = resolvePlatformClientId(platformId));
+      providerRedirectUri = resolvePlatformRedirectUri(platformId);
     } catch (error) {
       return NextResponse.json(
         { error: error instanceof Error ? error.message : "Missing OAuth client configuration" },
@@ -145,22 +132,20 @@ export async function POST(req: NextRequest, context: RouteContext) {
       );
     }
 
-    authorizeUrl.searchParams.set("response_type", "code");
-    authorizeUrl.searchParams.set("client_id", clientId);
-    authorizeUrl.searchParams.set("redirect_uri", safeRedirectUri);
-    authorizeUrl.searchParams.set("scope", platformScopes.join(" "));
-    authorizeUrl.searchParams.set("state", state);
-    authorizeUrl.searchParams.set("code_challenge", codeChallenge);
-    authorizeUrl.searchParams.set(
-      "code_challenge_method",
-      codeChallengeMethod
-    );
+    const authorizeUrl = buildAuthorizeUrl(provider, {
+      clientId,
+      redirectUri: providerRedirectUri,
+      state,
+      scopes: platformScopes,
+      codeChallenge,
+      codeChallengeMethod,
+    });
 
     return NextResponse.json({
       session_id: session.id,
-      platform_id: platformRecord.id,
+      platform_id: provider.platformId,
       persona_id: session.persona_id,
-      authorize_url: authorizeUrl.toString(),
+      authorize_url: authorizeUrl,
       state,
       expires_at: session.expires_at,
       scopes: session.scopes,
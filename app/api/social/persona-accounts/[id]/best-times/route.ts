@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { suggestBestTimesForAccount } from "@/lib/campaigns/bestTimeSuggestions";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const BestTimesQuerySchema = z.object({
+  count: z.coerce.number().int().min(1).max(10).optional(),
+});
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const parsed = BestTimesQuerySchema.safeParse({
+      count: searchParams.get("count") ?? undefined,
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { id: accountId } = await context.params;
+    const result = await suggestBestTimesForAccount(accountId, user.id, {
+      count: parsed.data.count,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error suggesting posting times:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to suggest posting times";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
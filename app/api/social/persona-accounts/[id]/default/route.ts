@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { setDefaultSocialAccount } from "@/lib/social/defaultAccounts";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(_req: NextRequest, context: RouteContext) {
+  try {
+    const { id: accountId } = await context.params;
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+      const result = await setDefaultSocialAccount(accountId, user.id);
+      return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to set the default account";
+      const status = errorMessage.includes("not found")
+        ? 404
+        : errorMessage.includes("Only connected")
+          ? 422
+          : 500;
+      if (status === 500) {
+        console.error("Failed to set the default social account:", error);
+      }
+      return NextResponse.json({ error: errorMessage }, { status });
+    }
+  } catch (error) {
+    console.error(
+      "Unexpected error in POST /api/social/persona-accounts/[id]/default:",
+      error
+    );
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
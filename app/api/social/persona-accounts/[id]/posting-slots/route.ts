@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { updatePostingSlots } from "@/lib/campaigns/queue";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const PostingSlotsSchema = z.object({
+  slots: z
+    .array(
+      z.object({
+        day_of_week: z.number().int().min(0).max(6),
+        time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM"),
+      })
+    )
+    .max(50),
+});
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: accountId } = await context.params;
+    const body = await req.json().catch(() => null);
+    const parsed = PostingSlotsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const slots = await updatePostingSlots(accountId, user.id, parsed.data.slots);
+
+    return NextResponse.json({ slots });
+  } catch (error) {
+    console.error("Error saving posting slots:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to save posting slots";
+
+    if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 });
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { addPostToQueue, getAccountQueue, reorderQueue } from "@/lib/campaigns/queue";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const AddToQueueSchema = z.object({
+  postId: z.string().uuid(),
+});
+
+const ReorderQueueSchema = z.object({
+  postIds: z.array(z.string().uuid()),
+});
+
+function queueErrorResponse(error: unknown, fallback: string) {
+  const errorMessage = error instanceof Error ? error.message : fallback;
+
+  if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+    return NextResponse.json({ error: errorMessage }, { status: 404 });
+  }
+
+  if (errorMessage.includes("does not belong")) {
+    return NextResponse.json({ error: errorMessage }, { status: 403 });
+  }
+
+  if (
+    errorMessage.includes("No posting slots") ||
+    errorMessage.includes("No free posting slot") ||
+    errorMessage.includes("Only draft or scheduled")
+  ) {
+    return NextResponse.json({ error: errorMessage }, { status: 422 });
+  }
+
+  if (
+    errorMessage.includes("Queue has changed") ||
+    errorMessage.includes("Rate limit:") ||
+    errorMessage.includes("Subreddit blocked")
+  ) {
+    return NextResponse.json({ error: errorMessage }, { status: 409 });
+  }
+
+  return NextResponse.json({ error: errorMessage }, { status: 500 });
+}
+
+export async function GET(_req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: accountId } = await context.params;
+    const queue = await getAccountQueue(accountId, user.id);
+
+    return NextResponse.json(queue);
+  } catch (error) {
+    console.error("Error loading posting queue:", error);
+    return queueErrorResponse(error, "Failed to load posting queue");
+  }
+}
+
+/**
+ * Adds a post to the account's queue, in the next free slot.
+ */
+export async function POST(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: accountId } = await context.params;
+    const body = await req.json().catch(() => null);
+    const parsed = AddToQueueSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const post = await addPostToQueue(parsed.data.postId, accountId, user.id);
+
+    return NextResponse.json(post);
+  } catch (error) {
+    console.error("Error adding content to queue:", error);
+    return queueErrorResponse(error, "Failed to add content to queue");
+  }
+}
+
+/**
+ * Reorders the queue; `postIds` must list every upcoming post once.
+ */
+export async function PUT(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: accountId } = await context.params;
+    const body = await req.json().catch(() => null);
+    const parsed = ReorderQueueSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const posts = await reorderQueue(accountId, user.id, parsed.data.postIds);
+
+    return NextResponse.json({ posts });
+  } catch (error) {
+    console.error("Error reordering queue:", error);
+    return queueErrorResponse(error, "Failed to reorder queue");
+  }
+}
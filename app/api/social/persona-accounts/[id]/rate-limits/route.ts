@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import {
+  getAccountRateLimits,
+  updateAccountRateLimits,
+} from "@/lib/campaigns/rateLimits";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Omitted keys use the platform default; null turns the limit off
+const limit = z.number().int().min(0).max(10000).nullable().optional();
+
+const RateLimitsSchema = z
+  .object({
+    posts_per_hour: limit,
+    posts_per_day: limit,
+    min_spacing_minutes: limit,
+    subreddit_cooldown_minutes: limit,
+  })
+  .strict();
+
+function errorResponse(error: unknown, fallback: string) {
+  const errorMessage = error instanceof Error ? error.message : fallback;
+
+  if (errorMessage.includes("not found") || errorMessage.includes("access denied")) {
+    return NextResponse.json({ error: errorMessage }, { status: 404 });
+  }
+
+  return NextResponse.json({ error: errorMessage }, { status: 500 });
+}
+
+export async function GET(_req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: accountId } = await context.params;
+    return NextResponse.json(await getAccountRateLimits(accountId, user.id));
+  } catch (error) {
+    console.error("Error loading rate limits:", error);
+    return errorResponse(error, "Failed to load rate limits");
+  }
+}
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: accountId } = await context.params;
+    const body = await req.json().catch(() => null);
+    const parsed = RateLimitsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      await updateAccountRateLimits(accountId, user.id, parsed.data)
+    );
+  } catch (error) {
+    console.error("Error saving rate limits:", error);
+    return errorResponse(error, "Failed to save rate limits");
+  }
+}
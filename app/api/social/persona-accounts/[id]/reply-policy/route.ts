@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const keywordList = z.array(z.string().trim().min(1).max(100)).max(100);
+const hour = z.number().int().min(0).max(23).nullable();
+
+const ReplyPolicySchema = z.object({
+  enabled: z.boolean(),
+  auto_reply_keywords: keywordList,
+  review_keywords: keywordList,
+  skip_keywords: keywordList,
+  author_allowlist: keywordList,
+  author_denylist: keywordList,
+  max_auto_replies_per_hour: z.number().int().min(0).max(60),
+  min_sentiment_for_auto_reply: z.number().min(-1).max(1),
+  skip_below_sentiment: z.number().min(-1).max(1).nullable(),
+  quiet_hours_start: hour,
+  quiet_hours_end: hour,
+  timezone: z.string().min(1).max(64),
+  guardrails: z
+    .object({
+      forbiddenPhrases: z.array(z.string().min(1)).optional(),
+      forbiddenTopics: z.array(z.string().min(1)).optional(),
+      allowedTopics: z.array(z.string().min(1)).optional(),
+      minLength: z.number().int().min(0).optional(),
+      maxLength: z.number().int().min(1).optional(),
+    })
+    .default({}),
+});
+
+/**
+ * Verifies the signed-in user owns the persona behind a social account.
+ * Returns an error response, or null when access is allowed.
+ */
+async function authorizeAccount(
+  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+  accountId: string
+): Promise<NextResponse | null> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: account, error } = await supabase
+    .from("persona_social_accounts")
+    .select(
+      `
+      id,
+      personas!inner (
+        user_id
+      )
+    `
+    )
+    .eq("id", accountId)
+    .single();
+
+  if (error || !account) {
+    return NextResponse.json({ error: "Social account not found" }, { status: 404 });
+  }
+
+  if ((account.personas as unknown as { user_id: string }).user_id !== user.id) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  return null;
+}
+
+export async function GET(_req: NextRequest, context: RouteContext) {
+  try {
+    const { id: accountId } = await context.params;
+    const supabase = await createSupabaseServerClient();
+
+    const denied = await authorizeAccount(supabase, accountId);
+    if (denied) {
+      return denied;
+    }
+
+    const [{ data: policy, error: policyError }, { data: decisions, error: decisionsError }] =
+      await Promise.all([
+        supabase
+          .from("engagement_reply_policies")
+          .select("*")
+          .eq("persona_social_account_id", accountId)
+          .maybeSingle(),
+        supabase
+          .from("engagement_policy_decisions")
+          .select("*")
+          .eq("persona_social_account_id", accountId)
+          .order("created_at", { ascending: false })
+          .limit(20),
+      ]);
+
+    if (policyError || decisionsError) {
+      console.error("Failed to load reply policy:", policyError ?? decisionsError);
+      return NextResponse.json(
+        { error: "Failed to load reply policy" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ policy, decisions: decisions ?? [] });
+  } catch (error) {
+    console.error(
+      "Unexpected error in GET /api/social/persona-accounts/[id]/reply-policy:",
+      error
+    );
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  try {
+    const { id: accountId } = await context.params;
+    const supabase = await createSupabaseServerClient();
+
+    const denied = await authorizeAccount(supabase, accountId);
+    if (denied) {
+      return denied;
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = ReplyPolicySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid reply policy", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: parsed.data.timezone });
+    } catch {
+      return NextResponse.json(
+        { error: `Unknown timezone "${parsed.data.timezone}"` },
+        { status: 400 }
+      );
+    }
+
+    const { data: policy, error } = await supabase
+      .from("engagement_reply_policies")
+      .upsert(
+        {
+          ...parsed.data,
+          persona_social_account_id: accountId,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "persona_social_account_id" }
+      )
+      .select("*")
+      .single();
+
+    if (error || !policy) {
+      console.error("Failed to save reply policy:", error);
+      return NextResponse.json(
+        { error: "Failed to save reply policy" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error(
+      "Unexpected error in PUT /api/social/persona-accounts/[id]/reply-policy:",
+      error
+    );
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
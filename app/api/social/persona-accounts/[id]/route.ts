@@ -1,11 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { disconnectSocialAccount } from "@/lib/social/disconnect";
+
+const DisconnectSchema = z
+  .object({
+    scheduledPosts: z.enum(["cancel", "reassign"]).default("cancel"),
+    reassignToAccountId: z.string().uuid().optional(),
+  })
+  .refine(
+    (value) => value.scheduledPosts !== "reassign" || value.reassignToAccountId,
+    {
+      message: "reassignToAccountId is required to reassign scheduled posts",
+      path: ["reassignToAccountId"],
+    }
+  );
 
 interface RouteContext {
   params: Promise<{ id: string }>;
 }
 
-export async function DELETE(_req: NextRequest, context: RouteContext) {
+export async function DELETE(req: NextRequest, context: RouteContext) {
   try {
     const { id: accountId } = await context.params;
     const supabase = await createSupabaseServerClient();
@@ -17,50 +32,33 @@ export async function DELETE(_req: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { data: account, error: accountError } = await supabase
-      .from("persona_social_accounts")
-      .select(
-        `
-        *,
-        personas!inner (
-          user_id
-        )
-      `
-      )
-      .eq("id", accountId)
-      .single();
+    // The body is optional; a bare DELETE cancels the scheduled posts
+    const json = await req.json().catch(() => ({}));
+    const parsed = DisconnectSchema.safeParse(json ?? {});
 
-    if (accountError || !account) {
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: "Social account not found" },
-        { status: 404 }
+        { error: "Invalid request body", details: parsed.error.format() },
+        { status: 400 }
       );
     }
 
-    if (account.personas.user_id !== user.id) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    try {
+      const result = await disconnectSocialAccount(accountId, user.id, parsed.data);
+      return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to revoke account";
+      const status = errorMessage.includes("not found")
+        ? 404
+        : errorMessage.includes("Reassignment target")
+          ? 422
+          : 500;
+      if (status === 500) {
+        console.error("Failed to revoke social account:", error);
+      }
+      return NextResponse.json({ error: errorMessage }, { status });
     }
-
-    const { error: updateError } = await supabase
-      .from("persona_social_accounts")
-      .update({
-        access_token_encrypted: null,
-        refresh_token_encrypted: null,
-        status: "revoked",
-        revoked_at: new Date().toISOString(),
-        last_token_error: null,
-      })
-      .eq("id", accountId);
-
-    if (updateError) {
-      console.error("Failed to revoke social account:", updateError);
-      return NextResponse.json(
-        { error: "Failed to revoke account" },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json({ success: true });
   } catch (error) {
     console.error(
       "Unexpected error in DELETE /api/social/persona-accounts/[id]:",
@@ -72,4 +70,3 @@ export async function DELETE(_req: NextRequest, context: RouteContext) {
     );
   }
 }
-
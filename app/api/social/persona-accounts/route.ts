@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/lib/supabase/serverClient";
+import { resolveConnectionHealth } from "@/lib/social/accountTokens";
 import { PersonaSocialAccount } from "@/types/social";
 
 export async function GET(req: NextRequest) {
@@ -39,6 +40,9 @@ export async function GET(req: NextRequest) {
       last_synced_at,
       last_engagement_sync_at,
       revoked_at,
+      is_default,
+      posting_slots,
+      rate_limits,
       created_at,
       updated_at
     `;
@@ -53,7 +57,8 @@ export async function GET(req: NextRequest) {
         )
       `
       )
-      .eq("personas.user_id", user.id);
+      .eq("personas.user_id", user.id)
+      .order("created_at", { ascending: true });
 
     if (personaId) {
       query = query.eq("persona_id", personaId);
@@ -84,9 +89,37 @@ export async function GET(req: NextRequest) {
       return {
         ...account,
         metadata: metadata ?? {},
+        health: resolveConnectionHealth(account),
       };
     });
 
+    // Posts scheduled on a broken account will fail when they come due
+    const unhealthyIds = accounts
+      .filter((account) => account.health !== "healthy")
+      .map((account) => account.id);
+
+    if (unhealthyIds.length > 0) {
+      const { data: scheduledPosts, error: scheduledError } = await supabase
+        .from("campaign_posts")
+        .select("persona_social_account_id")
+        .eq("status", "scheduled")
+        .in("persona_social_account_id", unhealthyIds);
+
+      if (scheduledError) {
+        // Left unset rather than 0, which would claim nothing is affected
+        console.error("Error counting scheduled posts for accounts:", scheduledError);
+      } else {
+        for (const account of accounts) {
+          if (account.health === "healthy") {
+            continue;
+          }
+          account.scheduled_post_count = (scheduledPosts ?? []).filter(
+            (post) => post.persona_social_account_id === account.id
+          ).length;
+        }
+      }
+    }
+
     return NextResponse.json(accounts);
   } catch (error) {
     console.error("Unexpected error in GET /api/social/persona-accounts:", error);
@@ -0,0 +1,88 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import {
+  aggregateRemovalRates,
+  rateLimitSubreddit,
+  REMOVAL_RATE_WINDOW_DAYS,
+  type CommunityRemovalRate,
+  type PostVisibility,
+} from "@/lib/publishing";
+
+async function loadRemovalRates(personaId: string, now: Date): Promise<CommunityRemovalRate[]> {
+  const supabase = createSupabaseServiceClient();
+  const since = new Date(
+    now.getTime() - REMOVAL_RATE_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  const { data, error } = await supabase
+    .from("campaign_posts")
+    .select("content_json, platform_options, visibility")
+    .eq("persona_id", personaId)
+    .eq("platform_id", "reddit")
+    .not("visibility", "is", null)
+    .gte("posted_at", since);
+
+  if (error) {
+    throw new Error(`Failed to load post visibility: ${error.message}`);
+  }
+
+  return aggregateRemovalRates(
+    (data ?? []).map((row) => ({
+      community: rateLimitSubreddit(row),
+      visibility: row.visibility as PostVisibility | null,
+    }))
+  );
+}
+
+/**
+ * How often each subreddit removed the persona's recent posts, worst first.
+ */
+export async function getCommunityRemovalRates(
+  personaId: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<CommunityRemovalRate[]> {
+  const supabase = createSupabaseServiceClient();
+  const { data: persona } = await supabase
+    .from("personas")
+    .select("id")
+    .eq("id", personaId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!persona) {
+    throw new Error("Persona not found or access denied");
+  }
+
+  return loadRemovalRates(personaId, now);
+}
+
+/**
+ * Refuses Reddit posts aimed at a subreddit that keeps removing the
+ * persona's posts. Returns the reason, or null when the post may go out.
+ */
+export async function checkCommunityRemovals(
+  post: {
+    persona_id: string;
+    platform_id?: string | null;
+    content_json?: unknown;
+    platform_options?: unknown;
+  },
+  now: Date = new Date()
+): Promise<string | null> {
+  if (post.platform_id !== "reddit") {
+    return null;
+  }
+
+  const subreddit = rateLimitSubreddit(post);
+  if (!subreddit) {
+    return null;
+  }
+
+  const rates = await loadRemovalRates(post.persona_id, now);
+  const rate = rates.find((entry) => entry.community === subreddit.toLowerCase());
+  if (!rate?.blocked) {
+    return null;
+  }
+
+  return `Subreddit blocked: r/${subreddit} removed ${rate.removed} of this persona's last ${rate.checked} posts. Pick another community.`;
+}
@@ -0,0 +1,324 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import {
+  engagementTotal,
+  isFailedPostStatus,
+  type PostMetricsSnapshot,
+} from "@/lib/publishing";
+
+export type DashboardRange = "7d" | "30d" | "90d";
+
+export const DASHBOARD_RANGES: { value: DashboardRange; label: string; days: number }[] = [
+  { value: "7d", label: "Last 7 days", days: 7 },
+  { value: "30d", label: "Last 30 days", days: 30 },
+  { value: "90d", label: "Last 90 days", days: 90 },
+];
+
+export interface RankedEntity {
+  id: string;
+  name: string;
+  posts: number;
+  engagement: number;
+  averageEngagement: number;
+}
+
+export interface RankedPost {
+  id: string;
+  campaignId: string;
+  campaignName: string;
+  personaName: string;
+  platformId: string | null;
+  title: string;
+  postUrl: string | null;
+  postedAt: string;
+  engagement: number;
+  metrics: PostMetricsSnapshot;
+}
+
+export interface PlatformCadence {
+  platformId: string;
+  posts: number;
+  postsPerWeek: number;
+  /** Published post counts per week, oldest first. Weeks start on Monday (UTC). */
+  weeks: { weekStart: string; posts: number }[];
+}
+
+export interface PlatformFailures {
+  platformId: string;
+  attempts: number;
+  failed: number;
+  failureRate: number;
+  topErrors: { message: string; count: number }[];
+}
+
+export interface DashboardAnalytics {
+  range: { from: string; to: string; days: number };
+  totals: {
+    published: number;
+    failed: number;
+    engagement: number;
+    failureRate: number;
+  };
+  personas: RankedEntity[];
+  campaigns: RankedEntity[];
+  topPosts: RankedPost[];
+  cadence: PlatformCadence[];
+  failures: PlatformFailures[];
+}
+
+export interface DashboardPostRow {
+  id: string;
+  campaign_id: string;
+  persona_id: string;
+  platform_id: string | null;
+  status: string;
+  posted_at: string | null;
+  last_attempt_at: string | null;
+  last_error: string | null;
+  post_url: string | null;
+  metrics: PostMetricsSnapshot | null;
+  content_json: { title?: string; text?: string } | null;
+}
+
+const TOP_POSTS_LIMIT = 10;
+const TOP_ERRORS_LIMIT = 3;
+
+function startOfUtcWeek(date: Date): string {
+  const day = date.getUTCDay();
+  const monday = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - ((day + 6) % 7))
+  );
+  return monday.toISOString().slice(0, 10);
+}
+
+function rank(
+  groups: Map<string, { name: string; posts: number; engagement: number }>
+): RankedEntity[] {
+  return Array.from(groups.entries())
+    .map(([id, group]) => ({
+      id,
+      name: group.name,
+      posts: group.posts,
+      engagement: group.engagement,
+      averageEngagement: group.posts > 0 ? group.engagement / group.posts : 0,
+    }))
+    .sort((a, b) => b.engagement - a.engagement || b.posts - a.posts);
+}
+
+/**
+ * Builds the dashboard from the posts that were published or attempted in
+ * the window. Engagement is the latest snapshot of each post published in
+ * the window, so older posts don't crowd out recent ones.
+ */
+export function buildDashboardAnalytics(
+  posts: DashboardPostRow[],
+  names: {
+    personas: Record<string, string>;
+    campaigns: Record<string, string>;
+  },
+  from: Date,
+  to: Date
+): DashboardAnalytics {
+  const days = Math.max(1, Math.round((to.getTime() - from.getTime()) / 86400000));
+  const inRange = (iso: string | null) => {
+    if (!iso) {
+      return false;
+    }
+    const time = new Date(iso).getTime();
+    return time >= from.getTime() && time <= to.getTime();
+  };
+
+  const personaGroups = new Map<string, { name: string; posts: number; engagement: number }>();
+  const campaignGroups = new Map<string, { name: string; posts: number; engagement: number }>();
+  const cadence = new Map<string, Map<string, number>>();
+  const failures = new Map<
+    string,
+    { attempts: number; failed: number; errors: Map<string, number> }
+  >();
+  const topPosts: RankedPost[] = [];
+  let published = 0;
+  let failed = 0;
+  let totalEngagement = 0;
+
+  for (const post of posts) {
+    const platformId = post.platform_id ?? "unknown";
+    const wasPublished = post.status === "published" && inRange(post.posted_at);
+    const hasFailed = isFailedPostStatus(post.status) && inRange(post.last_attempt_at);
+
+    if (wasPublished || hasFailed) {
+      const platformFailures = failures.get(platformId) ?? {
+        attempts: 0,
+        failed: 0,
+        errors: new Map<string, number>(),
+      };
+      platformFailures.attempts += 1;
+      if (hasFailed) {
+        platformFailures.failed += 1;
+        const message = (post.last_error ?? "Unknown error").slice(0, 120);
+        platformFailures.errors.set(message, (platformFailures.errors.get(message) ?? 0) + 1);
+      }
+      failures.set(platformId, platformFailures);
+    }
+
+    if (hasFailed) {
+      failed += 1;
+    }
+
+    if (!wasPublished) {
+      continue;
+    }
+
+    published += 1;
+    const engagement = engagementTotal(post.metrics);
+    totalEngagement += engagement;
+
+    const persona = personaGroups.get(post.persona_id) ?? {
+      name: names.personas[post.persona_id] ?? "Unknown persona",
+      posts: 0,
+      engagement: 0,
+    };
+    persona.posts += 1;
+    persona.engagement += engagement;
+    personaGroups.set(post.persona_id, persona);
+
+    const campaign = campaignGroups.get(post.campaign_id) ?? {
+      name: names.campaigns[post.campaign_id] ?? "Untitled campaign",
+      posts: 0,
+      engagement: 0,
+    };
+    campaign.posts += 1;
+    campaign.engagement += engagement;
+    campaignGroups.set(post.campaign_id, campaign);
+
+    const weeks = cadence.get(platformId) ?? new Map<string, number>();
+    const weekStart = startOfUtcWeek(new Date(post.posted_at!));
+    weeks.set(weekStart, (weeks.get(weekStart) ?? 0) + 1);
+    cadence.set(platformId, weeks);
+
+    if (post.metrics) {
+      topPosts.push({
+        id: post.id,
+        campaignId: post.campaign_id,
+        campaignName: campaign.name,
+        personaName: persona.name,
+        platformId: post.platform_id,
+        title:
+          post.content_json?.title ||
+          (post.content_json?.text ?? "").slice(0, 80) ||
+          "Untitled post",
+        postUrl: post.post_url,
+        postedAt: post.posted_at!,
+        engagement,
+        metrics: post.metrics,
+      });
+    }
+  }
+
+  const attempts = published + failed;
+
+  return {
+    range: { from: from.toISOString(), to: to.toISOString(), days },
+    totals: {
+      published,
+      failed,
+      engagement: totalEngagement,
+      failureRate: attempts > 0 ? failed / attempts : 0,
+    },
+    personas: rank(personaGroups),
+    campaigns: rank(campaignGroups),
+    topPosts: topPosts
+      .sort((a, b) => b.engagement - a.engagement)
+      .slice(0, TOP_POSTS_LIMIT),
+    cadence: Array.from(cadence.entries())
+      .map(([platformId, weeks]) => {
+        const count = Array.from(weeks.values()).reduce((sum, n) => sum + n, 0);
+        return {
+          platformId,
+          posts: count,
+          postsPerWeek: count / (days / 7),
+          weeks: Array.from(weeks.entries())
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([weekStart, posts]) => ({ weekStart, posts })),
+        };
+      })
+      .sort((a, b) => b.posts - a.posts),
+    failures: Array.from(failures.entries())
+      .map(([platformId, platform]) => ({
+        platformId,
+        attempts: platform.attempts,
+        failed: platform.failed,
+        failureRate: platform.attempts > 0 ? platform.failed / platform.attempts : 0,
+        topErrors: Array.from(platform.errors.entries())
+          .sort(([, a], [, b]) => b - a)
+          .slice(0, TOP_ERRORS_LIMIT)
+          .map(([message, count]) => ({ message, count })),
+      }))
+      .sort((a, b) => b.failureRate - a.failureRate),
+  };
+}
+
+/**
+ * Loads dashboard analytics for a user over a date range, optionally
+ * narrowed to one persona.
+ */
+export async function loadDashboardAnalytics(
+  userId: string,
+  options: { range: DashboardRange; personaId?: string; now?: Date }
+): Promise<DashboardAnalytics> {
+  const supabase = createSupabaseServiceClient();
+  const to = options.now ?? new Date();
+  const days = DASHBOARD_RANGES.find((range) => range.value === options.range)?.days ?? 30;
+  const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+  const fromIso = from.toISOString();
+
+  let postsQuery = supabase
+    .from("campaign_posts")
+    .select(
+      `
+      id,
+      campaign_id,
+      persona_id,
+      platform_id,
+      status,
+      posted_at,
+      last_attempt_at,
+      last_error,
+      post_url,
+      metrics,
+      content_json,
+      campaigns!inner ( user_id )
+    `
+    )
+    .eq("campaigns.user_id", userId)
+    .or(`posted_at.gte.${fromIso},last_attempt_at.gte.${fromIso}`);
+
+  if (options.personaId) {
+    postsQuery = postsQuery.eq("persona_id", options.personaId);
+  }
+
+  const [postsResult, personasResult, campaignsResult] = await Promise.all([
+    postsQuery,
+    supabase.from("personas").select("id, display_name").eq("user_id", userId),
+    supabase.from("campaigns").select("id, name").eq("user_id", userId),
+  ]);
+
+  if (postsResult.error) {
+    throw new Error(`Failed to load posts for dashboard: ${postsResult.error.message}`);
+  }
+
+  const personas: Record<string, string> = {};
+  for (const persona of personasResult.data ?? []) {
+    personas[persona.id] = persona.display_name;
+  }
+
+  const campaigns: Record<string, string> = {};
+  for (const campaign of campaignsResult.data ?? []) {
+    campaigns[campaign.id] = campaign.name;
+  }
+
+  return buildDashboardAnalytics(
+    (postsResult.data ?? []) as unknown as DashboardPostRow[],
+    { personas, campaigns },
+    from,
+    to
+  );
+}
@@ -0,0 +1,383 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import { engagementTotal, type PostMetricsSnapshot } from "@/lib/publishing";
+import { upsertTargetPlatforms } from "@/lib/campaigns/mappers";
+import {
+  generatePersonaRecommendations,
+  type RecommendationPostContext,
+  type RecommendationResearchContext,
+} from "@/lib/openai/personaRecommendations";
+import type { ResonanceResearchResult } from "@/types/resonance";
+import type {
+  PersonaRecommendationSet,
+  RecommendedPostingTime,
+} from "@/types/recommendations";
+
+// How far back to look for evidence, and how many posts to show the model
+const LOOKBACK_DAYS = 90;
+const MAX_POSTS = 20;
+const EXCERPT_LENGTH = 280;
+
+interface PublishedPostRow {
+  id: string;
+  platform_id: string | null;
+  posted_at: string;
+  metrics: PostMetricsSnapshot | null;
+  content_json: { title?: string; text?: string } | null;
+}
+
+/**
+ * The Monday (UTC) after `now`, as YYYY-MM-DD.
+ */
+export function nextWeekStart(now: Date): string {
+  const daysUntilMonday = ((8 - now.getUTCDay()) % 7) || 7;
+  const monday = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + daysUntilMonday)
+  );
+  return monday.toISOString().slice(0, 10);
+}
+
+/**
+ * Resolves a recommended weekday/hour to a concrete time in the week that
+ * starts on `weekStart` (a Monday).
+ */
+export function resolvePostingTime(
+  weekStart: string,
+  postingTime: RecommendedPostingTime
+): string {
+  const monday = new Date(`${weekStart}T00:00:00.000Z`);
+  const offset = (postingTime.day_of_week + 6) % 7;
+  monday.setUTCDate(monday.getUTCDate() + offset);
+  monday.setUTCHours(postingTime.hour);
+  return monday.toISOString();
+}
+
+async function loadOwnedPersona(personaId: string, userId: string) {
+  const supabase = createSupabaseServiceClient();
+  const { data: persona, error } = await supabase
+    .from("personas")
+    .select("id, display_name, biography, goals, personality, occupation, industry")
+    .eq("id", personaId)
+    .eq("user_id", userId)
+    .single();
+
+  if (error || !persona) {
+    throw new Error("Persona not found or access denied");
+  }
+
+  return persona;
+}
+
+function toRecommendationSet(row: Record<string, unknown>): PersonaRecommendationSet {
+  return {
+    id: row.id as string,
+    persona_id: row.persona_id as string,
+    user_id: row.user_id as string,
+    summary: (row.summary as string) ?? "",
+    recommendations: (row.recommendations as PersonaRecommendationSet["recommendations"]) ?? [],
+    sources: (row.sources as PersonaRecommendationSet["sources"]) ?? {
+      posts: {},
+      research: {},
+    },
+    week_start: row.week_start as string,
+    model: (row.model as string | null) ?? null,
+    created_at: row.created_at as string,
+  };
+}
+
+export async function getLatestRecommendations(
+  personaId: string,
+  userId: string
+): Promise<PersonaRecommendationSet | null> {
+  const supabase = createSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("persona_recommendations")
+    .select("*")
+    .eq("persona_id", personaId)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load recommendations: ${error.message}`);
+  }
+
+  return data ? toRecommendationSet(data) : null;
+}
+
+/**
+ * Gathers the persona's best recent posts and linked research, asks the
+ * model what to do next week and stores the result.
+ */
+export async function generateRecommendationsForPersona(
+  personaId: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<PersonaRecommendationSet> {
+  const supabase = createSupabaseServiceClient();
+  const persona = await loadOwnedPersona(personaId, userId);
+  const sinceIso = new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [postsResult, researchResult, accountsResult] = await Promise.all([
+    supabase
+      .from("campaign_posts")
+      .select("id, platform_id, posted_at, metrics, content_json, campaigns!inner ( user_id )")
+      .eq("campaigns.user_id", userId)
+      .eq("persona_id", personaId)
+      .eq("status", "published")
+      .gte("posted_at", sinceIso),
+    supabase
+      .from("resonance_research_personas")
+      .select("resonance_research!inner ( id, title, status, result, user_id )")
+      .eq("persona_id", personaId)
+      .eq("resonance_research.user_id", userId)
+      .eq("resonance_research.status", "completed"),
+    supabase
+      .from("persona_social_accounts")
+      .select("platform_id")
+      .eq("persona_id", personaId)
+      .eq("status", "connected"),
+  ]);
+
+  if (postsResult.error) {
+    throw new Error(`Failed to load posts for recommendations: ${postsResult.error.message}`);
+  }
+
+  const posts: RecommendationPostContext[] = ((postsResult.data ?? []) as unknown as PublishedPostRow[])
+    .map((post) => ({
+      id: post.id,
+      title: post.content_json?.title || "Untitled post",
+      excerpt: (post.content_json?.text ?? "").slice(0, EXCERPT_LENGTH),
+      platform_id: post.platform_id,
+      posted_at: post.posted_at,
+      engagement: engagementTotal(post.metrics),
+      comments: post.metrics?.comments ?? null,
+      shares: post.metrics?.shares ?? null,
+    }))
+    .sort((a, b) => b.engagement - a.engagement)
+    .slice(0, MAX_POSTS);
+
+  const research: RecommendationResearchContext[] = (researchResult.data ?? []).flatMap(
+    (link) => {
+      const study = (link as unknown as {
+        resonance_research: {
+          id: string;
+          title: string;
+          result: ResonanceResearchResult | null;
+        };
+      }).resonance_research;
+      if (!study?.result) {
+        return [];
+      }
+      return [
+        {
+          id: study.id,
+          title: study.title,
+          result: {
+            summary: study.result.summary,
+            audience_profile: study.result.audience_profile,
+            content_themes: study.result.content_themes,
+            platforms: study.result.platforms,
+            style_guide: study.result.style_guide,
+          },
+        },
+      ];
+    }
+  );
+
+  const platforms = Array.from(
+    new Set((accountsResult.data ?? []).map((account) => account.platform_id as string))
+  );
+  const weekStart = nextWeekStart(now);
+
+  const output = await generatePersonaRecommendations({
+    persona,
+    posts,
+    research,
+    platforms,
+    weekStart,
+  });
+
+  const sources: PersonaRecommendationSet["sources"] = { posts: {}, research: {} };
+  for (const post of posts) {
+    sources.posts[post.id] = {
+      title: post.title,
+      platform_id: post.platform_id,
+      engagement: post.engagement,
+    };
+  }
+  for (const study of research) {
+    sources.research[study.id] = { title: study.title };
+  }
+
+  const { data, error } = await supabase
+    .from("persona_recommendations")
+    .insert({
+      persona_id: personaId,
+      user_id: userId,
+      summary: output.summary,
+      recommendations: output.recommendations,
+      sources,
+      week_start: weekStart,
+      model: output.model,
+    })
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to store recommendations: ${error?.message ?? "no row returned"}`);
+  }
+
+  return toRecommendationSet(data);
+}
+
+/**
+ * Turns one recommendation into a draft campaign post. Without a campaign,
+ * drafts go into a per-week draft campaign for the persona, created on first
+ * use.
+ */
+export async function convertRecommendationToDraft(
+  setId: string,
+  index: number,
+  userId: string,
+  options: { campaignId?: string } = {}
+): Promise<{ postId: string; campaignId: string }> {
+  const supabase = createSupabaseServiceClient();
+
+  const { data: row, error: setError } = await supabase
+    .from("persona_recommendations")
+    .select("*")
+    .eq("id", setId)
+    .eq("user_id", userId)
+    .single();
+
+  if (setError || !row) {
+    throw new Error("Recommendations not found or access denied");
+  }
+
+  const set = toRecommendationSet(row);
+  const recommendation = set.recommendations[index];
+  if (!recommendation) {
+    throw new Error("Recommendation not found");
+  }
+  if (recommendation.converted_post_id) {
+    throw new Error("Recommendation has already been converted to a draft");
+  }
+
+  let campaignId = options.campaignId;
+  if (campaignId) {
+    const { data: campaign } = await supabase
+      .from("campaigns")
+      .select("id")
+      .eq("id", campaignId)
+      .eq("user_id", userId)
+      .eq("persona_id", set.persona_id)
+      .maybeSingle();
+
+    if (!campaign) {
+      throw new Error("Campaign not found or access denied");
+    }
+  } else {
+    const name = `Recommendations for week of ${set.week_start}`;
+    const { data: existing } = await supabase
+      .from("campaigns")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("persona_id", set.persona_id)
+      .eq("name", name)
+      .eq("status", "draft")
+      .limit(1)
+      .maybeSingle();
+
+    if (existing) {
+      campaignId = existing.id as string;
+    } else {
+      const platforms = Array.from(
+        new Set(
+          set.recommendations
+            .map((entry) => entry.platform_id)
+            .filter((platformId): platformId is string => Boolean(platformId))
+        )
+      );
+      const { data: created, error: createError } = await supabase
+        .from("campaigns")
+        .insert({
+          user_id: userId,
+          persona_id: set.persona_id,
+          name,
+          objective: set.summary || null,
+          status: "draft",
+          start_date: set.week_start,
+          metrics: upsertTargetPlatforms({}, platforms),
+        })
+        .select("id")
+        .single();
+
+      if (createError || !created) {
+        throw new Error(`Failed to create draft campaign: ${createError?.message}`);
+      }
+      campaignId = created.id as string;
+    }
+  }
+
+  let accountId: string | null = null;
+  if (recommendation.platform_id) {
+    const { data: account } = await supabase
+      .from("persona_social_accounts")
+      .select("id")
+      .eq("persona_id", set.persona_id)
+      .eq("platform_id", recommendation.platform_id)
+      .eq("status", "connected")
+      .limit(1)
+      .maybeSingle();
+    accountId = (account?.id as string | undefined) ?? null;
+  }
+
+  const { data: post, error: insertError } = await supabase
+    .from("campaign_posts")
+    .insert({
+      campaign_id: campaignId,
+      persona_id: set.persona_id,
+      persona_social_account_id: accountId,
+      platform_id: recommendation.platform_id,
+      status: "draft",
+      content_json: {
+        title: recommendation.draft.title,
+        text: recommendation.draft.text,
+        recommended_platforms: recommendation.platform_id ? [recommendation.platform_id] : [],
+        prompt_metadata: {
+          source: "recommendation",
+          recommendation_set_id: set.id,
+          recommendation_index: index,
+          theme: recommendation.theme,
+          format: recommendation.format,
+          hook: recommendation.hook,
+          citations: recommendation.citations,
+          suggested_time: recommendation.posting_time
+            ? resolvePostingTime(set.week_start, recommendation.posting_time)
+            : null,
+        },
+      },
+      created_by: "ai",
+    })
+    .select("id")
+    .single();
+
+  if (insertError || !post) {
+    throw new Error(`Failed to create draft post: ${insertError?.message}`);
+  }
+
+  const recommendations = set.recommendations.map((entry, entryIndex) =>
+    entryIndex === index ? { ...entry, converted_post_id: post.id as string } : entry
+  );
+  const { error: updateError } = await supabase
+    .from("persona_recommendations")
+    .update({ recommendations })
+    .eq("id", set.id);
+
+  if (updateError) {
+    console.error("Failed to mark recommendation as converted:", updateError);
+  }
+
+  return { postId: post.id as string, campaignId };
+}
@@ -0,0 +1,201 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import {
+  PUBLISHING_STATUS,
+  type SchedulerPostOutcome,
+  type SchedulerRunCounts,
+} from "@/lib/publishing";
+
+export interface SchedulerRunRow {
+  id: string;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  status: "running" | "completed" | "failed" | string;
+  due_count: number;
+  counts: Partial<SchedulerRunCounts>;
+  error: string | null;
+}
+
+export interface StuckPost {
+  id: string;
+  campaign_id: string;
+  campaign_name: string;
+  platform_id: string | null;
+  status: string;
+  scheduled_for: string | null;
+  lease_expires_at: string | null;
+  retry_count: number;
+  last_error: string | null;
+}
+
+export interface PlatformSuccessRate {
+  platformId: string;
+  attempts: number;
+  published: number;
+  successRate: number;
+  transientFailures: number;
+  permanentFailures: number;
+  averageLatencyMs: number;
+}
+
+export interface RecentRunFailure {
+  run_id: string;
+  campaign_post_id: string | null;
+  platform_id: string | null;
+  outcome: SchedulerPostOutcome;
+  failure_kind: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+export interface SchedulerHealth {
+  runs: SchedulerRunRow[];
+  stuckPosts: StuckPost[];
+  platformRates: PlatformSuccessRate[];
+  recentFailures: RecentRunFailure[];
+  windowDays: number;
+}
+
+interface RunPostRow {
+  platform_id: string | null;
+  outcome: SchedulerPostOutcome;
+  failure_kind: string | null;
+  latency_ms: number | null;
+}
+
+// The scheduler runs every minute; anything this late has been missed
+const STUCK_GRACE_MINUTES = 5;
+const RECENT_RUNS = 50;
+const SUCCESS_WINDOW_DAYS = 7;
+
+// Outcomes that mean the platform was actually tried
+const ATTEMPT_OUTCOMES = new Set<SchedulerPostOutcome>([
+  "published",
+  "retrying",
+  "failed",
+  "dead_letter",
+]);
+
+export function buildPlatformSuccessRates(rows: RunPostRow[]): PlatformSuccessRate[] {
+  const byPlatform = new Map<
+    string,
+    { attempts: number; published: number; transient: number; permanent: number; latency: number }
+  >();
+
+  for (const row of rows) {
+    if (!ATTEMPT_OUTCOMES.has(row.outcome)) {
+      continue;
+    }
+    const platformId = row.platform_id ?? "unknown";
+    const entry = byPlatform.get(platformId) ?? {
+      attempts: 0,
+      published: 0,
+      transient: 0,
+      permanent: 0,
+      latency: 0,
+    };
+    entry.attempts += 1;
+    entry.latency += row.latency_ms ?? 0;
+    if (row.outcome === "published") {
+      entry.published += 1;
+    } else if (row.failure_kind === "permanent") {
+      entry.permanent += 1;
+    } else {
+      entry.transient += 1;
+    }
+    byPlatform.set(platformId, entry);
+  }
+
+  return Array.from(byPlatform.entries())
+    .map(([platformId, entry]) => ({
+      platformId,
+      attempts: entry.attempts,
+      published: entry.published,
+      successRate: entry.published / entry.attempts,
+      transientFailures: entry.transient,
+      permanentFailures: entry.permanent,
+      averageLatencyMs: entry.latency / entry.attempts,
+    }))
+    .sort((a, b) => b.attempts - a.attempts);
+}
+
+/**
+ * Everything the scheduler admin page shows. Reads across all users, so only
+ * call it for admins.
+ */
+export async function loadSchedulerHealth(now: Date = new Date()): Promise<SchedulerHealth> {
+  const supabase = createSupabaseServiceClient();
+  const nowIso = now.toISOString();
+  const stuckBefore = new Date(now.getTime() - STUCK_GRACE_MINUTES * 60 * 1000).toISOString();
+  const windowStart = new Date(
+    now.getTime() - SUCCESS_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  const [runsResult, stuckResult, runPostsResult, failuresResult] = await Promise.all([
+    supabase
+      .from("scheduler_runs")
+      .select("id, started_at, finished_at, duration_ms, status, due_count, counts, error")
+      .order("started_at", { ascending: false })
+      .limit(RECENT_RUNS),
+    supabase
+      .from("campaign_posts")
+      .select(
+        `
+        id,
+        campaign_id,
+        platform_id,
+        status,
+        scheduled_for,
+        lease_expires_at,
+        retry_count,
+        last_error,
+        campaigns ( name )
+      `
+      )
+      .or(
+        `and(status.eq.scheduled,scheduled_for.lt.${stuckBefore}),` +
+          `and(status.eq.${PUBLISHING_STATUS},lease_expires_at.lt.${nowIso})`
+      )
+      .order("scheduled_for", { ascending: true })
+      .limit(100),
+    supabase
+      .from("scheduler_run_posts")
+      .select("platform_id, outcome, failure_kind, latency_ms")
+      .gte("created_at", windowStart),
+    supabase
+      .from("scheduler_run_posts")
+      .select("run_id, campaign_post_id, platform_id, outcome, failure_kind, error, created_at")
+      .in("outcome", ["retrying", "failed", "dead_letter"])
+      .order("created_at", { ascending: false })
+      .limit(25),
+  ]);
+
+  for (const result of [runsResult, stuckResult, runPostsResult, failuresResult]) {
+    if (result.error) {
+      throw new Error(`Failed to load scheduler health: ${result.error.message}`);
+    }
+  }
+
+  const stuckPosts = (stuckResult.data ?? []).map((row) => {
+    const campaign = row.campaigns as unknown as { name: string } | null;
+    return {
+      id: row.id,
+      campaign_id: row.campaign_id,
+      campaign_name: campaign?.name ?? "Untitled campaign",
+      platform_id: row.platform_id,
+      status: row.status,
+      scheduled_for: row.scheduled_for,
+      lease_expires_at: row.lease_expires_at,
+      retry_count: row.retry_count ?? 0,
+      last_error: row.last_error,
+    };
+  });
+
+  return {
+    runs: (runsResult.data ?? []) as SchedulerRunRow[],
+    stuckPosts,
+    platformRates: buildPlatformSuccessRates((runPostsResult.data ?? []) as RunPostRow[]),
+    recentFailures: (failuresResult.data ?? []) as RecentRunFailure[],
+    windowDays: SUCCESS_WINDOW_DAYS,
+  };
+}
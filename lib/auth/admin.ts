@@ -0,0 +1,19 @@
+import type { User } from "@supabase/supabase-js";
+
+/**
+ * Operators are listed by email in ADMIN_EMAILS (comma-separated); there is
+ * no admin role in the database.
+ */
+export function isAdminUser(user: Pick<User, "email"> | null | undefined): boolean {
+  const email = user?.email?.toLowerCase();
+  if (!email) {
+    return false;
+  }
+
+  const admins = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  return admins.includes(email);
+}
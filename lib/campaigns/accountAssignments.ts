@@ -0,0 +1,114 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import {
+  accountMismatchReason,
+  readAccountAssignments,
+  type CampaignAccountAssignments,
+} from "@/lib/publishing";
+
+/**
+ * Sets (or with null, clears) the account a campaign's posts on `platformId`
+ * go out on when they don't name one. The account must be a connected
+ * account of the campaign's persona on that platform.
+ */
+export async function setCampaignAccountAssignment(
+  campaignId: string,
+  userId: string,
+  platformId: string,
+  accountId: string | null
+): Promise<CampaignAccountAssignments> {
+  const supabase = createSupabaseServiceClient();
+
+  const { data: campaign, error: campaignError } = await supabase
+    .from("campaigns")
+    .select("id, persona_id, account_assignments")
+    .eq("id", campaignId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (campaignError || !campaign) {
+    throw new Error("Campaign not found or access denied");
+  }
+
+  const assignments = readAccountAssignments(campaign.account_assignments);
+
+  if (accountId) {
+    const { data: account, error: accountError } = await supabase
+      .from("persona_social_accounts")
+      .select("id, persona_id, platform_id, status")
+      .eq("id", accountId)
+      .maybeSingle();
+
+    if (accountError || !account) {
+      throw new Error("Social account not found or access denied");
+    }
+
+    const mismatch = accountMismatchReason(account, campaign.persona_id, platformId);
+    if (mismatch) {
+      throw new Error(`Invalid account assignment: ${mismatch}`);
+    }
+
+    if (account.status !== "connected") {
+      throw new Error("Invalid account assignment: the account is not connected");
+    }
+
+    assignments[platformId] = account.id;
+  } else {
+    delete assignments[platformId];
+  }
+
+  const { error: updateError } = await supabase
+    .from("campaigns")
+    .update({ account_assignments: assignments })
+    .eq("id", campaignId);
+
+  if (updateError) {
+    throw new Error(`Failed to save account assignment: ${updateError.message}`);
+  }
+
+  return assignments;
+}
+
+/**
+ * Points every campaign assignment of the persona's account at `replacementId`,
+ * or drops them when it's null. Returns the ids of the campaigns changed.
+ */
+export async function replaceAccountAssignments(
+  personaId: string,
+  platformId: string,
+  accountId: string,
+  replacementId: string | null
+): Promise<string[]> {
+  const supabase = createSupabaseServiceClient();
+
+  const { data: campaigns, error } = await supabase
+    .from("campaigns")
+    .select("id, account_assignments")
+    .eq("persona_id", personaId)
+    .eq(`account_assignments->>${platformId}`, accountId);
+
+  if (error) {
+    throw new Error(`Failed to load campaign account assignments: ${error.message}`);
+  }
+
+  const changed: string[] = [];
+  for (const campaign of campaigns ?? []) {
+    const assignments = readAccountAssignments(campaign.account_assignments);
+    if (replacementId) {
+      assignments[platformId] = replacementId;
+    } else {
+      delete assignments[platformId];
+    }
+
+    const { error: updateError } = await supabase
+      .from("campaigns")
+      .update({ account_assignments: assignments })
+      .eq("id", campaign.id);
+
+    if (updateError) {
+      throw new Error(`Failed to update campaign account assignments: ${updateError.message}`);
+    }
+    changed.push(campaign.id as string);
+  }
+
+  return changed;
+}
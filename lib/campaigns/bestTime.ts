@@ -0,0 +1,171 @@
+import { localWeekdayHour } from "@/lib/campaigns/slots";
+
+/**
+ * Relative engagement weights by local weekday (Sunday first) and hour,
+ * kept in social_platforms.metadata.posting_priors.
+ */
+export interface PostingPriors {
+  days: number[];
+  hours: number[];
+}
+
+/**
+ * Expected engagement lift per [weekday][hour] in the account's timezone;
+ * 1 is the account's average.
+ */
+export interface EngagementCurve {
+  lift: number[][];
+  /** Posts behind the curve; 0 means it is the platform prior alone. */
+  sampleSize: number;
+  source: "account_history" | "platform_prior";
+}
+
+export interface PostingTimeSuggestion {
+  scheduledFor: string;
+  dayOfWeek: number;
+  hour: number;
+  lift: number;
+}
+
+export interface HistoricalPost {
+  posted_at: string;
+  engagement: number;
+}
+
+// Below this many posts the curve is reported as a platform prior
+const MIN_HISTORY = 5;
+// How many posts' worth of weight the prior carries in each bucket
+const PRIOR_STRENGTH = 2;
+// Spread each observation onto neighbouring hours so sparse history still generalises
+const NEIGHBOUR_WEIGHT = 0.5;
+// Keep suggestions apart so they don't all land in the same peak
+const MIN_SUGGESTION_GAP_HOURS = 3;
+
+const FLAT_PRIORS: PostingPriors = {
+  days: Array(7).fill(1),
+  hours: Array(24).fill(1),
+};
+
+export function parsePostingPriors(metadata: unknown): PostingPriors | null {
+  const priors = (metadata as { posting_priors?: Partial<PostingPriors> } | null)
+    ?.posting_priors;
+  if (
+    !priors ||
+    !Array.isArray(priors.days) ||
+    priors.days.length !== 7 ||
+    !Array.isArray(priors.hours) ||
+    priors.hours.length !== 24
+  ) {
+    return null;
+  }
+  return { days: priors.days.map(Number), hours: priors.hours.map(Number) };
+}
+
+function priorLift(priors: PostingPriors): number[][] {
+  const raw = priors.days.map((day) => priors.hours.map((hour) => day * hour));
+  const mean = raw.flat().reduce((sum, value) => sum + value, 0) / (7 * 24) || 1;
+  return raw.map((row) => row.map((value) => value / mean));
+}
+
+/**
+ * Learns a weekday/hour engagement curve from past posts, shrunk towards the
+ * platform prior where the account has little data.
+ */
+export function buildEngagementCurve(
+  history: HistoricalPost[],
+  timezone: string,
+  priors: PostingPriors | null
+): EngagementCurve {
+  const prior = priorLift(priors ?? FLAT_PRIORS);
+  const average =
+    history.reduce((sum, post) => sum + post.engagement, 0) / (history.length || 1);
+
+  if (history.length === 0 || average <= 0) {
+    return { lift: prior, sampleSize: 0, source: "platform_prior" };
+  }
+
+  const weights = Array.from({ length: 7 }, () => Array(24).fill(0) as number[]);
+  const totals = Array.from({ length: 7 }, () => Array(24).fill(0) as number[]);
+
+  for (const post of history) {
+    const { dayOfWeek, hour } = localWeekdayHour(new Date(post.posted_at), timezone);
+    const lift = post.engagement / average;
+    for (const [offset, weight] of [
+      [0, 1],
+      [-1, NEIGHBOUR_WEIGHT],
+      [1, NEIGHBOUR_WEIGHT],
+    ]) {
+      const bucket = (hour + offset + 24) % 24;
+      weights[dayOfWeek][bucket] += weight;
+      totals[dayOfWeek][bucket] += weight * lift;
+    }
+  }
+
+  const lift = prior.map((row, day) =>
+    row.map(
+      (priorValue, hour) =>
+        (totals[day][hour] + PRIOR_STRENGTH * priorValue) /
+        (weights[day][hour] + PRIOR_STRENGTH)
+    )
+  );
+
+  return {
+    lift,
+    sampleSize: history.length,
+    source: history.length >= MIN_HISTORY ? "account_history" : "platform_prior",
+  };
+}
+
+/**
+ * The best upcoming hours in the next week, highest lift first. Hours within
+ * an hour of `from` and hours already taken by scheduled posts are skipped.
+ */
+export function suggestPostingTimes(
+  curve: EngagementCurve,
+  timezone: string,
+  from: Date,
+  options: { count?: number; takenTimes?: string[] } = {}
+): PostingTimeSuggestion[] {
+  const count = options.count ?? 3;
+  const takenHours = new Set(
+    (options.takenTimes ?? []).map((time) => Math.floor(new Date(time).getTime() / 3600000))
+  );
+  const earliest = from.getTime() + 60 * 60 * 1000;
+  const candidates: PostingTimeSuggestion[] = [];
+
+  // Walk hour by hour through the next seven days
+  const startHour = Math.ceil(earliest / 3600000) * 3600000;
+  for (let time = startHour; time < from.getTime() + 7 * 24 * 3600000; time += 3600000) {
+    const instant = new Date(time);
+    if (takenHours.has(Math.floor(time / 3600000))) {
+      continue;
+    }
+    const { dayOfWeek, hour } = localWeekdayHour(instant, timezone);
+    candidates.push({
+      scheduledFor: instant.toISOString(),
+      dayOfWeek,
+      hour,
+      lift: curve.lift[dayOfWeek][hour],
+    });
+  }
+
+  candidates.sort((a, b) => b.lift - a.lift);
+
+  const picked: PostingTimeSuggestion[] = [];
+  for (const candidate of candidates) {
+    const time = new Date(candidate.scheduledFor).getTime();
+    const tooClose = picked.some(
+      (entry) =>
+        Math.abs(new Date(entry.scheduledFor).getTime() - time) <
+        MIN_SUGGESTION_GAP_HOURS * 3600000
+    );
+    if (!tooClose) {
+      picked.push(candidate);
+    }
+    if (picked.length >= count) {
+      break;
+    }
+  }
+
+  return picked;
+}
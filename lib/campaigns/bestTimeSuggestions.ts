@@ -0,0 +1,99 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import { engagementTotal, type PostMetricsSnapshot } from "@/lib/publishing";
+import {
+  buildEngagementCurve,
+  parsePostingPriors,
+  suggestPostingTimes,
+  type EngagementCurve,
+  type PostingTimeSuggestion,
+} from "@/lib/campaigns/bestTime";
+
+export interface BestTimeSuggestions {
+  accountId: string;
+  timezone: string;
+  source: EngagementCurve["source"];
+  sampleSize: number;
+  suggestions: PostingTimeSuggestion[];
+}
+
+// Engagement patterns drift; a year of posts is plenty
+const HISTORY_DAYS = 365;
+
+/**
+ * Suggests when to post next on an account, from its own engagement history
+ * or, when that is thin, the platform's priors.
+ */
+export async function suggestBestTimesForAccount(
+  accountId: string,
+  userId: string,
+  options: { count?: number; now?: Date } = {}
+): Promise<BestTimeSuggestions> {
+  const supabase = createSupabaseServiceClient();
+  const now = options.now ?? new Date();
+
+  const { data: account, error: accountError } = await supabase
+    .from("persona_social_accounts")
+    .select(
+      `
+      id,
+      platform_id,
+      personas!inner ( user_id, demographics ),
+      social_platforms ( metadata )
+    `
+    )
+    .eq("id", accountId)
+    .eq("personas.user_id", userId)
+    .single();
+
+  if (accountError || !account) {
+    throw new Error("Social account not found or access denied");
+  }
+
+  const persona = account.personas as unknown as {
+    demographics: { time_zone?: string } | null;
+  };
+  const platform = account.social_platforms as unknown as { metadata: unknown } | null;
+  const timezone = persona.demographics?.time_zone || "UTC";
+
+  const [historyResult, scheduledResult] = await Promise.all([
+    supabase
+      .from("campaign_posts")
+      .select("posted_at, metrics")
+      .eq("persona_social_account_id", accountId)
+      .eq("status", "published")
+      .not("metrics", "is", null)
+      .gte(
+        "posted_at",
+        new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+      ),
+    supabase
+      .from("campaign_posts")
+      .select("scheduled_for")
+      .eq("persona_social_account_id", accountId)
+      .eq("status", "scheduled")
+      .gt("scheduled_for", now.toISOString()),
+  ]);
+
+  if (historyResult.error) {
+    throw new Error(`Failed to load posting history: ${historyResult.error.message}`);
+  }
+
+  const history = (historyResult.data ?? []).map((post) => ({
+    posted_at: post.posted_at as string,
+    engagement: engagementTotal(post.metrics as PostMetricsSnapshot | null),
+  }));
+
+  const curve = buildEngagementCurve(history, timezone, parsePostingPriors(platform?.metadata));
+  const suggestions = suggestPostingTimes(curve, timezone, now, {
+    count: options.count,
+    takenTimes: (scheduledResult.data ?? []).map((post) => post.scheduled_for as string),
+  });
+
+  return {
+    accountId,
+    timezone,
+    source: curve.source,
+    sampleSize: curve.sampleSize,
+    suggestions,
+  };
+}
@@ -0,0 +1,75 @@
+import { isFailedPostStatus } from "@/lib/publishing";
+import type { CampaignContentStatus } from "@/types/campaign";
+
+/**
+ * A post as shown on the content calendar, flattened with the names the
+ * calendar needs for labels and filters.
+ */
+export interface CalendarPost {
+  id: string;
+  campaign_id: string;
+  campaign_name: string;
+  persona_id: string;
+  persona_name: string;
+  persona_social_account_id: string | null;
+  account_handle: string | null;
+  platform_id: string | null;
+  status: CampaignContentStatus;
+  scheduled_for: string | null;
+  posted_at: string | null;
+  last_error: string | null;
+  title: string;
+}
+
+/**
+ * Posts on the same account closer together than this are flagged; most
+ * platforms throttle or bury back-to-back posts.
+ */
+export const CONFLICT_WINDOW_MINUTES = 60;
+
+/**
+ * When the post sits on the calendar: its publish time if it went out,
+ * otherwise when it is (or was) scheduled.
+ */
+export function calendarTime(post: CalendarPost): string | null {
+  return post.posted_at ?? post.scheduled_for;
+}
+
+/**
+ * Maps each conflicting post id to the ids of the posts on the same account
+ * that fall within the window. Failed posts are ignored because they didn't
+ * (and won't, without a reschedule) go out.
+ */
+export function findScheduleConflicts(
+  posts: CalendarPost[],
+  windowMinutes: number = CONFLICT_WINDOW_MINUTES
+): Map<string, string[]> {
+  const windowMs = windowMinutes * 60 * 1000;
+  const byAccount = new Map<string, { id: string; time: number }[]>();
+
+  for (const post of posts) {
+    const time = calendarTime(post);
+    if (!post.persona_social_account_id || !time || isFailedPostStatus(post.status)) {
+      continue;
+    }
+    const entries = byAccount.get(post.persona_social_account_id) ?? [];
+    entries.push({ id: post.id, time: new Date(time).getTime() });
+    byAccount.set(post.persona_social_account_id, entries);
+  }
+
+  const conflicts = new Map<string, string[]>();
+  for (const entries of byAccount.values()) {
+    entries.sort((a, b) => a.time - b.time);
+    for (let i = 0; i < entries.length; i += 1) {
+      for (let j = i + 1; j < entries.length; j += 1) {
+        if (entries[j].time - entries[i].time >= windowMs) {
+          break;
+        }
+        conflicts.set(entries[i].id, [...(conflicts.get(entries[i].id) ?? []), entries[j].id]);
+        conflicts.set(entries[j].id, [...(conflicts.get(entries[j].id) ?? []), entries[i].id]);
+      }
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,129 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import type { CalendarPost } from "@/lib/campaigns/calendar";
+import type { PersonaSocialAccount } from "@/types/social";
+
+interface CalendarPostRow {
+  id: string;
+  campaign_id: string;
+  persona_id: string;
+  persona_social_account_id: string | null;
+  platform_id: string | null;
+  status: string;
+  scheduled_for: string | null;
+  posted_at: string | null;
+  last_error: string | null;
+  content_json: { title?: string; text?: string } | null;
+  campaigns: { name: string; user_id: string };
+  personas: { display_name: string } | null;
+  persona_social_accounts: {
+    account_handle: string | null;
+    provider_username: string | null;
+  } | null;
+}
+
+const CALENDAR_POST_SELECT = `
+  id,
+  campaign_id,
+  persona_id,
+  persona_social_account_id,
+  platform_id,
+  status,
+  scheduled_for,
+  posted_at,
+  last_error,
+  content_json,
+  campaigns!inner ( name, user_id ),
+  personas ( display_name ),
+  persona_social_accounts ( account_handle, provider_username )
+`;
+
+function toCalendarPost(row: CalendarPostRow): CalendarPost {
+  return {
+    id: row.id,
+    campaign_id: row.campaign_id,
+    campaign_name: row.campaigns.name,
+    persona_id: row.persona_id,
+    persona_name: row.personas?.display_name ?? "Unknown persona",
+    persona_social_account_id: row.persona_social_account_id,
+    account_handle:
+      row.persona_social_accounts?.account_handle ??
+      row.persona_social_accounts?.provider_username ??
+      null,
+    platform_id: row.platform_id,
+    status: row.status,
+    scheduled_for: row.scheduled_for,
+    posted_at: row.posted_at,
+    last_error: row.last_error,
+    title:
+      row.content_json?.title ||
+      (row.content_json?.text ?? "").slice(0, 80) ||
+      "Untitled post",
+  };
+}
+
+/**
+ * Loads every post across the user's campaigns that is scheduled or was
+ * published between `from` and `to`.
+ */
+export async function listCalendarPosts(
+  userId: string,
+  range: { from: string; to: string }
+): Promise<CalendarPost[]> {
+  const supabase = createSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("campaign_posts")
+    .select(CALENDAR_POST_SELECT)
+    .eq("campaigns.user_id", userId)
+    .or(
+      `and(scheduled_for.gte.${range.from},scheduled_for.lt.${range.to}),and(posted_at.gte.${range.from},posted_at.lt.${range.to})`
+    )
+    .order("scheduled_for", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load calendar posts: ${error.message}`);
+  }
+
+  return ((data ?? []) as unknown as CalendarPostRow[]).map(toCalendarPost);
+}
+
+/**
+ * Drafts not yet on the calendar, so they can be dragged onto a day.
+ */
+export async function listUnscheduledDrafts(userId: string): Promise<CalendarPost[]> {
+  const supabase = createSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("campaign_posts")
+    .select(CALENDAR_POST_SELECT)
+    .eq("campaigns.user_id", userId)
+    .eq("status", "draft")
+    .is("scheduled_for", null)
+    .order("created_at", { ascending: false })
+    .limit(50);
+
+  if (error) {
+    throw new Error(`Failed to load draft posts: ${error.message}`);
+  }
+
+  return ((data ?? []) as unknown as CalendarPostRow[]).map(toCalendarPost);
+}
+
+/**
+ * Connected accounts for all of the user's personas, for scheduling drafts
+ * dropped onto the calendar.
+ */
+export async function listSchedulableAccounts(
+  userId: string
+): Promise<PersonaSocialAccount[]> {
+  const supabase = createSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("persona_social_accounts")
+    .select("*, personas!inner ( user_id )")
+    .eq("personas.user_id", userId)
+    .eq("status", "connected");
+
+  if (error) {
+    throw new Error(`Failed to load social accounts: ${error.message}`);
+  }
+
+  return (data ?? []) as PersonaSocialAccount[];
+}
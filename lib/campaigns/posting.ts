@@ -1,122 +1,55 @@
+import { randomUUID } from "crypto";
 import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
-import { submitRedditTextPost } from "@/lib/social/redditClient";
+import { getAccountAccessToken } from "@/lib/social/accountTokens";
+import {
+  buildPublishRequest,
+  classifyPublishFailure,
+  createStorageMediaLoader,
+  DEAD_LETTER_STATUS,
+  getPlatformPublisher,
+  isFailedPostStatus,
+  leaseExpiresAt,
+  publishFailureMessage,
+  PUBLISHING_STATUS,
+  readAccountAssignments,
+  RELEASED_LEASE,
+  selectPublishingAccount,
+  SIMULATED_STATUS,
+  simulatePublish,
+  toPublisherAccount,
+} from "@/lib/publishing";
 import { mapCampaignContentRow } from "@/lib/campaigns/mappers";
+import { checkPostRateLimits } from "@/lib/campaigns/rateLimits";
+import { checkCommunityRemovals } from "@/lib/analytics/communityRemovals";
 import type { CampaignContent } from "@/types/campaign";
 import type { PersonaSocialAccount } from "@/types/social";
 
 /**
- * Validates and sanitizes a subreddit name.
- * Removes "r/" prefix if present and validates format.
+ * Finds the connected account to publish a campaign post with, following
+ * selectPublishingAccount's rules: the post's own account, then the
+ * campaign's account for the platform, then the persona's default.
+ * Verifies user ownership through the persona relationship.
  */
-export function sanitizeSubreddit(subreddit: string | null | undefined): string | null {
-  if (!subreddit) {
-    return null;
-  }
-
-  // Remove "r/" prefix if present
-  let sanitized = subreddit.trim().replace(/^r\//i, "");
-
-  // Remove any leading/trailing slashes
-  sanitized = sanitized.replace(/^\/+|\/+$/g, "");
-
-  // Basic validation: alphanumeric, underscores, hyphens, 3-21 chars
-  if (!/^[a-zA-Z0-9_-]{3,21}$/.test(sanitized)) {
-    return null;
-  }
-
-  return sanitized;
-}
-
-/**
- * Validates Reddit post content length.
- * Reddit limits: title max 300 chars, text max 40,000 chars.
- */
-export function validateRedditContent(
-  title: string,
-  text: string
-): { valid: boolean; error?: string } {
-  if (!title || title.trim().length === 0) {
-    return { valid: false, error: "Title is required" };
-  }
-
-  if (title.length > 300) {
-    return {
-      valid: false,
-      error: `Title exceeds 300 character limit (${title.length} chars)`,
-    };
-  }
-
-  if (!text || text.trim().length === 0) {
-    return { valid: false, error: "Text content is required" };
-  }
-
-  if (text.length > 40000) {
-    return {
-      valid: false,
-      error: `Text exceeds 40,000 character limit (${text.length} chars)`,
-    };
-  }
-
-  return { valid: true };
-}
-
-/**
- * Finds the appropriate Reddit account for a campaign post.
- * Prefers persona_social_account_id if set, otherwise finds by persona_id.
- * Verifies user ownership through campaign relationship.
- */
-async function findRedditAccountForPost(
+async function findAccountForPost(
   post: CampaignContent,
+  platformId: string,
+  accountAssignments: unknown,
   userId?: string
 ): Promise<{ id: string; account: PersonaSocialAccount } | null> {
   const supabase = createSupabaseServiceClient();
 
-  // If persona_social_account_id is set, use that directly
-  if (post.persona_social_account_id) {
-    const { data: account, error } = await supabase
-      .from("persona_social_accounts")
-      .select(
-        `
-        *,
-        personas!inner (
-          user_id
-        )
-      `
-      )
-      .eq("id", post.persona_social_account_id)
-      .eq("platform_id", "reddit")
-      .eq("status", "connected")
-      .single();
-
-    if (error || !account) {
-      return null;
-    }
-
-    // Verify user ownership if userId provided
-    if (userId && (account.personas as { user_id: string } | null)?.user_id !== userId) {
-      return null;
-    }
-
-    // Extract account without the join
-    const { personas: _personas, ...accountData } = account;
-    void _personas; // Explicitly mark as intentionally unused
-    return { id: account.id, account: accountData as PersonaSocialAccount };
-  }
-
-  // Otherwise, find by persona_id and verify ownership
   let query = supabase
     .from("persona_social_accounts")
     .select(
       `
       *,
       personas!inner (
-        user_id,
-        id
+        user_id
       )
     `
     )
     .eq("persona_id", post.persona_id)
-    .eq("platform_id", "reddit")
+    .eq("platform_id", platformId)
     .eq("status", "connected");
 
   // If userId provided, verify ownership through persona
@@ -126,33 +59,37 @@ async function findRedditAccountForPost(
 
   const { data: accounts, error } = await query;
 
-  if (error || !accounts || accounts.length === 0) {
+  if (error || !accounts) {
     return null;
   }
 
-  // If multiple accounts, prefer the most recently used one
-  const sortedAccounts = accounts.sort((a, b) => {
-    const aTime = (a.last_token_refresh_at as string | null) || (a.created_at as string);
-    const bTime = (b.last_token_refresh_at as string | null) || (b.created_at as string);
-    return new Date(bTime).getTime() - new Date(aTime).getTime();
-  });
+  const selection = selectPublishingAccount(
+    { ...post, platform_id: platformId },
+    accounts as (PersonaSocialAccount & { personas: unknown })[],
+    readAccountAssignments(accountAssignments)
+  );
+
+  if (!selection) {
+    return null;
+  }
 
   // Extract account without the join
-  const { personas: _personas, ...accountData } = sortedAccounts[0];
+  const { personas: _personas, ...accountData } = selection.account;
   void _personas; // Explicitly mark as intentionally unused
-  return { id: sortedAccounts[0].id, account: accountData as PersonaSocialAccount };
+  return { id: accountData.id, account: accountData as PersonaSocialAccount };
 }
 
 /**
- * Posts a campaign content item to Reddit immediately.
- * Handles all validation, account lookup, token refresh, and posting.
+ * Publishes a campaign content item to its platform immediately.
+ * Handles all validation, account lookup, token refresh, and posting
+ * through the platform's publisher.
  *
  * @param contentId - The campaign post ID
  * @param userId - Optional user ID for ownership verification (required for API routes)
  * @returns Updated campaign content on success
  * @throws Error with descriptive message on failure
  */
-export async function postCampaignContentToReddit(
+export async function postCampaignContentNow(
   contentId: string,
   userId?: string
 ): Promise<CampaignContent> {
@@ -167,7 +104,9 @@ export async function postCampaignContentToReddit(
       *,
       campaigns!inner (
         id,
-        user_id
+        user_id,
+        dry_run,
+        account_assignments
       )
     `
     )
@@ -184,9 +123,11 @@ export async function postCampaignContentToReddit(
     throw new Error("Campaign post not found or access denied");
   }
 
-  // Verify platform is Reddit
-  if (postRow.platform_id !== "reddit") {
-    throw new Error("This post is not configured for Reddit");
+  const publisher = getPlatformPublisher(postRow.platform_id);
+  if (!publisher) {
+    throw new Error(
+      `Publishing is not supported for platform "${postRow.platform_id ?? "none"}"`
+    );
   }
 
   // Verify status allows posting
@@ -196,81 +137,124 @@ export async function postCampaignContentToReddit(
     );
   }
 
-  // Find the Reddit account
-  const post = mapCampaignContentRow(postRow);
-  const accountResult = await findRedditAccountForPost(post, userId);
+  // Claim the post so an overlapping scheduler run can't publish it too
+  const leaseToken = randomUUID();
+  const { data: claimed } = await supabase
+    .from("campaign_posts")
+    .update({
+      status: PUBLISHING_STATUS,
+      lease_token: leaseToken,
+      lease_expires_at: leaseExpiresAt(new Date()),
+    })
+    .eq("id", contentId)
+    .eq("status", postRow.status)
+    .select("id")
+    .maybeSingle();
 
-  if (!accountResult) {
-    // Update post with error
+  if (!claimed) {
+    throw new Error("Content is already being published");
+  }
+
+  const markFailed = async (message: string, status: string = "failed") => {
     await supabase
       .from("campaign_posts")
       .update({
-        status: "failed",
+        status,
         last_attempt_at: nowIso,
-        last_error: "No connected Reddit account found for persona",
+        last_error: message,
+        ...RELEASED_LEASE,
       })
-      .eq("id", contentId);
-
-    throw new Error("No connected Reddit account found for persona");
-  }
-
-  // Extract and validate subreddit
-  const platformOptions = post.platform_options || {};
-  const contentJson = post.content_json as unknown as Record<string, unknown>;
-  const subredditRaw =
-    (platformOptions.subreddit as string) ||
-    (platformOptions.sr as string) ||
-    (contentJson.subreddit as string | undefined) ||
-    null;
+      .eq("id", contentId)
+      .eq("lease_token", leaseToken);
+  };
 
-  const subreddit = sanitizeSubreddit(subredditRaw);
+  // Find the account
+  const post = mapCampaignContentRow(postRow);
+  const accountResult = await findAccountForPost(
+    post,
+    publisher.platformId,
+    (postRow.campaigns as { account_assignments?: unknown } | null)?.account_assignments,
+    userId
+  );
+
+  // Dry-run campaigns render what would be sent and stop there
+  if ((postRow.campaigns as { dry_run?: boolean } | null)?.dry_run) {
+    const simulation = simulatePublish(
+      buildPublishRequest(
+        postRow,
+        accountResult?.account ?? { id: post.persona_social_account_id ?? "" }
+      ),
+      publisher,
+      { platformId: postRow.platform_id, reason: "dry_run" }
+    );
 
-  if (!subreddit) {
-    await supabase
+    const { data: simulatedPost, error: simulateError } = await supabase
       .from("campaign_posts")
       .update({
-        status: "failed",
+        status: SIMULATED_STATUS,
+        simulation,
         last_attempt_at: nowIso,
-        last_error: "Subreddit not specified or invalid in platform_options",
+        last_error: null,
+        ...RELEASED_LEASE,
       })
-      .eq("id", contentId);
+      .eq("id", contentId)
+      .eq("lease_token", leaseToken)
+      .select("*")
+      .single();
+
+    if (simulateError || !simulatedPost) {
+      throw new Error(`Failed to record dry run: ${simulateError?.message}`);
+    }
 
-    throw new Error("Subreddit not specified or invalid in platform_options");
+    return mapCampaignContentRow(simulatedPost);
   }
 
-  // Extract and validate content
-  const title = (contentJson.title as string) || "";
-  const text = (contentJson.text as string) || "";
+  if (!accountResult) {
+    const message = post.persona_social_account_id
+      ? `No connected ${publisher.platformId} account: the post's account is disconnected`
+      : `No connected ${publisher.platformId} account found for persona`;
+    await markFailed(message);
+    throw new Error(message);
+  }
 
-  const contentValidation = validateRedditContent(title, text);
-  if (!contentValidation.valid) {
+  const rateLimit = await checkPostRateLimits(postRow, accountResult.account, new Date());
+  const refusal = rateLimit.allowed
+    ? await checkCommunityRemovals(postRow)
+    : rateLimit.message;
+  if (refusal) {
+    // Nothing was attempted, so hand the post back as it was
     await supabase
       .from("campaign_posts")
-      .update({
-        status: "failed",
-        last_attempt_at: nowIso,
-        last_error: contentValidation.error || "Invalid content",
-      })
-      .eq("id", contentId);
+      .update({ status: postRow.status, ...RELEASED_LEASE })
+      .eq("id", contentId)
+      .eq("lease_token", leaseToken);
+    throw new Error(refusal);
+  }
 
-    throw new Error(contentValidation.error || "Invalid content");
+  const request = buildPublishRequest(postRow, accountResult.account);
+  const validation = publisher.validate(request);
+  if (!validation.valid) {
+    const message = validation.error || "Invalid content";
+    await markFailed(message);
+    throw new Error(`Invalid content: ${message}`);
   }
 
-  // Update last_attempt_at before posting
+  // Record the attempt before posting
   await supabase
     .from("campaign_posts")
     .update({
       last_attempt_at: nowIso,
+      idempotency_key: randomUUID(),
     })
-    .eq("id", contentId);
+    .eq("id", contentId)
+    .eq("lease_token", leaseToken);
 
   try {
-    // Post to Reddit
-    const result = await submitRedditTextPost({
-      personaSocialAccount: accountResult.account,
-      subreddit,
-      title,
-      text,
+    const accessToken = await getAccountAccessToken(accountResult.account);
+    const result = await publisher.publish(request, {
+      accessToken,
+      account: toPublisherAccount(accountResult.account),
+      loadMedia: createStorageMediaLoader(supabase),
     });
 
     // Update post on success
@@ -281,15 +265,20 @@ export async function postCampaignContentToReddit(
         posted_at: nowIso,
         last_attempt_at: nowIso,
         last_error: null,
+        persona_social_account_id: accountResult.id,
         post_external_id: result.externalId,
         post_url: result.url,
+        ...RELEASED_LEASE,
       })
       .eq("id", contentId)
       .select("*")
       .single();
 
     if (updateError || !updatedPost) {
-      console.error("Failed to update post after successful Reddit submission:", updateError);
+      console.error(
+        `Failed to update post after successful ${publisher.platformId} submission:`,
+        updateError
+      );
       // Don't throw - the post was successful, just DB update failed
       return mapCampaignContentRow(postRow);
     }
@@ -299,18 +288,66 @@ export async function postCampaignContentToReddit(
     const errorMessage =
       error instanceof Error
         ? error.message.substring(0, 500)
-        : "Unknown error posting to Reddit";
-
-    await supabase
-      .from("campaign_posts")
-      .update({
-        status: "failed",
-        last_attempt_at: nowIso,
-        last_error: errorMessage,
-      })
-      .eq("id", contentId);
+        : `Unknown error posting to ${publisher.platformId}`;
+
+    // A post the platform took without confirming may be live; retrying it
+    // from "failed" would post it twice
+    const kind = classifyPublishFailure(error);
+    await markFailed(
+      publishFailureMessage(errorMessage, kind),
+      kind === "unconfirmed" ? DEAD_LETTER_STATUS : "failed"
+    );
 
     throw error;
   }
 }
 
+/**
+ * Gives a failed or dead-lettered post a fresh retry budget and publishes it
+ * straight away. If this attempt fails too, the post is left failed.
+ *
+ * @param contentId - The campaign post ID
+ * @param userId - User ID for ownership verification
+ * @returns Updated campaign content on success
+ */
+export async function retryCampaignContentNow(
+  contentId: string,
+  userId: string
+): Promise<CampaignContent> {
+  const supabase = createSupabaseServiceClient();
+
+  const { data: postRow, error: postError } = await supabase
+    .from("campaign_posts")
+    .select("id, status, platform_id, campaigns!inner ( user_id )")
+    .eq("id", contentId)
+    .eq("campaigns.user_id", userId)
+    .single();
+
+  if (postError || !postRow) {
+    throw new Error("Campaign post not found or access denied");
+  }
+
+  if (!isFailedPostStatus(postRow.status)) {
+    throw new Error(
+      `Cannot retry content with status "${postRow.status}". Only failed posts can be retried.`
+    );
+  }
+
+  if (!getPlatformPublisher(postRow.platform_id)) {
+    throw new Error(
+      `Publishing is not supported for platform "${postRow.platform_id ?? "none"}"`
+    );
+  }
+
+  const { error: resetError } = await supabase
+    .from("campaign_posts")
+    .update({ status: "scheduled", retry_count: 0 })
+    .eq("id", contentId)
+    .eq("status", postRow.status);
+
+  if (resetError) {
+    throw new Error(`Failed to reset post for retry: ${resetError.message}`);
+  }
+
+  return postCampaignContentNow(contentId, userId);
+}
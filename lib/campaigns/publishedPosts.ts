@@ -0,0 +1,151 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import { getAccountAccessToken } from "@/lib/social/accountTokens";
+import {
+  appendPlatformHistory,
+  buildPublishRequest,
+  DELETED_STATUS,
+  getPlatformPublisher,
+  toPublisherAccount,
+  type PublisherSession,
+} from "@/lib/publishing";
+import { mapCampaignContentRow } from "@/lib/campaigns/mappers";
+import type { CampaignContent } from "@/types/campaign";
+import type { PersonaSocialAccount } from "@/types/social";
+
+/**
+ * Loads a published post the user owns, with its publisher and the
+ * account it went out on.
+ */
+async function loadPublishedPost(postId: string, userId: string) {
+  const supabase = createSupabaseServiceClient();
+  const { data: post, error } = await supabase
+    .from("campaign_posts")
+    .select("*, campaigns!inner ( user_id )")
+    .eq("id", postId)
+    .eq("campaigns.user_id", userId)
+    .single();
+
+  if (error || !post) {
+    throw new Error("Campaign post not found or access denied");
+  }
+
+  if (post.status !== "published" || !post.post_external_id) {
+    throw new Error(
+      `Cannot change content with status "${post.status}" on its platform. Only published posts can be edited or deleted.`
+    );
+  }
+
+  const publisher = getPlatformPublisher(post.platform_id);
+  if (!publisher) {
+    throw new Error(
+      `Publishing is not supported for platform "${post.platform_id ?? "none"}"`
+    );
+  }
+
+  const { data: account } = await supabase
+    .from("persona_social_accounts")
+    .select("*")
+    .eq("id", post.persona_social_account_id)
+    .eq("status", "connected")
+    .maybeSingle();
+
+  if (!account) {
+    throw new Error(
+      `The ${publisher.platformId} account this post was published with is no longer connected`
+    );
+  }
+
+  return { post, publisher, account: account as PersonaSocialAccount };
+}
+
+async function openSession(account: PersonaSocialAccount): Promise<PublisherSession> {
+  return {
+    accessToken: await getAccountAccessToken(account),
+    account: toPublisherAccount(account),
+  };
+}
+
+/**
+ * Replaces the text of a published post on its platform and records the
+ * previous copy in platform_history.
+ */
+export async function editPublishedPost(
+  postId: string,
+  userId: string,
+  changes: { text: string }
+): Promise<CampaignContent> {
+  const { post, publisher, account } = await loadPublishedPost(postId, userId);
+
+  if (!publisher.editPost) {
+    throw new Error(`Editing published posts is not supported on ${publisher.platformId}`);
+  }
+
+  const previous = (post.content_json ?? {}) as { title?: string; text?: string };
+  const contentJson = { ...previous, text: changes.text };
+  const request = buildPublishRequest({ ...post, content_json: contentJson }, account);
+
+  await publisher.editPost(post.post_external_id, request, await openSession(account));
+
+  const supabase = createSupabaseServiceClient();
+  const { data: updated, error } = await supabase
+    .from("campaign_posts")
+    .update({
+      content_json: contentJson,
+      platform_history: appendPlatformHistory(post.platform_history, {
+        action: "edited",
+        at: new Date().toISOString(),
+        actor: userId,
+        previous: { title: previous.title ?? "", text: previous.text ?? "" },
+      }),
+    })
+    .eq("id", postId)
+    .select("*")
+    .single();
+
+  if (error || !updated) {
+    // The platform already has the new text; don't report the edit as failed
+    console.error("Failed to record edit after updating the platform:", error);
+    return mapCampaignContentRow({ ...post, content_json: contentJson });
+  }
+
+  return mapCampaignContentRow(updated);
+}
+
+/**
+ * Deletes a published post from its platform. The row stays, marked
+ * deleted, so its history and metrics remain visible.
+ */
+export async function deletePublishedPost(
+  postId: string,
+  userId: string
+): Promise<CampaignContent> {
+  const { post, publisher, account } = await loadPublishedPost(postId, userId);
+
+  await publisher.deletePost(post.post_external_id, await openSession(account));
+
+  const now = new Date().toISOString();
+  const supabase = createSupabaseServiceClient();
+  const { data: updated, error } = await supabase
+    .from("campaign_posts")
+    .update({
+      status: DELETED_STATUS,
+      deleted_at: now,
+      platform_history: appendPlatformHistory(post.platform_history, {
+        action: "deleted",
+        at: now,
+        actor: userId,
+        previous: null,
+      }),
+    })
+    .eq("id", postId)
+    .eq("status", "published")
+    .select("*")
+    .single();
+
+  if (error || !updated) {
+    console.error("Failed to record deletion after deleting from the platform:", error);
+    return mapCampaignContentRow({ ...post, status: DELETED_STATUS, deleted_at: now });
+  }
+
+  return mapCampaignContentRow(updated);
+}
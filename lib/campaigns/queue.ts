@@ -0,0 +1,289 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import { mapCampaignContentRow } from "@/lib/campaigns/mappers";
+import { nextFreeSlot, type PostingSlot } from "@/lib/campaigns/slots";
+import { checkPostRateLimits } from "@/lib/campaigns/rateLimits";
+import { checkCommunityRemovals } from "@/lib/analytics/communityRemovals";
+import type { PublishRateLimits } from "@/lib/publishing";
+import type { CampaignContent } from "@/types/campaign";
+
+export interface AccountQueue {
+  accountId: string;
+  platformId: string;
+  timezone: string;
+  slots: PostingSlot[];
+  /** Upcoming scheduled posts on the account, soonest first. */
+  posts: CampaignContent[];
+}
+
+interface QueueAccountRow {
+  id: string;
+  platform_id: string;
+  persona_id: string;
+  posting_slots: PostingSlot[] | null;
+  rate_limits: Partial<PublishRateLimits> | null;
+  personas: { user_id: string; demographics: { time_zone?: string } | null };
+}
+
+async function loadOwnedAccount(accountId: string, userId: string) {
+  const supabase = createSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("persona_social_accounts")
+    .select(
+      `
+      id,
+      platform_id,
+      persona_id,
+      posting_slots,
+      rate_limits,
+      personas!inner ( user_id, demographics )
+    `
+    )
+    .eq("id", accountId)
+    .eq("personas.user_id", userId)
+    .single();
+
+  if (error || !data) {
+    throw new Error("Social account not found or access denied");
+  }
+
+  const account = data as unknown as QueueAccountRow;
+  return {
+    ...account,
+    slots: account.posting_slots ?? [],
+    timezone: account.personas.demographics?.time_zone || "UTC",
+  };
+}
+
+async function loadUpcomingPosts(accountId: string, now: Date): Promise<CampaignContent[]> {
+  const supabase = createSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("campaign_posts")
+    .select("*")
+    .eq("persona_social_account_id", accountId)
+    .eq("status", "scheduled")
+    .gt("scheduled_for", now.toISOString())
+    .order("scheduled_for", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load queue: ${error.message}`);
+  }
+
+  return (data ?? []).map(mapCampaignContentRow);
+}
+
+// Only posts that haven't started going out can be (re)queued
+const QUEUEABLE_STATUSES = ["draft", "scheduled"];
+
+// Slots tried past rate-limited ones before giving up
+const MAX_SLOT_ATTEMPTS = 20;
+
+export async function getAccountQueue(
+  accountId: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<AccountQueue> {
+  const account = await loadOwnedAccount(accountId, userId);
+  const posts = await loadUpcomingPosts(account.id, now);
+
+  return {
+    accountId: account.id,
+    platformId: account.platform_id,
+    timezone: account.timezone,
+    slots: account.slots,
+    posts,
+  };
+}
+
+export async function updatePostingSlots(
+  accountId: string,
+  userId: string,
+  slots: PostingSlot[]
+): Promise<PostingSlot[]> {
+  await loadOwnedAccount(accountId, userId);
+  const supabase = createSupabaseServiceClient();
+
+  const sorted = [...slots].sort(
+    (a, b) => a.day_of_week - b.day_of_week || a.time.localeCompare(b.time)
+  );
+
+  const { error } = await supabase
+    .from("persona_social_accounts")
+    .update({ posting_slots: sorted })
+    .eq("id", accountId);
+
+  if (error) {
+    throw new Error(`Failed to save posting slots: ${error.message}`);
+  }
+
+  return sorted;
+}
+
+/**
+ * Schedules a post into the account's next free slot that its rate limits
+ * allow. The result is an ordinary scheduled post, so postScheduler
+ * publishes it like any other.
+ */
+export async function addPostToQueue(
+  postId: string,
+  accountId: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<CampaignContent> {
+  const account = await loadOwnedAccount(accountId, userId);
+  const supabase = createSupabaseServiceClient();
+
+  if (account.slots.length === 0) {
+    throw new Error("No posting slots configured for this account");
+  }
+
+  const { data: post, error: postError } = await supabase
+    .from("campaign_posts")
+    .select(
+      "id, persona_id, status, content_json, platform_options, campaigns!inner ( user_id )"
+    )
+    .eq("id", postId)
+    .eq("campaigns.user_id", userId)
+    .single();
+
+  if (postError || !post) {
+    throw new Error("Content not found or access denied");
+  }
+
+  if (post.persona_id !== account.persona_id) {
+    throw new Error("Account does not belong to this persona");
+  }
+
+  if (!QUEUEABLE_STATUSES.includes(post.status)) {
+    throw new Error(
+      `Only draft or scheduled content can be queued (this content is ${post.status})`
+    );
+  }
+
+  const blockedReason = await checkCommunityRemovals(
+    { ...post, platform_id: account.platform_id },
+    now
+  );
+  if (blockedReason) {
+    throw new Error(blockedReason);
+  }
+
+  const upcoming = await loadUpcomingPosts(account.id, now);
+  const taken = upcoming
+    .filter((entry) => entry.id !== postId)
+    .map((entry) => entry.scheduled_for as string);
+
+  let slot: Date | null = null;
+  let refusal: string | null = null;
+  for (let attempt = 0; attempt < MAX_SLOT_ATTEMPTS; attempt += 1) {
+    const candidate = nextFreeSlot(account.slots, account.timezone, now, taken);
+    if (!candidate) {
+      break;
+    }
+
+    const rateLimit = await checkPostRateLimits(post, account, candidate, now);
+    if (rateLimit.allowed) {
+      slot = candidate;
+      break;
+    }
+
+    refusal = rateLimit.message;
+    taken.push(candidate.toISOString());
+  }
+
+  if (!slot) {
+    throw new Error(refusal ?? "No free posting slot in the coming weeks");
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from("campaign_posts")
+    .update({
+      status: "scheduled",
+      persona_social_account_id: account.id,
+      platform_id: account.platform_id,
+      scheduled_for: slot.toISOString(),
+      error_message: null,
+    })
+    .eq("id", postId)
+    .select("*")
+    .single();
+
+  if (updateError || !updated) {
+    throw new Error(`Failed to add content to queue: ${updateError?.message}`);
+  }
+
+  return mapCampaignContentRow(updated);
+}
+
+/**
+ * Reorders the account's upcoming posts. The set of times stays the same;
+ * posts swap times so that they go out in the requested order. Nothing moves
+ * if a moved post would break the account's rate limits at its new time or
+ * targets a subreddit that keeps removing the persona's posts.
+ */
+export async function reorderQueue(
+  accountId: string,
+  userId: string,
+  orderedPostIds: string[],
+  now: Date = new Date()
+): Promise<CampaignContent[]> {
+  const account = await loadOwnedAccount(accountId, userId);
+  const supabase = createSupabaseServiceClient();
+  const upcoming = await loadUpcomingPosts(account.id, now);
+
+  const currentIds = new Set(upcoming.map((post) => post.id));
+  if (
+    orderedPostIds.length !== currentIds.size ||
+    !orderedPostIds.every((id) => currentIds.has(id))
+  ) {
+    throw new Error("Queue has changed; reload and try again");
+  }
+
+  const times = upcoming.map((post) => post.scheduled_for as string);
+  const postsById = new Map(upcoming.map((post) => [post.id, post]));
+  const rescheduled = orderedPostIds.map((postId, index) => ({
+    ...postsById.get(postId)!,
+    scheduled_for: times[index],
+  }));
+
+  for (const [index, post] of rescheduled.entries()) {
+    if (upcoming[index].id === post.id) {
+      continue;
+    }
+
+    const rateLimit = await checkPostRateLimits(
+      post,
+      account,
+      new Date(post.scheduled_for),
+      now,
+      rescheduled
+    );
+    if (!rateLimit.allowed) {
+      throw new Error(rateLimit.message);
+    }
+
+    const blockedReason = await checkCommunityRemovals(
+      { ...post, platform_id: account.platform_id },
+      now
+    );
+    if (blockedReason) {
+      throw new Error(blockedReason);
+    }
+  }
+
+  for (const [index, postId] of orderedPostIds.entries()) {
+    if (upcoming[index].id === postId) {
+      continue;
+    }
+    const { error } = await supabase
+      .from("campaign_posts")
+      .update({ scheduled_for: times[index] })
+      .eq("id", postId)
+      .eq("status", "scheduled");
+
+    if (error) {
+      throw new Error(`Failed to reorder queue: ${error.message}`);
+    }
+  }
+
+  return loadUpcomingPosts(account.id, now);
+}
@@ -0,0 +1,155 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import {
+  checkRateLimits,
+  RATE_LIMIT_LOOKAROUND_MS,
+  RATE_LIMITED_STATUSES,
+  rateLimitSubreddit,
+  resolveRateLimits,
+  toRateLimitEntry,
+  type PublishRateLimits,
+  type RateLimitCheck,
+  type RateLimitEntry,
+} from "@/lib/publishing";
+
+export interface AccountRateLimits {
+  accountId: string;
+  platformId: string;
+  /** Only the limits set on the account. */
+  overrides: Partial<PublishRateLimits>;
+  /** Platform defaults with the overrides applied. */
+  effective: PublishRateLimits;
+}
+
+/** A scheduled post about to move to `scheduled_for`. */
+export interface RescheduledPost {
+  id: string;
+  scheduled_for: string;
+  content_json?: unknown;
+  platform_options?: unknown;
+}
+
+interface RateLimitAccountRow {
+  id: string;
+  platform_id: string;
+  rate_limits?: Partial<PublishRateLimits> | null;
+}
+
+async function loadOwnedAccount(accountId: string, userId: string) {
+  const supabase = createSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("persona_social_accounts")
+    .select("id, platform_id, rate_limits, personas!inner ( user_id )")
+    .eq("id", accountId)
+    .eq("personas.user_id", userId)
+    .single();
+
+  if (error || !data) {
+    throw new Error("Social account not found or access denied");
+  }
+
+  return data as unknown as RateLimitAccountRow;
+}
+
+function toAccountRateLimits(account: RateLimitAccountRow): AccountRateLimits {
+  const overrides = account.rate_limits ?? {};
+  return {
+    accountId: account.id,
+    platformId: account.platform_id,
+    overrides,
+    effective: resolveRateLimits(account.platform_id, overrides),
+  };
+}
+
+export async function getAccountRateLimits(
+  accountId: string,
+  userId: string
+): Promise<AccountRateLimits> {
+  return toAccountRateLimits(await loadOwnedAccount(accountId, userId));
+}
+
+/**
+ * Replaces the account's overrides. Omitted limits fall back to the platform
+ * defaults; null turns a limit off.
+ */
+export async function updateAccountRateLimits(
+  accountId: string,
+  userId: string,
+  overrides: Partial<PublishRateLimits>
+): Promise<AccountRateLimits> {
+  const account = await loadOwnedAccount(accountId, userId);
+  const supabase = createSupabaseServiceClient();
+
+  const { error } = await supabase
+    .from("persona_social_accounts")
+    .update({ rate_limits: overrides })
+    .eq("id", accountId);
+
+  if (error) {
+    throw new Error(`Failed to save rate limits: ${error.message}`);
+  }
+
+  return toAccountRateLimits({ ...account, rate_limits: overrides });
+}
+
+/**
+ * The account's other posts close enough to `around` to affect its limits,
+ * with `rescheduled` posts counted at their new times.
+ */
+async function loadRateLimitEntries(
+  accountId: string,
+  around: Date,
+  excludePostId: string,
+  now: Date,
+  rescheduled: RescheduledPost[]
+): Promise<RateLimitEntry[]> {
+  const supabase = createSupabaseServiceClient();
+  const from = new Date(around.getTime() - RATE_LIMIT_LOOKAROUND_MS).toISOString();
+  const to = new Date(around.getTime() + RATE_LIMIT_LOOKAROUND_MS).toISOString();
+
+  const { data, error } = await supabase
+    .from("campaign_posts")
+    .select("id, status, scheduled_for, posted_at, content_json, platform_options")
+    .eq("persona_social_account_id", accountId)
+    .neq("id", excludePostId)
+    .in("status", RATE_LIMITED_STATUSES)
+    .or(
+      `and(status.eq.published,posted_at.gte.${from},posted_at.lte.${to}),` +
+        `and(status.neq.published,scheduled_for.gte.${from},scheduled_for.lte.${to})`
+    );
+
+  if (error) {
+    throw new Error(`Failed to load posts for rate limits: ${error.message}`);
+  }
+
+  const rescheduledIds = new Set(rescheduled.map((post) => post.id));
+  const rows = [
+    ...(data ?? []).filter((row) => !rescheduledIds.has(row.id)),
+    ...rescheduled
+      .filter((post) => post.id !== excludePostId)
+      .map((post) => ({ ...post, status: "scheduled" })),
+  ];
+
+  return rows
+    .map((row) => toRateLimitEntry(row, now))
+    .filter((entry): entry is RateLimitEntry => entry !== null);
+}
+
+/**
+ * Checks a post against its account's publishing limits as if it went out
+ * at `at`. Pass `rescheduled` when other posts move along with this one.
+ */
+export async function checkPostRateLimits(
+  post: { id: string; content_json?: unknown; platform_options?: unknown },
+  account: RateLimitAccountRow,
+  at: Date,
+  now: Date = new Date(),
+  rescheduled: RescheduledPost[] = []
+): Promise<RateLimitCheck> {
+  const entries = await loadRateLimitEntries(account.id, at, post.id, now, rescheduled);
+
+  return checkRateLimits(resolveRateLimits(account.platform_id, account.rate_limits), entries, {
+    at,
+    platformId: account.platform_id,
+    subreddit: account.platform_id === "reddit" ? rateLimitSubreddit(post) : null,
+  });
+}
@@ -0,0 +1,153 @@
+import type { PostingSlot } from "@/types/social";
+
+export type { PostingSlot };
+
+// How far ahead to look for a free slot before giving up
+const MAX_WEEKS_AHEAD = 12;
+
+/**
+ * Offset of `timezone` from UTC at `instant`, in milliseconds.
+ */
+function timezoneOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour"),
+    value("minute"),
+    value("second")
+  );
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The UTC instant of a wall-clock time in `timezone`. Falls back to UTC for
+ * unknown zones.
+ */
+export function zonedTimeToUtc(
+  date: { year: number; month: number; day: number; hour: number; minute: number },
+  timezone: string
+): Date {
+  const wallClock = Date.UTC(date.year, date.month, date.day, date.hour, date.minute);
+  try {
+    // Second pass corrects for a DST change between the guess and the answer
+    const firstGuess = wallClock - timezoneOffset(wallClock, timezone);
+    return new Date(wallClock - timezoneOffset(firstGuess, timezone));
+  } catch {
+    return new Date(wallClock);
+  }
+}
+
+function localDate(instant: Date, timezone: string) {
+  try {
+    const offset = timezoneOffset(instant.getTime(), timezone);
+    const shifted = new Date(instant.getTime() + offset);
+    return {
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth(),
+      day: shifted.getUTCDate(),
+    };
+  } catch {
+    return {
+      year: instant.getUTCFullYear(),
+      month: instant.getUTCMonth(),
+      day: instant.getUTCDate(),
+    };
+  }
+}
+
+/**
+ * Weekday (0 = Sunday) and hour of `instant` in `timezone`.
+ */
+export function localWeekdayHour(
+  instant: Date,
+  timezone: string
+): { dayOfWeek: number; hour: number } {
+  let offset = 0;
+  try {
+    offset = timezoneOffset(instant.getTime(), timezone);
+  } catch {
+    offset = 0;
+  }
+  const shifted = new Date(instant.getTime() + offset);
+  return { dayOfWeek: shifted.getUTCDay(), hour: shifted.getUTCHours() };
+}
+
+export function parseSlotTime(time: string): { hour: number; minute: number } | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  return match ? { hour: Number(match[1]), minute: Number(match[2]) } : null;
+}
+
+/**
+ * Slot occurrences after `from`, in order, for up to `weeks` weeks.
+ */
+export function upcomingSlotTimes(
+  slots: PostingSlot[],
+  timezone: string,
+  from: Date,
+  weeks: number = MAX_WEEKS_AHEAD
+): Date[] {
+  if (slots.length === 0) {
+    return [];
+  }
+
+  const start = localDate(from, timezone);
+  const times: Date[] = [];
+
+  for (let offset = 0; offset <= weeks * 7; offset += 1) {
+    const day = new Date(Date.UTC(start.year, start.month, start.day + offset));
+    for (const slot of slots) {
+      const parsed = parseSlotTime(slot.time);
+      if (!parsed || slot.day_of_week !== day.getUTCDay()) {
+        continue;
+      }
+      const time = zonedTimeToUtc(
+        {
+          year: day.getUTCFullYear(),
+          month: day.getUTCMonth(),
+          day: day.getUTCDate(),
+          hour: parsed.hour,
+          minute: parsed.minute,
+        },
+        timezone
+      );
+      if (time.getTime() > from.getTime()) {
+        times.push(time);
+      }
+    }
+  }
+
+  return times.sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * The first slot after `from` that no already-scheduled post occupies.
+ * A post within the same minute as a slot counts as occupying it.
+ */
+export function nextFreeSlot(
+  slots: PostingSlot[],
+  timezone: string,
+  from: Date,
+  scheduledTimes: string[]
+): Date | null {
+  const taken = new Set(
+    scheduledTimes.map((time) => Math.floor(new Date(time).getTime() / 60000))
+  );
+
+  return (
+    upcomingSlotTimes(slots, timezone, from).find(
+      (time) => !taken.has(Math.floor(time.getTime() / 60000))
+    ) ?? null
+  );
+}
@@ -0,0 +1,32 @@
+import { createRedditEngagementSource } from "./reddit.ts";
+import type { EngagementSource, EngagementSourceOptions } from "./types.ts";
+
+export * from "./types.ts";
+export * from "./threading.ts";
+export * from "./policy.ts";
+export { scoreSentiment } from "./sentiment.ts";
+export { createRedditEngagementSource } from "./reddit.ts";
+
+const engagementSourceFactories: Record<
+  string,
+  (options?: EngagementSourceOptions) => EngagementSource
+> = {
+  reddit: createRedditEngagementSource,
+};
+
+export const ENGAGEMENT_PLATFORM_IDS = Object.keys(engagementSourceFactories);
+
+/**
+ * Returns the comment source for a platform, or null when engagement sync
+ * is not available there yet.
+ */
+export function getEngagementSource(
+  platformId: string | null | undefined,
+  options?: EngagementSourceOptions
+): EngagementSource | null {
+  if (!platformId || !(platformId in engagementSourceFactories)) {
+    return null;
+  }
+
+  return engagementSourceFactories[platformId](options);
+}
@@ -0,0 +1,170 @@
+import { scoreSentiment } from "./sentiment.ts";
+
+export type ReplyPolicyDecision = "auto_reply" | "review" | "skip";
+
+/**
+ * The rule columns of an engagement_reply_policies row.
+ */
+export interface ReplyPolicyRules {
+  enabled: boolean;
+  auto_reply_keywords: string[];
+  review_keywords: string[];
+  skip_keywords: string[];
+  author_allowlist: string[];
+  author_denylist: string[];
+  max_auto_replies_per_hour: number;
+  min_sentiment_for_auto_reply: number;
+  skip_below_sentiment: number | null;
+  quiet_hours_start: number | null;
+  quiet_hours_end: number | null;
+  timezone: string;
+}
+
+export interface ReplyPolicyInput {
+  authorHandle: string | null;
+  text: string | null;
+  /** Auto-replies already sent from this account in the past hour. */
+  autoRepliesInLastHour: number;
+  now: Date;
+}
+
+export interface ReplyPolicyEvaluation {
+  decision: ReplyPolicyDecision;
+  /** Human-readable rule outcomes, in the order they were checked. */
+  reasons: string[];
+  sentiment: number;
+}
+
+function normalizeHandle(handle: string): string {
+  return handle.replace(/^@|^u\//i, "").trim().toLowerCase();
+}
+
+function findKeyword(text: string, keywords: string[]): string | null {
+  const lowerText = text.toLowerCase();
+  return (
+    keywords.find((keyword) => {
+      const needle = keyword.trim().toLowerCase();
+      return needle.length > 0 && lowerText.includes(needle);
+    }) ?? null
+  );
+}
+
+/**
+ * Returns the hour (0-23) of `now` in the given IANA timezone, falling back
+ * to UTC if the timezone is unknown.
+ */
+export function hourInTimezone(now: Date, timezone: string): number {
+  try {
+    const hour = new Intl.DateTimeFormat("en-US", {
+      hour: "numeric",
+      hourCycle: "h23",
+      timeZone: timezone,
+    }).format(now);
+    return Number(hour);
+  } catch {
+    return now.getUTCHours();
+  }
+}
+
+/**
+ * Whether `hour` falls inside quiet hours. The start hour is inclusive and
+ * the end hour exclusive; a start after the end wraps past midnight.
+ */
+export function isWithinQuietHours(
+  hour: number,
+  start: number | null,
+  end: number | null
+): boolean {
+  if (start === null || end === null || start === end) {
+    return false;
+  }
+
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Decides what to do with an incoming engagement item under a policy.
+ *
+ * Skip rules are checked first so spam and denied authors never reach the
+ * inbox. Anything that isn't clearly safe to answer unattended is queued for
+ * review; only items that clear every rule are auto-replied.
+ */
+export function evaluateReplyPolicy(
+  policy: ReplyPolicyRules | null,
+  input: ReplyPolicyInput
+): ReplyPolicyEvaluation {
+  const text = input.text ?? "";
+  const sentiment = scoreSentiment(text);
+  const author = input.authorHandle ? normalizeHandle(input.authorHandle) : null;
+  const review = (reason: string): ReplyPolicyEvaluation => ({
+    decision: "review",
+    reasons: [reason],
+    sentiment,
+  });
+  const skip = (reason: string): ReplyPolicyEvaluation => ({
+    decision: "skip",
+    reasons: [reason],
+    sentiment,
+  });
+
+  if (!policy || !policy.enabled) {
+    return review("Auto-reply is disabled for this account");
+  }
+
+  if (author && policy.author_denylist.map(normalizeHandle).includes(author)) {
+    return skip(`Author ${input.authorHandle} is on the deny list`);
+  }
+
+  const skipKeyword = findKeyword(text, policy.skip_keywords);
+  if (skipKeyword) {
+    return skip(`Matched skip keyword "${skipKeyword}"`);
+  }
+
+  if (policy.skip_below_sentiment !== null && sentiment < policy.skip_below_sentiment) {
+    return skip(
+      `Sentiment ${sentiment.toFixed(2)} is below the skip threshold ${policy.skip_below_sentiment}`
+    );
+  }
+
+  const reviewKeyword = findKeyword(text, policy.review_keywords);
+  if (reviewKeyword) {
+    return review(`Matched review keyword "${reviewKeyword}"`);
+  }
+
+  if (
+    policy.author_allowlist.length > 0 &&
+    (!author || !policy.author_allowlist.map(normalizeHandle).includes(author))
+  ) {
+    return review("Author is not on the allow list");
+  }
+
+  if (
+    policy.auto_reply_keywords.length > 0 &&
+    !findKeyword(text, policy.auto_reply_keywords)
+  ) {
+    return review("No auto-reply keyword matched");
+  }
+
+  if (sentiment < policy.min_sentiment_for_auto_reply) {
+    return review(
+      `Sentiment ${sentiment.toFixed(2)} is below the auto-reply threshold ${policy.min_sentiment_for_auto_reply}`
+    );
+  }
+
+  const hour = hourInTimezone(input.now, policy.timezone);
+  if (isWithinQuietHours(hour, policy.quiet_hours_start, policy.quiet_hours_end)) {
+    return review(`Within quiet hours (${hour}:00 ${policy.timezone})`);
+  }
+
+  if (input.autoRepliesInLastHour >= policy.max_auto_replies_per_hour) {
+    return review(
+      `Hourly auto-reply limit of ${policy.max_auto_replies_per_hour} reached`
+    );
+  }
+
+  return {
+    decision: "auto_reply",
+    reasons: ["All auto-reply rules passed"],
+    sentiment,
+  };
+}
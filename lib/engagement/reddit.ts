@@ -0,0 +1,185 @@
+import {
+  PlatformApiError,
+  readApiErrorMessage,
+  resolveFetch,
+  trimBaseUrl,
+} from "../publishing/http.ts";
+import type {
+  EngagementSource,
+  EngagementSourceOptions,
+  FetchedComment,
+} from "./types.ts";
+
+const DEFAULT_API_BASE_URL = "https://oauth.reddit.com";
+const DEFAULT_USER_AGENT = "DoppelCart/1.0";
+
+type RedditThing = {
+  kind: string;
+  data: Record<string, unknown>;
+};
+
+function stripFullnamePrefix(fullname: string): string {
+  return fullname.replace(/^t[0-9]_/, "");
+}
+
+/**
+ * Walks a Reddit comment listing depth-first so parents are always emitted
+ * before their replies. "more" stubs are skipped.
+ */
+function flattenComments(
+  things: RedditThing[],
+  depth: number,
+  into: FetchedComment[]
+): FetchedComment[] {
+  for (const thing of things) {
+    if (thing.kind !== "t1") {
+      continue;
+    }
+
+    const { replies, ...data } = thing.data;
+    const parentId = typeof data.parent_id === "string" ? data.parent_id : "";
+    const createdUtc = typeof data.created_utc === "number" ? data.created_utc : null;
+
+    into.push({
+      platformObjectId: String(data.id),
+      parentPlatformObjectId: parentId.startsWith("t1_")
+        ? stripFullnamePrefix(parentId)
+        : null,
+      authorHandle: typeof data.author === "string" ? data.author : null,
+      text: typeof data.body === "string" ? data.body : null,
+      receivedAt: createdUtc
+        ? new Date(createdUtc * 1000).toISOString()
+        : new Date().toISOString(),
+      depth,
+      permalink:
+        typeof data.permalink === "string"
+          ? `https://reddit.com${data.permalink}`
+          : null,
+      raw: data,
+    });
+
+    // Reddit sends an empty string instead of a listing when there are no replies
+    const replyListing =
+      replies && typeof replies === "object"
+        ? (replies as { data?: { children?: RedditThing[] } })
+        : null;
+    const children = replyListing?.data?.children ?? [];
+    if (children.length > 0) {
+      flattenComments(children, depth + 1, into);
+    }
+  }
+
+  return into;
+}
+
+export function createRedditEngagementSource(
+  options: EngagementSourceOptions = {}
+): EngagementSource {
+  const apiBaseUrl = trimBaseUrl(options.apiBaseUrl ?? DEFAULT_API_BASE_URL);
+  const userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+  const fetchImpl = resolveFetch(options);
+
+  return {
+    platformId: "reddit",
+
+    async fetchComments(externalPostId, session) {
+      const article = stripFullnamePrefix(externalPostId);
+      const params = new URLSearchParams({
+        limit: "500",
+        depth: "10",
+        sort: "new",
+        raw_json: "1",
+      });
+
+      const response = await fetchImpl(
+        `${apiBaseUrl}/comments/${encodeURIComponent(article)}?${params.toString()}`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.accessToken}`,
+            "User-Agent": userAgent,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "reddit",
+          response.status,
+          await readApiErrorMessage(response, "Reddit API error")
+        );
+      }
+
+      // Response is [postListing, commentListing]
+      const json = (await response.json()) as Array<{
+        data?: { children?: RedditThing[] };
+      }>;
+      const commentThings = json?.[1]?.data?.children ?? [];
+
+      return flattenComments(commentThings, 0, []);
+    },
+
+    async postReply(parentPlatformObjectId, text, session) {
+      if (!text || text.trim().length === 0) {
+        throw new Error("Reply text is required");
+      }
+
+      if (text.length > 10000) {
+        throw new Error(`Reply exceeds 10,000 character limit (${text.length} chars)`);
+      }
+
+      const thingId = /^t[0-9]_/.test(parentPlatformObjectId)
+        ? parentPlatformObjectId
+        : `t1_${parentPlatformObjectId}`;
+
+      const response = await fetchImpl(`${apiBaseUrl}/api/comment`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.accessToken}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+          "User-Agent": userAgent,
+        },
+        body: new URLSearchParams({
+          thing_id: thingId,
+          text,
+          api_type: "json",
+        }),
+      });
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "reddit",
+          response.status,
+          await readApiErrorMessage(response, "Reddit API error")
+        );
+      }
+
+      const json = await response.json();
+      const apiErrors = json?.json?.errors as unknown[][] | undefined;
+      if (apiErrors && apiErrors.length > 0) {
+        const [code, message] = apiErrors[0] as [string, string];
+        throw new PlatformApiError(
+          "reddit",
+          response.status,
+          `Reddit API error: ${code}${message ? ` (${message})` : ""}`
+        );
+      }
+
+      const reply = json?.json?.data?.things?.[0]?.data as
+        | Record<string, unknown>
+        | undefined;
+
+      if (!reply || typeof reply.id !== "string") {
+        console.error("Reddit response missing reply data:", json);
+        throw new Error("Reddit response missing reply ID");
+      }
+
+      return {
+        externalId: reply.id,
+        url:
+          typeof reply.permalink === "string"
+            ? `https://reddit.com${reply.permalink}`
+            : "",
+      };
+    },
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Lightweight lexicon-based sentiment scoring for incoming comments.
+ *
+ * Good enough to keep auto-replies away from angry or hostile threads without
+ * a model call per comment. Scores run from -1 (negative) to 1 (positive).
+ */
+
+const POSITIVE_WORDS = [
+  "love",
+  "great",
+  "awesome",
+  "amazing",
+  "thanks",
+  "thank",
+  "helpful",
+  "nice",
+  "cool",
+  "agree",
+  "excellent",
+  "good",
+  "useful",
+  "interesting",
+  "appreciate",
+  "perfect",
+  "brilliant",
+  "fantastic",
+];
+
+const NEGATIVE_WORDS = [
+  "hate",
+  "terrible",
+  "awful",
+  "worst",
+  "bad",
+  "stupid",
+  "scam",
+  "spam",
+  "useless",
+  "wrong",
+  "disagree",
+  "annoying",
+  "garbage",
+  "trash",
+  "idiot",
+  "broken",
+  "disappointed",
+  "horrible",
+];
+
+const NEGATIONS = ["not", "no", "never", "don't", "dont", "isn't", "isnt", "wasn't", "can't"];
+
+export function scoreSentiment(text: string | null | undefined): number {
+  if (!text) {
+    return 0;
+  }
+
+  const words = text.toLowerCase().match(/[a-z']+/g) ?? [];
+  let score = 0;
+  let hits = 0;
+
+  words.forEach((word, index) => {
+    const polarity = POSITIVE_WORDS.includes(word)
+      ? 1
+      : NEGATIVE_WORDS.includes(word)
+        ? -1
+        : 0;
+
+    if (polarity === 0) {
+      return;
+    }
+
+    // "not good" flips the polarity of the following word
+    const negated = index > 0 && NEGATIONS.includes(words[index - 1]);
+    score += negated ? -polarity : polarity;
+    hits += 1;
+  });
+
+  if (hits === 0) {
+    return 0;
+  }
+
+  return Math.max(-1, Math.min(1, score / hits));
+}
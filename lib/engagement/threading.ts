@@ -0,0 +1,122 @@
+import type { FetchedComment } from "./types.ts";
+
+/**
+ * Row shape written to engagement_items for a newly ingested comment.
+ */
+export interface EngagementItemInsert {
+  id: string;
+  persona_social_account_id: string;
+  platform_id: string;
+  campaign_post_id: string;
+  source_type: "incoming_comment";
+  platform_object_id: string;
+  parent_post_id: string;
+  parent_engagement_item_id: string | null;
+  thread_root_id: string;
+  author_handle: string | null;
+  content_text: string | null;
+  raw_payload: Record<string, unknown>;
+  platform_context: Record<string, unknown>;
+  status: "unreviewed" | "skipped";
+  received_at: string;
+  priority: number;
+}
+
+export interface KnownEngagementItem {
+  id: string;
+  thread_root_id: string | null;
+  author_handle: string | null;
+}
+
+export interface EngagementThreadingContext {
+  accountId: string;
+  platformId: string;
+  /** The persona's own handle on the platform, to recognise its replies. */
+  ownHandle: string | null;
+  campaignPostId: string;
+  externalPostId: string;
+  /** Items already stored for this account, keyed by platform_object_id. */
+  known: Map<string, KnownEngagementItem>;
+  generateId: () => string;
+}
+
+/** Someone replied to one of the persona's own comments. */
+export const PRIORITY_REPLY_TO_PERSONA = 2;
+/** A top-level comment directly on the persona's post. */
+export const PRIORITY_TOP_LEVEL = 1;
+export const PRIORITY_NESTED = 0;
+
+function isSameHandle(a: string | null, b: string | null): boolean {
+  if (!a || !b) {
+    return false;
+  }
+  return a.replace(/^@|^u\//i, "").toLowerCase() === b.replace(/^@|^u\//i, "").toLowerCase();
+}
+
+/**
+ * Turns fetched comments into engagement_items rows, skipping ones already
+ * stored and linking each new row to its parent and thread root.
+ *
+ * Comments must arrive parents-first (as EngagementSource guarantees) so a
+ * parent's id is always known before its replies are planned. The persona's
+ * own comments are stored too, so replies to them thread correctly, but they
+ * are marked skipped so they never reach the inbox.
+ */
+export function planEngagementItems(
+  comments: FetchedComment[],
+  context: EngagementThreadingContext
+): EngagementItemInsert[] {
+  const known = new Map(context.known);
+  const inserts: EngagementItemInsert[] = [];
+
+  for (const comment of comments) {
+    if (known.has(comment.platformObjectId)) {
+      continue;
+    }
+
+    const parent = comment.parentPlatformObjectId
+      ? known.get(comment.parentPlatformObjectId) ?? null
+      : null;
+    const id = context.generateId();
+    const threadRootId = parent ? parent.thread_root_id ?? parent.id : id;
+    const authoredByPersona = isSameHandle(comment.authorHandle, context.ownHandle);
+
+    let priority = PRIORITY_NESTED;
+    if (parent && isSameHandle(parent.author_handle, context.ownHandle)) {
+      priority = PRIORITY_REPLY_TO_PERSONA;
+    } else if (comment.depth === 0) {
+      priority = PRIORITY_TOP_LEVEL;
+    }
+
+    inserts.push({
+      id,
+      persona_social_account_id: context.accountId,
+      platform_id: context.platformId,
+      campaign_post_id: context.campaignPostId,
+      source_type: "incoming_comment",
+      platform_object_id: comment.platformObjectId,
+      parent_post_id: context.externalPostId,
+      parent_engagement_item_id: parent?.id ?? null,
+      thread_root_id: threadRootId,
+      author_handle: comment.authorHandle,
+      content_text: comment.text,
+      raw_payload: comment.raw,
+      platform_context: {
+        depth: comment.depth,
+        permalink: comment.permalink,
+        authored_by_persona: authoredByPersona,
+      },
+      status: authoredByPersona ? "skipped" : "unreviewed",
+      received_at: comment.receivedAt,
+      priority,
+    });
+
+    known.set(comment.platformObjectId, {
+      id,
+      thread_root_id: threadRootId,
+      author_handle: comment.authorHandle,
+    });
+  }
+
+  return inserts;
+}
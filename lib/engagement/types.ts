@@ -0,0 +1,45 @@
+/**
+ * Engagement source contracts.
+ *
+ * Like lib/publishing, this module is runtime-agnostic so the engagement sync
+ * edge function can import it. Keep imports relative with `.ts` extensions.
+ */
+
+import type {
+  PublisherOptions,
+  PublisherSession,
+  PublishResult,
+} from "../publishing/types.ts";
+
+/**
+ * A comment (or reply) fetched from a platform, flattened out of its tree.
+ */
+export interface FetchedComment {
+  platformObjectId: string;
+  /** Platform id of the parent comment, or null for top-level comments. */
+  parentPlatformObjectId: string | null;
+  authorHandle: string | null;
+  text: string | null;
+  receivedAt: string;
+  /** Nesting depth below the post; top-level comments are 0. */
+  depth: number;
+  permalink: string | null;
+  raw: Record<string, unknown>;
+}
+
+export interface EngagementSource {
+  platformId: string;
+  /** Fetches every comment on a published post, parents before children. */
+  fetchComments(
+    externalPostId: string,
+    session: PublisherSession
+  ): Promise<FetchedComment[]>;
+  /** Posts a reply to a comment and returns the created reply. */
+  postReply(
+    parentPlatformObjectId: string,
+    text: string,
+    session: PublisherSession
+  ): Promise<PublishResult>;
+}
+
+export type EngagementSourceOptions = PublisherOptions;
@@ -0,0 +1,344 @@
+import { randomUUID } from "crypto";
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import {
+  isPublishablePlatform,
+  PLATFORM_MEDIA_RULES,
+  PUBLISHING_STATUS,
+  toPublishMedia,
+} from "@/lib/publishing";
+import {
+  getMediaFile,
+  setPostMedia,
+  storeMediaFile,
+  type MediaFile,
+  type MediaGeneration,
+} from "@/lib/media/library";
+import {
+  getImageProvider,
+  MAX_IMAGES_PER_REQUEST,
+  type GeneratedImage,
+  type ImageProvider,
+  type ImageSize,
+} from "@/lib/media/imageProviders";
+import type { PersonaVisualStyle } from "@/types/persona";
+import type { CampaignContent } from "@/types/campaign";
+
+/** Public Storage bucket for persona avatars. */
+export const AVATAR_BUCKET = "avatars";
+
+// X caps alt text at 1000 characters
+const MAX_ALT_TEXT_LENGTH = 1000;
+
+// Feed images on these platforms crop best as landscape
+const LANDSCAPE_PLATFORMS = new Set(["x", "linkedin"]);
+
+/**
+ * Combines a subject prompt with the persona's visual style guide. Style
+ * comes after the subject so the provider treats it as a modifier.
+ */
+export function buildImagePrompt(
+  subject: string,
+  style: PersonaVisualStyle | null | undefined,
+  purpose: "post" | "avatar" = "post"
+): string {
+  const lines = [
+    purpose === "avatar"
+      ? `Profile picture, centred head-and-shoulders portrait: ${subject.trim()}`
+      : subject.trim(),
+  ];
+
+  if (style?.description) {
+    lines.push(`Visual style: ${style.description}`);
+  }
+  if (style?.medium) {
+    lines.push(`Medium: ${style.medium}`);
+  }
+  if (style?.palette && style.palette.length > 0) {
+    lines.push(`Colour palette: ${style.palette.join(", ")}`);
+  }
+  if (style?.mood) {
+    lines.push(`Mood: ${style.mood}`);
+  }
+  if (style?.avoid && style.avoid.length > 0) {
+    lines.push(`Avoid: ${style.avoid.join(", ")}`);
+  }
+  lines.push("No text, captions or watermarks in the image.");
+
+  return lines.join("\n");
+}
+
+function extensionFor(mimeType: string): string {
+  return mimeType === "image/jpeg" ? "jpg" : mimeType.replace("image/", "");
+}
+
+function toGeneration(
+  provider: ImageProvider,
+  sourcePrompt: string,
+  prompt: string,
+  size: ImageSize,
+  image: GeneratedImage,
+  variationOf: string | null = null
+): MediaGeneration {
+  return {
+    provider: provider.id,
+    model: provider.model,
+    source_prompt: sourcePrompt,
+    prompt,
+    revised_prompt: image.revisedPrompt,
+    size,
+    variation_of: variationOf,
+  };
+}
+
+async function storeGeneratedImages(
+  userId: string,
+  personaId: string | null,
+  provider: ImageProvider,
+  images: GeneratedImage[],
+  generation: (image: GeneratedImage) => MediaGeneration
+): Promise<MediaFile[]> {
+  const stored: MediaFile[] = [];
+  for (const image of images) {
+    const details = generation(image);
+    stored.push(
+      await storeMediaFile(userId, {
+        data: image.data,
+        fileName: `generated-${provider.id}.${extensionFor(image.mimeType)}`,
+        mimeType: image.mimeType,
+        sizeBytes: image.data.length,
+        personaId,
+        altText: details.source_prompt.slice(0, MAX_ALT_TEXT_LENGTH),
+        generation: details,
+      })
+    );
+  }
+  return stored;
+}
+
+async function loadVisualStyle(personaId: string | null): Promise<PersonaVisualStyle | null> {
+  if (!personaId) {
+    return null;
+  }
+
+  const supabase = createSupabaseServiceClient();
+  const { data } = await supabase
+    .from("personas")
+    .select("visual_style")
+    .eq("id", personaId)
+    .maybeSingle();
+
+  return (data?.visual_style as PersonaVisualStyle | null) ?? null;
+}
+
+function clampCount(count: number): number {
+  return Math.min(Math.max(Math.floor(count), 1), MAX_IMAGES_PER_REQUEST);
+}
+
+/**
+ * Generates images from a post's image_prompt in its persona's style, adds
+ * them to the library and attaches them. With `replace`, the new images
+ * take the place of the current attachments (regenerate).
+ */
+export async function generatePostImages(
+  postId: string,
+  userId: string,
+  options: { count?: number; replace?: boolean } = {}
+): Promise<{ content: CampaignContent; media: MediaFile[] }> {
+  const supabase = createSupabaseServiceClient();
+  const { data: post, error } = await supabase
+    .from("campaign_posts")
+    .select("id, status, platform_id, content_json, media_assets, campaigns!inner ( user_id, persona_id )")
+    .eq("id", postId)
+    .eq("campaigns.user_id", userId)
+    .single();
+
+  if (error || !post) {
+    throw new Error("Content not found or access denied");
+  }
+
+  if (post.status === "published" || post.status === PUBLISHING_STATUS) {
+    throw new Error(`Cannot change media on content with status "${post.status}"`);
+  }
+
+  const contentJson = (post.content_json ?? {}) as { image_prompt?: string };
+  const subject = contentJson.image_prompt?.trim();
+  if (!subject) {
+    throw new Error("Content has no image prompt to generate from");
+  }
+
+  const count = clampCount(options.count ?? 1);
+  const existingIds = options.replace
+    ? []
+    : toPublishMedia(post.media_assets).map((media) => media.id);
+
+  // Check the count before paying for images that couldn't be attached
+  if (isPublishablePlatform(post.platform_id)) {
+    const maxItems = PLATFORM_MEDIA_RULES[post.platform_id].maxItems;
+    if (existingIds.length + count > maxItems) {
+      throw new Error(
+        `Invalid media: ${post.platform_id} allows at most ${maxItems} attachment${maxItems === 1 ? "" : "s"}`
+      );
+    }
+  }
+
+  const campaign = post.campaigns as unknown as { persona_id: string | null };
+  const personaId = campaign.persona_id ?? null;
+  const prompt = buildImagePrompt(subject, await loadVisualStyle(personaId));
+  const size: ImageSize = LANDSCAPE_PLATFORMS.has(post.platform_id ?? "")
+    ? "1536x1024"
+    : "1024x1024";
+
+  const provider = getImageProvider();
+  const images = await provider.generate({ prompt, size, count });
+  const media = await storeGeneratedImages(userId, personaId, provider, images, (image) =>
+    toGeneration(provider, subject, prompt, size, image)
+  );
+
+  const content = await setPostMedia(postId, userId, [
+    ...existingIds,
+    ...media.map((file) => file.id),
+  ]);
+
+  return { content, media };
+}
+
+/**
+ * Makes new takes on a generated library file from the same prompt. The
+ * variations go to the library unattached so the user can pick one.
+ */
+export async function generateMediaVariations(
+  mediaId: string,
+  userId: string,
+  count = 1
+): Promise<MediaFile[]> {
+  const original = await getMediaFile(userId, mediaId);
+  if (!original.generation) {
+    throw new Error("Only generated images have variations");
+  }
+
+  const { source_prompt: sourcePrompt } = original.generation;
+  const size = original.generation.size as ImageSize;
+  const prompt = `${original.generation.prompt}\nVariation: keep the concept but change the composition and framing.`;
+  // Variations of variations still point at the first image
+  const variationOf = original.generation.variation_of ?? original.id;
+
+  const provider = getImageProvider();
+  const images = await provider.generate({ prompt, size, count: clampCount(count) });
+
+  return storeGeneratedImages(userId, original.persona_id, provider, images, (image) =>
+    toGeneration(provider, sourcePrompt, prompt, size, image, variationOf)
+  );
+}
+
+function avatarPathFromUrl(url: string | null | undefined): string | null {
+  const marker = `/storage/v1/object/public/${AVATAR_BUCKET}/`;
+  const index = url?.indexOf(marker) ?? -1;
+  return url && index >= 0 ? url.slice(index + marker.length) : null;
+}
+
+/**
+ * Generates a persona avatar from its avatar_prompt (or `prompt`, which then
+ * becomes the new avatar_prompt) and stores it as avatar_image_url.
+ */
+export async function generatePersonaAvatar(
+  personaId: string,
+  userId: string,
+  options: { prompt?: string } = {}
+): Promise<{ avatar_image_url: string; avatar_prompt: string }> {
+  const supabase = createSupabaseServiceClient();
+  const { data: persona, error } = await supabase
+    .from("personas")
+    .select("id, display_name, avatar_prompt, avatar_image_url, visual_style")
+    .eq("id", personaId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !persona) {
+    throw new Error("Persona not found or access denied");
+  }
+
+  const subject =
+    options.prompt?.trim() ||
+    persona.avatar_prompt?.trim() ||
+    `A social media persona named ${persona.display_name}`;
+  const prompt = buildImagePrompt(
+    subject,
+    persona.visual_style as PersonaVisualStyle | null,
+    "avatar"
+  );
+
+  const [image] = await getImageProvider().generate({ prompt, size: "1024x1024", count: 1 });
+
+  const storagePath = `${userId}/${personaId}-${randomUUID()}.${extensionFor(image.mimeType)}`;
+  const { error: uploadError } = await supabase.storage
+    .from(AVATAR_BUCKET)
+    .upload(storagePath, image.data, { contentType: image.mimeType, upsert: false });
+
+  if (uploadError) {
+    throw new Error(`Failed to upload avatar: ${uploadError.message}`);
+  }
+
+  const {
+    data: { publicUrl },
+  } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(storagePath);
+
+  const { error: updateError } = await supabase
+    .from("personas")
+    .update({ avatar_image_url: publicUrl, avatar_prompt: subject })
+    .eq("id", personaId);
+
+  if (updateError) {
+    await supabase.storage.from(AVATAR_BUCKET).remove([storagePath]);
+    throw new Error(`Failed to save avatar: ${updateError.message}`);
+  }
+
+  const previousPath = avatarPathFromUrl(persona.avatar_image_url);
+  if (previousPath) {
+    await supabase.storage.from(AVATAR_BUCKET).remove([previousPath]);
+  }
+
+  return { avatar_image_url: publicUrl, avatar_prompt: subject };
+}
+
+export async function getPersonaVisualStyle(
+  personaId: string,
+  userId: string
+): Promise<PersonaVisualStyle> {
+  const supabase = createSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("personas")
+    .select("visual_style")
+    .eq("id", personaId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new Error("Persona not found or access denied");
+  }
+
+  return (data.visual_style as PersonaVisualStyle | null) ?? {};
+}
+
+export async function updatePersonaVisualStyle(
+  personaId: string,
+  userId: string,
+  style: PersonaVisualStyle
+): Promise<PersonaVisualStyle> {
+  const supabase = createSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("personas")
+    .update({ visual_style: style })
+    .eq("id", personaId)
+    .eq("user_id", userId)
+    .select("visual_style")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to save visual style: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error("Persona not found or access denied");
+  }
+
+  return data.visual_style as PersonaVisualStyle;
+}
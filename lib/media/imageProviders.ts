@@ -0,0 +1,160 @@
+import { createHash } from "crypto";
+import { deflateSync } from "zlib";
+import { getOpenAIClient } from "@/lib/openai";
+
+export type ImageSize = "1024x1024" | "1536x1024" | "1024x1536";
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  size: ImageSize;
+  count: number;
+}
+
+export interface GeneratedImage {
+  data: Buffer;
+  mimeType: string;
+  /** The prompt the provider actually used, when it rewrites prompts. */
+  revisedPrompt: string | null;
+}
+
+export interface ImageProvider {
+  id: string;
+  model: string;
+  generate(request: ImageGenerationRequest): Promise<GeneratedImage[]>;
+}
+
+export const MAX_IMAGES_PER_REQUEST = 4;
+
+function getImageModel(): string {
+  return process.env.OPENAI_IMAGE_MODEL || "gpt-image-1";
+}
+
+export function createOpenAIImageProvider(): ImageProvider {
+  const model = getImageModel();
+  // DALL·E models return URLs unless asked otherwise; gpt-image-* always
+  // return base64 and reject the parameter.
+  const legacyModel = model.startsWith("dall-e");
+
+  return {
+    id: "openai",
+    model,
+    async generate(request) {
+      const images: GeneratedImage[] = [];
+
+      // One call per image: dall-e-3 only accepts n=1
+      for (let index = 0; index < request.count; index += 1) {
+        const response = await getOpenAIClient().images.generate({
+          model,
+          prompt: request.prompt,
+          size: request.size,
+          n: 1,
+          ...(legacyModel ? { response_format: "b64_json" as const } : {}),
+        });
+
+        const image = response.data?.[0];
+        if (!image?.b64_json) {
+          throw new Error("OpenAI image generation returned no image.");
+        }
+
+        images.push({
+          data: Buffer.from(image.b64_json, "base64"),
+          mimeType: `image/${response.output_format ?? "png"}`,
+          revisedPrompt: image.revised_prompt ?? null,
+        });
+      }
+
+      return images;
+    },
+  };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k += 1) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * A small two-tone PNG whose colours derive from the seed, so the same
+ * prompt always yields the same placeholder.
+ */
+function placeholderPng(seed: string, width: number, height: number): Buffer {
+  const digest = createHash("sha256").update(seed).digest();
+  const [background, stripe] = [digest.subarray(0, 3), digest.subarray(3, 6)];
+
+  const rows: Buffer[] = [];
+  for (let y = 0; y < height; y += 1) {
+    const row = Buffer.alloc(1 + width * 3);
+    for (let x = 0; x < width; x += 1) {
+      const colour = Math.floor((x + y) / 8) % 2 === 0 ? background : stripe;
+      colour.copy(row, 1 + x * 3);
+    }
+    rows.push(row);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour RGB
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(Buffer.concat(rows))),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Offline provider for tests and local development: no network calls,
+ * deterministic placeholder images at a fraction of the requested size.
+ */
+export function createStubImageProvider(): ImageProvider {
+  return {
+    id: "stub",
+    model: "placeholder",
+    async generate(request) {
+      const [width, height] = request.size.split("x").map((value) => Number(value) / 16);
+      return Array.from({ length: request.count }, (_, index) => ({
+        data: placeholderPng(`${request.prompt}#${index}`, width, height),
+        mimeType: "image/png",
+        revisedPrompt: null,
+      }));
+    },
+  };
+}
+
+/**
+ * IMAGE_PROVIDER picks the backend: "openai" (default) or "stub".
+ */
+export function getImageProvider(): ImageProvider {
+  const provider = process.env.IMAGE_PROVIDER || "openai";
+  switch (provider) {
+    case "openai":
+      return createOpenAIImageProvider();
+    case "stub":
+      return createStubImageProvider();
+    default:
+      throw new Error(`Unknown IMAGE_PROVIDER "${provider}". Use "openai" or "stub".`);
+  }
+}
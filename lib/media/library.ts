@@ -0,0 +1,323 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import { mapCampaignContentRow } from "@/lib/campaigns/mappers";
+import {
+  isPublishablePlatform,
+  MEDIA_BUCKET,
+  MEDIA_LIBRARY_MAX_BYTES,
+  MEDIA_LIBRARY_MIME_TYPES,
+  PUBLISHING_STATUS,
+  toPublishMedia,
+  validateMedia,
+  type PostMediaAttachment,
+} from "@/lib/publishing";
+import type { CampaignContent } from "@/types/campaign";
+
+/** How a generated file was made; null for uploads. */
+export interface MediaGeneration {
+  provider: string;
+  model: string;
+  /** The post or avatar prompt before the persona's style was applied. */
+  source_prompt: string;
+  prompt: string;
+  revised_prompt: string | null;
+  size: string;
+  /** The library file this one is a variation of. */
+  variation_of: string | null;
+}
+
+export interface MediaFile {
+  id: string;
+  persona_id: string | null;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  alt_text: string | null;
+  generation: MediaGeneration | null;
+  created_at: string;
+  /** Short-lived signed URL for previews. */
+  url: string | null;
+}
+
+type MediaFileRow = Omit<MediaFile, "url">;
+
+const MEDIA_COLUMNS =
+  "id, persona_id, storage_path, file_name, mime_type, size_bytes, alt_text, generation, created_at";
+// Previews only need to outlive the page that shows them
+const SIGNED_URL_SECONDS = 60 * 60;
+
+async function withSignedUrls(rows: MediaFileRow[]): Promise<MediaFile[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const supabase = createSupabaseServiceClient();
+  const { data } = await supabase.storage
+    .from(MEDIA_BUCKET)
+    .createSignedUrls(
+      rows.map((row) => row.storage_path),
+      SIGNED_URL_SECONDS
+    );
+
+  const urls = new Map(
+    (data ?? []).map((entry) => [entry.path, entry.error ? null : entry.signedUrl])
+  );
+  return rows.map((row) => ({ ...row, url: urls.get(row.storage_path) ?? null }));
+}
+
+export async function listMediaFiles(
+  userId: string,
+  options: { personaId?: string | null } = {}
+): Promise<MediaFile[]> {
+  const supabase = createSupabaseServiceClient();
+  let query = supabase
+    .from("media_files")
+    .select(MEDIA_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(200);
+
+  if (options.personaId) {
+    // It goes into a filter string, so it must not carry PostgREST syntax
+    if (!z.string().uuid().safeParse(options.personaId).success) {
+      throw new Error("Invalid persona id");
+    }
+    query = query.or(`persona_id.eq.${options.personaId},persona_id.is.null`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load media: ${error.message}`);
+  }
+
+  return withSignedUrls((data ?? []) as MediaFileRow[]);
+}
+
+function safeFileName(name: string): string {
+  const cleaned = name.replace(/[^a-zA-Z0-9._-]+/g, "-").replace(/^-+|-+$/g, "");
+  return cleaned.slice(-100) || "image";
+}
+
+async function assertPersonaOwner(personaId: string, userId: string): Promise<void> {
+  const supabase = createSupabaseServiceClient();
+  const { data: persona } = await supabase
+    .from("personas")
+    .select("id")
+    .eq("id", personaId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (!persona) {
+    throw new Error("Persona not found or access denied");
+  }
+}
+
+/**
+ * Writes bytes to the media bucket and records them in the library. Callers
+ * check type, size and persona ownership first.
+ */
+export async function storeMediaFile(
+  userId: string,
+  file: {
+    data: Blob | Buffer;
+    fileName: string;
+    mimeType: string;
+    sizeBytes: number;
+    personaId?: string | null;
+    altText?: string | null;
+    generation?: MediaGeneration | null;
+  }
+): Promise<MediaFile> {
+  const supabase = createSupabaseServiceClient();
+
+  const storagePath = `${userId}/${randomUUID()}-${safeFileName(file.fileName)}`;
+  const { error: uploadError } = await supabase.storage
+    .from(MEDIA_BUCKET)
+    .upload(storagePath, file.data, { contentType: file.mimeType, upsert: false });
+
+  if (uploadError) {
+    throw new Error(`Failed to upload media: ${uploadError.message}`);
+  }
+
+  const { data, error } = await supabase
+    .from("media_files")
+    .insert({
+      user_id: userId,
+      persona_id: file.personaId ?? null,
+      storage_path: storagePath,
+      file_name: file.fileName,
+      mime_type: file.mimeType,
+      size_bytes: file.sizeBytes,
+      alt_text: file.altText || null,
+      generation: file.generation ?? null,
+    })
+    .select(MEDIA_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    await supabase.storage.from(MEDIA_BUCKET).remove([storagePath]);
+    throw new Error(`Failed to save media: ${error?.message}`);
+  }
+
+  const [mediaFile] = await withSignedUrls([data as MediaFileRow]);
+  return mediaFile;
+}
+
+/**
+ * Stores an upload in the media bucket and records it in the library.
+ * Rejects files no platform could publish.
+ */
+export async function uploadMediaFile(
+  userId: string,
+  file: File,
+  options: { personaId?: string | null; altText?: string | null } = {}
+): Promise<MediaFile> {
+  if (!MEDIA_LIBRARY_MIME_TYPES.includes(file.type)) {
+    throw new Error(
+      `Unsupported media type "${file.type || "unknown"}". Use ${MEDIA_LIBRARY_MIME_TYPES.join(", ")}`
+    );
+  }
+
+  if (file.size > MEDIA_LIBRARY_MAX_BYTES) {
+    throw new Error(
+      `Media file is too large (max ${Math.round(MEDIA_LIBRARY_MAX_BYTES / (1024 * 1024))} MB)`
+    );
+  }
+
+  if (options.personaId) {
+    await assertPersonaOwner(options.personaId, userId);
+  }
+
+  return storeMediaFile(userId, {
+    data: file,
+    fileName: file.name || "image",
+    mimeType: file.type,
+    sizeBytes: file.size,
+    personaId: options.personaId,
+    altText: options.altText,
+  });
+}
+
+/**
+ * Loads one library file the user owns.
+ */
+export async function getMediaFile(userId: string, mediaId: string): Promise<MediaFile> {
+  const supabase = createSupabaseServiceClient();
+  const { data, error } = await supabase
+    .from("media_files")
+    .select(MEDIA_COLUMNS)
+    .eq("id", mediaId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new Error("Media not found or access denied");
+  }
+
+  const [mediaFile] = await withSignedUrls([data as MediaFileRow]);
+  return mediaFile;
+}
+
+/**
+ * Removes a file from the library and the bucket. Posts that already
+ * attached it keep their snapshot but can no longer publish it.
+ */
+export async function deleteMediaFile(userId: string, mediaId: string): Promise<void> {
+  const supabase = createSupabaseServiceClient();
+  const { data: mediaFile, error } = await supabase
+    .from("media_files")
+    .select("id, storage_path")
+    .eq("id", mediaId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !mediaFile) {
+    throw new Error("Media not found or access denied");
+  }
+
+  const { error: removeError } = await supabase.storage
+    .from(MEDIA_BUCKET)
+    .remove([mediaFile.storage_path]);
+  if (removeError) {
+    throw new Error(`Failed to delete media: ${removeError.message}`);
+  }
+
+  await supabase.from("media_files").delete().eq("id", mediaId);
+}
+
+/**
+ * Replaces a post's attachments with library files, in the given order,
+ * checked against the platform's media rules.
+ */
+export async function setPostMedia(
+  postId: string,
+  userId: string,
+  mediaIds: string[]
+): Promise<CampaignContent> {
+  const supabase = createSupabaseServiceClient();
+  const { data: post, error: postError } = await supabase
+    .from("campaign_posts")
+    .select("id, status, platform_id, campaigns!inner ( user_id )")
+    .eq("id", postId)
+    .eq("campaigns.user_id", userId)
+    .single();
+
+  if (postError || !post) {
+    throw new Error("Content not found or access denied");
+  }
+
+  if (post.status === "published" || post.status === PUBLISHING_STATUS) {
+    throw new Error(`Cannot change media on content with status "${post.status}"`);
+  }
+
+  let attachments: PostMediaAttachment[] = [];
+  if (mediaIds.length > 0) {
+    const { data: files, error: filesError } = await supabase
+      .from("media_files")
+      .select(MEDIA_COLUMNS)
+      .eq("user_id", userId)
+      .in("id", mediaIds);
+
+    if (filesError) {
+      throw new Error(`Failed to load media: ${filesError.message}`);
+    }
+
+    const byId = new Map(((files ?? []) as MediaFileRow[]).map((file) => [file.id, file]));
+    if (mediaIds.some((id) => !byId.has(id))) {
+      throw new Error("Media not found or access denied");
+    }
+
+    attachments = mediaIds.map((id) => {
+      const file = byId.get(id) as MediaFileRow;
+      return {
+        media_id: file.id,
+        storage_path: file.storage_path,
+        file_name: file.file_name,
+        mime_type: file.mime_type,
+        size_bytes: file.size_bytes,
+        alt_text: file.alt_text,
+      };
+    });
+  }
+
+  if (isPublishablePlatform(post.platform_id)) {
+    const validation = validateMedia(post.platform_id, toPublishMedia(attachments));
+    if (!validation.valid) {
+      throw new Error(`Invalid media: ${validation.error}`);
+    }
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from("campaign_posts")
+    .update({ media_assets: attachments })
+    .eq("id", postId)
+    .select("*")
+    .single();
+
+  if (updateError || !updated) {
+    throw new Error(`Failed to update media: ${updateError?.message}`);
+  }
+
+  return mapCampaignContentRow(updated);
+}
@@ -0,0 +1,191 @@
+import { z } from "zod";
+import { callChatModel } from "@/lib/openai";
+import type { ResonanceResearchResult } from "@/types/resonance";
+import type {
+  PersonaRecommendation,
+  RecommendationCitation,
+} from "@/types/recommendations";
+
+export interface RecommendationPostContext {
+  id: string;
+  title: string;
+  excerpt: string;
+  platform_id: string | null;
+  posted_at: string;
+  engagement: number;
+  comments: number | null;
+  shares: number | null;
+}
+
+export interface RecommendationResearchContext {
+  id: string;
+  title: string;
+  result: Partial<ResonanceResearchResult>;
+}
+
+export interface PersonaRecommendationInput {
+  persona: {
+    display_name: string;
+    biography?: string | null;
+    goals?: string[] | null;
+    personality?: { tone?: string } | null;
+    occupation?: string | null;
+    industry?: string | null;
+  };
+  posts: RecommendationPostContext[];
+  research: RecommendationResearchContext[];
+  platforms: string[];
+  weekStart: string;
+}
+
+export interface PersonaRecommendationOutput {
+  summary: string;
+  recommendations: PersonaRecommendation[];
+  model: string;
+}
+
+const CitationSchema = z.object({
+  type: z.enum(["post", "research"]),
+  id: z.string().min(1),
+  detail: z.string().min(1),
+});
+
+const RecommendationSchema = z.object({
+  theme: z.string().min(1),
+  format: z.string().min(1),
+  hook: z.string().min(1),
+  platform_id: z.string().nullable().optional(),
+  posting_time: z
+    .object({
+      day_of_week: z.number().int().min(0).max(6),
+      hour: z.number().int().min(0).max(23),
+    })
+    .nullable()
+    .optional(),
+  rationale: z.string().min(1),
+  citations: z.array(CitationSchema).default([]),
+  draft: z.object({
+    title: z.string().min(1),
+    text: z.string().min(1),
+  }),
+});
+
+const RecommendationResponseSchema = z.object({
+  summary: z.string().default(""),
+  recommendations: z.array(RecommendationSchema).min(1).max(7),
+});
+
+const SYSTEM_PROMPT = `You are DoppelCart's content strategist.
+Given a persona, how its recent posts performed and any audience research linked to it, recommend what the persona should post next week.
+Every recommendation must be justified by the evidence you were given: cite the specific past posts (by id) and research findings (by research id) that support it, and say what about each one supports it.
+Never cite an id that was not provided. If there is little evidence, say so in the rationale rather than inventing it.
+Posting times are in UTC; prefer days and hours where the persona's best posts went out.
+You MUST respond with valid JSON only.`;
+
+/**
+ * Asks the model for next-week recommendations. Citations that point at
+ * posts or studies the model wasn't shown are dropped, and platforms outside
+ * the persona's are cleared.
+ */
+export async function generatePersonaRecommendations(
+  input: PersonaRecommendationInput
+): Promise<PersonaRecommendationOutput> {
+  const model =
+    process.env.OPENAI_RECOMMENDATIONS_MODEL ||
+    process.env.OPENAI_MODEL_DEFAULT ||
+    "gpt-4o-mini";
+
+  const userMessage = `
+Persona:
+${JSON.stringify(
+  {
+    name: input.persona.display_name,
+    biography: input.persona.biography,
+    goals: input.persona.goals,
+    tone: input.persona.personality?.tone,
+    occupation: input.persona.occupation,
+    industry: input.persona.industry,
+  },
+  null,
+  2
+)}
+
+Platforms the persona can post to: ${input.platforms.length > 0 ? input.platforms.join(", ") : "none connected yet"}
+
+Recent posts with performance (engagement = reactions + comments + shares):
+${JSON.stringify(input.posts, null, 2)}
+
+Linked resonance research:
+${JSON.stringify(input.research, null, 2)}
+
+Recommend 3 to 5 posts for the week starting ${input.weekStart}.
+Respond with:
+{
+  "summary": "2-3 sentences on what is and isn't working",
+  "recommendations": [
+    {
+      "theme": "what the post is about",
+      "format": "e.g. text post, thread, image post, poll, question",
+      "hook": "the opening line",
+      "platform_id": "one of the platforms above, or null",
+      "posting_time": { "day_of_week": 0-6 (0 = Sunday), "hour": 0-23 } or null,
+      "rationale": "why this, grounded in the citations",
+      "citations": [{ "type": "post" | "research", "id": "...", "detail": "what it shows" }],
+      "draft": { "title": "short title", "text": "ready-to-edit post text in the persona's voice" }
+    }
+  ]
+}
+`.trim();
+
+  const response = await callChatModel({
+    model,
+    temperature: 0.6,
+    responseFormatType: "json_object",
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: userMessage },
+    ],
+  });
+
+  let parsed: z.infer<typeof RecommendationResponseSchema>;
+  try {
+    parsed = RecommendationResponseSchema.parse(JSON.parse(response));
+  } catch (error) {
+    console.error("Failed to parse persona recommendations response", {
+      error,
+      response,
+    });
+    throw new Error("Unable to parse recommendations from OpenAI response.");
+  }
+
+  const postIds = new Set(input.posts.map((post) => post.id));
+  const researchIds = new Set(input.research.map((study) => study.id));
+  const platforms = new Set(input.platforms);
+
+  return {
+    summary: parsed.summary,
+    model,
+    recommendations: parsed.recommendations.map((recommendation) => ({
+      theme: recommendation.theme,
+      format: recommendation.format,
+      hook: recommendation.hook,
+      platform_id:
+        recommendation.platform_id && platforms.has(recommendation.platform_id)
+          ? recommendation.platform_id
+          : null,
+      posting_time: recommendation.posting_time ?? null,
+      rationale: recommendation.rationale,
+      citations: recommendation.citations.flatMap<RecommendationCitation>((citation) => {
+        if (citation.type === "post" && postIds.has(citation.id)) {
+          return [{ type: "post", post_id: citation.id, detail: citation.detail }];
+        }
+        if (citation.type === "research" && researchIds.has(citation.id)) {
+          return [{ type: "research", research_id: citation.id, detail: citation.detail }];
+        }
+        return [];
+      }),
+      draft: recommendation.draft,
+      converted_post_id: null,
+    })),
+  };
+}
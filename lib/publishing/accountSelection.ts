@@ -0,0 +1,120 @@
+/** The persona_social_accounts columns account selection reads. */
+export interface SelectableAccount {
+  id: string;
+  persona_id: string;
+  platform_id: string;
+  status: string;
+  is_default?: boolean | null;
+  last_token_refresh_at?: string | null;
+  created_at?: string | null;
+}
+
+/** Which rule picked the account. */
+export type AccountSelectionSource = "post" | "campaign" | "default" | "recent";
+
+export interface AccountSelection<T extends SelectableAccount> {
+  account: T;
+  source: AccountSelectionSource;
+}
+
+/** The campaign_posts columns account selection reads. */
+export interface AccountSelectionPost {
+  persona_id: string;
+  platform_id: string | null;
+  persona_social_account_id: string | null;
+}
+
+/**
+ * campaigns.account_assignments: the account each platform's posts go out
+ * on when a post doesn't name one.
+ */
+export type CampaignAccountAssignments = Record<string, string>;
+
+export function readAccountAssignments(value: unknown): CampaignAccountAssignments {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string" && entry[1] !== ""
+    )
+  );
+}
+
+function lastUsedAt(account: SelectableAccount): number {
+  const timestamp = account.last_token_refresh_at || account.created_at;
+  return timestamp ? new Date(timestamp).getTime() : 0;
+}
+
+/**
+ * Picks the account a post publishes with, from the persona's accounts:
+ *
+ * 1. the post's own persona_social_account_id. Never swapped for another
+ *    account: posting from the alt instead of the main is worse than failing.
+ * 2. the campaign's account for the platform,
+ * 3. the persona's default account for the platform,
+ * 4. the most recently refreshed account for the platform.
+ *
+ * Only connected accounts of the post's persona and platform qualify, so a
+ * stale campaign assignment or default falls through to the next rule.
+ */
+export function selectPublishingAccount<T extends SelectableAccount>(
+  post: AccountSelectionPost,
+  accounts: T[],
+  campaignAssignments: CampaignAccountAssignments = {}
+): AccountSelection<T> | null {
+  if (!post.platform_id) {
+    return null;
+  }
+
+  const candidates = accounts.filter(
+    (account) =>
+      account.persona_id === post.persona_id &&
+      account.platform_id === post.platform_id &&
+      account.status === "connected"
+  );
+
+  if (post.persona_social_account_id) {
+    const account = candidates.find(
+      (candidate) => candidate.id === post.persona_social_account_id
+    );
+    return account ? { account, source: "post" } : null;
+  }
+
+  const assignedId = campaignAssignments[post.platform_id];
+  const assigned = assignedId
+    ? candidates.find((candidate) => candidate.id === assignedId)
+    : undefined;
+  if (assigned) {
+    return { account: assigned, source: "campaign" };
+  }
+
+  const defaultAccount = candidates.find((candidate) => candidate.is_default);
+  if (defaultAccount) {
+    return { account: defaultAccount, source: "default" };
+  }
+
+  const [recent] = [...candidates].sort((a, b) => lastUsedAt(b) - lastUsedAt(a));
+  return recent ? { account: recent, source: "recent" } : null;
+}
+
+/**
+ * Why `account` can't carry a post for `platformId` of `personaId`, or null
+ * when it can.
+ */
+export function accountMismatchReason(
+  account: Pick<SelectableAccount, "persona_id" | "platform_id">,
+  personaId: string,
+  platformId: string | null
+): string | null {
+  if (account.persona_id !== personaId) {
+    return "Social account does not belong to this persona";
+  }
+
+  if (platformId && account.platform_id !== platformId) {
+    return `Social account is a ${account.platform_id} account, not ${platformId}`;
+  }
+
+  return null;
+}
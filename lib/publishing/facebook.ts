@@ -0,0 +1,395 @@
+import {
+  PlatformApiError,
+  parseTokenResponse,
+  readApiErrorMessage,
+  resolveFetch,
+  toCount,
+  trimBaseUrl,
+  UnconfirmedPublishError,
+} from "./http.ts";
+import { validateMedia } from "./media.ts";
+import type {
+  PlatformPublisher,
+  PublishRequest,
+  PublisherOptions,
+} from "./types.ts";
+
+const DEFAULT_API_BASE_URL = "https://graph.facebook.com";
+const GRAPH_API_VERSION = "v19.0";
+const FACEBOOK_MAX_POST_LENGTH = 63206;
+
+/**
+ * Resolves the Page to publish to. Facebook no longer allows posting to
+ * personal timelines, so the connected account must be a Page (or the post
+ * must name one in platform_options.page_id). The provider account id is the
+ * user's for accounts connected before Pages were, so it isn't a fallback.
+ */
+export function resolveFacebookPageId(request: PublishRequest): string | null {
+  return (
+    (request.platformOptions.page_id as string | undefined) ??
+    request.account.platformAccountId ??
+    null
+  );
+}
+
+/**
+ * Reads a failed Graph API response into a PlatformApiError that keeps the
+ * body, so callers can check the Graph error code.
+ */
+async function readFacebookError(response: Response): Promise<PlatformApiError> {
+  const body = await response.text().catch(() => "");
+  let message = "Facebook API error";
+  try {
+    const graphError = (JSON.parse(body) as { error?: { message?: unknown } }).error;
+    if (typeof graphError?.message === "string") {
+      message = `${message}: ${graphError.message}`;
+    }
+  } catch {
+    // Non-JSON body, use the fallback message
+  }
+
+  return new PlatformApiError("facebook", response.status, message, body || null);
+}
+
+/**
+ * Whether the Graph API said the object doesn't exist: a 404, or error code
+ * 100 with subcode 33. Other 400s (expired tokens are code 190, missing
+ * permissions code 200) say nothing about the post.
+ */
+function isMissingObjectError(error: PlatformApiError): boolean {
+  if (error.status === 404) {
+    return true;
+  }
+
+  try {
+    const graphError = (
+      JSON.parse(error.responseBody ?? "") as {
+        error?: { code?: unknown; error_subcode?: unknown };
+      }
+    ).error;
+    return graphError?.code === 100 && graphError.error_subcode === 33;
+  } catch {
+    return false;
+  }
+}
+
+/** A Page the connecting user manages, with its Page access token. */
+export interface FacebookPage {
+  id: string;
+  name: string;
+  accessToken: string;
+}
+
+/**
+ * Lists the Pages a user token can publish to (GET /me/accounts). Page tokens
+ * fetched with a long-lived user token don't expire on their own.
+ */
+export async function listFacebookPages(
+  userAccessToken: string,
+  options: PublisherOptions = {}
+): Promise<FacebookPage[]> {
+  const apiBaseUrl = `${trimBaseUrl(options.apiBaseUrl ?? DEFAULT_API_BASE_URL)}/${GRAPH_API_VERSION}`;
+  const fetchImpl = resolveFetch(options);
+
+  const response = await fetchImpl(
+    `${apiBaseUrl}/me/accounts?fields=id,name,access_token&limit=100`,
+    {
+      headers: {
+        Authorization: `Bearer ${userAccessToken}`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new PlatformApiError(
+      "facebook",
+      response.status,
+      await readApiErrorMessage(response, "Failed to list Facebook Pages")
+    );
+  }
+
+  const json = await response.json();
+  const pages = Array.isArray(json?.data) ? (json.data as Record<string, unknown>[]) : [];
+
+  return pages
+    .filter(
+      (page) => typeof page.id === "string" && typeof page.access_token === "string"
+    )
+    .map((page) => ({
+      id: page.id as string,
+      name: typeof page.name === "string" ? page.name : (page.id as string),
+      accessToken: page.access_token as string,
+    }));
+}
+
+function buildFeedParams(request: PublishRequest): Record<string, string> {
+  const params: Record<string, string> = { message: request.text };
+  if (typeof request.platformOptions.link === "string") {
+    params.link = request.platformOptions.link;
+  }
+  return params;
+}
+
+/**
+ * Publisher for Facebook Pages via the Graph API. The stored access token is
+ * a Page access token and the refresh token the long-lived user token it was
+ * fetched with (see listFacebookPages).
+ */
+export function createFacebookPublisher(
+  options: PublisherOptions = {}
+): PlatformPublisher {
+  const apiBaseUrl = `${trimBaseUrl(options.apiBaseUrl ?? DEFAULT_API_BASE_URL)}/${GRAPH_API_VERSION}`;
+  const authBaseUrl = options.authBaseUrl
+    ? `${trimBaseUrl(options.authBaseUrl)}/${GRAPH_API_VERSION}`
+    : apiBaseUrl;
+  const fetchImpl = resolveFetch(options);
+
+  return {
+    platformId: "facebook",
+
+    validate(request) {
+      const mediaValidation = validateMedia("facebook", request.media);
+      if (!mediaValidation.valid) {
+        return mediaValidation;
+      }
+
+      if (!resolveFacebookPageId(request)) {
+        return {
+          valid: false,
+          error: "Facebook Page ID not specified in platform_options or account",
+        };
+      }
+
+      if (!request.text || request.text.trim().length === 0) {
+        return { valid: false, error: "Text content is required" };
+      }
+
+      if (request.text.length > FACEBOOK_MAX_POST_LENGTH) {
+        return {
+          valid: false,
+          error: `Text exceeds 63,206 character limit (${request.text.length} chars)`,
+        };
+      }
+
+      return { valid: true };
+    },
+
+    /**
+     * Facebook has no refresh tokens; a still-valid user token is exchanged
+     * for a new long-lived one instead. Page accounts extend the user token
+     * they store as their refresh token and keep their Page token, which
+     * lives as long as that grant does.
+     */
+    async refreshToken(input) {
+      if (!input.accessToken) {
+        throw new Error("No access token available to extend for Facebook account");
+      }
+
+      const params = new URLSearchParams({
+        grant_type: "fb_exchange_token",
+        client_id: input.clientId,
+        client_secret: input.clientSecret,
+        fb_exchange_token: input.refreshToken ?? input.accessToken,
+      });
+
+      const response = await fetchImpl(
+        `${authBaseUrl}/oauth/access_token?${params.toString()}`
+      );
+
+      if (!response.ok) {
+        const payload = await response.text();
+        console.error("Facebook token exchange failed:", response.status, payload);
+        throw new PlatformApiError(
+          "facebook",
+          response.status,
+          "Failed to refresh Facebook access token",
+          payload
+        );
+      }
+
+      const result = parseTokenResponse(await response.json(), null);
+      if (!result) {
+        throw new Error("Facebook token exchange response missing access token");
+      }
+
+      if (input.refreshToken) {
+        return {
+          accessToken: input.accessToken,
+          refreshToken: result.accessToken,
+          expiresIn: result.expiresIn,
+        };
+      }
+
+      return result;
+    },
+
+    preview(request) {
+      const pageId = resolveFacebookPageId(request);
+      return {
+        platformId: "facebook",
+        target: pageId,
+        endpoint: pageId ? `${apiBaseUrl}/${encodeURIComponent(pageId)}/feed` : null,
+        body: buildFeedParams(request),
+      };
+    },
+
+    async publish(request, session) {
+      const pageId = resolveFacebookPageId(request);
+      if (!pageId) {
+        throw new Error("Facebook Page ID not specified in platform_options or account");
+      }
+
+      const body = new URLSearchParams(buildFeedParams(request));
+
+      const response = await fetchImpl(
+        `${apiBaseUrl}/${encodeURIComponent(pageId)}/feed`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${session.accessToken}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body,
+        }
+      );
+
+      if (!response.ok) {
+        const errorMessage = await readApiErrorMessage(
+          response,
+          "Facebook API error"
+        );
+        console.error("Facebook post submission failed:", {
+          status: response.status,
+          statusText: response.statusText,
+        });
+        throw new PlatformApiError("facebook", response.status, errorMessage);
+      }
+
+      const json = await response.json();
+      const postId = json?.id as string | undefined;
+
+      if (!postId) {
+        console.error("Facebook response missing post data:", json);
+        throw new UnconfirmedPublishError("facebook", "Facebook response missing post ID");
+      }
+
+      return {
+        externalId: postId,
+        url: `https://www.facebook.com/${postId}`,
+      };
+    },
+
+    async fetchStatus(externalId, session) {
+      const response = await fetchImpl(
+        `${apiBaseUrl}/${encodeURIComponent(externalId)}?fields=id,permalink_url,is_published`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.accessToken}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        const error = await readFacebookError(response);
+        // Token and permission failures aren't evidence the post is gone
+        if (isMissingObjectError(error)) {
+          return { externalId, state: "not_found", url: null, raw: {} };
+        }
+        throw error;
+      }
+
+      const json = await response.json();
+
+      return {
+        externalId,
+        state: json?.is_published === false ? "removed" : "live",
+        url: (json?.permalink_url as string | undefined) ?? null,
+        raw: json ?? {},
+      };
+    },
+
+    async fetchMetrics(externalId, session) {
+      const fields = [
+        "shares",
+        "reactions.summary(total_count).limit(0)",
+        "comments.summary(total_count).limit(0)",
+      ].join(",");
+      const response = await fetchImpl(
+        `${apiBaseUrl}/${encodeURIComponent(externalId)}?fields=${encodeURIComponent(fields)}`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.accessToken}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "facebook",
+          response.status,
+          await readApiErrorMessage(response, "Facebook API error")
+        );
+      }
+
+      const json = (await response.json()) ?? {};
+
+      return {
+        externalId,
+        score: null,
+        upvoteRatio: null,
+        likes: toCount(json?.reactions?.summary?.total_count),
+        comments: toCount(json?.comments?.summary?.total_count),
+        // Graph API omits "shares" entirely until a post is first shared
+        shares: toCount(json?.shares?.count) ?? 0,
+        impressions: null,
+        raw: json,
+      };
+    },
+
+    async editPost(externalId, request, session) {
+      if (!request.text || request.text.trim().length === 0) {
+        throw new Error("Text content is required");
+      }
+      if (request.text.length > FACEBOOK_MAX_POST_LENGTH) {
+        throw new Error(
+          `Text exceeds 63,206 character limit (${request.text.length} chars)`
+        );
+      }
+
+      const response = await fetchImpl(`${apiBaseUrl}/${encodeURIComponent(externalId)}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.accessToken}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ message: request.text }),
+      });
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "facebook",
+          response.status,
+          await readApiErrorMessage(response, "Facebook API error")
+        );
+      }
+    },
+
+    async deletePost(externalId, session) {
+      const response = await fetchImpl(`${apiBaseUrl}/${encodeURIComponent(externalId)}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${session.accessToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await readFacebookError(response);
+        // Already deleted counts as deleted
+        if (isMissingObjectError(error)) {
+          return;
+        }
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,28 @@
+/** Status of a published post DoppelCart has deleted from its platform. */
+export const DELETED_STATUS = "deleted";
+
+export type PlatformHistoryAction = "edited" | "deleted";
+
+/**
+ * One change made to a post after it was published. Stored oldest first on
+ * campaign_posts.platform_history.
+ */
+export interface PlatformHistoryEntry {
+  action: PlatformHistoryAction;
+  at: string;
+  /** The user who made the change. */
+  actor: string | null;
+  /** The copy live on the platform before an edit. */
+  previous: { title: string; text: string } | null;
+}
+
+// Enough to audit a post without letting the row grow without bound
+export const MAX_PLATFORM_HISTORY = 50;
+
+export function appendPlatformHistory(
+  history: unknown,
+  entry: PlatformHistoryEntry
+): PlatformHistoryEntry[] {
+  const entries = Array.isArray(history) ? (history as PlatformHistoryEntry[]) : [];
+  return [...entries, entry].slice(-MAX_PLATFORM_HISTORY);
+}
@@ -0,0 +1,116 @@
+import type { PublisherOptions, TokenRefreshResult } from "./types.ts";
+
+/**
+ * Error raised when a platform API answers with a non-2xx status.
+ * Carries the HTTP status so callers can tell rate limits and outages
+ * apart from rejected content, and the raw body where callers need the
+ * provider's error code.
+ */
+export class PlatformApiError extends Error {
+  readonly platformId: string;
+  readonly status: number;
+  readonly responseBody: string | null;
+
+  constructor(
+    platformId: string,
+    status: number,
+    message: string,
+    responseBody: string | null = null
+  ) {
+    super(message);
+    this.name = "PlatformApiError";
+    this.platformId = platformId;
+    this.status = status;
+    this.responseBody = responseBody;
+  }
+}
+
+/**
+ * Error raised when a platform accepted a post but its response doesn't say
+ * which post it made. The post is most likely live, so publishing it again
+ * would post it twice.
+ */
+export class UnconfirmedPublishError extends Error {
+  readonly platformId: string;
+
+  constructor(platformId: string, message: string) {
+    super(message);
+    this.name = "UnconfirmedPublishError";
+    this.platformId = platformId;
+  }
+}
+
+export function resolveFetch(options: PublisherOptions): typeof fetch {
+  if (options.fetch) {
+    return options.fetch;
+  }
+  return (input, init) => fetch(input, init);
+}
+
+export function trimBaseUrl(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+export function basicAuthHeader(clientId: string, clientSecret: string): string {
+  return `Basic ${btoa(`${clientId}:${clientSecret}`)}`;
+}
+
+/**
+ * Reads an error body and extracts the most useful message a provider gave.
+ * Providers disagree on the shape, so try the common fields in turn.
+ */
+export async function readApiErrorMessage(
+  response: Response,
+  fallback: string
+): Promise<string> {
+  const errorText = await response.text().catch(() => "");
+
+  try {
+    const errorJson = JSON.parse(errorText) as Record<string, unknown>;
+    const nestedError = errorJson.error as Record<string, unknown> | undefined;
+
+    if (typeof errorJson.error === "string") {
+      return `${fallback}: ${errorJson.error}`;
+    }
+    if (nestedError && typeof nestedError.message === "string") {
+      return `${fallback}: ${nestedError.message}`;
+    }
+    if (typeof errorJson.detail === "string") {
+      return `${fallback}: ${errorJson.detail}`;
+    }
+    if (typeof errorJson.message === "string") {
+      return `${fallback}: ${errorJson.message}`;
+    }
+  } catch {
+    // Non-JSON body, use the fallback message
+  }
+
+  return fallback;
+}
+
+/**
+ * Normalizes a standard OAuth2 token endpoint response.
+ */
+export function parseTokenResponse(
+  json: Record<string, unknown>,
+  previousRefreshToken: string | null
+): TokenRefreshResult | null {
+  const accessToken = json.access_token as string | undefined;
+  if (!accessToken) {
+    return null;
+  }
+
+  return {
+    accessToken,
+    refreshToken:
+      (json.refresh_token as string | undefined) ?? previousRefreshToken,
+    expiresIn: typeof json.expires_in === "number" ? json.expires_in : null,
+  };
+}
+
+/**
+ * Reads a numeric counter out of an API payload, or null if it's missing.
+ */
+export function toCount(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
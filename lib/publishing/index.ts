@@ -0,0 +1,122 @@
+import { createFacebookPublisher } from "./facebook.ts";
+import { createLinkedInPublisher } from "./linkedin.ts";
+import { createRedditPublisher } from "./reddit.ts";
+import { createXPublisher } from "./x.ts";
+import { toPublishMedia } from "./media.ts";
+import type {
+  PlatformPublisher,
+  PublishablePlatformId,
+  PublisherAccount,
+  PublisherOptions,
+  PublishRequest,
+} from "./types.ts";
+
+export * from "./types.ts";
+export * from "./metrics.ts";
+export { PlatformApiError, UnconfirmedPublishError } from "./http.ts";
+export * from "./retry.ts";
+export * from "./leases.ts";
+export * from "./simulation.ts";
+export * from "./runs.ts";
+export * from "./tokens.ts";
+export * from "./rateLimits.ts";
+export * from "./media.ts";
+export * from "./history.ts";
+export * from "./visibility.ts";
+export * from "./accountSelection.ts";
+export {
+  createRedditPublisher,
+  resolveRedditLinkUrl,
+  resolveSubreddit,
+  sanitizeSubreddit,
+  validateRedditContent,
+} from "./reddit.ts";
+export { createXPublisher } from "./x.ts";
+export { createLinkedInPublisher, resolveLinkedInAuthor } from "./linkedin.ts";
+export {
+  createFacebookPublisher,
+  listFacebookPages,
+  resolveFacebookPageId,
+  type FacebookPage,
+} from "./facebook.ts";
+
+const publisherFactories: Record<
+  PublishablePlatformId,
+  (options?: PublisherOptions) => PlatformPublisher
+> = {
+  reddit: createRedditPublisher,
+  x: createXPublisher,
+  linkedin: createLinkedInPublisher,
+  facebook: createFacebookPublisher,
+};
+
+export const PUBLISHABLE_PLATFORM_IDS = Object.keys(
+  publisherFactories
+) as PublishablePlatformId[];
+
+export function isPublishablePlatform(
+  platformId: string | null | undefined
+): platformId is PublishablePlatformId {
+  return Boolean(platformId && platformId in publisherFactories);
+}
+
+/**
+ * Returns the publisher for a platform, or null when DoppelCart cannot
+ * publish there yet.
+ */
+export function getPlatformPublisher(
+  platformId: string | null | undefined,
+  options?: PublisherOptions
+): PlatformPublisher | null {
+  if (!isPublishablePlatform(platformId)) {
+    return null;
+  }
+
+  return publisherFactories[platformId](options);
+}
+
+type PublishableAccountRow = {
+  id: string;
+  platform_account_id?: string | null;
+  provider_account_id?: string | null;
+  provider_username?: string | null;
+  account_handle?: string | null;
+};
+
+type PublishablePostRow = {
+  content_json?: unknown;
+  platform_options?: unknown;
+  media_assets?: unknown;
+};
+
+export function toPublisherAccount(row: PublishableAccountRow): PublisherAccount {
+  return {
+    id: row.id,
+    platformAccountId: row.platform_account_id ?? null,
+    providerAccountId: row.provider_account_id ?? null,
+    providerUsername: row.provider_username ?? null,
+    accountHandle: row.account_handle ?? null,
+  };
+}
+
+/**
+ * Builds a publish request from raw campaign_posts and
+ * persona_social_accounts rows.
+ */
+export function buildPublishRequest(
+  post: PublishablePostRow,
+  account: PublishableAccountRow
+): PublishRequest {
+  const content = (post.content_json as Record<string, unknown> | null) ?? {};
+  const platformOptions =
+    (post.platform_options as Record<string, unknown> | null) ?? {};
+
+  return {
+    title: (content.title as string | undefined) ?? "",
+    text: (content.text as string | undefined) ?? "",
+    content,
+    platformOptions,
+    media: toPublishMedia(post.media_assets),
+    account: toPublisherAccount(account),
+  };
+}
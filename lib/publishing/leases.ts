@@ -0,0 +1,21 @@
+/** Status of a post a worker has claimed and is publishing right now. */
+export const PUBLISHING_STATUS = "publishing";
+
+export const DEFAULT_PUBLISH_LEASE_SECONDS = 300;
+
+export function leaseExpiresAt(
+  now: Date,
+  leaseSeconds: number = DEFAULT_PUBLISH_LEASE_SECONDS
+): string {
+  return new Date(now.getTime() + leaseSeconds * 1000).toISOString();
+}
+
+/** Columns that release a claim once a post's outcome is recorded. */
+export const RELEASED_LEASE = {
+  lease_token: null,
+  lease_expires_at: null,
+  idempotency_key: null,
+} as const;
+
+export const INTERRUPTED_PUBLISH_MESSAGE =
+  "Publishing was interrupted before the result was recorded. Check the platform for this post before retrying.";
@@ -0,0 +1,287 @@
+import {
+  PlatformApiError,
+  parseTokenResponse,
+  readApiErrorMessage,
+  resolveFetch,
+  toCount,
+  trimBaseUrl,
+  UnconfirmedPublishError,
+} from "./http.ts";
+import { validateMedia } from "./media.ts";
+import type {
+  PlatformPublisher,
+  PublishRequest,
+  PublisherOptions,
+} from "./types.ts";
+
+const DEFAULT_API_BASE_URL = "https://api.linkedin.com";
+const DEFAULT_AUTH_BASE_URL = "https://www.linkedin.com";
+const LINKEDIN_MAX_POST_LENGTH = 3000;
+
+/**
+ * Resolves the author URN for a share. Organization pages can be targeted via
+ * platform_options.author_urn; otherwise the connected member posts.
+ */
+export function resolveLinkedInAuthor(request: PublishRequest): string | null {
+  const explicitAuthor = request.platformOptions.author_urn as string | undefined;
+  if (explicitAuthor && explicitAuthor.startsWith("urn:li:")) {
+    return explicitAuthor;
+  }
+
+  const memberId =
+    request.account.providerAccountId ?? request.account.platformAccountId;
+  if (!memberId) {
+    return null;
+  }
+
+  return memberId.startsWith("urn:li:") ? memberId : `urn:li:person:${memberId}`;
+}
+
+function buildUgcPost(request: PublishRequest, author: string | null) {
+  return {
+    author,
+    lifecycleState: "PUBLISHED",
+    specificContent: {
+      "com.linkedin.ugc.ShareContent": {
+        shareCommentary: { text: request.text },
+        shareMediaCategory: "NONE",
+      },
+    },
+    visibility: {
+      "com.linkedin.ugc.MemberNetworkVisibility":
+        (request.platformOptions.visibility as string | undefined) ?? "PUBLIC",
+    },
+  };
+}
+
+/**
+ * Publisher for LinkedIn member/organization shares via the UGC Posts API.
+ */
+export function createLinkedInPublisher(
+  options: PublisherOptions = {}
+): PlatformPublisher {
+  const apiBaseUrl = trimBaseUrl(options.apiBaseUrl ?? DEFAULT_API_BASE_URL);
+  const authBaseUrl = trimBaseUrl(options.authBaseUrl ?? DEFAULT_AUTH_BASE_URL);
+  const fetchImpl = resolveFetch(options);
+
+  return {
+    platformId: "linkedin",
+
+    validate(request) {
+      const mediaValidation = validateMedia("linkedin", request.media);
+      if (!mediaValidation.valid) {
+        return mediaValidation;
+      }
+
+      if (!resolveLinkedInAuthor(request)) {
+        return {
+          valid: false,
+          error: "LinkedIn account is missing a member ID to post as",
+        };
+      }
+
+      if (!request.text || request.text.trim().length === 0) {
+        return { valid: false, error: "Text content is required" };
+      }
+
+      if (request.text.length > LINKEDIN_MAX_POST_LENGTH) {
+        return {
+          valid: false,
+          error: `Text exceeds 3,000 character limit (${request.text.length} chars)`,
+        };
+      }
+
+      return { valid: true };
+    },
+
+    async refreshToken(input) {
+      if (!input.refreshToken) {
+        throw new Error("No refresh token available for LinkedIn account");
+      }
+
+      // LinkedIn expects client credentials in the body, not Basic auth.
+      const response = await fetchImpl(`${authBaseUrl}/oauth/v2/accessToken`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          grant_type: "refresh_token",
+          refresh_token: input.refreshToken,
+          client_id: input.clientId,
+          client_secret: input.clientSecret,
+        }),
+      });
+
+      if (!response.ok) {
+        const payload = await response.text();
+        console.error("LinkedIn token refresh failed:", response.status, payload);
+        throw new PlatformApiError(
+          "linkedin",
+          response.status,
+          "Failed to refresh LinkedIn access token",
+          payload
+        );
+      }
+
+      const result = parseTokenResponse(await response.json(), input.refreshToken);
+      if (!result) {
+        throw new Error("LinkedIn refresh response missing access token");
+      }
+
+      return result;
+    },
+
+    preview(request) {
+      const author = resolveLinkedInAuthor(request);
+      return {
+        platformId: "linkedin",
+        target: author,
+        endpoint: `${apiBaseUrl}/v2/ugcPosts`,
+        body: buildUgcPost(request, author),
+      };
+    },
+
+    async publish(request, session) {
+      const author = resolveLinkedInAuthor(request);
+      if (!author) {
+        throw new Error("LinkedIn account is missing a member ID to post as");
+      }
+
+      const response = await fetchImpl(`${apiBaseUrl}/v2/ugcPosts`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.accessToken}`,
+          "Content-Type": "application/json",
+          "X-Restli-Protocol-Version": "2.0.0",
+        },
+        body: JSON.stringify(buildUgcPost(request, author)),
+      });
+
+      if (!response.ok) {
+        const errorMessage = await readApiErrorMessage(
+          response,
+          "LinkedIn API error"
+        );
+        console.error("LinkedIn post submission failed:", {
+          status: response.status,
+          statusText: response.statusText,
+        });
+        throw new PlatformApiError("linkedin", response.status, errorMessage);
+      }
+
+      const json = await response.json().catch(() => null);
+      const postUrn =
+        (json?.id as string | undefined) ??
+        response.headers.get("x-restli-id") ??
+        undefined;
+
+      if (!postUrn) {
+        console.error("LinkedIn response missing post data:", json);
+        throw new UnconfirmedPublishError("linkedin", "LinkedIn response missing post URN");
+      }
+
+      return {
+        externalId: postUrn,
+        url: `https://www.linkedin.com/feed/update/${postUrn}`,
+      };
+    },
+
+    async fetchStatus(externalId, session) {
+      const response = await fetchImpl(
+        `${apiBaseUrl}/v2/ugcPosts/${encodeURIComponent(externalId)}`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.accessToken}`,
+            "X-Restli-Protocol-Version": "2.0.0",
+          },
+        }
+      );
+
+      if (response.status === 404) {
+        return { externalId, state: "not_found", url: null, raw: {} };
+      }
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "linkedin",
+          response.status,
+          await readApiErrorMessage(response, "LinkedIn API error")
+        );
+      }
+
+      const json = await response.json();
+      const lifecycleState = json?.lifecycleState as string | undefined;
+
+      return {
+        externalId,
+        state:
+          lifecycleState === "PUBLISHED"
+            ? "live"
+            : lifecycleState === "DELETED"
+              ? "removed"
+              : "unknown",
+        url: `https://www.linkedin.com/feed/update/${externalId}`,
+        raw: json ?? {},
+      };
+    },
+
+    async fetchMetrics(externalId, session) {
+      const response = await fetchImpl(
+        `${apiBaseUrl}/v2/socialActions/${encodeURIComponent(externalId)}`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.accessToken}`,
+            "X-Restli-Protocol-Version": "2.0.0",
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "linkedin",
+          response.status,
+          await readApiErrorMessage(response, "LinkedIn API error")
+        );
+      }
+
+      const json = (await response.json()) ?? {};
+
+      return {
+        externalId,
+        score: null,
+        upvoteRatio: null,
+        likes: toCount(json?.likesSummary?.totalLikes),
+        comments: toCount(json?.commentsSummary?.aggregatedTotalComments),
+        shares: null,
+        impressions: null,
+        raw: json,
+      };
+    },
+
+    async deletePost(externalId, session) {
+      const response = await fetchImpl(
+        `${apiBaseUrl}/v2/ugcPosts/${encodeURIComponent(externalId)}`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${session.accessToken}`,
+            "X-Restli-Protocol-Version": "2.0.0",
+          },
+        }
+      );
+
+      if (response.status === 404) {
+        return;
+      }
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "linkedin",
+          response.status,
+          await readApiErrorMessage(response, "LinkedIn API error")
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,155 @@
+import type {
+  MediaLoader,
+  PublishablePlatformId,
+  PublishMedia,
+  PublishValidationResult,
+} from "./types.ts";
+
+/** Supabase Storage bucket behind the media library. */
+export const MEDIA_BUCKET = "media";
+
+/**
+ * An attachment as stored in campaign_posts.media_assets: a snapshot of the
+ * media_files row, so publishing never depends on the library entry.
+ */
+export interface PostMediaAttachment {
+  media_id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  alt_text: string | null;
+}
+
+export interface PlatformMediaRules {
+  /** 0 when the publisher can't attach media yet. */
+  maxItems: number;
+  maxBytes: number;
+  mimeTypes: string[];
+}
+
+const MB = 1024 * 1024;
+
+export const PLATFORM_MEDIA_RULES: Record<PublishablePlatformId, PlatformMediaRules> = {
+  // Single-image posts; galleries use a different submit flow
+  reddit: { maxItems: 1, maxBytes: 20 * MB, mimeTypes: ["image/jpeg", "image/png", "image/gif"] },
+  x: {
+    maxItems: 4,
+    maxBytes: 5 * MB,
+    mimeTypes: ["image/jpeg", "image/png", "image/gif", "image/webp"],
+  },
+  linkedin: { maxItems: 0, maxBytes: 0, mimeTypes: [] },
+  facebook: { maxItems: 0, maxBytes: 0, mimeTypes: [] },
+};
+
+/** Anything at least one platform accepts can go in the library. */
+export const MEDIA_LIBRARY_MIME_TYPES = Array.from(
+  new Set(Object.values(PLATFORM_MEDIA_RULES).flatMap((rules) => rules.mimeTypes))
+);
+export const MEDIA_LIBRARY_MAX_BYTES = Math.max(
+  ...Object.values(PLATFORM_MEDIA_RULES).map((rules) => rules.maxBytes)
+);
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round((bytes / MB) * 10) / 10} MB`;
+}
+
+/**
+ * Checks attachments against a platform's count, size and format rules.
+ */
+export function validateMedia(
+  platformId: PublishablePlatformId,
+  media: PublishMedia[]
+): PublishValidationResult {
+  if (media.length === 0) {
+    return { valid: true };
+  }
+
+  const rules = PLATFORM_MEDIA_RULES[platformId];
+  if (rules.maxItems === 0) {
+    return { valid: false, error: `Media attachments are not supported on ${platformId} yet` };
+  }
+
+  if (media.length > rules.maxItems) {
+    return {
+      valid: false,
+      error: `${platformId} allows at most ${rules.maxItems} attachment${rules.maxItems === 1 ? "" : "s"} (${media.length} attached)`,
+    };
+  }
+
+  for (const item of media) {
+    if (!rules.mimeTypes.includes(item.mimeType)) {
+      return {
+        valid: false,
+        error: `${item.fileName} is ${item.mimeType}; ${platformId} accepts ${rules.mimeTypes.join(", ")}`,
+      };
+    }
+    if (item.sizeBytes > rules.maxBytes) {
+      return {
+        valid: false,
+        error: `${item.fileName} is ${formatMegabytes(item.sizeBytes)}; ${platformId} allows up to ${formatMegabytes(rules.maxBytes)}`,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Reads campaign_posts.media_assets, skipping entries that aren't
+ * attachments (older rows may hold arbitrary objects).
+ */
+export function toPublishMedia(mediaAssets: unknown): PublishMedia[] {
+  if (!Array.isArray(mediaAssets)) {
+    return [];
+  }
+
+  return mediaAssets
+    .filter(
+      (asset): asset is PostMediaAttachment =>
+        Boolean(asset) &&
+        typeof asset.storage_path === "string" &&
+        typeof asset.mime_type === "string"
+    )
+    .map((asset) => ({
+      id: asset.media_id,
+      storagePath: asset.storage_path,
+      fileName: asset.file_name ?? asset.storage_path.split("/").pop() ?? "image",
+      mimeType: asset.mime_type,
+      sizeBytes: asset.size_bytes ?? 0,
+      altText: asset.alt_text ?? null,
+    }));
+}
+
+/**
+ * The part of a Supabase client the media loader uses. Both supabase-js
+ * builds (npm and esm.sh) satisfy it.
+ */
+export interface MediaStorageClient {
+  storage: {
+    from(bucket: string): {
+      download(
+        path: string
+      ): Promise<{ data: Blob | null; error: { message: string } | null }>;
+    };
+  };
+}
+
+/**
+ * Loads attachment bytes from the media bucket for publishers to upload.
+ */
+export function createStorageMediaLoader(client: MediaStorageClient): MediaLoader {
+  return async (media) => {
+    const { data, error } = await client.storage
+      .from(MEDIA_BUCKET)
+      .download(media.storagePath);
+
+    if (error || !data) {
+      throw new Error(
+        `Failed to load media ${media.fileName}: ${error?.message ?? "not found"}`
+      );
+    }
+
+    return data;
+  };
+}
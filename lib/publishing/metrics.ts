@@ -0,0 +1,131 @@
+import type { PostMetrics } from "./types.ts";
+
+/**
+ * A metrics reading as stored in campaign_post_metrics and mirrored onto
+ * campaign_posts.metrics as the latest value.
+ */
+export interface PostMetricsSnapshot {
+  score: number | null;
+  upvote_ratio: number | null;
+  likes: number | null;
+  comments: number | null;
+  shares: number | null;
+  impressions: number | null;
+  collected_at: string;
+}
+
+export interface PlatformPerformance {
+  posts: number;
+  engagement: number;
+}
+
+/**
+ * Campaign-level rollup kept under campaigns.metrics.performance.
+ */
+export interface CampaignPerformance {
+  posts_tracked: number;
+  engagement: number;
+  totals: {
+    score: number;
+    likes: number;
+    comments: number;
+    shares: number;
+    impressions: number;
+  };
+  /** Mean upvote ratio across posts that report one. */
+  average_upvote_ratio: number | null;
+  by_platform: Record<string, PlatformPerformance>;
+  top_post_id: string | null;
+  updated_at: string;
+}
+
+export function toMetricsSnapshot(
+  metrics: PostMetrics,
+  collectedAt: string
+): PostMetricsSnapshot {
+  return {
+    score: metrics.score,
+    upvote_ratio: metrics.upvoteRatio,
+    likes: metrics.likes,
+    comments: metrics.comments,
+    shares: metrics.shares,
+    impressions: metrics.impressions,
+    collected_at: collectedAt,
+  };
+}
+
+/**
+ * A single comparable engagement number across platforms: reactions (or the
+ * Reddit score when a platform has no like count) plus comments and shares.
+ */
+export function engagementTotal(snapshot: PostMetricsSnapshot | null | undefined): number {
+  if (!snapshot) {
+    return 0;
+  }
+
+  return (
+    (snapshot.likes ?? snapshot.score ?? 0) +
+    (snapshot.comments ?? 0) +
+    (snapshot.shares ?? 0)
+  );
+}
+
+export function rollupCampaignPerformance(
+  posts: {
+    id: string;
+    platform_id: string | null;
+    metrics: PostMetricsSnapshot | null;
+  }[],
+  updatedAt: string
+): CampaignPerformance {
+  const performance: CampaignPerformance = {
+    posts_tracked: 0,
+    engagement: 0,
+    totals: { score: 0, likes: 0, comments: 0, shares: 0, impressions: 0 },
+    average_upvote_ratio: null,
+    by_platform: {},
+    top_post_id: null,
+    updated_at: updatedAt,
+  };
+
+  const upvoteRatios: number[] = [];
+  let topEngagement = -1;
+
+  for (const post of posts) {
+    if (!post.metrics) {
+      continue;
+    }
+
+    const engagement = engagementTotal(post.metrics);
+    const platformId = post.platform_id ?? "unknown";
+    const platform = performance.by_platform[platformId] ?? { posts: 0, engagement: 0 };
+
+    performance.posts_tracked += 1;
+    performance.engagement += engagement;
+    performance.totals.score += post.metrics.score ?? 0;
+    performance.totals.likes += post.metrics.likes ?? 0;
+    performance.totals.comments += post.metrics.comments ?? 0;
+    performance.totals.shares += post.metrics.shares ?? 0;
+    performance.totals.impressions += post.metrics.impressions ?? 0;
+    performance.by_platform[platformId] = {
+      posts: platform.posts + 1,
+      engagement: platform.engagement + engagement,
+    };
+
+    if (post.metrics.upvote_ratio !== null) {
+      upvoteRatios.push(post.metrics.upvote_ratio);
+    }
+
+    if (engagement > topEngagement) {
+      topEngagement = engagement;
+      performance.top_post_id = post.id;
+    }
+  }
+
+  if (upvoteRatios.length > 0) {
+    performance.average_upvote_ratio =
+      upvoteRatios.reduce((sum, ratio) => sum + ratio, 0) / upvoteRatios.length;
+  }
+
+  return performance;
+}
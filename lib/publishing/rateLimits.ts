@@ -0,0 +1,310 @@
+import { resolveSubreddit } from "./reddit.ts";
+import { PUBLISHING_STATUS } from "./leases.ts";
+
+/**
+ * Publishing limits for one persona_social_accounts row. Stored as overrides
+ * in persona_social_accounts.rate_limits; null disables a limit.
+ */
+export interface PublishRateLimits {
+  posts_per_hour: number | null;
+  posts_per_day: number | null;
+  /** Minimum gap between any two posts on the account. */
+  min_spacing_minutes: number | null;
+  /** Minimum gap between two posts to the same subreddit (Reddit only). */
+  subreddit_cooldown_minutes: number | null;
+}
+
+export type RateLimitRule =
+  | "posts_per_hour"
+  | "posts_per_day"
+  | "min_spacing_minutes"
+  | "subreddit_cooldown_minutes";
+
+const GENERIC_RATE_LIMITS: PublishRateLimits = {
+  posts_per_hour: 4,
+  posts_per_day: 20,
+  min_spacing_minutes: 10,
+  subreddit_cooldown_minutes: null,
+};
+
+// Conservative enough that a single persona doesn't look like a spam account
+export const DEFAULT_PUBLISH_RATE_LIMITS: Record<string, PublishRateLimits> = {
+  reddit: {
+    posts_per_hour: 2,
+    posts_per_day: 8,
+    min_spacing_minutes: 15,
+    subreddit_cooldown_minutes: 24 * 60,
+  },
+  x: {
+    posts_per_hour: 6,
+    posts_per_day: 40,
+    min_spacing_minutes: 5,
+    subreddit_cooldown_minutes: null,
+  },
+  linkedin: {
+    posts_per_hour: 1,
+    posts_per_day: 4,
+    min_spacing_minutes: 60,
+    subreddit_cooldown_minutes: null,
+  },
+  facebook: {
+    posts_per_hour: 2,
+    posts_per_day: 10,
+    min_spacing_minutes: 30,
+    subreddit_cooldown_minutes: null,
+  },
+};
+
+/** Post statuses that count against an account's limits. */
+export const RATE_LIMITED_STATUSES = ["scheduled", PUBLISHING_STATUS, "published"];
+
+// The widest window any rule looks at; posts further away never matter
+export const RATE_LIMIT_LOOKAROUND_MS = 24 * 60 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// Each step moves strictly forward; this only guards against bad input
+const MAX_SLOT_SEARCH_STEPS = 500;
+
+/**
+ * Platform defaults with the account's overrides applied.
+ */
+export function resolveRateLimits(
+  platformId: string | null | undefined,
+  overrides?: Partial<PublishRateLimits> | null
+): PublishRateLimits {
+  const defaults =
+    (platformId && DEFAULT_PUBLISH_RATE_LIMITS[platformId]) || GENERIC_RATE_LIMITS;
+  return { ...defaults, ...(overrides ?? {}) };
+}
+
+/** A post already on the account, as far as the limits are concerned. */
+export interface RateLimitEntry {
+  at: Date;
+  subreddit: string | null;
+}
+
+type RateLimitPostRow = {
+  status: string;
+  scheduled_for?: string | null;
+  posted_at?: string | null;
+  content_json?: unknown;
+  platform_options?: unknown;
+};
+
+/**
+ * Turns a campaign_posts row into a rate limit entry: published posts count
+ * when they went out, everything else when it is due. Rows being published
+ * right now count at `now`.
+ */
+export function toRateLimitEntry(
+  row: RateLimitPostRow,
+  now: Date = new Date()
+): RateLimitEntry | null {
+  const timestamp =
+    row.status === "published"
+      ? row.posted_at
+      : row.status === PUBLISHING_STATUS
+        ? now.toISOString()
+        : row.scheduled_for;
+
+  if (!timestamp) {
+    return null;
+  }
+
+  return {
+    at: new Date(timestamp),
+    subreddit: rateLimitSubreddit(row),
+  };
+}
+
+export function rateLimitSubreddit(row: {
+  content_json?: unknown;
+  platform_options?: unknown;
+}): string | null {
+  return resolveSubreddit({
+    content: (row.content_json as Record<string, unknown> | null) ?? {},
+    platformOptions: (row.platform_options as Record<string, unknown> | null) ?? {},
+  });
+}
+
+interface RuleViolation {
+  rule: RateLimitRule;
+  /** Earliest time this rule alone would allow, in epoch ms. */
+  nextAllowedMs: number;
+}
+
+function spacingViolation(
+  rule: RateLimitRule,
+  times: number[],
+  candidate: number,
+  gapMs: number
+): RuleViolation | null {
+  const conflicting = times.filter((time) => Math.abs(time - candidate) < gapMs);
+  if (conflicting.length === 0) {
+    return null;
+  }
+  return { rule, nextAllowedMs: Math.max(...conflicting) + gapMs };
+}
+
+/**
+ * A window rule is broken when `limit` existing posts and the candidate all
+ * fit inside one window. Leaving it means waiting until the earliest of
+ * those posts is a full window behind the candidate.
+ */
+function windowViolation(
+  rule: RateLimitRule,
+  times: number[],
+  candidate: number,
+  limit: number,
+  windowMs: number
+): RuleViolation | null {
+  if (limit <= 0) {
+    return { rule, nextAllowedMs: Infinity };
+  }
+
+  const nearby = times
+    .filter((time) => Math.abs(time - candidate) < windowMs)
+    .sort((a, b) => a - b);
+
+  let nextAllowedMs: number | null = null;
+  for (let index = 0; index + limit - 1 < nearby.length; index += 1) {
+    const first = Math.min(nearby[index], candidate);
+    const last = Math.max(nearby[index + limit - 1], candidate);
+    if (last - first < windowMs) {
+      nextAllowedMs = Math.max(nextAllowedMs ?? 0, nearby[index] + windowMs);
+    }
+  }
+
+  return nextAllowedMs === null ? null : { rule, nextAllowedMs };
+}
+
+function findViolation(
+  limits: PublishRateLimits,
+  entries: RateLimitEntry[],
+  candidate: number,
+  subreddit: string | null
+): RuleViolation | null {
+  const times = entries.map((entry) => entry.at.getTime());
+  const violations: Array<RuleViolation | null> = [];
+
+  if (limits.min_spacing_minutes) {
+    violations.push(
+      spacingViolation(
+        "min_spacing_minutes",
+        times,
+        candidate,
+        limits.min_spacing_minutes * MINUTE_MS
+      )
+    );
+  }
+
+  if (subreddit && limits.subreddit_cooldown_minutes) {
+    const sameSubreddit = entries
+      .filter((entry) => entry.subreddit?.toLowerCase() === subreddit.toLowerCase())
+      .map((entry) => entry.at.getTime());
+    violations.push(
+      spacingViolation(
+        "subreddit_cooldown_minutes",
+        sameSubreddit,
+        candidate,
+        limits.subreddit_cooldown_minutes * MINUTE_MS
+      )
+    );
+  }
+
+  if (limits.posts_per_hour !== null) {
+    violations.push(
+      windowViolation("posts_per_hour", times, candidate, limits.posts_per_hour, HOUR_MS)
+    );
+  }
+
+  if (limits.posts_per_day !== null) {
+    violations.push(
+      windowViolation("posts_per_day", times, candidate, limits.posts_per_day, 24 * HOUR_MS)
+    );
+  }
+
+  // Report the rule that pushes the post out furthest
+  return violations.reduce<RuleViolation | null>(
+    (worst, violation) =>
+      violation && (!worst || violation.nextAllowedMs > worst.nextAllowedMs)
+        ? violation
+        : worst,
+    null
+  );
+}
+
+export type RateLimitCheck =
+  | { allowed: true }
+  | {
+      allowed: false;
+      rule: RateLimitRule;
+      /** Earliest time the post could go out; null if a limit is zero. */
+      nextAllowedAt: string | null;
+      message: string;
+    };
+
+function describeRule(
+  rule: RateLimitRule,
+  limits: PublishRateLimits,
+  platformId: string,
+  subreddit: string | null
+): string {
+  switch (rule) {
+    case "posts_per_hour":
+      return `${platformId} allows at most ${limits.posts_per_hour} posts per hour on this account`;
+    case "posts_per_day":
+      return `${platformId} allows at most ${limits.posts_per_day} posts per day on this account`;
+    case "min_spacing_minutes":
+      return `Posts on this account must be at least ${limits.min_spacing_minutes} minutes apart`;
+    case "subreddit_cooldown_minutes":
+      return `Posts to r/${subreddit} must be at least ${limits.subreddit_cooldown_minutes} minutes apart`;
+  }
+}
+
+/**
+ * Checks whether a post may go out at `at` given the account's other posts,
+ * and if not, finds the earliest time that satisfies every limit.
+ */
+export function checkRateLimits(
+  limits: PublishRateLimits,
+  entries: RateLimitEntry[],
+  candidate: { at: Date; platformId: string; subreddit: string | null }
+): RateLimitCheck {
+  let at = candidate.at.getTime();
+  let firstViolation: RuleViolation | null = null;
+
+  for (let step = 0; step < MAX_SLOT_SEARCH_STEPS; step += 1) {
+    const violation = findViolation(limits, entries, at, candidate.subreddit);
+    if (!violation) {
+      break;
+    }
+    firstViolation ??= violation;
+    at = violation.nextAllowedMs;
+    if (!Number.isFinite(at)) {
+      break;
+    }
+  }
+
+  if (!firstViolation) {
+    return { allowed: true };
+  }
+
+  const reason = describeRule(
+    firstViolation.rule,
+    limits,
+    candidate.platformId,
+    candidate.subreddit
+  );
+  const nextAllowedAt = Number.isFinite(at) ? new Date(at).toISOString() : null;
+
+  return {
+    allowed: false,
+    rule: firstViolation.rule,
+    nextAllowedAt,
+    message: nextAllowedAt
+      ? `Rate limit: ${reason}. Next allowed slot: ${nextAllowedAt}`
+      : `Rate limit: ${reason}.`,
+  };
+}
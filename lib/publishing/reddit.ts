@@ -0,0 +1,620 @@
+import {
+  PlatformApiError,
+  basicAuthHeader,
+  parseTokenResponse,
+  readApiErrorMessage,
+  resolveFetch,
+  toCount,
+  trimBaseUrl,
+  UnconfirmedPublishError,
+} from "./http.ts";
+import { validateMedia } from "./media.ts";
+import type {
+  PlatformPublisher,
+  PublishMedia,
+  PublishRequest,
+  PublisherOptions,
+  PublisherSession,
+  PublishValidationResult,
+} from "./types.ts";
+
+const DEFAULT_API_BASE_URL = "https://oauth.reddit.com";
+const DEFAULT_AUTH_BASE_URL = "https://www.reddit.com";
+const DEFAULT_USER_AGENT = "DoppelCart/1.0";
+
+// Image posts take a moment to show up on the profile after submitting
+const SUBMITTED_POST_LOOKUP_ATTEMPTS = 3;
+const SUBMITTED_POST_LOOKUP_DELAY_MS = 2000;
+
+/**
+ * Validates and sanitizes a subreddit name.
+ * Removes "r/" prefix if present and validates format.
+ */
+export function sanitizeSubreddit(subreddit: string | null | undefined): string | null {
+  if (!subreddit) {
+    return null;
+  }
+
+  // Remove "r/" prefix if present
+  let sanitized = subreddit.trim().replace(/^r\//i, "");
+
+  // Remove any leading/trailing slashes
+  sanitized = sanitized.replace(/^\/+|\/+$/g, "");
+
+  // Basic validation: alphanumeric, underscores, hyphens, 3-21 chars
+  if (!/^[a-zA-Z0-9_-]{3,21}$/.test(sanitized)) {
+    return null;
+  }
+
+  return sanitized;
+}
+
+/**
+ * Validates Reddit post content length.
+ * Reddit limits: title max 300 chars, text max 40,000 chars.
+ * Image and link posts carry no body, so they skip the text check.
+ */
+export function validateRedditContent(
+  title: string,
+  text: string,
+  options: { requireText?: boolean } = {}
+): PublishValidationResult {
+  if (!title || title.trim().length === 0) {
+    return { valid: false, error: "Title is required" };
+  }
+
+  if (title.length > 300) {
+    return {
+      valid: false,
+      error: `Title exceeds 300 character limit (${title.length} chars)`,
+    };
+  }
+
+  if (options.requireText === false) {
+    return { valid: true };
+  }
+
+  if (!text || text.trim().length === 0) {
+    return { valid: false, error: "Text content is required" };
+  }
+
+  if (text.length > 40000) {
+    return {
+      valid: false,
+      error: `Text exceeds 40,000 character limit (${text.length} chars)`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Resolves the target subreddit from platform_options, falling back to a
+ * subreddit hint stored on the generated content.
+ */
+export function resolveSubreddit(
+  request: Pick<PublishRequest, "platformOptions" | "content">
+): string | null {
+  const subredditRaw =
+    (request.platformOptions.subreddit as string | undefined) ||
+    (request.platformOptions.sr as string | undefined) ||
+    (request.content.subreddit as string | undefined) ||
+    null;
+
+  return sanitizeSubreddit(subredditRaw);
+}
+
+/**
+ * The URL for a link post, from platform_options.url. Only http(s) URLs
+ * are accepted.
+ */
+export function resolveRedditLinkUrl(
+  request: Pick<PublishRequest, "platformOptions">
+): string | null {
+  const url = request.platformOptions.url;
+  if (typeof url !== "string" || !/^https?:\/\/\S+$/i.test(url.trim())) {
+    return null;
+  }
+  return url.trim();
+}
+
+type RedditSubmitKind = "self" | "link" | "image";
+
+function resolveSubmitKind(request: PublishRequest): RedditSubmitKind {
+  if (request.media.length > 0) {
+    return "image";
+  }
+  return resolveRedditLinkUrl(request) ? "link" : "self";
+}
+
+/**
+ * Builds /api/submit params. Image posts need the URL Reddit's media upload
+ * returned, so callers pass it in once the upload is done.
+ */
+function buildSubmitParams(
+  request: PublishRequest,
+  subreddit: string | null,
+  imageUrl: string | null = null
+): Record<string, string> {
+  const kind = resolveSubmitKind(request);
+  const params: Record<string, string> = {
+    kind,
+    sr: subreddit ?? "",
+    title: request.title,
+    api_type: "json",
+  };
+
+  if (kind === "self") {
+    params.text = request.text;
+  } else if (kind === "link") {
+    params.url = resolveRedditLinkUrl(request) ?? "";
+  } else {
+    params.url = imageUrl ?? "";
+  }
+
+  return params;
+}
+
+function toFullname(externalId: string): string {
+  return externalId.startsWith("t3_") ? externalId : `t3_${externalId}`;
+}
+
+function toPostUrl(permalink: string): string {
+  return permalink.startsWith("http")
+    ? permalink
+    : `https://reddit.com${permalink}`;
+}
+
+export function createRedditPublisher(
+  options: PublisherOptions = {}
+): PlatformPublisher {
+  const apiBaseUrl = trimBaseUrl(options.apiBaseUrl ?? DEFAULT_API_BASE_URL);
+  const authBaseUrl = trimBaseUrl(options.authBaseUrl ?? DEFAULT_AUTH_BASE_URL);
+  const userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+  const fetchImpl = resolveFetch(options);
+
+  /**
+   * Uploads an image through Reddit's media asset lease: ask Reddit where to
+   * put the file, post it there, and submit the resulting URL.
+   */
+  const uploadImage = async (
+    media: PublishMedia,
+    session: PublisherSession
+  ): Promise<string> => {
+    if (!session.loadMedia) {
+      throw new Error("Cannot upload media without a media loader");
+    }
+
+    const leaseResponse = await fetchImpl(`${apiBaseUrl}/api/media/asset.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${session.accessToken}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+        "User-Agent": userAgent,
+      },
+      body: new URLSearchParams({ filepath: media.fileName, mimetype: media.mimeType }),
+    });
+
+    if (!leaseResponse.ok) {
+      throw new PlatformApiError(
+        "reddit",
+        leaseResponse.status,
+        await readApiErrorMessage(leaseResponse, "Reddit media upload error")
+      );
+    }
+
+    const lease = await leaseResponse.json();
+    const action = lease?.args?.action as string | undefined;
+    const fields = (lease?.args?.fields ?? []) as Array<{ name: string; value: string }>;
+    const key = fields.find((field) => field.name === "key")?.value;
+
+    if (!action || !key) {
+      console.error("Reddit media lease missing upload target:", lease);
+      throw new Error("Reddit media lease missing upload target");
+    }
+
+    const uploadUrl = action.startsWith("//") ? `https:${action}` : action;
+    const form = new FormData();
+    for (const field of fields) {
+      form.append(field.name, field.value);
+    }
+    form.append("file", await session.loadMedia(media), media.fileName);
+
+    const uploadResponse = await fetchImpl(uploadUrl, { method: "POST", body: form });
+    if (!uploadResponse.ok) {
+      throw new PlatformApiError(
+        "reddit",
+        uploadResponse.status,
+        `Reddit media upload failed (${uploadResponse.status})`
+      );
+    }
+
+    return `${trimBaseUrl(uploadUrl)}/${key}`;
+  };
+
+  const lookUpSubmittedPost = async (
+    username: string,
+    request: PublishRequest,
+    subreddit: string,
+    session: PublisherSession
+  ): Promise<{ id: string; permalink: string } | null> => {
+    const response = await fetchImpl(
+      `${apiBaseUrl}/user/${encodeURIComponent(username.replace(/^u\//, ""))}/submitted?sort=new&limit=5`,
+      {
+        headers: {
+          Authorization: `Bearer ${session.accessToken}`,
+          "User-Agent": userAgent,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const json = await response.json();
+    const children = (json?.data?.children ?? []) as Array<{ data: Record<string, unknown> }>;
+    const match = children.find(
+      (child) =>
+        child.data.title === request.title &&
+        String(child.data.subreddit).toLowerCase() === subreddit.toLowerCase()
+    );
+
+    return match && typeof match.data.id === "string" && typeof match.data.permalink === "string"
+      ? { id: match.data.id, permalink: match.data.permalink }
+      : null;
+  };
+
+  /**
+   * Finds a just-submitted post on the account's profile, giving Reddit a
+   * few moments to finish processing it. Never throws: the post went out
+   * either way, so a failed lookup must not look like a failed submit.
+   */
+  const findSubmittedPost = async (
+    request: PublishRequest,
+    subreddit: string,
+    session: PublisherSession
+  ): Promise<{ id: string; permalink: string } | null> => {
+    const username = session.account.providerUsername ?? session.account.accountHandle;
+    if (!username) {
+      return null;
+    }
+
+    for (let attempt = 0; attempt < SUBMITTED_POST_LOOKUP_ATTEMPTS; attempt += 1) {
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, SUBMITTED_POST_LOOKUP_DELAY_MS));
+      }
+
+      try {
+        const submitted = await lookUpSubmittedPost(username, request, subreddit, session);
+        if (submitted) {
+          return submitted;
+        }
+      } catch (error) {
+        console.error("Reddit submitted post lookup failed:", error);
+      }
+    }
+
+    return null;
+  };
+
+  return {
+    platformId: "reddit",
+
+    validate(request) {
+      if (!resolveSubreddit(request)) {
+        return {
+          valid: false,
+          error: "Subreddit not specified or invalid in platform_options",
+        };
+      }
+
+      const mediaValidation = validateMedia("reddit", request.media);
+      if (!mediaValidation.valid) {
+        return mediaValidation;
+      }
+
+      return validateRedditContent(request.title, request.text, {
+        requireText: resolveSubmitKind(request) === "self",
+      });
+    },
+
+    async refreshToken(input) {
+      if (!input.refreshToken) {
+        throw new Error("No refresh token available for Reddit account");
+      }
+
+      const response = await fetchImpl(`${authBaseUrl}/api/v1/access_token`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Authorization: basicAuthHeader(input.clientId, input.clientSecret),
+          "User-Agent": userAgent,
+        },
+        body: new URLSearchParams({
+          grant_type: "refresh_token",
+          refresh_token: input.refreshToken,
+        }),
+      });
+
+      if (!response.ok) {
+        const payload = await response.text();
+        console.error("Reddit token refresh failed:", response.status, payload);
+        throw new PlatformApiError(
+          "reddit",
+          response.status,
+          "Failed to refresh Reddit access token",
+          payload
+        );
+      }
+
+      const result = parseTokenResponse(await response.json(), input.refreshToken);
+      if (!result) {
+        throw new Error("Reddit refresh response missing access token");
+      }
+
+      return result;
+    },
+
+    preview(request) {
+      const subreddit = resolveSubreddit(request);
+      return {
+        platformId: "reddit",
+        target: subreddit ? `r/${subreddit}` : null,
+        endpoint: `${apiBaseUrl}/api/submit`,
+        body: {
+          ...buildSubmitParams(request, subreddit),
+          ...(request.media.length > 0
+            ? { url: `(uploaded from ${request.media[0].storagePath})` }
+            : {}),
+        },
+      };
+    },
+
+    async publish(request, session) {
+      const subreddit = resolveSubreddit(request);
+      if (!subreddit) {
+        throw new Error("Subreddit not specified or invalid in platform_options");
+      }
+
+      const imageUrl =
+        request.media.length > 0 ? await uploadImage(request.media[0], session) : null;
+
+      const response = await fetchImpl(`${apiBaseUrl}/api/submit`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.accessToken}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+          "User-Agent": userAgent,
+        },
+        body: new URLSearchParams(buildSubmitParams(request, subreddit, imageUrl)),
+      });
+
+      if (!response.ok) {
+        const errorMessage = await readApiErrorMessage(
+          response,
+          "Reddit API error"
+        );
+        console.error("Reddit post submission failed:", {
+          status: response.status,
+          statusText: response.statusText,
+        });
+        throw new PlatformApiError("reddit", response.status, errorMessage);
+      }
+
+      const json = await response.json();
+      const apiErrors = json?.json?.errors as unknown[][] | undefined;
+      if (apiErrors && apiErrors.length > 0) {
+        const [code, message] = apiErrors[0] as [string, string];
+        throw new PlatformApiError(
+          "reddit",
+          response.status,
+          `Reddit API error: ${code}${message ? ` (${message})` : ""}`
+        );
+      }
+
+      let postId = json?.json?.data?.id as string | undefined;
+      let permalink = json?.json?.data?.permalink as string | undefined;
+      const url = json?.json?.data?.url as string | undefined;
+
+      // Image submissions are processed asynchronously and come back
+      // without the post; look it up on the account's profile instead
+      if (!postId && imageUrl) {
+        const submitted = await findSubmittedPost(request, subreddit, session);
+        if (!submitted) {
+          throw new UnconfirmedPublishError(
+            "reddit",
+            "Reddit accepted the image post but it hasn't appeared on the account's profile yet"
+          );
+        }
+        postId = submitted.id;
+        permalink = submitted.permalink;
+      }
+
+      if (!postId || !(permalink || url)) {
+        console.error("Reddit response missing post data:", json);
+        throw new UnconfirmedPublishError("reddit", "Reddit response missing post ID or permalink");
+      }
+
+      return {
+        externalId: postId,
+        url: toPostUrl(permalink ?? (url as string)),
+      };
+    },
+
+    async fetchStatus(externalId, session) {
+      const response = await fetchImpl(
+        `${apiBaseUrl}/api/info?id=${encodeURIComponent(toFullname(externalId))}`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.accessToken}`,
+            "User-Agent": userAgent,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "reddit",
+          response.status,
+          await readApiErrorMessage(response, "Reddit API error")
+        );
+      }
+
+      const json = await response.json();
+      const post = json?.data?.children?.[0]?.data as
+        | Record<string, unknown>
+        | undefined;
+
+      if (!post) {
+        return { externalId, state: "not_found", url: null, raw: json ?? {} };
+      }
+
+      const removed =
+        Boolean(post.removed_by_category) ||
+        post.removed === true ||
+        post.selftext === "[removed]";
+
+      return {
+        externalId,
+        state: removed ? "removed" : "live",
+        url: typeof post.permalink === "string" ? toPostUrl(post.permalink) : null,
+        raw: post,
+      };
+    },
+
+    async fetchMetrics(externalId, session) {
+      const response = await fetchImpl(
+        `${apiBaseUrl}/api/info?id=${encodeURIComponent(toFullname(externalId))}`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.accessToken}`,
+            "User-Agent": userAgent,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "reddit",
+          response.status,
+          await readApiErrorMessage(response, "Reddit API error")
+        );
+      }
+
+      const json = await response.json();
+      const post = (json?.data?.children?.[0]?.data ?? {}) as Record<string, unknown>;
+
+      return {
+        externalId,
+        score: toCount(post.score),
+        upvoteRatio: toCount(post.upvote_ratio),
+        likes: toCount(post.ups),
+        comments: toCount(post.num_comments),
+        shares: toCount(post.num_crossposts),
+        impressions: null,
+        raw: post,
+      };
+    },
+
+    async fetchPublicStatus(postUrl) {
+      // Permalinks work on any Reddit host; the .json variant needs no login
+      const path = new URL(postUrl).pathname.replace(/\/+$/, "");
+      const response = await fetchImpl(`${authBaseUrl}${path}.json?raw_json=1`, {
+        headers: { "User-Agent": userAgent },
+      });
+
+      if (response.status === 404) {
+        return "not_found";
+      }
+
+      // Private or quarantined communities and throttling say nothing
+      // about the post itself
+      if (!response.ok) {
+        return "unknown";
+      }
+
+      const json = await response.json().catch(() => null);
+      const post = (Array.isArray(json) ? json[0]?.data?.children?.[0]?.data : null) as
+        | Record<string, unknown>
+        | null
+        | undefined;
+
+      if (!post) {
+        return "not_found";
+      }
+
+      const removed =
+        Boolean(post.removed_by_category) ||
+        post.selftext === "[removed]" ||
+        post.author === "[deleted]";
+
+      return removed ? "removed" : "live";
+    },
+
+    async editPost(externalId, request, session) {
+      if (resolveSubmitKind(request) !== "self") {
+        throw new Error("Only Reddit text posts can be edited");
+      }
+
+      const validation = validateRedditContent(request.title, request.text);
+      if (!validation.valid) {
+        throw new Error(validation.error);
+      }
+
+      const response = await fetchImpl(`${apiBaseUrl}/api/editusertext`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.accessToken}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+          "User-Agent": userAgent,
+        },
+        body: new URLSearchParams({
+          thing_id: toFullname(externalId),
+          text: request.text,
+          api_type: "json",
+        }),
+      });
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "reddit",
+          response.status,
+          await readApiErrorMessage(response, "Reddit API error")
+        );
+      }
+
+      const json = await response.json();
+      const apiErrors = json?.json?.errors as unknown[][] | undefined;
+      if (apiErrors && apiErrors.length > 0) {
+        const [code, message] = apiErrors[0] as [string, string];
+        throw new PlatformApiError(
+          "reddit",
+          response.status,
+          `Reddit API error: ${code}${message ? ` (${message})` : ""}`
+        );
+      }
+    },
+
+    async deletePost(externalId, session) {
+      // /api/del answers 200 with an empty object, even for posts already gone
+      const response = await fetchImpl(`${apiBaseUrl}/api/del`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.accessToken}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+          "User-Agent": userAgent,
+        },
+        body: new URLSearchParams({ id: toFullname(externalId) }),
+      });
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "reddit",
+          response.status,
+          await readApiErrorMessage(response, "Reddit API error")
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import { PlatformApiError, UnconfirmedPublishError } from "./http.ts";
+import { INTERRUPTED_PUBLISH_MESSAGE } from "./leases.ts";
+
+/**
+ * Transient failures (outages, rate limits, token trouble) are worth another
+ * attempt; permanent ones (rejected content, missing subreddit) are not.
+ * Unconfirmed ones went out without the platform saying where, so a retry
+ * would post them twice.
+ */
+export type PublishFailureKind = "transient" | "permanent" | "unconfirmed";
+
+/** Post status once transient retries are exhausted. */
+export const DEAD_LETTER_STATUS = "dead_letter";
+
+/** Failed for good, either outright or after exhausting its retries. */
+export function isFailedPostStatus(status: string | null | undefined): boolean {
+  return status === "failed" || status === DEAD_LETTER_STATUS;
+}
+
+export const DEFAULT_MAX_PUBLISH_RETRIES = 5;
+export const DEFAULT_RETRY_BASE_SECONDS = 60;
+// Backoff stops growing here so a long outage still retries a few times a day
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+// Reddit reports these inside a 200 response body
+const TRANSIENT_REDDIT_CODES = ["RATELIMIT"];
+const TRANSIENT_STATUSES = new Set([401, 408, 409, 425, 429]);
+
+/**
+ * Decides whether a failed publish attempt could succeed if retried.
+ * Unknown errors count as transient: a bounded retry is cheaper than
+ * dropping a post that only hit a network blip.
+ */
+export function classifyPublishFailure(error: unknown): PublishFailureKind {
+  if (error instanceof UnconfirmedPublishError) {
+    return "unconfirmed";
+  }
+
+  if (error instanceof PlatformApiError) {
+    if (TRANSIENT_REDDIT_CODES.some((code) => error.message.includes(code))) {
+      return "transient";
+    }
+    if (error.status >= 500 || TRANSIENT_STATUSES.has(error.status)) {
+      return "transient";
+    }
+    // Platform errors reported with a 2xx status are content rejections
+    return "permanent";
+  }
+
+  return "transient";
+}
+
+/**
+ * The last_error to record for a failed attempt. Unconfirmed posts get the
+ * same "check the platform" warning as an interrupted publish.
+ */
+export function publishFailureMessage(message: string, kind: PublishFailureKind): string {
+  return kind === "unconfirmed" ? `${INTERRUPTED_PUBLISH_MESSAGE} (${message})` : message;
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): base, 2x base, 4x base, ...
+ * capped at six hours.
+ */
+export function retryDelayMs(
+  attempt: number,
+  baseSeconds: number = DEFAULT_RETRY_BASE_SECONDS
+): number {
+  const seconds = Math.min(
+    baseSeconds * 2 ** Math.max(0, attempt - 1),
+    MAX_RETRY_DELAY_SECONDS
+  );
+  return seconds * 1000;
+}
+
+export type PublishRetryPlan =
+  | { status: "scheduled"; retryCount: number; scheduledFor: string }
+  | { status: "failed" | typeof DEAD_LETTER_STATUS; retryCount: number };
+
+/**
+ * What to do with a post after a failed attempt: reschedule it with backoff,
+ * fail it outright, or park it in the dead-letter state once out of retries
+ * (or straight away when it may already be live).
+ */
+export function planPublishRetry(
+  retryCount: number,
+  kind: PublishFailureKind,
+  options: { maxRetries?: number; baseSeconds?: number; now?: Date } = {}
+): PublishRetryPlan {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_PUBLISH_RETRIES;
+  const now = options.now ?? new Date();
+
+  if (kind === "permanent") {
+    return { status: "failed", retryCount };
+  }
+
+  if (kind === "unconfirmed") {
+    return { status: DEAD_LETTER_STATUS, retryCount };
+  }
+
+  if (retryCount >= maxRetries) {
+    return { status: DEAD_LETTER_STATUS, retryCount };
+  }
+
+  const nextCount = retryCount + 1;
+  return {
+    status: "scheduled",
+    retryCount: nextCount,
+    scheduledFor: new Date(
+      now.getTime() + retryDelayMs(nextCount, options.baseSeconds)
+    ).toISOString(),
+  };
+}
@@ -0,0 +1,43 @@
+import type { PublishFailureKind } from "./retry.ts";
+
+/** What a postScheduler run did with one due post. */
+export type SchedulerPostOutcome =
+  | "published"
+  | "simulated"
+  | "retrying"
+  | "failed"
+  | "dead_letter"
+  | "deferred"
+  | "skipped";
+
+export const SCHEDULER_POST_OUTCOMES: SchedulerPostOutcome[] = [
+  "published",
+  "simulated",
+  "retrying",
+  "failed",
+  "dead_letter",
+  "deferred",
+  "skipped",
+];
+
+/** A scheduler_run_posts row, minus its ids. */
+export interface SchedulerPostResult {
+  campaign_post_id: string;
+  platform_id: string | null;
+  outcome: SchedulerPostOutcome;
+  failure_kind: PublishFailureKind | null;
+  error: string | null;
+  latency_ms: number;
+}
+
+export type SchedulerRunCounts = Record<SchedulerPostOutcome, number>;
+
+export function countOutcomes(results: SchedulerPostResult[]): SchedulerRunCounts {
+  const counts = Object.fromEntries(
+    SCHEDULER_POST_OUTCOMES.map((outcome) => [outcome, 0])
+  ) as SchedulerRunCounts;
+  for (const result of results) {
+    counts[result.outcome] += 1;
+  }
+  return counts;
+}
@@ -0,0 +1,54 @@
+import type {
+  PlatformPublisher,
+  PublishPreview,
+  PublishRequest,
+  PublishValidationResult,
+} from "./types.ts";
+
+/** Status of a post that went through a dry run instead of being published. */
+export const SIMULATED_STATUS = "simulated";
+
+/**
+ * Why a post was simulated: its campaign is in dry-run mode, or DoppelCart
+ * has no publisher for the platform yet.
+ */
+export type SimulationReason = "dry_run" | "no_publisher";
+
+/** Stored on campaign_posts.simulation. */
+export interface SimulatedPublish {
+  reason: SimulationReason;
+  rendered_at: string;
+  preview: PublishPreview;
+  /** Publisher validation; null when the platform has no publisher. */
+  validation: PublishValidationResult | null;
+}
+
+/**
+ * Renders what publishing would have sent. Platforms without a publisher get
+ * a generic preview of the post's title, text and options.
+ */
+export function simulatePublish(
+  request: PublishRequest,
+  publisher: PlatformPublisher | null,
+  options: { platformId: string | null; reason: SimulationReason; now?: Date }
+): SimulatedPublish {
+  const preview: PublishPreview = publisher
+    ? publisher.preview(request)
+    : {
+        platformId: options.platformId ?? "unknown",
+        target: request.account.accountHandle,
+        endpoint: null,
+        body: {
+          title: request.title,
+          text: request.text,
+          ...request.platformOptions,
+        },
+      };
+
+  return {
+    reason: options.reason,
+    rendered_at: (options.now ?? new Date()).toISOString(),
+    preview,
+    validation: publisher ? publisher.validate(request) : null,
+  };
+}
@@ -0,0 +1,162 @@
+import {
+  decryptStoredSecret,
+  encryptStoredSecret,
+  type SecretKeyring,
+} from "../security/cipher.ts";
+import { PlatformApiError } from "./http.ts";
+import type { PlatformPublisher } from "./types.ts";
+
+// Refresh tokens that expire within this window rather than publish with them
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * How far ahead of expiry the tokenRefresh job renews access tokens, so a
+ * provider outage has a few runs to clear before publishing is affected.
+ */
+export const PROACTIVE_REFRESH_WINDOW_MS = 60 * 60 * 1000;
+
+/** persona_social_accounts.status values. */
+export type ConnectionStatus = "connected" | "expired" | "revoked";
+
+export function isTokenExpired(
+  expiresAt: string | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!expiresAt) {
+    return true;
+  }
+
+  return new Date(expiresAt).getTime() - now.getTime() < TOKEN_REFRESH_MARGIN_MS;
+}
+
+/** The persona_social_accounts columns a token refresh reads. */
+export interface StoredTokenAccount {
+  platform_id: string;
+  access_token_encrypted: string | null;
+  refresh_token_encrypted: string | null;
+  access_token_expires_at: string | null;
+}
+
+/** Columns to write back to persona_social_accounts after a refresh. */
+export interface RefreshedTokenUpdate {
+  access_token_encrypted: string | null;
+  refresh_token_encrypted: string | null;
+  access_token_expires_at: string | null;
+  last_token_refresh_at: string;
+  last_token_error: null;
+  status: "connected";
+}
+
+/** Columns to write back to persona_social_accounts after a failed refresh. */
+export interface RefreshFailureUpdate {
+  status: ConnectionStatus;
+  last_token_error: string;
+}
+
+// Facebook's OAuthException code 190 subcodes for a grant the user ended:
+// app removed (458) or password changed (460)
+const FACEBOOK_REVOKED_SUBCODES = [458, 460];
+
+/**
+ * Whether the provider said the grant itself is gone: OAuth's invalid_grant,
+ * or Facebook's OAuthException 190 with a revocation subcode. Other 400s
+ * (a malformed request, a bad client id) don't say anything about the grant.
+ */
+function isRevokedGrant(error: PlatformApiError): boolean {
+  if (error.status !== 400 || !error.responseBody) {
+    return false;
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(error.responseBody) as Record<string, unknown>;
+  } catch {
+    return false;
+  }
+
+  if (body.error === "invalid_grant") {
+    return true;
+  }
+
+  const facebookError = body.error as Record<string, unknown> | undefined;
+  return (
+    typeof facebookError === "object" &&
+    facebookError !== null &&
+    facebookError.code === 190 &&
+    FACEBOOK_REVOKED_SUBCODES.includes(facebookError.error_subcode as number)
+  );
+}
+
+/**
+ * Decides what a failed refresh means for the account. Only a revoked or
+ * dead grant (see isRevokedGrant) marks the account revoked. Anything else
+ * (outages, rate limits, other 400s, a 401 from bad app credentials) isn't
+ * proof the user disconnected: the account stays connected while its access
+ * token still works and becomes expired after that.
+ */
+export function resolveRefreshFailure(
+  error: unknown,
+  accessTokenExpiresAt: string | null,
+  now: Date = new Date()
+): RefreshFailureUpdate {
+  const message = (error instanceof Error ? error.message : String(error)).substring(0, 500);
+
+  if (error instanceof PlatformApiError && isRevokedGrant(error)) {
+    return { status: "revoked", last_token_error: message };
+  }
+
+  const stillValid =
+    accessTokenExpiresAt !== null && new Date(accessTokenExpiresAt).getTime() > now.getTime();
+
+  return { status: stillValid ? "connected" : "expired", last_token_error: message };
+}
+
+export async function decryptStoredTokens(
+  account: Pick<StoredTokenAccount, "access_token_encrypted" | "refresh_token_encrypted">,
+  keyring: SecretKeyring
+): Promise<{ accessToken: string | null; refreshToken: string | null }> {
+  const [accessToken, refreshToken] = await Promise.all([
+    decryptStoredSecret(account.access_token_encrypted, keyring),
+    decryptStoredSecret(account.refresh_token_encrypted, keyring),
+  ]);
+  return { accessToken, refreshToken };
+}
+
+/**
+ * Refreshes an account's tokens through its publisher and encrypts the result
+ * for storage. Persisting the update is left to the caller, since the app and
+ * the edge functions use different Supabase clients. Throws when the platform
+ * rejects the refresh.
+ */
+export async function refreshStoredTokens(
+  account: StoredTokenAccount,
+  publisher: PlatformPublisher,
+  credentials: { clientId: string; clientSecret: string },
+  keyring: SecretKeyring,
+  now: Date = new Date()
+): Promise<{ accessToken: string; update: RefreshedTokenUpdate }> {
+  const { accessToken, refreshToken } = await decryptStoredTokens(account, keyring);
+
+  const refreshed = await publisher.refreshToken({
+    accessToken,
+    refreshToken,
+    ...credentials,
+  });
+
+  return {
+    accessToken: refreshed.accessToken,
+    update: {
+      access_token_encrypted: await encryptStoredSecret(refreshed.accessToken, keyring),
+      // Keep the stored refresh token unless the provider rotated it
+      refresh_token_encrypted: refreshed.refreshToken
+        ? await encryptStoredSecret(refreshed.refreshToken, keyring)
+        : account.refresh_token_encrypted,
+      access_token_expires_at: refreshed.expiresIn
+        ? new Date(now.getTime() + refreshed.expiresIn * 1000).toISOString()
+        : account.access_token_expires_at,
+      last_token_refresh_at: now.toISOString(),
+      last_token_error: null,
+      status: "connected",
+    },
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Platform publisher contracts.
+ *
+ * Everything under lib/publishing is runtime-agnostic: it only relies on
+ * fetch, URLSearchParams, FormData, Blob and btoa so it can be imported both
+ * by the Next.js app and by the Deno postScheduler edge function. Keep
+ * imports relative and with explicit `.ts` extensions so Deno can resolve
+ * them.
+ */
+
+export type PublishablePlatformId = "reddit" | "x" | "linkedin" | "facebook";
+
+/**
+ * The subset of a persona_social_accounts row a publisher needs to address
+ * the platform on behalf of the account.
+ */
+export interface PublisherAccount {
+  id: string;
+  platformAccountId: string | null;
+  providerAccountId: string | null;
+  providerUsername: string | null;
+  accountHandle: string | null;
+}
+
+/** An image attached to a post, stored in the media library bucket. */
+export interface PublishMedia {
+  id: string;
+  storagePath: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  altText: string | null;
+}
+
+/** Fetches an attachment's bytes so a publisher can upload them. */
+export type MediaLoader = (media: PublishMedia) => Promise<Blob>;
+
+export interface PublishRequest {
+  title: string;
+  text: string;
+  /** Raw content_json of the campaign post (may carry platform hints). */
+  content: Record<string, unknown>;
+  platformOptions: Record<string, unknown>;
+  media: PublishMedia[];
+  account: PublisherAccount;
+}
+
+export interface PublishValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * What a publisher would send for a request, rendered without calling the
+ * platform. Dry runs store this instead of publishing.
+ */
+export interface PublishPreview {
+  platformId: string;
+  /** Where the post would land: subreddit, page, author or handle. */
+  target: string | null;
+  endpoint: string | null;
+  body: Record<string, unknown>;
+}
+
+export interface PublishResult {
+  externalId: string;
+  url: string;
+}
+
+export type PublishedPostState = "live" | "removed" | "not_found" | "unknown";
+
+export interface PublishedPostStatus {
+  externalId: string;
+  state: PublishedPostState;
+  url: string | null;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Engagement counters for a published post. Each platform reports a
+ * different subset; counters it doesn't report are null.
+ */
+export interface PostMetrics {
+  externalId: string;
+  score: number | null;
+  /** Share of votes that are upvotes, 0-1 (Reddit only). */
+  upvoteRatio: number | null;
+  likes: number | null;
+  comments: number | null;
+  shares: number | null;
+  impressions: number | null;
+  raw: Record<string, unknown>;
+}
+
+export interface PublisherSession {
+  accessToken: string;
+  account: PublisherAccount;
+  /** Required to publish requests that carry media. */
+  loadMedia?: MediaLoader;
+}
+
+export interface TokenRefreshInput {
+  accessToken: string | null;
+  refreshToken: string | null;
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface TokenRefreshResult {
+  accessToken: string;
+  /** The refresh token to persist; providers may rotate it. */
+  refreshToken: string | null;
+  /** Seconds until the new access token expires, when the provider says. */
+  expiresIn: number | null;
+}
+
+/**
+ * Overrides used to point an adapter at a different host (e.g. a local HTTP
+ * stand-in of the platform API) or to swap the fetch implementation.
+ */
+export interface PublisherOptions {
+  apiBaseUrl?: string;
+  authBaseUrl?: string;
+  fetch?: typeof fetch;
+  userAgent?: string;
+}
+
+export interface PlatformPublisher {
+  platformId: PublishablePlatformId;
+  /** Checks the request against platform rules before any network call. */
+  validate(request: PublishRequest): PublishValidationResult;
+  /** Exchanges stored credentials for a fresh access token. */
+  refreshToken(input: TokenRefreshInput): Promise<TokenRefreshResult>;
+  /** Renders the request the way publish() would send it, without sending. */
+  preview(request: PublishRequest): PublishPreview;
+  publish(
+    request: PublishRequest,
+    session: PublisherSession
+  ): Promise<PublishResult>;
+  fetchStatus(
+    externalId: string,
+    session: PublisherSession
+  ): Promise<PublishedPostStatus>;
+  fetchMetrics(externalId: string, session: PublisherSession): Promise<PostMetrics>;
+  /**
+   * Checks a post the way a logged-out visitor sees it, to catch removals
+   * the author's own view hides. Absent where the public page can't be read
+   * without a session.
+   */
+  fetchPublicStatus?(postUrl: string): Promise<PublishedPostState>;
+  /**
+   * Replaces the text of a published post with the request's text. Absent
+   * on platforms whose API can't edit posts.
+   */
+  editPost?(
+    externalId: string,
+    request: PublishRequest,
+    session: PublisherSession
+  ): Promise<void>;
+  /** Deletes a published post. A post that is already gone counts as deleted. */
+  deletePost(externalId: string, session: PublisherSession): Promise<void>;
+}
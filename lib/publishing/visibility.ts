@@ -0,0 +1,140 @@
+import type { PublishedPostState, PublishedPostStatus } from "./types.ts";
+
+/**
+ * When to re-check a post after it goes out, in minutes after posted_at.
+ * AutoModerator acts within minutes; human moderators within hours.
+ */
+export const VISIBILITY_CHECK_OFFSETS_MINUTES = [10, 60, 6 * 60, 24 * 60];
+
+/**
+ * What the rest of the platform sees. "shadow_removed" posts still look
+ * live to their author but are hidden from logged-out visitors, which is
+ * how Reddit's spam filter and shadow bans behave.
+ */
+export type PostVisibilityState =
+  | "visible"
+  | "removed"
+  | "shadow_removed"
+  | "not_found"
+  | "unknown";
+
+/** Stored on campaign_posts.visibility after each check. */
+export interface PostVisibility {
+  state: PostVisibilityState;
+  /** What the platform API, called as the author, reported. */
+  api_state: PublishedPostState;
+  /** What a logged-out fetch of post_url showed; null when not checked. */
+  public_state: PublishedPostState | null;
+  /** The platform's removal reason, e.g. Reddit's removed_by_category. */
+  reason: string | null;
+  checked_at: string;
+}
+
+const REMOVED_STATES = new Set<PostVisibilityState>(["removed", "shadow_removed"]);
+
+export function isRemovedVisibility(state: PostVisibilityState | null | undefined): boolean {
+  return Boolean(state && REMOVED_STATES.has(state));
+}
+
+/**
+ * Whether the next scheduled check for a post is due. Posts past the last
+ * offset are never checked again.
+ */
+export function isVisibilityCheckDue(
+  postedAt: string | null,
+  checksDone: number,
+  now: Date
+): boolean {
+  const offset = VISIBILITY_CHECK_OFFSETS_MINUTES[checksDone];
+  if (!postedAt || offset === undefined) {
+    return false;
+  }
+  return new Date(postedAt).getTime() + offset * 60 * 1000 <= now.getTime();
+}
+
+/** Oldest posted_at that could still have a check pending. */
+export function visibilityCheckWindowStart(now: Date): Date {
+  const lastOffset = VISIBILITY_CHECK_OFFSETS_MINUTES[VISIBILITY_CHECK_OFFSETS_MINUTES.length - 1];
+  // An extra hour so a late-running job still gets the final check in
+  return new Date(now.getTime() - (lastOffset + 60) * 60 * 1000);
+}
+
+/**
+ * Combines the author's view of a post with the public one.
+ */
+export function resolveVisibility(
+  apiStatus: PublishedPostStatus,
+  publicState: PublishedPostState | null,
+  checkedAt: string
+): PostVisibility {
+  let state: PostVisibilityState;
+  if (apiStatus.state === "removed") {
+    state = "removed";
+  } else if (apiStatus.state === "not_found") {
+    state = "not_found";
+  } else if (apiStatus.state === "unknown") {
+    state = "unknown";
+  } else if (publicState === "removed" || publicState === "not_found") {
+    state = "shadow_removed";
+  } else {
+    state = "visible";
+  }
+
+  const reason = apiStatus.raw.removed_by_category;
+
+  return {
+    state,
+    api_state: apiStatus.state,
+    public_state: publicState,
+    reason: typeof reason === "string" ? reason : null,
+    checked_at: checkedAt,
+  };
+}
+
+export interface CommunityRemovalRate {
+  community: string;
+  checked: number;
+  removed: number;
+  removalRate: number;
+  /** Enough removals that new posts there are refused. */
+  blocked: boolean;
+}
+
+// A single removal in a new community is noise, not a pattern
+export const MIN_POSTS_FOR_REMOVAL_RATE = 3;
+export const BLOCKING_REMOVAL_RATE = 0.5;
+/** How far back removals count; communities recover once they age out. */
+export const REMOVAL_RATE_WINDOW_DAYS = 30;
+
+/**
+ * Aggregates checked posts per community, worst first.
+ */
+export function aggregateRemovalRates(
+  posts: Array<{ community: string | null; visibility: PostVisibility | null }>
+): CommunityRemovalRate[] {
+  const totals = new Map<string, { checked: number; removed: number }>();
+
+  for (const post of posts) {
+    if (!post.community || !post.visibility || post.visibility.state === "unknown") {
+      continue;
+    }
+    const key = post.community.toLowerCase();
+    const total = totals.get(key) ?? { checked: 0, removed: 0 };
+    total.checked += 1;
+    if (isRemovedVisibility(post.visibility.state)) {
+      total.removed += 1;
+    }
+    totals.set(key, total);
+  }
+
+  return Array.from(totals, ([community, { checked, removed }]) => {
+    const removalRate = removed / checked;
+    return {
+      community,
+      checked,
+      removed,
+      removalRate,
+      blocked: checked >= MIN_POSTS_FOR_REMOVAL_RATE && removalRate >= BLOCKING_REMOVAL_RATE,
+    };
+  }).sort((a, b) => b.removalRate - a.removalRate || b.checked - a.checked);
+}
@@ -0,0 +1,320 @@
+import {
+  PlatformApiError,
+  basicAuthHeader,
+  parseTokenResponse,
+  readApiErrorMessage,
+  resolveFetch,
+  toCount,
+  trimBaseUrl,
+  UnconfirmedPublishError,
+} from "./http.ts";
+import { validateMedia } from "./media.ts";
+import type {
+  PlatformPublisher,
+  PublisherAccount,
+  PublisherOptions,
+  PublisherSession,
+  PublishMedia,
+  PublishRequest,
+} from "./types.ts";
+
+const DEFAULT_API_BASE_URL = "https://api.twitter.com";
+const X_MAX_POST_LENGTH = 280;
+
+function toPostUrl(externalId: string, account: PublisherAccount): string {
+  const username = account.providerUsername ?? account.accountHandle;
+  if (username) {
+    return `https://x.com/${username.replace(/^@/, "")}/status/${externalId}`;
+  }
+  return `https://x.com/i/web/status/${externalId}`;
+}
+
+function buildPostBody(
+  request: PublishRequest,
+  mediaIds: string[] = []
+): Record<string, unknown> {
+  return mediaIds.length > 0
+    ? { text: request.text, media: { media_ids: mediaIds } }
+    : { text: request.text };
+}
+
+/**
+ * Publisher for X (Twitter) using the v2 API with OAuth 2.0 user tokens.
+ * Only the post text and images are sent; titles are a Reddit concept.
+ * Image uploads need the media.write scope.
+ */
+export function createXPublisher(
+  options: PublisherOptions = {}
+): PlatformPublisher {
+  const apiBaseUrl = trimBaseUrl(options.apiBaseUrl ?? DEFAULT_API_BASE_URL);
+  // X serves its OAuth2 token endpoint from the API host.
+  const authBaseUrl = trimBaseUrl(options.authBaseUrl ?? apiBaseUrl);
+  const fetchImpl = resolveFetch(options);
+
+  /**
+   * Uploads one image and sets its alt text. Returns the media id to attach.
+   */
+  const uploadMedia = async (
+    media: PublishMedia,
+    session: PublisherSession
+  ): Promise<string> => {
+    if (!session.loadMedia) {
+      throw new Error("Cannot upload media without a media loader");
+    }
+
+    const form = new FormData();
+    form.append("media", await session.loadMedia(media), media.fileName);
+    form.append("media_category", "tweet_image");
+
+    const response = await fetchImpl(`${apiBaseUrl}/2/media/upload`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${session.accessToken}` },
+      body: form,
+    });
+
+    if (!response.ok) {
+      throw new PlatformApiError(
+        "x",
+        response.status,
+        await readApiErrorMessage(response, "X media upload error")
+      );
+    }
+
+    const json = await response.json();
+    const mediaId = json?.data?.id as string | undefined;
+    if (!mediaId) {
+      console.error("X media upload response missing id:", json);
+      throw new Error("X media upload response missing media ID");
+    }
+
+    if (media.altText) {
+      const altResponse = await fetchImpl(`${apiBaseUrl}/2/media/metadata`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          id: mediaId,
+          metadata: { alt_text: { text: media.altText.slice(0, 1000) } },
+        }),
+      });
+      // Alt text is nice to have; don't fail the post over it
+      if (!altResponse.ok) {
+        console.error("X alt text update failed:", altResponse.status);
+      }
+    }
+
+    return mediaId;
+  };
+
+  return {
+    platformId: "x",
+
+    validate(request) {
+      const mediaValidation = validateMedia("x", request.media);
+      if (!mediaValidation.valid) {
+        return mediaValidation;
+      }
+
+      if (
+        request.media.length === 0 &&
+        (!request.text || request.text.trim().length === 0)
+      ) {
+        return { valid: false, error: "Text content is required" };
+      }
+
+      if (request.text.length > X_MAX_POST_LENGTH) {
+        return {
+          valid: false,
+          error: `Text exceeds ${X_MAX_POST_LENGTH} character limit (${request.text.length} chars)`,
+        };
+      }
+
+      return { valid: true };
+    },
+
+    async refreshToken(input) {
+      if (!input.refreshToken) {
+        throw new Error("No refresh token available for X account");
+      }
+
+      const response = await fetchImpl(`${authBaseUrl}/2/oauth2/token`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Authorization: basicAuthHeader(input.clientId, input.clientSecret),
+        },
+        body: new URLSearchParams({
+          grant_type: "refresh_token",
+          refresh_token: input.refreshToken,
+          client_id: input.clientId,
+        }),
+      });
+
+      if (!response.ok) {
+        const payload = await response.text();
+        console.error("X token refresh failed:", response.status, payload);
+        throw new PlatformApiError(
+          "x",
+          response.status,
+          "Failed to refresh X access token",
+          payload
+        );
+      }
+
+      const result = parseTokenResponse(await response.json(), input.refreshToken);
+      if (!result) {
+        throw new Error("X refresh response missing access token");
+      }
+
+      return result;
+    },
+
+    preview(request) {
+      return {
+        platformId: "x",
+        target: request.account.accountHandle ?? request.account.providerUsername,
+        endpoint: `${apiBaseUrl}/2/tweets`,
+        body: buildPostBody(
+          request,
+          request.media.map((media) => `(uploaded from ${media.storagePath})`)
+        ),
+      };
+    },
+
+    async publish(request, session) {
+      const mediaIds: string[] = [];
+      for (const media of request.media) {
+        mediaIds.push(await uploadMedia(media, session));
+      }
+
+      const response = await fetchImpl(`${apiBaseUrl}/2/tweets`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(buildPostBody(request, mediaIds)),
+      });
+
+      if (!response.ok) {
+        const errorMessage = await readApiErrorMessage(response, "X API error");
+        console.error("X post submission failed:", {
+          status: response.status,
+          statusText: response.statusText,
+        });
+        throw new PlatformApiError("x", response.status, errorMessage);
+      }
+
+      const json = await response.json();
+      const postId = json?.data?.id as string | undefined;
+
+      if (!postId) {
+        console.error("X response missing post data:", json);
+        throw new UnconfirmedPublishError("x", "X response missing post ID");
+      }
+
+      return {
+        externalId: postId,
+        url: toPostUrl(postId, session.account),
+      };
+    },
+
+    async fetchStatus(externalId, session) {
+      const response = await fetchImpl(
+        `${apiBaseUrl}/2/tweets/${encodeURIComponent(externalId)}`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.accessToken}`,
+          },
+        }
+      );
+
+      if (response.status === 404) {
+        return { externalId, state: "not_found", url: null, raw: {} };
+      }
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "x",
+          response.status,
+          await readApiErrorMessage(response, "X API error")
+        );
+      }
+
+      const json = await response.json();
+
+      // X answers 200 with an errors array for deleted or withheld posts
+      if (!json?.data) {
+        return { externalId, state: "removed", url: null, raw: json ?? {} };
+      }
+
+      return {
+        externalId,
+        state: "live",
+        url: toPostUrl(externalId, session.account),
+        raw: json.data,
+      };
+    },
+
+    async fetchMetrics(externalId, session) {
+      const response = await fetchImpl(
+        `${apiBaseUrl}/2/tweets/${encodeURIComponent(externalId)}?tweet.fields=public_metrics`,
+        {
+          headers: {
+            Authorization: `Bearer ${session.accessToken}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "x",
+          response.status,
+          await readApiErrorMessage(response, "X API error")
+        );
+      }
+
+      const json = await response.json();
+      const metrics = (json?.data?.public_metrics ?? {}) as Record<string, unknown>;
+      const retweets = toCount(metrics.retweet_count);
+      const quotes = toCount(metrics.quote_count);
+
+      return {
+        externalId,
+        score: null,
+        upvoteRatio: null,
+        likes: toCount(metrics.like_count),
+        comments: toCount(metrics.reply_count),
+        shares: retweets === null && quotes === null ? null : (retweets ?? 0) + (quotes ?? 0),
+        impressions: toCount(metrics.impression_count),
+        raw: metrics,
+      };
+    },
+
+    async deletePost(externalId, session) {
+      const response = await fetchImpl(
+        `${apiBaseUrl}/2/tweets/${encodeURIComponent(externalId)}`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${session.accessToken}`,
+          },
+        }
+      );
+
+      if (response.status === 404) {
+        return;
+      }
+
+      if (!response.ok) {
+        throw new PlatformApiError(
+          "x",
+          response.status,
+          await readApiErrorMessage(response, "X API error")
+        );
+      }
+    },
+  };
+}
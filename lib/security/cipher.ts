@@ -0,0 +1,305 @@
+/**
+ * AES-256-GCM encryption for OAuth secrets stored on persona_social_accounts.
+ *
+ * Runtime-agnostic: it only uses WebCrypto and atob, so the Next.js app
+ * (lib/security/encryption.ts) and the Deno edge functions
+ * (supabase/functions/_shared/secrets.ts) share this one implementation.
+ * Keep imports relative with explicit `.ts` extensions.
+ *
+ * Payload format: [marker (4 bytes)][key id length (1 byte)][key id]
+ * [IV (12 bytes)][auth tag (16 bytes)][ciphertext], stored in bytea columns
+ * as a `\x`-prefixed hex string. The key id says which keyring entry sealed
+ * the secret, so keys can be rotated. Payloads written before key ids existed
+ * lack the marker and key id; those are tried against every key.
+ */
+
+export const SECRET_IV_LENGTH = 12;
+export const SECRET_AUTH_TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+const VERSIONED_MARKER = [0xdc, 0x4b, 0x49, 0x01];
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * The keys secrets can be read with. New secrets are always sealed with the
+ * primary key; the others stay around for decryption until the
+ * secretRotation job has moved every stored secret onto the primary key.
+ */
+export interface SecretKeyring {
+  primaryKeyId: string;
+  /** Base64 AES-256 keys by key id, including the primary. */
+  keys: Record<string, string>;
+}
+
+export const DEFAULT_KEY_ID = "default";
+
+/**
+ * Builds a keyring from the SOCIAL_OAUTH_ENCRYPTION_* settings:
+ * the primary key and its id, plus previous keys as "id:base64,id:base64".
+ * Throws on malformed settings.
+ */
+export function parseKeyring(config: {
+  primaryKey: string | null | undefined;
+  primaryKeyId?: string | null;
+  previousKeys?: string | null;
+}): SecretKeyring {
+  if (!config.primaryKey) {
+    throw new Error(
+      "Missing SOCIAL_OAUTH_ENCRYPTION_KEY environment variable for OAuth secret encryption"
+    );
+  }
+
+  const primaryKeyId = config.primaryKeyId || DEFAULT_KEY_ID;
+  const keys: Record<string, string> = {};
+
+  for (const entry of (config.previousKeys ?? "").split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) {
+      continue;
+    }
+    const separator = trimmed.indexOf(":");
+    if (separator <= 0) {
+      throw new Error(
+        'SOCIAL_OAUTH_ENCRYPTION_PREVIOUS_KEYS entries must look like "key-id:base64-key"'
+      );
+    }
+    keys[trimmed.slice(0, separator)] = trimmed.slice(separator + 1);
+  }
+  keys[primaryKeyId] = config.primaryKey;
+
+  for (const [keyId, keyBase64] of Object.entries(keys)) {
+    if (!KEY_ID_PATTERN.test(keyId)) {
+      throw new Error(
+        `Invalid encryption key id "${keyId}": use up to 64 letters, digits, "-" or "_"`
+      );
+    }
+    if (decodeBase64(keyBase64).length !== KEY_LENGTH) {
+      throw new Error(
+        `Encryption key "${keyId}" must be a 32-byte base64-encoded string (256-bit)`
+      );
+    }
+  }
+
+  return { primaryKeyId, keys };
+}
+
+function decodeBase64(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+async function importKey(
+  keyBase64: string,
+  usage: "encrypt" | "decrypt"
+): Promise<CryptoKey> {
+  const keyBytes = decodeBase64(keyBase64);
+  if (keyBytes.length !== KEY_LENGTH) {
+    throw new Error("Encryption key must be a 32-byte base64-encoded string (256-bit)");
+  }
+
+  return crypto.subtle.importKey("raw", keyBytes, { name: "AES-GCM" }, false, [usage]);
+}
+
+/**
+ * Reads a bytea column value. PostgREST returns `\x`-prefixed hex; older rows
+ * may hold base64.
+ */
+export function byteaToBytes(value: string | null | undefined): Uint8Array | null {
+  if (!value) {
+    return null;
+  }
+
+  if (value.startsWith("\\x")) {
+    const hex = value.slice(2);
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let index = 0; index < bytes.length; index += 1) {
+      bytes[index] = parseInt(hex.slice(index * 2, index * 2 + 2), 16);
+    }
+    return bytes;
+  }
+
+  return decodeBase64(value);
+}
+
+/**
+ * Formats bytes the way Supabase expects bytea values (hex with \x prefix).
+ */
+export function toByteaHex(bytes: Uint8Array): string {
+  return (
+    "\\x" +
+    Array.from(bytes)
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("")
+  );
+}
+
+/**
+ * Splits a versioned payload into its key id and the sealed secret. Returns
+ * null for payloads written before key ids existed.
+ */
+function parseVersionedPayload(
+  payload: Uint8Array
+): { keyId: string; sealed: Uint8Array } | null {
+  const headerLength = VERSIONED_MARKER.length + 1;
+  if (
+    payload.length < headerLength ||
+    VERSIONED_MARKER.some((byte, index) => payload[index] !== byte)
+  ) {
+    return null;
+  }
+
+  const keyIdLength = payload[VERSIONED_MARKER.length];
+  const sealedStart = headerLength + keyIdLength;
+  if (keyIdLength === 0 || payload.length < sealedStart) {
+    return null;
+  }
+
+  return {
+    keyId: new TextDecoder().decode(payload.subarray(headerLength, sealedStart)),
+    sealed: payload.subarray(sealedStart),
+  };
+}
+
+function withKeyId(keyId: string, sealed: Uint8Array): Uint8Array {
+  const keyIdBytes = new TextEncoder().encode(keyId);
+  const headerLength = VERSIONED_MARKER.length + 1;
+  const payload = new Uint8Array(headerLength + keyIdBytes.length + sealed.length);
+  payload.set(VERSIONED_MARKER, 0);
+  payload[VERSIONED_MARKER.length] = keyIdBytes.length;
+  payload.set(keyIdBytes, headerLength);
+  payload.set(sealed, headerLength + keyIdBytes.length);
+  return payload;
+}
+
+export async function encryptBytes(
+  plaintext: string,
+  keyBase64: string
+): Promise<Uint8Array> {
+  const key = await importKey(keyBase64, "encrypt");
+  const iv = crypto.getRandomValues(new Uint8Array(SECRET_IV_LENGTH));
+
+  // WebCrypto appends the tag to the ciphertext; the stored format leads with it
+  const sealed = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, tagLength: SECRET_AUTH_TAG_LENGTH * 8 },
+      key,
+      new TextEncoder().encode(plaintext)
+    )
+  );
+  const ciphertext = sealed.subarray(0, sealed.length - SECRET_AUTH_TAG_LENGTH);
+  const authTag = sealed.subarray(sealed.length - SECRET_AUTH_TAG_LENGTH);
+
+  const payload = new Uint8Array(SECRET_IV_LENGTH + SECRET_AUTH_TAG_LENGTH + ciphertext.length);
+  payload.set(iv, 0);
+  payload.set(authTag, SECRET_IV_LENGTH);
+  payload.set(ciphertext, SECRET_IV_LENGTH + SECRET_AUTH_TAG_LENGTH);
+  return payload;
+}
+
+/**
+ * Throws if the payload is malformed or was not encrypted with this key.
+ */
+export async function decryptBytes(
+  payload: Uint8Array,
+  keyBase64: string
+): Promise<string> {
+  if (payload.length < SECRET_IV_LENGTH + SECRET_AUTH_TAG_LENGTH) {
+    throw new Error("Invalid encrypted payload");
+  }
+
+  const key = await importKey(keyBase64, "decrypt");
+  const iv = payload.slice(0, SECRET_IV_LENGTH);
+  const authTag = payload.subarray(SECRET_IV_LENGTH, SECRET_IV_LENGTH + SECRET_AUTH_TAG_LENGTH);
+  const ciphertext = payload.subarray(SECRET_IV_LENGTH + SECRET_AUTH_TAG_LENGTH);
+
+  const sealed = new Uint8Array(ciphertext.length + authTag.length);
+  sealed.set(ciphertext, 0);
+  sealed.set(authTag, ciphertext.length);
+
+  const decrypted = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv, tagLength: SECRET_AUTH_TAG_LENGTH * 8 },
+    key,
+    sealed
+  );
+  return new TextDecoder().decode(decrypted);
+}
+
+/**
+ * Encrypts a secret with the keyring's primary key into the bytea value to
+ * store. Empty secrets store null.
+ */
+export async function encryptStoredSecret(
+  plaintext: string | null | undefined,
+  keyring: SecretKeyring
+): Promise<string | null> {
+  if (!plaintext) {
+    return null;
+  }
+  const sealed = await encryptBytes(plaintext, keyring.keys[keyring.primaryKeyId]);
+  return toByteaHex(withKeyId(keyring.primaryKeyId, sealed));
+}
+
+/**
+ * The id of the key a stored secret was sealed with; null for secrets
+ * written before key ids existed (or when nothing is stored).
+ */
+export function readStoredSecretKeyId(stored: string | null | undefined): string | null {
+  const payload = byteaToBytes(stored);
+  return payload ? (parseVersionedPayload(payload)?.keyId ?? null) : null;
+}
+
+/**
+ * Decrypts a stored bytea value; null when nothing is stored. Throws if no
+ * key in the keyring can decrypt it.
+ */
+export async function decryptStoredSecret(
+  stored: string | null | undefined,
+  keyring: SecretKeyring
+): Promise<string | null> {
+  const payload = byteaToBytes(stored);
+  if (!payload) {
+    return null;
+  }
+
+  let failure: unknown = null;
+  const versioned = parseVersionedPayload(payload);
+  if (versioned) {
+    const keyBase64 = keyring.keys[versioned.keyId];
+    try {
+      if (!keyBase64) {
+        throw new Error(`No encryption key configured for key id "${versioned.keyId}"`);
+      }
+      return await decryptBytes(versioned.sealed, keyBase64);
+    } catch (error) {
+      // A legacy IV can start with the marker by chance; fall through
+      failure = error;
+    }
+  }
+
+  // Legacy payloads don't say which key sealed them; primary first
+  const keyIds = [
+    keyring.primaryKeyId,
+    ...Object.keys(keyring.keys).filter((keyId) => keyId !== keyring.primaryKeyId),
+  ];
+  for (const keyId of keyIds) {
+    try {
+      return await decryptBytes(payload, keyring.keys[keyId]);
+    } catch (error) {
+      failure = failure ?? error;
+    }
+  }
+
+  throw failure ?? new Error("Stored secret could not be decrypted");
+}
+
+/**
+ * Re-seals a stored secret with the primary key. Returns null when it is
+ * already sealed with the primary key or nothing is stored.
+ */
+export async function reencryptStoredSecret(
+  stored: string | null | undefined,
+  keyring: SecretKeyring
+): Promise<string | null> {
+  if (!stored || readStoredSecretKeyId(stored) === keyring.primaryKeyId) {
+    return null;
+  }
+  return encryptStoredSecret(await decryptStoredSecret(stored, keyring), keyring);
+}
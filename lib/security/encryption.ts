@@ -1,60 +1,43 @@
-import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
-
-const IV_LENGTH = 12; // AES-256-GCM recommended IV size
-const AUTH_TAG_LENGTH = 16;
-
-function getEncryptionKey() {
-  const keyBase64 = process.env.SOCIAL_OAUTH_ENCRYPTION_KEY;
-  if (!keyBase64) {
-    throw new Error(
-      "Missing SOCIAL_OAUTH_ENCRYPTION_KEY environment variable for OAuth secret encryption"
-    );
-  }
-
-  const key = Buffer.from(keyBase64, "base64");
-
-  if (key.length !== 32) {
-    throw new Error(
-      "SOCIAL_OAUTH_ENCRYPTION_KEY must be a 32-byte base64-encoded string (256-bit)"
-    );
-  }
-
-  return key;
+import {
+  decryptStoredSecret,
+  encryptStoredSecret,
+  parseKeyring,
+  type SecretKeyring,
+} from "./cipher.ts";
+
+/**
+ * The keyring shared with the edge functions: SOCIAL_OAUTH_ENCRYPTION_KEY
+ * (id SOCIAL_OAUTH_ENCRYPTION_KEY_ID) seals new secrets, and
+ * SOCIAL_OAUTH_ENCRYPTION_PREVIOUS_KEYS still decrypts older ones. Throws if
+ * the settings are missing or malformed.
+ */
+export function getEncryptionKeyring(): SecretKeyring {
+  return parseKeyring({
+    primaryKey: process.env.SOCIAL_OAUTH_ENCRYPTION_KEY,
+    primaryKeyId: process.env.SOCIAL_OAUTH_ENCRYPTION_KEY_ID,
+    previousKeys: process.env.SOCIAL_OAUTH_ENCRYPTION_PREVIOUS_KEYS,
+  });
 }
 
-export function encryptSecret(plaintext: string) {
+/**
+ * Encrypts a secret into the `\x` hex bytea value stored on
+ * persona_social_accounts. Returns null for empty secrets.
+ */
+export async function encryptSecret(plaintext: string | null | undefined) {
   if (!plaintext) {
     return null;
   }
 
-  const key = getEncryptionKey();
-  const iv = randomBytes(IV_LENGTH);
-  const cipher = createCipheriv("aes-256-gcm", key, iv);
-  const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
-  const authTag = cipher.getAuthTag();
-
-  return Buffer.concat([iv, authTag, encrypted]);
+  return encryptStoredSecret(plaintext, getEncryptionKeyring());
 }
 
-export function decryptSecret(payload: Buffer | null) {
-  if (!payload) {
+/**
+ * Decrypts a stored bytea value. Throws if it can't be decrypted.
+ */
+export async function decryptSecret(stored: string | null | undefined) {
+  if (!stored) {
     return null;
   }
 
-  if (payload.length < IV_LENGTH + AUTH_TAG_LENGTH) {
-    throw new Error("Invalid encrypted payload");
-  }
-
-  const key = getEncryptionKey();
-  const iv = payload.subarray(0, IV_LENGTH);
-  const authTag = payload.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
-  const ciphertext = payload.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
-
-  const decipher = createDecipheriv("aes-256-gcm", key, iv);
-  decipher.setAuthTag(authTag);
-
-  const decrypted = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
-
-  return decrypted.toString("utf8");
+  return decryptStoredSecret(stored, getEncryptionKeyring());
 }
-
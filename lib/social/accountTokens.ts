@@ -0,0 +1,152 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import { decryptSecret, getEncryptionKeyring } from "@/lib/security/encryption";
+import {
+  resolvePlatformClientId,
+  resolvePlatformClientSecret,
+} from "@/lib/social/oauth";
+import {
+  getPlatformPublisher,
+  isTokenExpired,
+  refreshStoredTokens,
+  resolveRefreshFailure,
+} from "@/lib/publishing";
+import type { ConnectionHealth, PersonaSocialAccount } from "@/types/social";
+
+export { isTokenExpired };
+
+type EncryptedTokenFields = {
+  access_token_encrypted: string | null;
+  refresh_token_encrypted: string | null;
+};
+
+/**
+ * Refreshes an account's access token through its platform publisher now,
+ * whatever its expiry. A failure is recorded on the account (and may mark it
+ * expired or revoked) before being rethrown.
+ */
+export async function refreshAccountToken(
+  account: PersonaSocialAccount
+): Promise<PersonaSocialAccount> {
+  const publisher = getPlatformPublisher(account.platform_id);
+  if (!publisher) {
+    throw new Error(`Token refresh is not supported for ${account.platform_id}`);
+  }
+
+  const supabase = createSupabaseServiceClient();
+
+  // Fetch the full account record with encrypted tokens
+  const { data: fullAccount, error: fetchError } = await supabase
+    .from("persona_social_accounts")
+    .select("*")
+    .eq("id", account.id)
+    .single();
+
+  if (fetchError || !fullAccount) {
+    throw new Error("Failed to fetch account for token refresh");
+  }
+
+  // Encrypted fields are not in the public type
+  const encrypted = fullAccount as unknown as EncryptedTokenFields;
+
+  const { clientId } = resolvePlatformClientId(account.platform_id);
+  const { clientSecret } = resolvePlatformClientSecret(account.platform_id);
+
+  let updatePayload;
+  try {
+    ({ update: updatePayload } = await refreshStoredTokens(
+      {
+        platform_id: account.platform_id,
+        access_token_encrypted: encrypted.access_token_encrypted,
+        refresh_token_encrypted: encrypted.refresh_token_encrypted,
+        access_token_expires_at: fullAccount.access_token_expires_at,
+      },
+      publisher,
+      { clientId, clientSecret },
+      getEncryptionKeyring()
+    ));
+  } catch (error) {
+    // Skipped if another refresh landed meanwhile: providers that rotate
+    // refresh tokens reject the old one like a revoked grant
+    let failureUpdate = supabase
+      .from("persona_social_accounts")
+      .update(resolveRefreshFailure(error, fullAccount.access_token_expires_at))
+      .eq("id", account.id);
+    failureUpdate = fullAccount.last_token_refresh_at
+      ? failureUpdate.eq("last_token_refresh_at", fullAccount.last_token_refresh_at)
+      : failureUpdate.is("last_token_refresh_at", null);
+    await failureUpdate;
+    throw error;
+  }
+
+  const { data: updatedAccount, error: updateError } = await supabase
+    .from("persona_social_accounts")
+    .update(updatePayload)
+    .eq("id", account.id)
+    .select("*")
+    .single();
+
+  if (updateError || !updatedAccount) {
+    console.error("Failed to update account after token refresh:", updateError);
+    throw new Error("Failed to store refreshed tokens");
+  }
+
+  return updatedAccount as PersonaSocialAccount;
+}
+
+/**
+ * Refreshes an account's access token if it's expired or about to expire.
+ * Returns the updated account if a refresh occurred, null otherwise.
+ */
+export async function refreshAccountTokenIfNeeded(
+  account: PersonaSocialAccount
+): Promise<PersonaSocialAccount | null> {
+  if (!isTokenExpired(account.access_token_expires_at)) {
+    return null;
+  }
+
+  return refreshAccountToken(account);
+}
+
+/**
+ * Summarizes whether an account can still publish, for the connections UI.
+ */
+export function resolveConnectionHealth(
+  account: Pick<PersonaSocialAccount, "status" | "last_token_error">
+): ConnectionHealth {
+  if (account.status === "revoked" || account.status === "expired") {
+    return account.status;
+  }
+  return account.last_token_error ? "degraded" : "healthy";
+}
+
+/**
+ * Returns a usable, decrypted access token for an account, refreshing it
+ * first when needed (the refresh is persisted).
+ */
+export async function getAccountAccessToken(
+  account: PersonaSocialAccount
+): Promise<string> {
+  const updatedAccount = await refreshAccountTokenIfNeeded(account);
+  const accountId = (updatedAccount ?? account).id;
+
+  const supabase = createSupabaseServiceClient();
+  const { data: fullAccount, error: accountError } = await supabase
+    .from("persona_social_accounts")
+    .select("access_token_encrypted")
+    .eq("id", accountId)
+    .single();
+
+  if (accountError || !fullAccount) {
+    throw new Error("Failed to fetch account access token");
+  }
+
+  const accessToken = await decryptSecret(
+    fullAccount.access_token_encrypted as unknown as string
+  );
+
+  if (!accessToken) {
+    throw new Error("Unable to decrypt access token");
+  }
+
+  return accessToken;
+}
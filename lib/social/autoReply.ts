@@ -0,0 +1,306 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import { evaluateReplyPolicy, type ReplyPolicyEvaluation } from "@/lib/engagement";
+import {
+  claimEngagementItem,
+  draftPersonaReply,
+  postEngagementReply,
+  type PersonaVoice,
+} from "@/lib/social/engagementInbox";
+import { checkGuardrails } from "@/app/agents/guardrails";
+import type { GuardrailCheckResult, WorkflowGuardrails } from "@/app/agents/types";
+import type {
+  EngagementItem,
+  EngagementPolicyDecision,
+  EngagementReplyPolicy,
+} from "@/types/social";
+
+// Items evaluated per account per run; the rest wait for the next run
+const MAX_ITEMS_PER_ACCOUNT = 50;
+
+type PolicyWithPersona = EngagementReplyPolicy & {
+  persona_social_accounts: {
+    status: string;
+    personas: PersonaVoice;
+  };
+};
+
+export interface AutoReplyRunSummary {
+  evaluated: number;
+  autoReplied: number;
+  queuedForReview: number;
+  skipped: number;
+  failed: number;
+}
+
+async function logDecision(
+  item: EngagementItem,
+  policy: EngagementReplyPolicy,
+  evaluation: ReplyPolicyEvaluation,
+  outcome: EngagementPolicyDecision["outcome"],
+  details: {
+    replyText?: string;
+    guardrailResult?: GuardrailCheckResult;
+    error?: string;
+  } = {}
+): Promise<void> {
+  const supabase = createSupabaseServiceClient();
+
+  const { error } = await supabase.from("engagement_policy_decisions").insert({
+    engagement_item_id: item.id,
+    persona_social_account_id: item.persona_social_account_id,
+    policy_id: policy.id,
+    decision: evaluation.decision,
+    reasons: evaluation.reasons,
+    sentiment: evaluation.sentiment,
+    reply_text: details.replyText ?? null,
+    guardrail_result: details.guardrailResult ?? null,
+    outcome,
+    error: details.error ?? null,
+  });
+
+  if (error) {
+    console.error(`Failed to log policy decision for item ${item.id}:`, error);
+  }
+}
+
+/**
+ * Records the decision on the item itself so it is only evaluated once.
+ */
+async function markEvaluated(
+  item: EngagementItem,
+  evaluation: ReplyPolicyEvaluation,
+  update: Partial<EngagementItem> = {}
+): Promise<void> {
+  const supabase = createSupabaseServiceClient();
+
+  await supabase
+    .from("engagement_items")
+    .update({
+      ...update,
+      platform_context: {
+        ...item.platform_context,
+        ...update.platform_context,
+        policy: {
+          decision: evaluation.decision,
+          reasons: evaluation.reasons,
+          sentiment: evaluation.sentiment,
+          evaluated_at: new Date().toISOString(),
+        },
+      },
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", item.id);
+}
+
+async function countRecentAutoReplies(accountId: string, now: Date): Promise<number> {
+  const supabase = createSupabaseServiceClient();
+  const since = new Date(now.getTime() - 60 * 60 * 1000).toISOString();
+
+  const { count, error } = await supabase
+    .from("engagement_policy_decisions")
+    .select("id", { count: "exact", head: true })
+    .eq("persona_social_account_id", accountId)
+    .eq("outcome", "replied")
+    .gte("created_at", since);
+
+  if (error) {
+    throw new Error(`Failed to count recent auto-replies: ${error.message}`);
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Drafts and sends an auto-reply, falling back to the review queue when the
+ * draft fails the policy's guardrails.
+ */
+async function applyAutoReply(
+  item: EngagementItem,
+  policy: PolicyWithPersona,
+  evaluation: ReplyPolicyEvaluation
+): Promise<"replied" | "downgraded_to_review"> {
+  const { reply, tone, voiceCheck } = await draftPersonaReply(
+    item,
+    policy.persona_social_accounts.personas
+  );
+  const guardrailResult = await checkGuardrails(
+    reply,
+    policy.guardrails as WorkflowGuardrails
+  );
+
+  if (!guardrailResult.passed) {
+    await markEvaluated(item, evaluation, {
+      status: "suggested_reply_ready",
+      ai_suggested_reply: reply,
+      platform_context: {
+        voice_check: { tone, consistent: voiceCheck.consistent },
+        guardrail_violations: guardrailResult.violations.map((v) => v.message),
+      },
+    });
+    await logDecision(item, policy, evaluation, "downgraded_to_review", {
+      replyText: reply,
+      guardrailResult,
+    });
+    return "downgraded_to_review";
+  }
+
+  const replied = await postEngagementReply(item, reply, "ai_auto");
+  await markEvaluated(replied, evaluation);
+  await logDecision(item, policy, evaluation, "replied", {
+    replyText: reply,
+    guardrailResult,
+  });
+  return "replied";
+}
+
+async function processAccount(
+  policy: PolicyWithPersona,
+  now: Date,
+  summary: AutoReplyRunSummary
+): Promise<void> {
+  const supabase = createSupabaseServiceClient();
+
+  const { data: items, error } = await supabase
+    .from("engagement_items")
+    .select("*")
+    .eq("persona_social_account_id", policy.persona_social_account_id)
+    .eq("status", "unreviewed")
+    // Items already evaluated stay unreviewed while they wait for a human;
+    // filtering them here keeps them from using up the per-run limit
+    .is("platform_context->policy", null)
+    .order("priority", { ascending: false })
+    .order("received_at", { ascending: true })
+    .limit(MAX_ITEMS_PER_ACCOUNT);
+
+  if (error) {
+    throw new Error(`Failed to load engagement items: ${error.message}`);
+  }
+
+  const pending = (items ?? []) as EngagementItem[];
+
+  if (pending.length === 0) {
+    return;
+  }
+
+  let autoRepliesInLastHour = await countRecentAutoReplies(
+    policy.persona_social_account_id,
+    now
+  );
+
+  for (const item of pending) {
+    const evaluation = evaluateReplyPolicy(policy, {
+      authorHandle: item.author_handle,
+      text: item.content_text,
+      autoRepliesInLastHour,
+      now,
+    });
+    summary.evaluated += 1;
+
+    if (evaluation.decision === "skip") {
+      await markEvaluated(item, evaluation, { status: "skipped" });
+      await logDecision(item, policy, evaluation, "applied");
+      summary.skipped += 1;
+      continue;
+    }
+
+    if (evaluation.decision === "review") {
+      await markEvaluated(item, evaluation);
+      await logDecision(item, policy, evaluation, "applied");
+      summary.queuedForReview += 1;
+      continue;
+    }
+
+    // Claim the item before drafting so a reply sent from the inbox, or an
+    // overlapping run, can't post alongside this one
+    const claimed = await claimEngagementItem(item);
+    if (!claimed) {
+      continue;
+    }
+
+    try {
+      const outcome = await applyAutoReply(claimed, policy, evaluation);
+      if (outcome === "replied") {
+        autoRepliesInLastHour += 1;
+        summary.autoReplied += 1;
+      } else {
+        summary.queuedForReview += 1;
+      }
+    } catch (replyError) {
+      const message =
+        replyError instanceof Error
+          ? replyError.message.substring(0, 500)
+          : "Unknown error sending auto-reply";
+      console.error(`Auto-reply failed for engagement item ${item.id}:`, replyError);
+
+      // Leave it in the inbox for a human rather than retrying unattended
+      await markEvaluated(item, evaluation, { status: item.status });
+      await logDecision(item, policy, evaluation, "failed", { error: message });
+      summary.failed += 1;
+    }
+  }
+}
+
+/**
+ * Runs every enabled auto-reply policy over its account's unreviewed
+ * engagement items. Each item is evaluated once; every decision is written
+ * to engagement_policy_decisions.
+ *
+ * @param options.accountIds - Limit the run to these persona social accounts
+ */
+export async function processAutoReplies(
+  options: { accountIds?: string[]; now?: Date } = {}
+): Promise<AutoReplyRunSummary> {
+  const supabase = createSupabaseServiceClient();
+  const now = options.now ?? new Date();
+  const summary: AutoReplyRunSummary = {
+    evaluated: 0,
+    autoReplied: 0,
+    queuedForReview: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  let query = supabase
+    .from("engagement_reply_policies")
+    .select(
+      `
+      *,
+      persona_social_accounts!inner (
+        status,
+        personas!inner (
+          id,
+          display_name,
+          biography,
+          personality,
+          goals
+        )
+      )
+    `
+    )
+    .eq("enabled", true)
+    .eq("persona_social_accounts.status", "connected");
+
+  if (options.accountIds && options.accountIds.length > 0) {
+    query = query.in("persona_social_account_id", options.accountIds);
+  }
+
+  const { data: policies, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load reply policies: ${error.message}`);
+  }
+
+  for (const policy of (policies ?? []) as unknown as PolicyWithPersona[]) {
+    try {
+      await processAccount(policy, now, summary);
+    } catch (accountError) {
+      console.error(
+        `Auto-reply run failed for account ${policy.persona_social_account_id}:`,
+        accountError
+      );
+      summary.failed += 1;
+    }
+  }
+
+  return summary;
+}
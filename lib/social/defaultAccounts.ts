@@ -0,0 +1,117 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+
+export interface DefaultAccountResult {
+  accountId: string;
+  personaId: string;
+  platformId: string;
+}
+
+/**
+ * Makes the account its persona's default for its platform: the one posts
+ * go out on when neither the post nor its campaign names an account.
+ */
+export async function setDefaultSocialAccount(
+  accountId: string,
+  userId: string
+): Promise<DefaultAccountResult> {
+  const supabase = createSupabaseServiceClient();
+
+  const { data: account, error: accountError } = await supabase
+    .from("persona_social_accounts")
+    .select("id, persona_id, platform_id, status, is_default, personas!inner ( user_id )")
+    .eq("id", accountId)
+    .eq("personas.user_id", userId)
+    .maybeSingle();
+
+  if (accountError || !account) {
+    throw new Error("Social account not found or access denied");
+  }
+
+  const result = {
+    accountId: account.id as string,
+    personaId: account.persona_id as string,
+    platformId: account.platform_id as string,
+  };
+
+  if (account.is_default) {
+    return result;
+  }
+
+  if (account.status !== "connected") {
+    throw new Error("Only connected accounts can be the default");
+  }
+
+  // One default per persona and platform; clear the old one first
+  const { error: clearError } = await supabase
+    .from("persona_social_accounts")
+    .update({ is_default: false })
+    .eq("persona_id", result.personaId)
+    .eq("platform_id", result.platformId)
+    .eq("is_default", true);
+
+  if (clearError) {
+    throw new Error(`Failed to clear the previous default account: ${clearError.message}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from("persona_social_accounts")
+    .update({ is_default: true })
+    .eq("id", accountId);
+
+  if (updateError) {
+    throw new Error(`Failed to set the default account: ${updateError.message}`);
+  }
+
+  return result;
+}
+
+/**
+ * Hands the default flag on after the account lost it (e.g. on disconnect),
+ * to `preferredAccountId` when it qualifies, otherwise to the persona's most
+ * recently refreshed connected account on the platform. Returns the new
+ * default's id, or null when none is left.
+ */
+export async function promoteNextDefaultAccount(
+  personaId: string,
+  platformId: string,
+  excludeAccountId: string,
+  preferredAccountId: string | null = null
+): Promise<string | null> {
+  const supabase = createSupabaseServiceClient();
+
+  const { data: candidates, error } = await supabase
+    .from("persona_social_accounts")
+    .select("id, is_default")
+    .eq("persona_id", personaId)
+    .eq("platform_id", platformId)
+    .eq("status", "connected")
+    .neq("id", excludeAccountId)
+    .order("last_token_refresh_at", { ascending: false, nullsFirst: false });
+
+  if (error) {
+    throw new Error(`Failed to load accounts: ${error.message}`);
+  }
+
+  const existingDefault = (candidates ?? []).find((candidate) => candidate.is_default);
+  if (existingDefault) {
+    return existingDefault.id as string;
+  }
+
+  const next =
+    (candidates ?? []).find((candidate) => candidate.id === preferredAccountId) ??
+    candidates?.[0];
+  if (!next) {
+    return null;
+  }
+
+  const { error: updateError } = await supabase
+    .from("persona_social_accounts")
+    .update({ is_default: true })
+    .eq("id", next.id);
+
+  if (updateError) {
+    throw new Error(`Failed to set the default account: ${updateError.message}`);
+  }
+
+  return next.id as string;
+}
@@ -0,0 +1,246 @@
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import { decryptSecret } from "@/lib/security/encryption";
+import {
+  resolvePlatformClientId,
+  resolvePlatformClientSecret,
+} from "@/lib/social/oauth";
+import { getOAuthProvider, revokeOAuthToken } from "@/lib/social/config";
+import { promoteNextDefaultAccount } from "@/lib/social/defaultAccounts";
+import { replaceAccountAssignments } from "@/lib/campaigns/accountAssignments";
+
+export type ScheduledPostHandling = "cancel" | "reassign";
+
+/** What happened to one token at the provider. */
+export type TokenRevocationOutcome = "revoked" | "unsupported" | "missing" | "failed";
+
+export interface DisconnectResult {
+  accountId: string;
+  revokedAt: string;
+  revocation: {
+    access_token: TokenRevocationOutcome;
+    refresh_token: TokenRevocationOutcome;
+    error: string | null;
+  };
+  scheduledPosts: {
+    handling: ScheduledPostHandling;
+    postIds: string[];
+    reassignedTo: string | null;
+  };
+  /** Campaigns whose account assignment for the platform moved or was dropped. */
+  campaignIds: string[];
+  /** The persona's default account for the platform afterwards. */
+  defaultAccountId: string | null;
+}
+
+type EncryptedTokenFields = {
+  access_token_encrypted: string | null;
+  refresh_token_encrypted: string | null;
+};
+
+/**
+ * Revokes both tokens at the provider. Failures are reported rather than
+ * thrown so the account can still be disconnected on our side.
+ */
+async function revokeProviderTokens(
+  platformId: string,
+  encrypted: EncryptedTokenFields
+): Promise<DisconnectResult["revocation"]> {
+  const revocation: DisconnectResult["revocation"] = {
+    access_token: "missing",
+    refresh_token: "missing",
+    error: null,
+  };
+
+  try {
+    const provider = await getOAuthProvider(platformId);
+    const { clientId } = resolvePlatformClientId(platformId);
+    const { clientSecret } = resolvePlatformClientSecret(platformId);
+
+    // Refresh first: on most providers that also kills its access tokens
+    const tokens = [
+      ["refresh_token", encrypted.refresh_token_encrypted],
+      ["access_token", encrypted.access_token_encrypted],
+    ] as const;
+
+    for (const [tokenTypeHint, stored] of tokens) {
+      const token = await decryptSecret(stored);
+      if (!token) {
+        continue;
+      }
+
+      try {
+        const revoked = await revokeOAuthToken(provider, {
+          token,
+          tokenTypeHint,
+          clientId,
+          clientSecret,
+        });
+        revocation[tokenTypeHint] = revoked ? "revoked" : "unsupported";
+      } catch (error) {
+        revocation[tokenTypeHint] = "failed";
+        revocation.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+  } catch (error) {
+    if (encrypted.access_token_encrypted) {
+      revocation.access_token = "failed";
+    }
+    if (encrypted.refresh_token_encrypted) {
+      revocation.refresh_token = "failed";
+    }
+    revocation.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return revocation;
+}
+
+/**
+ * Disconnects a social account: revokes its grant at the provider, clears
+ * the stored tokens, cancels its scheduled posts (or moves them, and any
+ * campaign assignments, to another connected account of the same persona
+ * and platform), hands on its default flag and records the outcome in
+ * persona_social_account_events.
+ */
+export async function disconnectSocialAccount(
+  accountId: string,
+  userId: string,
+  options: {
+    scheduledPosts?: ScheduledPostHandling;
+    reassignToAccountId?: string;
+  } = {}
+): Promise<DisconnectResult> {
+  const supabase = createSupabaseServiceClient();
+  const handling = options.scheduledPosts ?? "cancel";
+
+  const { data: account, error: accountError } = await supabase
+    .from("persona_social_accounts")
+    .select("*, personas!inner ( user_id )")
+    .eq("id", accountId)
+    .eq("personas.user_id", userId)
+    .maybeSingle();
+
+  if (accountError || !account) {
+    throw new Error("Social account not found or access denied");
+  }
+
+  let reassignedTo: string | null = null;
+  if (handling === "reassign") {
+    const { data: target } = await supabase
+      .from("persona_social_accounts")
+      .select("id")
+      .eq("id", options.reassignToAccountId ?? "")
+      .eq("persona_id", account.persona_id)
+      .eq("platform_id", account.platform_id)
+      .eq("status", "connected")
+      .neq("id", accountId)
+      .maybeSingle();
+
+    if (!target) {
+      throw new Error(
+        `Reassignment target must be another connected ${account.platform_id} account of this persona`
+      );
+    }
+    reassignedTo = target.id;
+  }
+
+  // Posts move first so the scheduler can't pick them up with dead tokens
+  const { data: movedPosts, error: postsError } = await supabase
+    .from("campaign_posts")
+    .update(
+      reassignedTo
+        ? { persona_social_account_id: reassignedTo }
+        : {
+            status: "draft",
+            scheduled_for: null,
+            persona_social_account_id: null,
+            error_message: null,
+          }
+    )
+    .eq("persona_social_account_id", accountId)
+    .eq("status", "scheduled")
+    .select("id");
+
+  if (postsError) {
+    throw new Error(`Failed to update scheduled posts: ${postsError.message}`);
+  }
+
+  // Campaigns assigned this account follow the posts
+  const campaignIds = await replaceAccountAssignments(
+    account.persona_id,
+    account.platform_id,
+    accountId,
+    reassignedTo
+  );
+
+  const revocation = await revokeProviderTokens(
+    account.platform_id,
+    account as unknown as EncryptedTokenFields
+  );
+
+  const revokedAt = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from("persona_social_accounts")
+    .update({
+      access_token_encrypted: null,
+      refresh_token_encrypted: null,
+      status: "revoked",
+      revoked_at: revokedAt,
+      last_token_error: revocation.error,
+      is_default: false,
+    })
+    .eq("id", accountId);
+
+  if (updateError) {
+    throw new Error(`Failed to revoke account: ${updateError.message}`);
+  }
+
+  let defaultAccountId: string | null = null;
+  try {
+    defaultAccountId = await promoteNextDefaultAccount(
+      account.persona_id,
+      account.platform_id,
+      accountId,
+      reassignedTo
+    );
+  } catch (error) {
+    // Selection falls back to the most recent account without a default
+    console.error("Failed to promote a new default account:", error);
+  }
+
+  const postIds = (movedPosts ?? []).map((post) => post.id as string);
+
+  const { error: eventError } = await supabase
+    .from("persona_social_account_events")
+    .insert({
+      persona_social_account_id: accountId,
+      persona_id: account.persona_id,
+      user_id: userId,
+      platform_id: account.platform_id,
+      action: "disconnected",
+      details: {
+        revocation,
+        scheduled_posts: {
+          handling,
+          post_ids: postIds,
+          reassigned_to: reassignedTo,
+        },
+        campaign_ids: campaignIds,
+        was_default: Boolean(account.is_default),
+        default_account_id: defaultAccountId,
+      },
+    });
+
+  if (eventError) {
+    // The disconnect itself went through; don't report it as failed
+    console.error("Failed to record account disconnect event:", eventError);
+  }
+
+  return {
+    accountId,
+    revokedAt,
+    revocation,
+    scheduledPosts: { handling, postIds, reassignedTo },
+    campaignIds,
+    defaultAccountId,
+  };
+}
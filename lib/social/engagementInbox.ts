@@ -0,0 +1,539 @@
+import { z } from "zod";
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import { getAccountAccessToken } from "@/lib/social/accountTokens";
+import { getEngagementSource } from "@/lib/engagement";
+import { toPublisherAccount } from "@/lib/publishing";
+import { callChatModel } from "@/lib/openai";
+import {
+  validateVoiceConsistency,
+  type VoiceConsistencyResult,
+} from "@/app/agents/voiceLock";
+import type { Tone } from "@/app/agents/types";
+import type {
+  EngagementInboxItem,
+  EngagementItem,
+  EngagementItemStatus,
+  PersonaSocialAccount,
+} from "@/types/social";
+
+type ReplyMode = "ai_auto" | "ai_suggested" | "manual";
+
+const KNOWN_TONES: Tone[] = [
+  "professional",
+  "casual",
+  "friendly",
+  "authoritative",
+  "humorous",
+  "inspirational",
+  "educational",
+];
+
+// Replies are conversational, so fall back to friendly when the persona's tone is free-form
+const DEFAULT_REPLY_TONE: Tone = "friendly";
+
+// How many parent comments to include as thread context
+const MAX_THREAD_CONTEXT = 5;
+
+const SuggestedReplySchema = z.object({
+  reply: z.string().min(1),
+});
+
+const SYSTEM_PROMPT = `You are DoppelCart's engagement assistant.
+Write a reply to a social media comment as the persona described, in their voice.
+Keep it short, specific to the comment, and free from marketing cliches.
+Never mention that you are an AI.
+You MUST respond with valid JSON only, in the form {"reply": "..."}.`;
+
+export type PersonaVoice = {
+  id: string;
+  display_name: string;
+  biography: string | null;
+  personality: { tone?: string } | null;
+  goals: string[] | null;
+};
+
+type EngagementItemWithOwner = EngagementItem & {
+  persona_social_accounts: {
+    persona_id: string;
+    personas: PersonaVoice & { user_id: string };
+  };
+};
+
+type InboxItemRow = EngagementItem & {
+  persona_social_accounts: {
+    persona_id: string;
+    account_handle: string | null;
+    provider_username: string | null;
+    personas: { display_name: string };
+  };
+};
+
+/**
+ * Lists engagement items across all of a user's personas, highest priority
+ * and newest first.
+ */
+export async function listEngagementInboxItems(
+  userId: string,
+  filters: { status?: EngagementItemStatus; personaId?: string } = {}
+): Promise<EngagementInboxItem[]> {
+  const supabase = createSupabaseServiceClient();
+
+  let query = supabase
+    .from("engagement_items")
+    .select(
+      `
+      *,
+      persona_social_accounts!inner (
+        persona_id,
+        account_handle,
+        provider_username,
+        personas!inner (
+          user_id,
+          display_name
+        )
+      )
+    `
+    )
+    .eq("persona_social_accounts.personas.user_id", userId)
+    .order("priority", { ascending: false })
+    .order("received_at", { ascending: false })
+    .limit(200);
+
+  if (filters.status) {
+    query = query.eq("status", filters.status);
+  }
+
+  if (filters.personaId) {
+    query = query.eq("persona_social_accounts.persona_id", filters.personaId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load engagement items: ${error.message}`);
+  }
+
+  return ((data ?? []) as unknown as InboxItemRow[]).map((row) => {
+    const { persona_social_accounts: account, ...item } = row;
+    return {
+      ...item,
+      persona_id: account.persona_id,
+      persona_name: account.personas.display_name,
+      account_handle: account.provider_username ?? account.account_handle,
+    };
+  });
+}
+
+function resolveTone(tone: string | undefined): Tone {
+  const normalized = tone?.toLowerCase().trim();
+  return KNOWN_TONES.find((known) => known === normalized) ?? DEFAULT_REPLY_TONE;
+}
+
+/**
+ * Loads an engagement item together with its persona, verifying the user
+ * owns the persona behind the item's social account.
+ */
+async function loadOwnedItem(
+  itemId: string,
+  userId: string
+): Promise<EngagementItemWithOwner> {
+  const supabase = createSupabaseServiceClient();
+
+  const { data, error } = await supabase
+    .from("engagement_items")
+    .select(
+      `
+      *,
+      persona_social_accounts!inner (
+        persona_id,
+        personas!inner (
+          id,
+          user_id,
+          display_name,
+          biography,
+          personality,
+          goals
+        )
+      )
+    `
+    )
+    .eq("id", itemId)
+    .eq("persona_social_accounts.personas.user_id", userId)
+    .single();
+
+  if (error || !data) {
+    throw new Error("Engagement item not found or access denied");
+  }
+
+  return data as unknown as EngagementItemWithOwner;
+}
+
+/**
+ * Collects the text of the post and the parent comments above an item,
+ * oldest first, so the reply can follow the conversation.
+ */
+async function loadThreadContext(item: EngagementItem): Promise<{
+  post: { title?: string; text?: string } | null;
+  parents: { author: string | null; text: string | null }[];
+}> {
+  const supabase = createSupabaseServiceClient();
+  const parents: { author: string | null; text: string | null }[] = [];
+
+  let parentId = item.parent_engagement_item_id;
+  while (parentId && parents.length < MAX_THREAD_CONTEXT) {
+    const { data: parent } = await supabase
+      .from("engagement_items")
+      .select("author_handle, content_text, parent_engagement_item_id")
+      .eq("id", parentId)
+      .single();
+
+    if (!parent) {
+      break;
+    }
+
+    parents.unshift({ author: parent.author_handle, text: parent.content_text });
+    parentId = parent.parent_engagement_item_id;
+  }
+
+  let post: { title?: string; text?: string } | null = null;
+  if (item.campaign_post_id) {
+    const { data: postRow } = await supabase
+      .from("campaign_posts")
+      .select("content_json")
+      .eq("id", item.campaign_post_id)
+      .single();
+
+    const content = (postRow?.content_json ?? null) as
+      | { title?: string; text?: string }
+      | null;
+    post = content ? { title: content.title, text: content.text } : null;
+  }
+
+  return { post, parents };
+}
+
+async function requestReply(
+  persona: PersonaVoice,
+  tone: Tone,
+  item: EngagementItem,
+  thread: Awaited<ReturnType<typeof loadThreadContext>>,
+  revisionNotes?: string[]
+): Promise<string> {
+  const model =
+    process.env.OPENAI_ENGAGEMENT_MODEL ||
+    process.env.OPENAI_MODEL_DEFAULT ||
+    "gpt-4o-mini";
+
+  const personaSummary = {
+    name: persona.display_name,
+    biography: persona.biography,
+    goals: persona.goals,
+    tone,
+  };
+
+  const userMessage = `
+Persona:
+${JSON.stringify(personaSummary, null, 2)}
+
+Original post:
+${JSON.stringify(thread.post ?? {}, null, 2)}
+
+Earlier comments in the thread (oldest first):
+${JSON.stringify(thread.parents, null, 2)}
+
+Comment to reply to (from ${item.author_handle ?? "unknown"}):
+${item.content_text ?? ""}
+${
+  revisionNotes && revisionNotes.length > 0
+    ? `\nA previous draft did not match the persona's ${tone} tone. Address this:\n- ${revisionNotes.join("\n- ")}\n`
+    : ""
+}
+Write one reply of at most a few sentences.
+`.trim();
+
+  const response = await callChatModel({
+    model,
+    temperature: 0.7,
+    responseFormatType: "json_object",
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: userMessage },
+    ],
+  });
+
+  try {
+    return SuggestedReplySchema.parse(JSON.parse(response)).reply.trim();
+  } catch (error) {
+    console.error("Failed to parse suggested reply response", {
+      error,
+      response,
+    });
+    throw new Error("Unable to parse suggested reply from OpenAI response.");
+  }
+}
+
+export interface DraftedReply {
+  reply: string;
+  tone: Tone;
+  voiceCheck: VoiceConsistencyResult;
+}
+
+/**
+ * Drafts a reply to an engagement item in the persona's voice. The draft is
+ * checked with Voice Lock and regenerated once with its suggestions if the
+ * tone drifts.
+ */
+export async function draftPersonaReply(
+  item: EngagementItem,
+  persona: PersonaVoice
+): Promise<DraftedReply> {
+  const tone = resolveTone(persona.personality?.tone);
+  const thread = await loadThreadContext(item);
+
+  let reply = await requestReply(persona, tone, item, thread);
+  let voiceCheck = await validateVoiceConsistency(reply, tone);
+
+  if (!voiceCheck.consistent) {
+    reply = await requestReply(
+      persona,
+      tone,
+      item,
+      thread,
+      voiceCheck.suggestions ?? [voiceCheck.reason ?? "Match the target tone more closely"]
+    );
+    voiceCheck = await validateVoiceConsistency(reply, tone);
+  }
+
+  return { reply, tone, voiceCheck };
+}
+
+/**
+ * Drafts a reply for an inbox item and stores it as ai_suggested_reply.
+ *
+ * @throws Error with descriptive message on failure
+ */
+export async function generateSuggestedReply(
+  itemId: string,
+  userId: string
+): Promise<EngagementItem> {
+  const item = await loadOwnedItem(itemId, userId);
+
+  if (item.status === "replied") {
+    throw new Error("Cannot suggest a reply for an item that was already replied to");
+  }
+
+  const { reply, tone, voiceCheck } = await draftPersonaReply(
+    item,
+    item.persona_social_accounts.personas
+  );
+
+  const supabase = createSupabaseServiceClient();
+  const { data: updated, error } = await supabase
+    .from("engagement_items")
+    .update({
+      ai_suggested_reply: reply,
+      status: "suggested_reply_ready",
+      platform_context: {
+        ...item.platform_context,
+        voice_check: {
+          tone,
+          consistent: voiceCheck.consistent,
+          confidence: voiceCheck.confidence ?? null,
+          reason: voiceCheck.reason ?? null,
+        },
+      },
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", itemId)
+    .select("*")
+    .single();
+
+  if (error || !updated) {
+    throw new Error(`Failed to store suggested reply: ${error?.message ?? "unknown error"}`);
+  }
+
+  return updated as EngagementItem;
+}
+
+/**
+ * Posts a reply to an engagement item through the platform's engagement
+ * source and records it as the item's final_reply.
+ *
+ * @throws Error with descriptive message on failure
+ */
+export async function postEngagementReply(
+  item: EngagementItem,
+  text: string,
+  replyMode: ReplyMode
+): Promise<EngagementItem> {
+  const source = getEngagementSource(item.platform_id);
+  if (!source) {
+    throw new Error(`Replying is not supported for platform "${item.platform_id}"`);
+  }
+
+  const supabase = createSupabaseServiceClient();
+  const { data: account, error: accountError } = await supabase
+    .from("persona_social_accounts")
+    .select("*")
+    .eq("id", item.persona_social_account_id)
+    .eq("status", "connected")
+    .single();
+
+  if (accountError || !account) {
+    throw new Error(`No connected ${item.platform_id} account found for this item`);
+  }
+
+  const accessToken = await getAccountAccessToken(account as PersonaSocialAccount);
+  const result = await source.postReply(item.platform_object_id, text, {
+    accessToken,
+    account: toPublisherAccount(account),
+  });
+
+  const { data: updated, error } = await supabase
+    .from("engagement_items")
+    .update({
+      status: "replied",
+      final_reply: text,
+      reply_mode: replyMode,
+      platform_context: {
+        ...item.platform_context,
+        reply: {
+          external_id: result.externalId,
+          url: result.url,
+          replied_at: new Date().toISOString(),
+        },
+      },
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", item.id)
+    .select("*")
+    .single();
+
+  if (error || !updated) {
+    console.error("Failed to record reply after successful submission:", error);
+    // Don't throw - the reply was posted, just the DB update failed
+    return { ...item, status: "replied", final_reply: text, reply_mode: replyMode };
+  }
+
+  return updated as EngagementItem;
+}
+
+/**
+ * Claims an item for replying by moving it from the status it was read with
+ * to "replying", so two senders can't both post. Returns null when another
+ * request changed the item first.
+ */
+export async function claimEngagementItem(
+  item: EngagementItem
+): Promise<EngagementItem | null> {
+  const supabase = createSupabaseServiceClient();
+
+  const { data: claimed, error } = await supabase
+    .from("engagement_items")
+    .update({ status: "replying", updated_at: new Date().toISOString() })
+    .eq("id", item.id)
+    .eq("status", item.status)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim engagement item: ${error.message}`);
+  }
+
+  return claimed as EngagementItem | null;
+}
+
+/**
+ * Puts a claimed item back in the status it was claimed from, after a reply
+ * that failed before anything was posted.
+ */
+export async function releaseEngagementItem(item: EngagementItem): Promise<void> {
+  const supabase = createSupabaseServiceClient();
+
+  const { error } = await supabase
+    .from("engagement_items")
+    .update({ status: item.status, updated_at: new Date().toISOString() })
+    .eq("id", item.id)
+    .eq("status", "replying");
+
+  if (error) {
+    console.error(`Failed to release engagement item ${item.id}:`, error);
+  }
+}
+
+/**
+ * Sends a reply from the inbox.
+ *
+ * reply_mode is "ai_suggested" when the text is the stored suggestion
+ * unchanged, otherwise "manual".
+ *
+ * @throws Error with descriptive message on failure
+ */
+export async function sendEngagementReply(
+  itemId: string,
+  userId: string,
+  text: string
+): Promise<EngagementItem> {
+  const { persona_social_accounts: _owner, ...item } = await loadOwnedItem(
+    itemId,
+    userId
+  );
+  void _owner; // Explicitly mark as intentionally unused
+
+  if (item.status === "replied") {
+    throw new Error("This item was already replied to");
+  }
+
+  const replyMode =
+    item.ai_suggested_reply && item.ai_suggested_reply.trim() === text.trim()
+      ? "ai_suggested"
+      : "manual";
+
+  const claimed = item.status === "replying" ? null : await claimEngagementItem(item);
+  if (!claimed) {
+    throw new Error("This item is already being replied to");
+  }
+
+  try {
+    return await postEngagementReply(claimed, text, replyMode);
+  } catch (error) {
+    await releaseEngagementItem(item);
+    throw error;
+  }
+}
+
+/**
+ * Moves an engagement item between the inbox states a user can set by hand:
+ * skipping it, or sending it back to unreviewed.
+ *
+ * @throws Error with descriptive message on failure
+ */
+export async function updateEngagementItemStatus(
+  itemId: string,
+  userId: string,
+  status: "skipped" | "unreviewed"
+): Promise<EngagementItem> {
+  const item = await loadOwnedItem(itemId, userId);
+
+  if (item.status === "replied") {
+    throw new Error("Cannot change the status of an item that was already replied to");
+  }
+
+  if (item.status === "replying") {
+    throw new Error("Cannot change the status of an item that is already being replied to");
+  }
+
+  const supabase = createSupabaseServiceClient();
+  const { data: updated, error } = await supabase
+    .from("engagement_items")
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq("id", itemId)
+    .select("*")
+    .single();
+
+  if (error || !updated) {
+    throw new Error(`Failed to update engagement item: ${error?.message ?? "unknown error"}`);
+  }
+
+  return updated as EngagementItem;
+}
@@ -0,0 +1,49 @@
+import { createFacebookPublisher, listFacebookPages } from "@/lib/publishing";
+import type { OAuthProfile, OAuthTokenSet } from "@/lib/social/config";
+
+/** One account to store for a completed OAuth exchange. */
+export interface ConnectedIdentity {
+  tokens: OAuthTokenSet;
+  profile: OAuthProfile | null;
+}
+
+/**
+ * Facebook publishes as a Page, not as the user who logged in, so the user
+ * token is swapped for a long-lived one and each managed Page becomes its own
+ * account: the Page token to publish with, the user token to extend it with
+ * (see createFacebookPublisher's refreshToken). Throws when the user manages
+ * no Pages.
+ */
+export async function resolveFacebookPageIdentities(
+  tokens: OAuthTokenSet,
+  credentials: { clientId: string; clientSecret: string }
+): Promise<ConnectedIdentity[]> {
+  const userToken = await createFacebookPublisher().refreshToken({
+    accessToken: tokens.accessToken,
+    refreshToken: null,
+    clientId: credentials.clientId,
+    clientSecret: credentials.clientSecret,
+  });
+
+  const pages = await listFacebookPages(userToken.accessToken);
+  if (pages.length === 0) {
+    throw new Error("No Facebook Pages found for this login");
+  }
+
+  return pages.map((page) => ({
+    tokens: {
+      ...tokens,
+      accessToken: page.accessToken,
+      refreshToken: userToken.accessToken,
+      expiresIn: userToken.expiresIn,
+      refreshTokenExpiresIn: null,
+    },
+    profile: {
+      username: null,
+      accountId: page.id,
+      displayName: page.name,
+      handle: page.name,
+      profileUrl: `https://www.facebook.com/${page.id}`,
+    },
+  }));
+}
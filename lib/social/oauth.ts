@@ -55,9 +55,22 @@ function buildEnvKey(platformId: string, suffix: string) {
   return `SOCIAL_${platformId.replace(/[^a-z0-9]/gi, "_").toUpperCase()}_${suffix}`;
 }
 
+// Names from when Reddit was the only provider, still read so existing
+// deployments keep working
+const LEGACY_ENV_KEYS: Record<string, string> = {
+  SOCIAL_REDDIT_CLIENT_ID: "REDDIT_CLIENT_ID",
+  SOCIAL_REDDIT_CLIENT_SECRET: "REDDIT_CLIENT_SECRET",
+  SOCIAL_REDDIT_REDIRECT_URI: "REDDIT_REDIRECT_URI",
+};
+
+function readEnv(envKey: string): string | undefined {
+  const legacyKey = LEGACY_ENV_KEYS[envKey];
+  return process.env[envKey] || (legacyKey ? process.env[legacyKey] : undefined);
+}
+
 export function resolvePlatformClientId(platformId: string) {
   const envKey = buildEnvKey(platformId, "CLIENT_ID");
-  const clientId = process.env[envKey];
+  const clientId = readEnv(envKey);
 
   if (!clientId) {
     throw new Error(
@@ -70,7 +83,7 @@ export function resolvePlatformClientId(platformId: string) {
 
 export function resolvePlatformClientSecret(platformId: string) {
   const envKey = buildEnvKey(platformId, "CLIENT_SECRET");
-  const clientSecret = process.env[envKey];
+  const clientSecret = readEnv(envKey);
 
   if (!clientSecret) {
     throw new Error(
@@ -81,3 +94,25 @@ export function resolvePlatformClientSecret(platformId: string) {
   return { clientSecret, envKey };
 }
 
+
+/**
+ * The callback URL registered with the provider. Defaults to the generic
+ * /api/social/oauth/[platform]/callback route on NEXT_PUBLIC_APP_URL.
+ */
+export function resolvePlatformRedirectUri(platformId: string) {
+  const envKey = buildEnvKey(platformId, "REDIRECT_URI");
+  const explicitRedirect = readEnv(envKey);
+  if (explicitRedirect) {
+    return explicitRedirect;
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (!appUrl) {
+    throw new Error(
+      `Missing NEXT_PUBLIC_APP_URL or ${envKey} for ${platformId} OAuth redirect`
+    );
+  }
+
+  const base = appUrl.replace(/\/+$/, "");
+  return `${base}/api/social/oauth/${platformId}/callback`;
+}
@@ -6,6 +6,22 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { PersonaSocialAccount } from "@/types/social";
+import { format } from "date-fns";
+
+interface BestTimeSuggestion {
+  scheduledFor: string;
+  lift: number;
+}
+
+interface BestTimesResponse {
+  source: "account_history" | "platform_prior";
+  sampleSize: number;
+  suggestions: BestTimeSuggestion[];
+}
+
+function toLocalInputValue(iso: string): string {
+  return format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+}
 
 interface ScheduleModalProps {
   isOpen: boolean;
@@ -18,6 +34,8 @@ interface ScheduleModalProps {
   accounts: PersonaSocialAccount[];
   defaultDate?: string | null;
   defaultAccountId?: string | null;
+  /** Without a default account, preselect this platform's default account. */
+  defaultPlatformId?: string | null;
   saving?: boolean;
   error?: string | null;
 }
@@ -29,6 +47,7 @@ export function ScheduleModal({
   accounts,
   defaultDate,
   defaultAccountId,
+  defaultPlatformId,
   saving = false,
   error,
 }: ScheduleModalProps) {
@@ -36,6 +55,8 @@ export function ScheduleModal({
   const [selectedPlatform, setSelectedPlatform] = useState<string>("");
   const [selectedAccount, setSelectedAccount] = useState<string>("");
   const [localError, setLocalError] = useState<string | null>(null);
+  const [bestTimes, setBestTimes] = useState<BestTimesResponse | null>(null);
+  const [hasPickedTime, setHasPickedTime] = useState(false);
 
   const platformOptions = useMemo(() => {
     return Array.from(new Set(accounts.map((account) => account.platform_id)));
@@ -61,14 +82,72 @@ export function ScheduleModal({
       }
     }
 
-    if (accounts.length > 0) {
-      setSelectedAccount(accounts[0].id);
-      setSelectedPlatform(accounts[0].platform_id);
+    const platformAccounts = accounts.filter(
+      (acc) => acc.platform_id === defaultPlatformId
+    );
+    const fallback =
+      platformAccounts.find((acc) => acc.is_default) ??
+      platformAccounts[0] ??
+      accounts[0];
+
+    if (fallback) {
+      setSelectedAccount(fallback.id);
+      setSelectedPlatform(fallback.platform_id);
     } else {
       setSelectedAccount("");
       setSelectedPlatform("");
     }
-  }, [isOpen, accounts, defaultAccountId, defaultDate]);
+  }, [isOpen, accounts, defaultAccountId, defaultPlatformId, defaultDate]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setHasPickedTime(false);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || !selectedAccount) {
+      setBestTimes(null);
+      return;
+    }
+
+    let isCancelled = false;
+
+    async function loadBestTimes() {
+      try {
+        const response = await fetch(
+          `/api/social/persona-accounts/${selectedAccount}/best-times?count=3`,
+          { credentials: "include", cache: "no-store" }
+        );
+        if (!response.ok) {
+          throw new Error("Failed to load suggested times");
+        }
+        const data = (await response.json()) as BestTimesResponse;
+        if (!isCancelled) {
+          setBestTimes(data);
+        }
+      } catch {
+        // Suggestions are optional; the time can always be picked by hand
+        if (!isCancelled) {
+          setBestTimes(null);
+        }
+      }
+    }
+
+    loadBestTimes();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, selectedAccount]);
+
+  // Without an existing time, start from the best suggestion
+  useEffect(() => {
+    const best = bestTimes?.suggestions[0];
+    if (isOpen && best && !defaultDate && !hasPickedTime) {
+      setScheduledFor(toLocalInputValue(best.scheduledFor));
+    }
+  }, [bestTimes, defaultDate, hasPickedTime, isOpen]);
 
   const filteredAccounts = useMemo(() => {
     if (!selectedPlatform) return accounts;
@@ -107,8 +186,40 @@ export function ScheduleModal({
             id="schedule-date"
             type="datetime-local"
             value={scheduledFor}
-            onChange={(event) => setScheduledFor(event.target.value)}
+            onChange={(event) => {
+              setHasPickedTime(true);
+              setScheduledFor(event.target.value);
+            }}
           />
+          {bestTimes && bestTimes.suggestions.length > 0 && (
+            <div className="space-y-1">
+              <div className="flex flex-wrap gap-2">
+                {bestTimes.suggestions.map((suggestion) => (
+                  <Button
+                    key={suggestion.scheduledFor}
+                    type="button"
+                    size="sm"
+                    variant={
+                      scheduledFor === toLocalInputValue(suggestion.scheduledFor)
+                        ? "secondary"
+                        : "outline"
+                    }
+                    onClick={() => {
+                      setHasPickedTime(true);
+                      setScheduledFor(toLocalInputValue(suggestion.scheduledFor));
+                    }}
+                  >
+                    {format(new Date(suggestion.scheduledFor), "EEE d MMM, HH:mm")}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {bestTimes.source === "account_history"
+                  ? `Suggested from ${bestTimes.sampleSize} past posts on this account.`
+                  : "Suggested from typical engagement on this platform."}
+              </p>
+            </div>
+          )}
         </div>
         <div className="space-y-2">
           <Label htmlFor="platform">Platform</Label>
@@ -118,9 +229,11 @@ export function ScheduleModal({
             value={selectedPlatform}
             onChange={(event) => {
               setSelectedPlatform(event.target.value);
-              const firstAccount = accounts.find(
+              const platformAccounts = accounts.filter(
                 (acc) => acc.platform_id === event.target.value
               );
+              const firstAccount =
+                platformAccounts.find((acc) => acc.is_default) ?? platformAccounts[0];
               setSelectedAccount(firstAccount?.id ?? "");
             }}
             disabled={platformOptions.length === 0}
@@ -151,6 +264,7 @@ export function ScheduleModal({
               filteredAccounts.map((account) => (
                 <option key={account.id} value={account.id}>
                   {account.platform_id} • {account.account_handle ?? "Unnamed"}
+                  {account.is_default ? " (default)" : ""}
                 </option>
               ))
             )}
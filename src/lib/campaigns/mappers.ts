@@ -1,3 +1,4 @@
+import { readAccountAssignments } from "@/lib/publishing";
 import type { Campaign, CampaignContent } from "@/types/campaign";
 
 type DbCampaignRow = {
@@ -17,6 +18,8 @@ type DbCampaignRow = {
   budget_cents?: number | null;
   budget_currency?: string | null;
   archived_at?: string | null;
+  dry_run?: boolean | null;
+  account_assignments?: Record<string, unknown> | null;
   created_at: string;
   updated_at: string;
 } & Record<string, unknown>;
@@ -41,6 +44,13 @@ type DbCampaignContentRow = {
   last_attempt_at?: string | null;
   last_error?: string | null;
   workflow_state?: Record<string, unknown> | null;
+  metrics?: CampaignContent["metrics"];
+  metrics_synced_at?: string | null;
+  simulation?: CampaignContent["simulation"];
+  platform_history?: CampaignContent["platform_history"] | null;
+  deleted_at?: string | null;
+  visibility?: CampaignContent["visibility"];
+  removed_at?: string | null;
   created_at: string;
   updated_at: string;
 } & Record<string, unknown>;
@@ -71,6 +81,8 @@ export function mapCampaignRow(row: DbCampaignRow): Campaign {
     created_at: row.created_at,
     updated_at: row.updated_at,
     target_platforms: targetPlatforms,
+    dry_run: row.dry_run ?? false,
+    account_assignments: readAccountAssignments(row.account_assignments),
   };
 }
 
@@ -91,7 +103,9 @@ export function mapCampaignContentRow(
     post_external_id: row.post_external_id ?? null,
     post_url: row.post_url ?? null,
     content_json: content,
-    media_assets: Array.isArray(row.media_assets) ? row.media_assets : [],
+    media_assets: Array.isArray(row.media_assets)
+      ? (row.media_assets as unknown as CampaignContent["media_assets"])
+      : [],
     platform_options: (row.platform_options as Record<string, unknown>) ?? {},
     created_by: row.created_by ?? "user",
     error_message: row.error_message ?? null,
@@ -99,6 +113,13 @@ export function mapCampaignContentRow(
     last_attempt_at: row.last_attempt_at ?? null,
     last_error: row.last_error ?? null,
     workflow_state: (row.workflow_state as Record<string, unknown>) ?? {},
+    metrics: row.metrics ?? null,
+    metrics_synced_at: row.metrics_synced_at ?? null,
+    simulation: row.simulation ?? null,
+    platform_history: Array.isArray(row.platform_history) ? row.platform_history : [],
+    deleted_at: row.deleted_at ?? null,
+    visibility: row.visibility ?? null,
+    removed_at: row.removed_at ?? null,
     created_at: row.created_at,
     updated_at: row.updated_at,
   };
@@ -1,65 +1,340 @@
-import { SocialPlatformId } from "@/types/social";
+import { createSupabaseServiceClient } from "@/lib/supabase/serviceClient";
+import { PlatformApiError } from "@/lib/publishing";
+import {
+  SocialPlatform,
+  SocialPlatformId,
+  SocialPlatformOAuthOptions,
+} from "@/types/social";
 
-export interface OAuthConfig {
+// Reddit rejects requests without a descriptive User-Agent; others ignore it.
+// REDDIT_USER_AGENT is its name from before other providers were supported.
+const OAUTH_USER_AGENT =
+  process.env.SOCIAL_OAUTH_USER_AGENT ||
+  process.env.REDDIT_USER_AGENT ||
+  "DoppelCartApp/1.0 (+https://www.doppelcart.com)";
+
+type OAuthProfileOptions = NonNullable<SocialPlatformOAuthOptions["profile"]>;
+
+/**
+ * Everything the generic OAuth routes need to talk to one provider, built
+ * from its social_platforms row.
+ */
+export interface OAuthProvider {
+  platformId: SocialPlatformId | string;
+  displayName: string;
   authorizeUrl: string;
   tokenUrl: string;
-  scopes: string[];
+  revokeUrl: string | null;
+  defaultScopes: string[];
+  usePkce: boolean;
+  clientAuth: "basic" | "body";
+  scopeSeparator: string;
+  authorizeParams: Record<string, string>;
+  profile: OAuthProfileOptions | null;
+}
+
+export interface OAuthTokenSet {
+  accessToken: string;
+  refreshToken: string | null;
+  tokenType: string;
+  expiresIn: number | null;
+  refreshTokenExpiresIn: number | null;
+  /** Scopes the provider granted, or null when it didn't say. */
+  scopes: string[] | null;
+  raw: Record<string, unknown>;
 }
 
-const redditOAuthConfig: OAuthConfig = {
-  authorizeUrl: "https://www.reddit.com/api/v1/authorize",
-  tokenUrl: "https://www.reddit.com/api/v1/access_token",
-  scopes: ["identity", "submit", "read"],
-};
+export interface OAuthProfile {
+  username: string | null;
+  accountId: string | null;
+  displayName: string | null;
+  handle: string | null;
+  profileUrl: string | null;
+}
+
+/**
+ * Returns null for platforms without both an authorize and a token URL.
+ */
+export function buildOAuthProvider(platform: SocialPlatform): OAuthProvider | null {
+  if (!platform.oauth_authorize_url || !platform.oauth_token_url) {
+    return null;
+  }
 
-export function getOAuthConfigForPlatform(
+  const options = platform.oauth_options ?? {};
+
+  return {
+    platformId: platform.id,
+    displayName: platform.display_name,
+    authorizeUrl: platform.oauth_authorize_url,
+    tokenUrl: platform.oauth_token_url,
+    revokeUrl: platform.oauth_revoke_url,
+    defaultScopes: platform.default_scopes ?? [],
+    usePkce: options.use_pkce ?? true,
+    clientAuth: options.client_auth === "basic" ? "basic" : "body",
+    scopeSeparator: options.scope_separator ?? " ",
+    authorizeParams: options.authorize_params ?? {},
+    profile: options.profile?.url ? options.profile : null,
+  };
+}
+
+/**
+ * Loads a platform's OAuth provider. Throws when the platform doesn't exist
+ * or has no OAuth endpoints configured.
+ */
+export async function getOAuthProvider(
   platformId: SocialPlatformId | string
-): OAuthConfig | null {
-  switch (platformId) {
-    case "reddit":
-      return redditOAuthConfig;
-    default:
-      return null;
+): Promise<OAuthProvider> {
+  const supabase = createSupabaseServiceClient();
+  const { data: platform, error } = await supabase
+    .from("social_platforms")
+    .select("*")
+    .eq("id", platformId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load platform configuration: ${error.message}`);
+  }
+
+  if (!platform) {
+    throw new Error("Platform not found");
+  }
+
+  const provider = buildOAuthProvider(platform as SocialPlatform);
+  if (!provider) {
+    throw new Error(`Platform ${platformId} is not configured for OAuth`);
   }
+
+  return provider;
 }
 
-export function getRedditClientCredentials() {
-  const clientId = process.env.REDDIT_CLIENT_ID;
-  const clientSecret = process.env.REDDIT_CLIENT_SECRET;
+export function buildAuthorizeUrl(
+  provider: OAuthProvider,
+  params: {
+    clientId: string;
+    redirectUri: string;
+    state: string;
+    scopes: string[];
+    codeChallenge: string;
+    codeChallengeMethod: string;
+  }
+): string {
+  const url = new URL(provider.authorizeUrl);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", params.clientId);
+  url.searchParams.set("redirect_uri", params.redirectUri);
+  url.searchParams.set("scope", params.scopes.join(provider.scopeSeparator));
+  url.searchParams.set("state", params.state);
 
-  if (!clientId || !clientSecret) {
-    throw new Error(
-      "Reddit OAuth is not configured. Missing REDDIT_CLIENT_ID or REDDIT_CLIENT_SECRET."
-    );
+  if (provider.usePkce) {
+    url.searchParams.set("code_challenge", params.codeChallenge);
+    url.searchParams.set("code_challenge_method", params.codeChallengeMethod);
   }
 
-  return { clientId, clientSecret };
+  for (const [key, value] of Object.entries(provider.authorizeParams)) {
+    url.searchParams.set(key, value);
+  }
+
+  return url.toString();
+}
+
+function parseScopes(value: unknown): string[] | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const scopes = value
+    .split(/[,\s]+/)
+    .map((scope) => scope.trim())
+    .filter(Boolean);
+  return scopes.length > 0 ? scopes : null;
 }
 
-export function getRedditRedirectUri() {
-  const explicitRedirect = process.env.REDDIT_REDIRECT_URI;
-  if (explicitRedirect) {
-    return explicitRedirect;
+function clientAuthRequest(
+  provider: OAuthProvider,
+  body: URLSearchParams,
+  credentials: { clientId: string; clientSecret: string }
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    "User-Agent": OAUTH_USER_AGENT,
+  };
+
+  if (provider.clientAuth === "basic") {
+    headers.Authorization = `Basic ${Buffer.from(
+      `${credentials.clientId}:${credentials.clientSecret}`
+    ).toString("base64")}`;
+  } else {
+    body.set("client_id", credentials.clientId);
+    body.set("client_secret", credentials.clientSecret);
   }
 
-  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  return headers;
+}
 
-  if (!appUrl) {
-    throw new Error(
-      "Missing NEXT_PUBLIC_APP_URL or REDDIT_REDIRECT_URI for Reddit OAuth redirect."
+/**
+ * Trades an authorization code for tokens, authenticating the client the
+ * way the provider expects.
+ */
+export async function exchangeAuthorizationCode(
+  provider: OAuthProvider,
+  params: {
+    code: string;
+    redirectUri: string;
+    codeVerifier: string;
+    clientId: string;
+    clientSecret: string;
+  }
+): Promise<OAuthTokenSet> {
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: params.code,
+    redirect_uri: params.redirectUri,
+  });
+  const headers = clientAuthRequest(provider, body, params);
+
+  if (provider.usePkce) {
+    body.set("code_verifier", params.codeVerifier);
+  }
+
+  const response = await fetch(provider.tokenUrl, {
+    method: "POST",
+    headers,
+    body,
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new PlatformApiError(
+      provider.platformId,
+      response.status,
+      `Token exchange failed (${response.status}): ${text.substring(0, 500)}`
     );
   }
 
-  const base = appUrl.replace(/\/+$/, "");
-  return `${base}/api/social/oauth/reddit/callback`;
+  const json = (await response.json()) as Record<string, unknown>;
+  const accessToken = json.access_token;
+  if (typeof accessToken !== "string" || !accessToken) {
+    throw new PlatformApiError(
+      provider.platformId,
+      response.status,
+      "Token response did not include an access token"
+    );
+  }
+
+  return {
+    accessToken,
+    refreshToken: typeof json.refresh_token === "string" ? json.refresh_token : null,
+    tokenType: typeof json.token_type === "string" ? json.token_type : "bearer",
+    expiresIn: typeof json.expires_in === "number" ? json.expires_in : null,
+    refreshTokenExpiresIn:
+      typeof json.refresh_token_expires_in === "number"
+        ? json.refresh_token_expires_in
+        : null,
+    scopes: parseScopes(json.scope),
+    raw: json,
+  };
 }
 
+/**
+ * Revokes a token at the provider (RFC 7009). Returns false for providers
+ * without a revocation endpoint.
+ */
+export async function revokeOAuthToken(
+  provider: OAuthProvider,
+  params: {
+    token: string;
+    tokenTypeHint: "access_token" | "refresh_token";
+    clientId: string;
+    clientSecret: string;
+  }
+): Promise<boolean> {
+  if (!provider.revokeUrl) {
+    return false;
+  }
 
+  const body = new URLSearchParams({
+    token: params.token,
+    token_type_hint: params.tokenTypeHint,
+  });
+  const headers = clientAuthRequest(provider, body, params);
 
+  const response = await fetch(provider.revokeUrl, {
+    method: "POST",
+    headers,
+    body,
+  });
 
+  if (!response.ok) {
+    const text = await response.text();
+    throw new PlatformApiError(
+      provider.platformId,
+      response.status,
+      `Token revocation failed (${response.status}): ${text.substring(0, 500)}`
+    );
+  }
 
+  return true;
+}
 
+function readPath(source: unknown, path: string): string | null {
+  let value: unknown = source;
+  for (const key of path.split(".")) {
+    if (!value || typeof value !== "object") {
+      return null;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  if (typeof value === "number") {
+    return String(value);
+  }
+  return typeof value === "string" && value ? value : null;
+}
+
+function fillTemplate(template: string | undefined, username: string | null) {
+  if (!template || !username) {
+    return null;
+  }
+  return template.replace("{username}", encodeURIComponent(username));
+}
+
+/**
+ * Reads the connected account's identity from the provider's profile
+ * endpoint. Returns null for providers without one.
+ */
+export async function fetchOAuthProfile(
+  provider: OAuthProvider,
+  accessToken: string
+): Promise<OAuthProfile | null> {
+  if (!provider.profile) {
+    return null;
+  }
 
+  const response = await fetch(provider.profile.url, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "User-Agent": OAUTH_USER_AGENT,
+    },
+  });
 
+  if (!response.ok) {
+    const text = await response.text();
+    throw new PlatformApiError(
+      provider.platformId,
+      response.status,
+      `Failed to fetch ${provider.displayName} profile (${response.status}): ${text.substring(0, 500)}`
+    );
+  }
 
+  const json = await response.json();
+  const username = readPath(json, provider.profile.username_field);
+  const displayName = provider.profile.display_name_field
+    ? readPath(json, provider.profile.display_name_field)
+    : null;
 
+  return {
+    username,
+    accountId: readPath(json, provider.profile.id_field) ?? username,
+    displayName: displayName ?? username,
+    handle: fillTemplate(provider.profile.handle_template, username),
+    profileUrl: fillTemplate(provider.profile.profile_url_template, username),
+  };
+}
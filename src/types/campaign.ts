@@ -1,3 +1,11 @@
+import type {
+  PlatformHistoryEntry,
+  PostMediaAttachment,
+  PostMetricsSnapshot,
+  PostVisibility,
+  SimulatedPublish,
+} from "@/lib/publishing";
+
 export type CampaignStatus =
   | "draft"
   | "active"
@@ -9,8 +17,12 @@ export type CampaignStatus =
 export type CampaignContentStatus =
   | "draft"
   | "scheduled"
+  | "publishing"
   | "published"
+  | "simulated"
   | "failed"
+  | "dead_letter"
+  | "deleted"
   | string;
 
 export interface Campaign {
@@ -33,6 +45,10 @@ export interface Campaign {
   created_at: string;
   updated_at: string;
   target_platforms: string[];
+  /** Scheduled posts are simulated instead of published. */
+  dry_run: boolean;
+  /** Account each platform's posts go out on, keyed by platform id. */
+  account_assignments: Record<string, string>;
 }
 
 export interface ContentPayload {
@@ -55,7 +71,8 @@ export interface CampaignContent {
   post_external_id: string | null;
   post_url: string | null;
   content_json: ContentPayload;
-  media_assets: Record<string, unknown>[];
+  /** Images attached from the media library. */
+  media_assets: PostMediaAttachment[];
   platform_options: Record<string, unknown>;
   created_by: "user" | "ai" | string;
   error_message: string | null;
@@ -63,6 +80,18 @@ export interface CampaignContent {
   last_attempt_at: string | null;
   last_error: string | null;
   workflow_state: Record<string, unknown>;
+  /** Latest performance snapshot, for published posts. */
+  metrics: PostMetricsSnapshot | null;
+  metrics_synced_at: string | null;
+  /** What would have been sent, for simulated posts. */
+  simulation: SimulatedPublish | null;
+  /** Edits and deletions made on the platform after publishing. */
+  platform_history: PlatformHistoryEntry[];
+  deleted_at: string | null;
+  /** Latest post-publish visibility check. */
+  visibility: PostVisibility | null;
+  /** When a check first found the post removed; cleared if reinstated. */
+  removed_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,102 @@
+import {
+  isTokenExpired,
+  refreshStoredTokens,
+  resolveRefreshFailure,
+  type PlatformPublisher,
+} from "../../../lib/publishing/index.ts";
+import { supabase } from "./supabaseClient.ts";
+import { decryptSecret, getEncryptionKeyring } from "./secrets.ts";
+
+export { isTokenExpired };
+
+/**
+ * Resolves OAuth client credentials for a platform using the same
+ * SOCIAL_<PLATFORM>_CLIENT_ID / _CLIENT_SECRET convention as the app.
+ */
+export function resolveClientCredentials(
+  platformId: string
+): { clientId: string; clientSecret: string } | null {
+  const prefix = `SOCIAL_${platformId.replace(/[^a-z0-9]/gi, "_").toUpperCase()}`;
+  const clientId = Deno.env.get(`${prefix}_CLIENT_ID`);
+  const clientSecret = Deno.env.get(`${prefix}_CLIENT_SECRET`);
+
+  if (!clientId || !clientSecret) {
+    return null;
+  }
+
+  return { clientId, clientSecret };
+}
+
+/**
+ * Records a failed refresh on the account, possibly marking it expired or
+ * revoked. Skipped when another run refreshed the account in the meantime:
+ * providers that rotate refresh tokens reject the old one with the same
+ * invalid_grant a revoked grant gets. Returns the status written, or null
+ * when skipped.
+ */
+export async function recordRefreshFailure(
+  account: any,
+  error: unknown
+): Promise<string | null> {
+  const update = resolveRefreshFailure(error, account.access_token_expires_at);
+
+  let query = supabase
+    .from("persona_social_accounts")
+    .update(update)
+    .eq("id", account.id);
+  query = account.last_token_refresh_at
+    ? query.eq("last_token_refresh_at", account.last_token_refresh_at)
+    : query.is("last_token_refresh_at", null);
+
+  const { data: updated, error: updateError } = await query.select("id");
+
+  if (updateError) {
+    console.error("Failed to record token refresh failure:", updateError);
+    return null;
+  }
+
+  return updated && updated.length > 0 ? update.status : null;
+}
+
+/**
+ * Returns a usable access token for the account, refreshing it through the
+ * platform publisher (and persisting the new tokens) when it's about to expire.
+ */
+export async function getAccessToken(
+  account: any,
+  publisher: PlatformPublisher
+): Promise<string | null> {
+  const accessToken = await decryptSecret(account.access_token_encrypted);
+
+  if (!isTokenExpired(account.access_token_expires_at) && accessToken) {
+    return accessToken;
+  }
+
+  const keyring = getEncryptionKeyring();
+  const credentials = resolveClientCredentials(account.platform_id);
+
+  if (!credentials || !keyring) {
+    return null;
+  }
+
+  let refreshed;
+  try {
+    refreshed = await refreshStoredTokens(account, publisher, credentials, keyring);
+  } catch (error) {
+    console.error(`${account.platform_id} token refresh failed:`, error);
+    await recordRefreshFailure(account, error);
+    return null;
+  }
+
+  const { error: updateError } = await supabase
+    .from("persona_social_accounts")
+    .update(refreshed.update)
+    .eq("id", account.id);
+
+  if (updateError) {
+    console.error("Failed to update account after token refresh:", updateError);
+    return null;
+  }
+
+  return refreshed.accessToken;
+}
@@ -0,0 +1,61 @@
+/**
+ * Encryption/decryption helpers for Deno edge functions.
+ * Thin wrappers over lib/security/cipher.ts, the same AES-256-GCM code the
+ * app uses, so both runtimes read and write identical
+ * persona_social_accounts ciphertexts with the same keyring.
+ */
+
+import {
+  decryptStoredSecret,
+  encryptStoredSecret,
+  parseKeyring,
+  type SecretKeyring,
+} from "../../../lib/security/cipher.ts";
+
+export { byteaToBytes, toByteaHex } from "../../../lib/security/cipher.ts";
+
+/**
+ * The keyring from the SOCIAL_OAUTH_ENCRYPTION_* settings, or null when
+ * they're missing or malformed.
+ */
+export function getEncryptionKeyring(): SecretKeyring | null {
+  try {
+    return parseKeyring({
+      primaryKey: Deno.env.get("SOCIAL_OAUTH_ENCRYPTION_KEY"),
+      primaryKeyId: Deno.env.get("SOCIAL_OAUTH_ENCRYPTION_KEY_ID"),
+      previousKeys: Deno.env.get("SOCIAL_OAUTH_ENCRYPTION_PREVIOUS_KEYS"),
+    });
+  } catch (error) {
+    console.error("Invalid encryption key configuration:", error);
+    return null;
+  }
+}
+
+/**
+ * Encrypts a secret into the `\x` hex bytea value to store.
+ */
+export async function encryptSecret(plaintext: string): Promise<string | null> {
+  const keyring = getEncryptionKeyring();
+  if (!plaintext || !keyring) {
+    return null;
+  }
+
+  return encryptStoredSecret(plaintext, keyring);
+}
+
+/**
+ * Decrypts a stored bytea value, returning null when it can't be decrypted.
+ */
+export async function decryptSecret(stored: string | null): Promise<string | null> {
+  const keyring = getEncryptionKeyring();
+  if (!stored || !keyring) {
+    return null;
+  }
+
+  try {
+    return await decryptStoredSecret(stored, keyring);
+  } catch (error) {
+    console.error("Decryption failed:", error);
+    return null;
+  }
+}
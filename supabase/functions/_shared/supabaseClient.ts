@@ -0,0 +1,17 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.43.1";
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL");
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+if (!supabaseUrl || !serviceRoleKey) {
+  throw new Error("Missing Supabase environment configuration.");
+}
+
+/**
+ * Service-role client shared by the scheduled edge functions.
+ */
+export const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: {
+    persistSession: false,
+  },
+});
@@ -0,0 +1,241 @@
+import {
+  getPlatformPublisher,
+  toPublisherAccount,
+} from "../../../lib/publishing/index.ts";
+import {
+  getEngagementSource,
+  planEngagementItems,
+  ENGAGEMENT_PLATFORM_IDS,
+  type KnownEngagementItem,
+} from "../../../lib/engagement/index.ts";
+import { supabase } from "../_shared/supabaseClient.ts";
+import { getAccessToken } from "../_shared/accountTokens.ts";
+
+// Only keep polling posts for comments while they're still getting traffic
+const lookbackDays = Number(Deno.env.get("ENGAGEMENT_SYNC_LOOKBACK_DAYS") ?? "14");
+const appUrl = Deno.env.get("APP_URL");
+const automationSecret = Deno.env.get("ENGAGEMENT_AUTOMATION_SECRET");
+
+/**
+ * Loads the engagement items already stored for an account so comments are
+ * deduped on platform_object_id and replies can be threaded onto them.
+ */
+async function loadKnownItems(
+  accountId: string,
+  platformObjectIds: string[]
+): Promise<Map<string, KnownEngagementItem>> {
+  const known = new Map<string, KnownEngagementItem>();
+
+  if (platformObjectIds.length === 0) {
+    return known;
+  }
+
+  const { data, error } = await supabase
+    .from("engagement_items")
+    .select("id, platform_object_id, thread_root_id, author_handle")
+    .eq("persona_social_account_id", accountId)
+    .in("platform_object_id", platformObjectIds);
+
+  if (error) {
+    throw new Error(`Failed to load existing engagement items: ${error.message}`);
+  }
+
+  for (const item of data ?? []) {
+    known.set(item.platform_object_id, {
+      id: item.id,
+      thread_root_id: item.thread_root_id,
+      author_handle: item.author_handle,
+    });
+  }
+
+  return known;
+}
+
+/**
+ * Pulls comments for every recently published post of one account and stores
+ * the new ones. Returns the number of engagement items inserted.
+ */
+async function syncAccount(account: any, posts: any[]): Promise<number> {
+  const source = getEngagementSource(account.platform_id);
+  const publisher = getPlatformPublisher(account.platform_id);
+
+  if (!source || !publisher) {
+    return 0;
+  }
+
+  const accessToken = await getAccessToken(account, publisher);
+  if (!accessToken) {
+    throw new Error(`Failed to obtain valid ${account.platform_id} access token`);
+  }
+
+  const session = { accessToken, account: toPublisherAccount(account) };
+  let inserted = 0;
+
+  for (const post of posts) {
+    const comments = await source.fetchComments(post.post_external_id, session);
+    const known = await loadKnownItems(
+      account.id,
+      comments.flatMap((comment) =>
+        comment.parentPlatformObjectId
+          ? [comment.platformObjectId, comment.parentPlatformObjectId]
+          : [comment.platformObjectId]
+      )
+    );
+
+    const rows = planEngagementItems(comments, {
+      accountId: account.id,
+      platformId: account.platform_id,
+      ownHandle: account.provider_username ?? account.account_handle,
+      campaignPostId: post.id,
+      externalPostId: post.post_external_id,
+      known,
+      generateId: () => crypto.randomUUID(),
+    });
+
+    if (rows.length === 0) {
+      continue;
+    }
+
+    // Rows are ordered parents-first, which the self-referencing foreign keys need
+    const { error: insertError } = await supabase
+      .from("engagement_items")
+      .upsert(rows, {
+        onConflict: "persona_social_account_id,platform_object_id",
+        ignoreDuplicates: true,
+      });
+
+    if (insertError) {
+      throw new Error(
+        `Failed to store engagement items for post ${post.id}: ${insertError.message}`
+      );
+    }
+
+    inserted += rows.length;
+  }
+
+  return inserted;
+}
+
+/**
+ * Asks the app to run auto-reply policies over freshly synced items. Drafting
+ * replies needs the app's model and guardrail stack, so it doesn't run here.
+ */
+async function triggerAutoReplies(accountIds: string[]): Promise<void> {
+  if (!appUrl || !automationSecret) {
+    console.log("APP_URL or ENGAGEMENT_AUTOMATION_SECRET not set, skipping auto-replies");
+    return;
+  }
+
+  try {
+    const response = await fetch(`${appUrl.replace(/\/+$/, "")}/api/engagement/auto-reply`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${automationSecret}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ accountIds }),
+    });
+
+    if (!response.ok) {
+      console.error(`Auto-reply run failed with status ${response.status}`);
+      return;
+    }
+
+    console.log("Auto-reply run finished", await response.json());
+  } catch (error) {
+    console.error("Failed to trigger auto-replies", error);
+  }
+}
+
+Deno.serve(async () => {
+  const startedAt = new Date();
+  const sinceIso = new Date(
+    startedAt.getTime() - lookbackDays * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  try {
+    const { data: publishedPosts, error } = await supabase
+      .from("campaign_posts")
+      .select("id, persona_social_account_id, platform_id, post_external_id, posted_at")
+      .eq("status", "published")
+      .in("platform_id", ENGAGEMENT_PLATFORM_IDS)
+      .not("post_external_id", "is", null)
+      .not("persona_social_account_id", "is", null)
+      .gte("posted_at", sinceIso);
+
+    if (error) {
+      console.error("Failed to fetch published posts", error);
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch published posts" }),
+        { status: 500 }
+      );
+    }
+
+    const postsByAccount = new Map<string, any[]>();
+    for (const post of publishedPosts ?? []) {
+      const accountPosts = postsByAccount.get(post.persona_social_account_id) ?? [];
+      accountPosts.push(post);
+      postsByAccount.set(post.persona_social_account_id, accountPosts);
+    }
+
+    const synced: { accountId: string; inserted: number }[] = [];
+    const failed: { accountId: string; error: string }[] = [];
+
+    for (const [accountId, posts] of postsByAccount) {
+      try {
+        const { data: account, error: accountError } = await supabase
+          .from("persona_social_accounts")
+          .select("*")
+          .eq("id", accountId)
+          .eq("status", "connected")
+          .single();
+
+        if (accountError || !account) {
+          console.log(`Skipping engagement sync for unavailable account ${accountId}`);
+          continue;
+        }
+
+        const inserted = await syncAccount(account, posts);
+
+        await supabase
+          .from("persona_social_accounts")
+          .update({ last_engagement_sync_at: startedAt.toISOString() })
+          .eq("id", accountId);
+
+        synced.push({ accountId, inserted });
+        console.log(
+          `Synced ${inserted} new engagement items for account ${accountId} across ${posts.length} posts`
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message.substring(0, 500) : "Unknown error";
+        failed.push({ accountId, error: errorMessage });
+        console.error(`Engagement sync failed for account ${accountId}:`, error);
+      }
+    }
+
+    const accountsWithNewItems = synced
+      .filter((result) => result.inserted > 0)
+      .map((result) => result.accountId);
+    if (accountsWithNewItems.length > 0) {
+      await triggerAutoReplies(accountsWithNewItems);
+    }
+
+    return new Response(
+      JSON.stringify({
+        synced,
+        failed,
+        count: synced.length,
+        failedCount: failed.length,
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("engagementSync failed", error);
+    return new Response(JSON.stringify({ error: "Engagement sync failure" }), {
+      status: 500,
+    });
+  }
+});
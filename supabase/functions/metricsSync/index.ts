@@ -0,0 +1,198 @@
+import {
+  getPlatformPublisher,
+  rollupCampaignPerformance,
+  toMetricsSnapshot,
+  toPublisherAccount,
+  PUBLISHABLE_PLATFORM_IDS,
+} from "../../../lib/publishing/index.ts";
+import { supabase } from "../_shared/supabaseClient.ts";
+import { getAccessToken } from "../_shared/accountTokens.ts";
+
+// Older posts rarely move, so stop collecting once they've settled
+const lookbackDays = Number(Deno.env.get("METRICS_SYNC_LOOKBACK_DAYS") ?? "30");
+
+/**
+ * Collects a metrics snapshot for every post of one account. Returns the
+ * number of snapshots stored.
+ */
+async function syncAccount(
+  account: any,
+  posts: any[],
+  collectedAt: string
+): Promise<number> {
+  const publisher = getPlatformPublisher(account.platform_id);
+  if (!publisher) {
+    return 0;
+  }
+
+  const accessToken = await getAccessToken(account, publisher);
+  if (!accessToken) {
+    throw new Error(`Failed to obtain valid ${account.platform_id} access token`);
+  }
+
+  const session = { accessToken, account: toPublisherAccount(account) };
+  let stored = 0;
+
+  for (const post of posts) {
+    try {
+      const metrics = await publisher.fetchMetrics(post.post_external_id, session);
+      const snapshot = toMetricsSnapshot(metrics, collectedAt);
+
+      const { error: insertError } = await supabase
+        .from("campaign_post_metrics")
+        .insert({
+          campaign_post_id: post.id,
+          campaign_id: post.campaign_id,
+          platform_id: post.platform_id,
+          collected_at: collectedAt,
+          score: snapshot.score,
+          upvote_ratio: snapshot.upvote_ratio,
+          likes: snapshot.likes,
+          comments: snapshot.comments,
+          shares: snapshot.shares,
+          impressions: snapshot.impressions,
+          raw: metrics.raw,
+        });
+
+      if (insertError) {
+        throw new Error(`Failed to store metrics snapshot: ${insertError.message}`);
+      }
+
+      await supabase
+        .from("campaign_posts")
+        .update({ metrics: snapshot, metrics_synced_at: collectedAt })
+        .eq("id", post.id);
+
+      stored += 1;
+    } catch (error) {
+      // One deleted or inaccessible post shouldn't stop the rest of the account
+      console.error(`Metrics sync failed for post ${post.id}:`, error);
+    }
+  }
+
+  return stored;
+}
+
+/**
+ * Recomputes campaigns.metrics.performance from the latest post snapshots,
+ * keeping the other keys (e.g. target_platforms) intact.
+ */
+async function rollupCampaign(campaignId: string, updatedAt: string): Promise<void> {
+  const [{ data: campaign, error: campaignError }, { data: posts, error: postsError }] =
+    await Promise.all([
+      supabase.from("campaigns").select("metrics").eq("id", campaignId).single(),
+      supabase
+        .from("campaign_posts")
+        .select("id, platform_id, metrics")
+        .eq("campaign_id", campaignId)
+        .eq("status", "published"),
+    ]);
+
+  if (campaignError || !campaign || postsError) {
+    throw new Error(`Failed to load campaign ${campaignId} for rollup`);
+  }
+
+  const performance = rollupCampaignPerformance(posts ?? [], updatedAt);
+
+  const { error } = await supabase
+    .from("campaigns")
+    .update({ metrics: { ...(campaign.metrics ?? {}), performance } })
+    .eq("id", campaignId);
+
+  if (error) {
+    throw new Error(`Failed to update campaign ${campaignId} metrics: ${error.message}`);
+  }
+}
+
+Deno.serve(async () => {
+  const startedAt = new Date();
+  const collectedAt = startedAt.toISOString();
+  const sinceIso = new Date(
+    startedAt.getTime() - lookbackDays * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  try {
+    const { data: publishedPosts, error } = await supabase
+      .from("campaign_posts")
+      .select("id, campaign_id, persona_social_account_id, platform_id, post_external_id")
+      .eq("status", "published")
+      .in("platform_id", PUBLISHABLE_PLATFORM_IDS)
+      .not("post_external_id", "is", null)
+      .not("persona_social_account_id", "is", null)
+      .gte("posted_at", sinceIso);
+
+    if (error) {
+      console.error("Failed to fetch published posts", error);
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch published posts" }),
+        { status: 500 }
+      );
+    }
+
+    const postsByAccount = new Map<string, any[]>();
+    for (const post of publishedPosts ?? []) {
+      const accountPosts = postsByAccount.get(post.persona_social_account_id) ?? [];
+      accountPosts.push(post);
+      postsByAccount.set(post.persona_social_account_id, accountPosts);
+    }
+
+    const synced: { accountId: string; stored: number }[] = [];
+    const failed: { accountId: string; error: string }[] = [];
+    const touchedCampaigns = new Set<string>();
+
+    for (const [accountId, posts] of postsByAccount) {
+      try {
+        const { data: account, error: accountError } = await supabase
+          .from("persona_social_accounts")
+          .select("*")
+          .eq("id", accountId)
+          .eq("status", "connected")
+          .single();
+
+        if (accountError || !account) {
+          console.log(`Skipping metrics sync for unavailable account ${accountId}`);
+          continue;
+        }
+
+        const stored = await syncAccount(account, posts, collectedAt);
+        if (stored > 0) {
+          posts.forEach((post) => touchedCampaigns.add(post.campaign_id));
+        }
+
+        synced.push({ accountId, stored });
+        console.log(`Stored ${stored} metrics snapshots for account ${accountId}`);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message.substring(0, 500) : "Unknown error";
+        failed.push({ accountId, error: errorMessage });
+        console.error(`Metrics sync failed for account ${accountId}:`, error);
+      }
+    }
+
+    for (const campaignId of touchedCampaigns) {
+      try {
+        await rollupCampaign(campaignId, collectedAt);
+      } catch (error) {
+        console.error(`Metrics rollup failed for campaign ${campaignId}:`, error);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        synced,
+        failed,
+        campaignsUpdated: touchedCampaigns.size,
+        count: synced.length,
+        failedCount: failed.length,
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("metricsSync failed", error);
+    return new Response(JSON.stringify({ error: "Metrics sync failure" }), {
+      status: 500,
+    });
+  }
+});
@@ -1,403 +1,201 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.43.1";
-
-const supabaseUrl = Deno.env.get("SUPABASE_URL");
-const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-const redditClientId = Deno.env.get("SOCIAL_REDDIT_CLIENT_ID");
-const redditClientSecret = Deno.env.get("SOCIAL_REDDIT_CLIENT_SECRET");
-const encryptionKey = Deno.env.get("SOCIAL_OAUTH_ENCRYPTION_KEY");
-
-if (!supabaseUrl || !serviceRoleKey) {
-  throw new Error("Missing Supabase environment configuration.");
-}
-
-const supabase = createClient(supabaseUrl, serviceRoleKey, {
-  auth: {
-    persistSession: false,
-  },
-});
-
-// Encryption/decryption helpers for Deno
-function byteaToBuffer(value: string | null): Uint8Array | null {
-  if (!value) {
-    return null;
-  }
-
-  if (value.startsWith("\\x")) {
-    const hex = value.slice(2);
-    return new Uint8Array(
-      hex.match(/.{1,2}/g)?.map((byte) => parseInt(byte, 16)) || []
-    );
-  }
-
-  // Base64 decode
-  const binaryString = atob(value);
-  return new Uint8Array(
-    binaryString.split("").map((char) => char.charCodeAt(0))
-  );
-}
+import {
+  buildPublishRequest,
+  checkRateLimits,
+  classifyPublishFailure,
+  countOutcomes,
+  createStorageMediaLoader,
+  DEAD_LETTER_STATUS,
+  DEFAULT_MAX_PUBLISH_RETRIES,
+  DEFAULT_PUBLISH_LEASE_SECONDS,
+  DEFAULT_RETRY_BASE_SECONDS,
+  getPlatformPublisher,
+  INTERRUPTED_PUBLISH_MESSAGE,
+  leaseExpiresAt,
+  planPublishRetry,
+  publishFailureMessage,
+  PUBLISHING_STATUS,
+  RATE_LIMIT_LOOKAROUND_MS,
+  rateLimitSubreddit,
+  readAccountAssignments,
+  RELEASED_LEASE,
+  resolveRateLimits,
+  selectPublishingAccount,
+  SIMULATED_STATUS,
+  simulatePublish,
+  toPublisherAccount,
+  toRateLimitEntry,
+  type PublishFailureKind,
+  type RateLimitCheck,
+  type RateLimitEntry,
+  type SchedulerPostOutcome,
+  type SchedulerPostResult,
+} from "../../../lib/publishing/index.ts";
+import { supabase } from "../_shared/supabaseClient.ts";
+import { getAccessToken } from "../_shared/accountTokens.ts";
 
 /**
- * Encrypts a secret using AES-256-GCM.
- * Format: [IV (12 bytes)][AuthTag (16 bytes)][Ciphertext]
+ * Finds the account to publish a campaign post with, following
+ * selectPublishingAccount's rules: the post's own account, then the
+ * campaign's account for the platform, then the persona's default.
  */
-async function encryptSecret(plaintext: string): Promise<Uint8Array | null> {
-  if (!plaintext || !encryptionKey) {
-    return null;
-  }
+async function findAccountForPost(post: any): Promise<any | null> {
+  const { data: accounts, error } = await supabase
+    .from("persona_social_accounts")
+    .select("*")
+    .eq("persona_id", post.persona_id)
+    .eq("platform_id", post.platform_id)
+    .eq("status", "connected");
 
-  const keyBytes = Uint8Array.from(atob(encryptionKey), (c) => c.charCodeAt(0));
-  if (keyBytes.length !== 32) {
-    throw new Error("Invalid encryption key length");
+  if (error || !accounts) {
+    return null;
   }
 
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  const key = await crypto.subtle.importKey(
-    "raw",
-    keyBytes,
-    { name: "AES-GCM" },
-    false,
-    ["encrypt"]
+  const selection = selectPublishingAccount(
+    post,
+    accounts,
+    readAccountAssignments(post.campaigns?.account_assignments)
   );
 
-  const encoder = new TextEncoder();
-  const plaintextBytes = encoder.encode(plaintext);
-
-  const encrypted = await crypto.subtle.encrypt(
-    {
-      name: "AES-GCM",
-      iv: iv,
-      tagLength: 128,
-    },
-    key,
-    plaintextBytes
-  );
-
-  const encryptedArray = new Uint8Array(encrypted);
-  const authTag = encryptedArray.slice(-16);
-  const ciphertext = encryptedArray.slice(0, -16);
-
-  // Format: [IV (12)][AuthTag (16)][Ciphertext]
-  const result = new Uint8Array(12 + 16 + ciphertext.length);
-  result.set(iv, 0);
-  result.set(authTag, 12);
-  result.set(ciphertext, 28);
-
-  return result;
+  return selection?.account ?? null;
 }
 
 /**
- * Decrypts a secret using AES-256-GCM.
- * Format: [IV (12 bytes)][AuthTag (16 bytes)][Ciphertext]
+ * Checks whether publishing the post now would break its account's limits.
+ * Only posts that already went out (or are going out) count here; later
+ * scheduled posts get their own check when they come due.
  */
-async function decryptSecret(payload: Uint8Array | null): Promise<string | null> {
-  if (!payload || !encryptionKey) {
-    return null;
-  }
-
-  if (payload.length < 12 + 16) {
-    throw new Error("Invalid encrypted payload");
-  }
-
-  const keyBytes = Uint8Array.from(atob(encryptionKey), (c) => c.charCodeAt(0));
-  if (keyBytes.length !== 32) {
-    throw new Error("Invalid encryption key length");
+async function checkPublishRateLimits(
+  post: any,
+  account: any,
+  now: Date
+): Promise<RateLimitCheck> {
+  const since = new Date(now.getTime() - RATE_LIMIT_LOOKAROUND_MS).toISOString();
+  const { data, error } = await supabase
+    .from("campaign_posts")
+    .select("id, status, scheduled_for, posted_at, content_json, platform_options")
+    .eq("persona_social_account_id", account.id)
+    .neq("id", post.id)
+    .or(`and(status.eq.published,posted_at.gte.${since}),status.eq.${PUBLISHING_STATUS}`);
+
+  if (error) {
+    throw new Error(`Failed to load posts for rate limits: ${error.message}`);
   }
 
-  const iv = payload.subarray(0, 12);
-  const authTag = payload.subarray(12, 28);
-  const ciphertext = payload.subarray(28);
-
-  const key = await crypto.subtle.importKey(
-    "raw",
-    keyBytes,
-    { name: "AES-GCM" },
-    false,
-    ["decrypt"]
-  );
-
-  // Combine ciphertext and auth tag for decryption
-  const encryptedData = new Uint8Array(ciphertext.length + authTag.length);
-  encryptedData.set(ciphertext, 0);
-  encryptedData.set(authTag, ciphertext.length);
-
-  try {
-    const decrypted = await crypto.subtle.decrypt(
-      {
-        name: "AES-GCM",
-        iv: iv,
-        tagLength: 128,
-      },
-      key,
-      encryptedData
-    );
+  const entries = (data ?? [])
+    .map((row) => toRateLimitEntry(row, now))
+    .filter((entry): entry is RateLimitEntry => entry !== null);
 
-    return new TextDecoder().decode(decrypted);
-  } catch (error) {
-    console.error("Decryption failed:", error);
-    return null;
-  }
+  return checkRateLimits(resolveRateLimits(account.platform_id, account.rate_limits), entries, {
+    at: now,
+    platformId: account.platform_id,
+    subreddit: account.platform_id === "reddit" ? rateLimitSubreddit(post) : null,
+  });
 }
 
-function isTokenExpired(expiresAt: string | null): boolean {
-  if (!expiresAt) {
-    return true;
-  }
-
-  const expires = new Date(expiresAt);
-  const now = new Date();
-  // Refresh if token expires within 5 minutes
-  return expires.getTime() - now.getTime() < 5 * 60 * 1000;
+function readIntEnv(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
 }
 
+const MAX_RETRIES = readIntEnv(
+  "POST_SCHEDULER_MAX_RETRIES",
+  DEFAULT_MAX_PUBLISH_RETRIES
+);
+const RETRY_BASE_SECONDS = readIntEnv(
+  "POST_SCHEDULER_RETRY_BASE_SECONDS",
+  DEFAULT_RETRY_BASE_SECONDS
+);
+const LEASE_SECONDS = readIntEnv(
+  "POST_SCHEDULER_LEASE_SECONDS",
+  DEFAULT_PUBLISH_LEASE_SECONDS
+);
+
 /**
- * Sanitizes a subreddit name (removes r/ prefix, validates format).
+ * Opens a scheduler_runs row. Run history is best-effort: if it can't be
+ * written, publishing carries on without it.
  */
-function sanitizeSubreddit(subreddit: string | null | undefined): string | null {
-  if (!subreddit) {
-    return null;
-  }
-
-  let sanitized = subreddit.trim().replace(/^r\//i, "");
-  sanitized = sanitized.replace(/^\/+|\/+$/g, "");
-
-  if (!/^[a-zA-Z0-9_-]{3,21}$/.test(sanitized)) {
+async function startRun(startedAt: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("scheduler_runs")
+    .insert({ started_at: startedAt, status: "running" })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    console.error("Failed to record scheduler run start", error);
     return null;
   }
-
-  return sanitized;
+  return data.id;
 }
 
-/**
- * Validates Reddit content length.
- */
-function validateRedditContent(
-  title: string,
-  text: string
-): { valid: boolean; error?: string } {
-  if (!title || title.trim().length === 0) {
-    return { valid: false, error: "Title is required" };
-  }
-  if (title.length > 300) {
-    return {
-      valid: false,
-      error: `Title exceeds 300 character limit (${title.length} chars)`,
-    };
-  }
-  if (!text || text.trim().length === 0) {
-    return { valid: false, error: "Text content is required" };
+async function finishRun(
+  runId: string | null,
+  startedMs: number,
+  results: SchedulerPostResult[],
+  dueCount: number,
+  runError: string | null
+): Promise<void> {
+  if (!runId) {
+    return;
   }
-  if (text.length > 40000) {
-    return {
-      valid: false,
-      error: `Text exceeds 40,000 character limit (${text.length} chars)`,
-    };
-  }
-  return { valid: true };
-}
 
-async function refreshRedditToken(
-  account: any
-): Promise<{ accessToken: string; expiresAt: string | null; newRefreshToken?: string } | null> {
-  if (!isTokenExpired(account.access_token_expires_at)) {
-    const accessToken = await decryptSecret(
-      byteaToBuffer(account.access_token_encrypted as unknown as string)
-    );
-    if (accessToken) {
-      return { accessToken, expiresAt: account.access_token_expires_at };
+  if (results.length > 0) {
+    const { error: resultsError } = await supabase
+      .from("scheduler_run_posts")
+      .insert(results.map((result) => ({ ...result, run_id: runId })));
+    if (resultsError) {
+      console.error("Failed to record scheduler run posts", resultsError);
     }
   }
 
-  if (!account.refresh_token_encrypted) {
-    return null;
-  }
-
-  const refreshToken = await decryptSecret(
-    byteaToBuffer(account.refresh_token_encrypted as unknown as string)
-  );
-
-  if (!refreshToken || !redditClientId || !redditClientSecret) {
-    return null;
-  }
-
-  const credentials = btoa(`${redditClientId}:${redditClientSecret}`);
-
-  const response = await fetch("https://www.reddit.com/api/v1/access_token", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-      Authorization: `Basic ${credentials}`,
-    },
-    body: new URLSearchParams({
-      grant_type: "refresh_token",
-      refresh_token: refreshToken,
-    }),
-  });
-
-  if (!response.ok) {
-    const payload = await response.text();
-    console.error("Reddit token refresh failed:", response.status, payload);
-    return null;
-  }
-
-  const json = await response.json();
-  const accessToken = json.access_token as string | undefined;
-  const expiresIn = json.expires_in as number | undefined;
-  const newRefreshToken =
-    (json.refresh_token as string | undefined) || refreshToken;
-
-  if (!accessToken) {
-    return null;
-  }
-
-  const expiresAt = expiresIn
-    ? new Date(Date.now() + expiresIn * 1000).toISOString()
-    : null;
-
-  // Encrypt and persist tokens
-  const accessTokenEncrypted = await encryptSecret(accessToken);
-  const refreshTokenEncrypted = await encryptSecret(newRefreshToken);
-
-  if (!accessTokenEncrypted || !refreshTokenEncrypted) {
-    console.error("Failed to encrypt tokens after refresh");
-    return null;
-  }
-
-  // Convert Uint8Array to format Supabase expects (hex string with \x prefix)
-  const accessTokenHex = "\\x" + Array.from(accessTokenEncrypted)
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-  const refreshTokenHex = "\\x" + Array.from(refreshTokenEncrypted)
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-
-  // Update the account in database with encrypted tokens
-  const { error: updateError } = await supabase
-    .from("persona_social_accounts")
+  const { error } = await supabase
+    .from("scheduler_runs")
     .update({
-      access_token_encrypted: accessTokenHex,
-      refresh_token_encrypted: refreshTokenHex,
-      access_token_expires_at: expiresAt,
-      last_token_refresh_at: new Date().toISOString(),
-      last_token_error: null,
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedMs,
+      status: runError ? "failed" : "completed",
+      due_count: dueCount,
+      counts: countOutcomes(results),
+      error: runError,
     })
-    .eq("id", account.id);
+    .eq("id", runId);
 
-  if (updateError) {
-    console.error("Failed to update account after token refresh:", updateError);
-    return null;
+  if (error) {
+    console.error("Failed to record scheduler run end", error);
   }
-
-  return { accessToken, expiresAt, newRefreshToken };
 }
 
-async function submitRedditPost(
-  accessToken: string,
-  subreddit: string,
-  title: string,
-  text: string
-): Promise<{ externalId: string; url: string }> {
-  const response = await fetch("https://oauth.reddit.com/api/submit", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/x-www-form-urlencoded",
-      "User-Agent": "DoppelCart/1.0",
-    },
-    body: new URLSearchParams({
-      kind: "self",
-      sr: subreddit,
-      title: title,
-      text: text,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    let errorMessage = "Failed to submit post to Reddit";
-    try {
-      const errorJson = JSON.parse(errorText);
-      if (errorJson.error) {
-        errorMessage = `Reddit API error: ${errorJson.error}`;
-      }
-    } catch {
-      // If parsing fails, use generic message
-    }
-    console.error("Reddit post submission failed:", {
-      status: response.status,
-      statusText: response.statusText,
-      error: errorText.substring(0, 200),
+Deno.serve(async () => {
+  const now = new Date();
+  const nowIso = now.toISOString();
+  const startedMs = now.getTime();
+  const runId = await startRun(nowIso);
+  const results: SchedulerPostResult[] = [];
+  const postStartedMs = new Map<string, number>();
+
+  const recordOutcome = (
+    post: any,
+    outcome: SchedulerPostOutcome,
+    details: { failureKind?: PublishFailureKind; error?: string } = {}
+  ) => {
+    results.push({
+      campaign_post_id: post.id,
+      platform_id: post.platform_id ?? null,
+      outcome,
+      failure_kind: details.failureKind ?? null,
+      error: details.error ?? null,
+      latency_ms: Date.now() - (postStartedMs.get(post.id) ?? startedMs),
     });
-    throw new Error(errorMessage);
-  }
-
-  const json = await response.json();
-  const postId = json?.json?.data?.id as string | undefined;
-  const permalink = json?.json?.data?.permalink as string | undefined;
-
-  if (!postId || !permalink) {
-    console.error("Reddit response missing post data:", json);
-    throw new Error("Reddit response missing post ID or permalink");
-  }
-
-  const postUrl = permalink.startsWith("http")
-    ? permalink
-    : `https://reddit.com${permalink}`;
-
-  return {
-    externalId: postId,
-    url: postUrl,
   };
-}
 
-/**
- * Finds the appropriate Reddit account for a campaign post.
- * Prefers persona_social_account_id if set, otherwise finds by persona_id.
- */
-async function findRedditAccountForPost(post: any): Promise<any | null> {
-  // If persona_social_account_id is set, use that directly
-  if (post.persona_social_account_id) {
-    const { data: account, error } = await supabase
-      .from("persona_social_accounts")
-      .select("*")
-      .eq("id", post.persona_social_account_id)
-      .eq("platform_id", "reddit")
-      .eq("status", "connected")
-      .single();
-
-    if (error || !account) {
-      return null;
-    }
-
-    return account;
-  }
-
-  // Otherwise, find by persona_id
-  const { data: accounts, error } = await supabase
-    .from("persona_social_accounts")
-    .select("*")
-    .eq("persona_id", post.persona_id)
-    .eq("platform_id", "reddit")
-    .eq("status", "connected");
-
-  if (error || !accounts || accounts.length === 0) {
-    return null;
-  }
-
-  // If multiple accounts, prefer the most recently used one
-  const sortedAccounts = accounts.sort((a, b) => {
-    const aTime = a.last_token_refresh_at || a.created_at;
-    const bTime = b.last_token_refresh_at || b.created_at;
-    return new Date(bTime).getTime() - new Date(aTime).getTime();
-  });
-
-  return sortedAccounts[0];
-}
-
-Deno.serve(async () => {
-  const nowIso = new Date().toISOString();
+  const idsWith = (outcome: SchedulerPostOutcome) =>
+    results
+      .filter((result) => result.outcome === outcome)
+      .map((result) => result.campaign_post_id);
 
   try {
-    // Fetch scheduled posts with explicit user ownership verification via join
+    // Fetch due scheduled posts, plus posts whose lease a crashed run
+    // abandoned, with explicit user ownership verification via join
     const { data: scheduledPosts, error } = await supabase
       .from("campaign_posts")
       .select(
@@ -405,124 +203,239 @@ Deno.serve(async () => {
         *,
         campaigns!inner (
           id,
-          user_id
+          user_id,
+          dry_run,
+          account_assignments
         )
       `
       )
-      .eq("status", "scheduled")
-      .lte("scheduled_for", nowIso)
-      .not("campaigns.user_id", "is", null);
+      .or(
+        `and(status.eq.scheduled,scheduled_for.lte.${nowIso}),` +
+          `and(status.eq.${PUBLISHING_STATUS},lease_expires_at.lt.${nowIso})`
+      )
+      .not("campaigns.user_id", "is", null)
+      .order("scheduled_for", { ascending: true });
 
     if (error) {
       console.error("Failed to fetch scheduled posts", error);
+      await finishRun(runId, startedMs, results, 0, error.message);
       return new Response(
         JSON.stringify({ error: "Failed to fetch scheduled posts" }),
         { status: 500 }
       );
     }
 
-    const processed: string[] = [];
-    const failed: string[] = [];
+    /**
+     * Takes a post for this run. The update only matches while the post is
+     * still as we read it, so when overlapping runs race for the same post
+     * exactly one gets a lease token back.
+     */
+    const claimPost = async (post: any): Promise<string | null> => {
+      const leaseToken = crypto.randomUUID();
+      let claim = supabase
+        .from("campaign_posts")
+        .update({
+          status: PUBLISHING_STATUS,
+          lease_token: leaseToken,
+          lease_expires_at: leaseExpiresAt(new Date(), LEASE_SECONDS),
+        })
+        .eq("id", post.id)
+        .eq("status", post.status);
+
+      if (post.status === PUBLISHING_STATUS) {
+        claim = claim.eq("lease_token", post.lease_token);
+      }
+
+      const { data, error } = await claim.select("id").maybeSingle();
+      if (error || !data) {
+        return null;
+      }
+      return leaseToken;
+    };
+
+    /**
+     * Records a failed attempt. Transient failures go back on the schedule
+     * with backoff until the retry budget runs out; unconfirmed ones may be
+     * live, so they go straight to dead letter.
+     */
+    const handleFailure = async (
+      post: any,
+      leaseToken: string,
+      failure: string,
+      kind: PublishFailureKind
+    ) => {
+      const message = publishFailureMessage(failure, kind);
+      const plan = planPublishRetry(post.retry_count ?? 0, kind, {
+        maxRetries: MAX_RETRIES,
+        baseSeconds: RETRY_BASE_SECONDS,
+        now,
+      });
+
+      const workflowState = {
+        ...(post.workflow_state ?? {}),
+        scheduler: {
+          ...(post.workflow_state?.scheduler ?? {}),
+          lastFailureKind: kind,
+        },
+      };
+
+      await supabase
+        .from("campaign_posts")
+        .update({
+          status: plan.status,
+          retry_count: plan.retryCount,
+          ...(plan.status === "scheduled" ? { scheduled_for: plan.scheduledFor } : {}),
+          last_attempt_at: nowIso,
+          last_error: message,
+          workflow_state: workflowState,
+          ...RELEASED_LEASE,
+        })
+        .eq("id", post.id)
+        .eq("lease_token", leaseToken);
+
+      if (plan.status === "scheduled") {
+        recordOutcome(post, "retrying", { failureKind: kind, error: message });
+        console.log(
+          `Post ${post.id} will retry (${plan.retryCount}/${MAX_RETRIES}) at ${plan.scheduledFor}`
+        );
+      } else if (plan.status === "failed") {
+        recordOutcome(post, "failed", { failureKind: kind, error: message });
+      } else {
+        recordOutcome(post, "dead_letter", { failureKind: kind, error: message });
+        console.error(
+          kind === "unconfirmed"
+            ? `Post ${post.id} may be live but wasn't confirmed, moved to dead letter`
+            : `Post ${post.id} moved to dead letter after ${plan.retryCount} retries`
+        );
+      }
+    };
 
     for (const post of scheduledPosts ?? []) {
+      let leaseToken: string | null = null;
+      postStartedMs.set(post.id, Date.now());
+
       try {
-        // Only attempt real posting for Reddit
-        if (post.platform_id === "reddit") {
-          // Find the Reddit account using improved logic
-          const account = await findRedditAccountForPost(post);
+        leaseToken = await claimPost(post);
+        if (!leaseToken) {
+          // Another run claimed it first
+          recordOutcome(post, "skipped");
+          continue;
+        }
 
-          if (!account) {
-            await supabase
-              .from("campaign_posts")
-              .update({
-                status: "failed",
-                last_attempt_at: nowIso,
-                last_error: "No connected Reddit account for persona",
-              })
-              .eq("id", post.id);
+        if (post.status === PUBLISHING_STATUS && post.idempotency_key) {
+          // The abandoned run reached the platform; the post may be live already
+          await supabase
+            .from("campaign_posts")
+            .update({
+              status: DEAD_LETTER_STATUS,
+              last_attempt_at: nowIso,
+              last_error: INTERRUPTED_PUBLISH_MESSAGE,
+              ...RELEASED_LEASE,
+            })
+            .eq("id", post.id)
+            .eq("lease_token", leaseToken);
 
-            failed.push(post.id);
-            console.log(
-              `No Reddit account found for post ${post.id}, marking as failed`
-            );
-            continue;
-          }
+          recordOutcome(post, "dead_letter", { error: INTERRUPTED_PUBLISH_MESSAGE });
+          console.error(`Post ${post.id} was interrupted mid-publish, moved to dead letter`);
+          continue;
+        }
 
-          // Refresh token if needed and get access token
-          const tokenResult = await refreshRedditToken(account);
-          if (!tokenResult) {
-            await supabase
-              .from("campaign_posts")
-              .update({
-                status: "failed",
-                last_attempt_at: nowIso,
-                last_error: "Failed to obtain valid Reddit access token",
-              })
-              .eq("id", post.id);
+        const publisher = getPlatformPublisher(post.platform_id);
 
-            failed.push(post.id);
-            console.error(
-              `Failed to get Reddit token for post ${post.id}`
+        if (publisher && !post.campaigns?.dry_run) {
+          const account = await findAccountForPost(post);
+
+          if (!account) {
+            await handleFailure(
+              post,
+              leaseToken,
+              post.persona_social_account_id
+                ? `No connected ${publisher.platformId} account: the post's account is disconnected`
+                : `No connected ${publisher.platformId} account for persona`,
+              "permanent"
+            );
+            console.log(
+              `No ${publisher.platformId} account found for post ${post.id}, marking as failed`
             );
             continue;
           }
 
-          // Extract and sanitize subreddit
-          const platformOptions = (post.platform_options as Record<string, unknown>) || {};
-          const contentJson = (post.content_json as Record<string, unknown>) || {};
-          const subredditRaw =
-            (platformOptions.subreddit as string) ||
-            (platformOptions.sr as string) ||
-            (contentJson.subreddit as string) ||
-            null;
-
-          const subreddit = sanitizeSubreddit(subredditRaw);
+          const rateLimit = await checkPublishRateLimits(post, account, new Date());
+          if (!rateLimit.allowed) {
+            if (!rateLimit.nextAllowedAt) {
+              await handleFailure(post, leaseToken, rateLimit.message, "permanent");
+              continue;
+            }
 
-          if (!subreddit) {
+            // Not an attempt, so the retry budget is left alone
             await supabase
               .from("campaign_posts")
               .update({
-                status: "failed",
-                last_attempt_at: nowIso,
-                last_error: "Subreddit not specified or invalid in platform_options",
+                status: "scheduled",
+                scheduled_for: rateLimit.nextAllowedAt,
+                last_error: rateLimit.message,
+                ...RELEASED_LEASE,
               })
-              .eq("id", post.id);
+              .eq("id", post.id)
+              .eq("lease_token", leaseToken);
 
-            failed.push(post.id);
-            console.error(`No valid subreddit specified for post ${post.id}`);
+            recordOutcome(post, "deferred", { error: rateLimit.message });
+            console.log(`Post ${post.id} deferred to ${rateLimit.nextAllowedAt}: ${rateLimit.rule}`);
             continue;
           }
 
-          const title = (contentJson.title as string) || "";
-          const text = (contentJson.text as string) || "";
+          const request = buildPublishRequest(post, account);
+          const validation = publisher.validate(request);
+          if (!validation.valid) {
+            await handleFailure(
+              post,
+              leaseToken,
+              validation.error || "Invalid content",
+              "permanent"
+            );
+            console.error(`Post ${post.id} validation failed: ${validation.error}`);
+            continue;
+          }
 
-          // Validate content length
-          const contentValidation = validateRedditContent(title, text);
-          if (!contentValidation.valid) {
-            await supabase
-              .from("campaign_posts")
-              .update({
-                status: "failed",
-                last_attempt_at: nowIso,
-                last_error: contentValidation.error || "Invalid content",
-              })
-              .eq("id", post.id);
+          // Refresh token if needed and get access token
+          const accessToken = await getAccessToken(account, publisher);
+          if (!accessToken) {
+            // Refresh failures are usually provider hiccups; retry before giving up
+            await handleFailure(
+              post,
+              leaseToken,
+              `Failed to obtain valid ${publisher.platformId} access token`,
+              "transient"
+            );
+            console.error(
+              `Failed to get ${publisher.platformId} token for post ${post.id}`
+            );
+            continue;
+          }
 
-            failed.push(post.id);
-            console.error(`Post ${post.id} content validation failed: ${contentValidation.error}`);
+          // Record the attempt before calling out; bail if the lease was lost
+          const { data: started } = await supabase
+            .from("campaign_posts")
+            .update({ idempotency_key: crypto.randomUUID() })
+            .eq("id", post.id)
+            .eq("lease_token", leaseToken)
+            .select("id")
+            .maybeSingle();
+
+          if (!started) {
+            recordOutcome(post, "skipped");
             continue;
           }
 
-          // Submit to Reddit
           try {
-            const result = await submitRedditPost(
-              tokenResult.accessToken,
-              subreddit,
-              title,
-              text
-            );
+            const result = await publisher.publish(request, {
+              accessToken,
+              account: toPublisherAccount(account),
+              loadMedia: createStorageMediaLoader(supabase),
+            });
 
-            // Update post on success
+            // Update post on success. Not fenced by the lease: once the
+            // platform has the post, that is the truth whoever holds the lease
             await supabase
               .from("campaign_posts")
               .update({
@@ -530,35 +443,45 @@ Deno.serve(async () => {
                 posted_at: nowIso,
                 last_attempt_at: nowIso,
                 last_error: null,
+                persona_social_account_id: account.id,
                 post_external_id: result.externalId,
                 post_url: result.url,
+                ...RELEASED_LEASE,
               })
               .eq("id", post.id);
 
-            processed.push(post.id);
+            recordOutcome(post, "published");
             console.log(
-              `Successfully posted Reddit post ${post.id} to r/${subreddit}`
+              `Successfully published post ${post.id} to ${publisher.platformId} (${result.url})`
             );
           } catch (postError) {
             const errorMessage =
               postError instanceof Error
                 ? postError.message.substring(0, 500)
-                : "Unknown error posting to Reddit";
-
-            await supabase
-              .from("campaign_posts")
-              .update({
-                status: "failed",
-                last_attempt_at: nowIso,
-                last_error: errorMessage,
-              })
-              .eq("id", post.id);
+                : `Unknown error posting to ${publisher.platformId}`;
 
-            failed.push(post.id);
-            console.error(`Failed to post ${post.id} to Reddit:`, errorMessage);
+            await handleFailure(
+              post,
+              leaseToken,
+              errorMessage,
+              classifyPublishFailure(postError)
+            );
+            console.error(
+              `Failed to post ${post.id} to ${publisher.platformId}:`,
+              errorMessage
+            );
           }
         } else {
-          // For non-Reddit platforms, keep simulated behavior
+          // Dry-run campaigns and platforms without a publisher: record what
+          // would have been sent without claiming anything went out
+          const reason = publisher ? "dry_run" : "no_publisher";
+          const account = await findAccountForPost(post);
+          const simulation = simulatePublish(
+            buildPublishRequest(post, account ?? { id: post.persona_social_account_id ?? "" }),
+            publisher,
+            { platformId: post.platform_id, reason, now }
+          );
+
           const workflowState = {
             ...(post.workflow_state ?? {}),
             scheduler: {
@@ -570,24 +493,28 @@ Deno.serve(async () => {
           const { error: updateError } = await supabase
             .from("campaign_posts")
             .update({
-              status: "published",
-              posted_at: nowIso,
+              status: SIMULATED_STATUS,
+              simulation,
+              last_attempt_at: nowIso,
+              last_error: null,
               workflow_state: workflowState,
+              ...RELEASED_LEASE,
             })
-            .eq("id", post.id);
+            .eq("id", post.id)
+            .eq("lease_token", leaseToken);
 
           if (updateError) {
             console.error("Failed to update scheduled post", {
               id: post.id,
               error: updateError,
             });
-            failed.push(post.id);
+            recordOutcome(post, "failed", { error: updateError.message });
             continue;
           }
 
-          processed.push(post.id);
+          recordOutcome(post, "simulated");
           console.log(
-            `Simulated postScheduler publish for campaign_post ${post.id} targeting platform ${post.platform_id} (only Reddit is implemented)`
+            `Simulated postScheduler publish for campaign_post ${post.id} targeting platform ${post.platform_id} (${reason})`
           );
         }
       } catch (error) {
@@ -595,24 +522,35 @@ Deno.serve(async () => {
         const errorMessage =
           error instanceof Error ? error.message.substring(0, 500) : "Unknown error";
 
-        await supabase
-          .from("campaign_posts")
-          .update({
-            status: "failed",
-            last_attempt_at: nowIso,
-            last_error: errorMessage,
-          })
-          .eq("id", post.id);
-
-        failed.push(post.id);
+        if (leaseToken) {
+          await handleFailure(
+            post,
+            leaseToken,
+            errorMessage,
+            classifyPublishFailure(error)
+          );
+        } else {
+          recordOutcome(post, "failed", { error: errorMessage });
+        }
         console.error(`Unexpected error processing post ${post.id}:`, error);
       }
     }
 
+    await finishRun(runId, startedMs, results, scheduledPosts?.length ?? 0, null);
+
+    const processed = idsWith("published");
+    const failed = idsWith("failed");
+
     return new Response(
       JSON.stringify({
+        runId,
         processed,
         failed,
+        retrying: idsWith("retrying"),
+        deadLettered: idsWith("dead_letter"),
+        deferred: idsWith("deferred"),
+        skipped: idsWith("skipped"),
+        simulated: idsWith("simulated"),
         count: processed.length,
         failedCount: failed.length,
       }),
@@ -622,6 +560,13 @@ Deno.serve(async () => {
     );
   } catch (error) {
     console.error("postScheduler failed", error);
+    await finishRun(
+      runId,
+      startedMs,
+      results,
+      results.length,
+      error instanceof Error ? error.message : "Scheduler failure"
+    );
     return new Response(JSON.stringify({ error: "Scheduler failure" }), {
       status: 500,
     });
@@ -0,0 +1,128 @@
+import {
+  reencryptStoredSecret,
+  type SecretKeyring,
+} from "../../../lib/security/cipher.ts";
+import { supabase } from "../_shared/supabaseClient.ts";
+import { getEncryptionKeyring } from "../_shared/secrets.ts";
+
+const BATCH_SIZE = 100;
+const SECRET_COLUMNS = ["access_token_encrypted", "refresh_token_encrypted"] as const;
+
+/**
+ * Re-seals one account's secrets with the primary key. Returns whether
+ * anything was rewritten.
+ */
+async function rotateAccount(account: any, keyring: SecretKeyring): Promise<boolean> {
+  const update: Record<string, string> = {};
+  for (const column of SECRET_COLUMNS) {
+    const reencrypted = await reencryptStoredSecret(account[column], keyring);
+    if (reencrypted) {
+      update[column] = reencrypted;
+    }
+  }
+
+  if (Object.keys(update).length === 0) {
+    return false;
+  }
+
+  // Conditional on the old ciphertexts: a token refresh that landed
+  // meanwhile already wrote secrets sealed with the primary key
+  let query = supabase
+    .from("persona_social_accounts")
+    .update(update)
+    .eq("id", account.id);
+  for (const column of SECRET_COLUMNS) {
+    query = account[column]
+      ? query.eq(column, account[column])
+      : query.is(column, null);
+  }
+
+  const { error } = await query;
+  if (error) {
+    throw new Error(`Failed to store re-encrypted secrets: ${error.message}`);
+  }
+
+  return true;
+}
+
+/**
+ * Moves every stored OAuth secret onto the primary encryption key, so keys
+ * listed in SOCIAL_OAUTH_ENCRYPTION_PREVIOUS_KEYS can be retired once a run
+ * reports no failures. Safe to re-run; current secrets are left alone.
+ */
+Deno.serve(async () => {
+  try {
+    const keyring = getEncryptionKeyring();
+    if (!keyring) {
+      return new Response(
+        JSON.stringify({ error: "Missing or invalid SOCIAL_OAUTH_ENCRYPTION_KEY" }),
+        { status: 500 }
+      );
+    }
+
+    let scanned = 0;
+    let rotated = 0;
+    const failed: { accountId: string; error: string }[] = [];
+    let lastId: string | null = null;
+
+    while (true) {
+      let query = supabase
+        .from("persona_social_accounts")
+        .select("id, access_token_encrypted, refresh_token_encrypted")
+        .or("access_token_encrypted.not.is.null,refresh_token_encrypted.not.is.null")
+        .order("id")
+        .limit(BATCH_SIZE);
+      if (lastId) {
+        query = query.gt("id", lastId);
+      }
+
+      const { data: accounts, error } = await query;
+      if (error) {
+        console.error("Failed to fetch accounts for secret rotation", error);
+        return new Response(
+          JSON.stringify({ error: "Failed to fetch accounts for secret rotation" }),
+          { status: 500 }
+        );
+      }
+
+      for (const account of accounts ?? []) {
+        scanned += 1;
+        try {
+          if (await rotateAccount(account, keyring)) {
+            rotated += 1;
+          }
+        } catch (rotationError) {
+          const errorMessage =
+            rotationError instanceof Error
+              ? rotationError.message.substring(0, 500)
+              : "Unknown error";
+          failed.push({ accountId: account.id, error: errorMessage });
+          console.error(`Secret rotation failed for account ${account.id}:`, rotationError);
+        }
+      }
+
+      if (!accounts || accounts.length < BATCH_SIZE) {
+        break;
+      }
+      lastId = accounts[accounts.length - 1].id;
+    }
+
+    return new Response(
+      JSON.stringify({
+        primaryKeyId: keyring.primaryKeyId,
+        scanned,
+        rotated,
+        failed,
+        failedCount: failed.length,
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("secretRotation failed", error);
+    return new Response(JSON.stringify({ error: "Secret rotation failure" }), {
+      status: 500,
+    });
+  }
+});
@@ -0,0 +1,124 @@
+import {
+  getPlatformPublisher,
+  refreshStoredTokens,
+  PROACTIVE_REFRESH_WINDOW_MS,
+  PUBLISHABLE_PLATFORM_IDS,
+} from "../../../lib/publishing/index.ts";
+import type { SecretKeyring } from "../../../lib/security/cipher.ts";
+import { supabase } from "../_shared/supabaseClient.ts";
+import {
+  recordRefreshFailure,
+  resolveClientCredentials,
+} from "../_shared/accountTokens.ts";
+import { getEncryptionKeyring } from "../_shared/secrets.ts";
+
+/**
+ * Refreshes one account's tokens ahead of expiry. Returns the account's
+ * status afterwards.
+ */
+async function refreshAccount(account: any, keyring: SecretKeyring): Promise<string> {
+  const publisher = getPlatformPublisher(account.platform_id);
+  if (!publisher) {
+    return account.status;
+  }
+
+  const credentials = resolveClientCredentials(account.platform_id);
+  if (!credentials) {
+    throw new Error(`Missing OAuth client credentials for ${account.platform_id}`);
+  }
+
+  let refreshed;
+  try {
+    refreshed = await refreshStoredTokens(account, publisher, credentials, keyring);
+  } catch (error) {
+    console.error(`Token refresh failed for account ${account.id}:`, error);
+    return (await recordRefreshFailure(account, error)) ?? account.status;
+  }
+
+  const { error: updateError } = await supabase
+    .from("persona_social_accounts")
+    .update(refreshed.update)
+    .eq("id", account.id);
+
+  if (updateError) {
+    throw new Error(`Failed to store refreshed tokens: ${updateError.message}`);
+  }
+
+  return refreshed.update.status;
+}
+
+Deno.serve(async () => {
+  const now = new Date();
+  const horizon = new Date(now.getTime() + PROACTIVE_REFRESH_WINDOW_MS).toISOString();
+
+  try {
+    const keyring = getEncryptionKeyring();
+    if (!keyring) {
+      return new Response(
+        JSON.stringify({ error: "Missing or invalid SOCIAL_OAUTH_ENCRYPTION_KEY" }),
+        { status: 500 }
+      );
+    }
+
+    // Expired accounts are retried too: a provider outage may have passed
+    const { data: accounts, error } = await supabase
+      .from("persona_social_accounts")
+      .select("*")
+      .in("status", ["connected", "expired"])
+      .in("platform_id", PUBLISHABLE_PLATFORM_IDS)
+      .not("access_token_encrypted", "is", null)
+      .lt("access_token_expires_at", horizon);
+
+    if (error) {
+      console.error("Failed to fetch accounts due for refresh", error);
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch accounts due for refresh" }),
+        { status: 500 }
+      );
+    }
+
+    const results: { accountId: string; status: string }[] = [];
+    const failed: { accountId: string; error: string }[] = [];
+
+    for (const account of accounts ?? []) {
+      try {
+        const status = await refreshAccount(account, keyring);
+        results.push({ accountId: account.id, status });
+
+        if (status !== account.status) {
+          console.log(
+            `Account ${account.id} (${account.platform_id}) is now ${status}`
+          );
+        }
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message.substring(0, 500) : "Unknown error";
+        failed.push({ accountId: account.id, error: errorMessage });
+        console.error(`Token refresh failed for account ${account.id}:`, error);
+      }
+    }
+
+    const countStatus = (status: string) =>
+      results.filter((result) => result.status === status).length;
+
+    return new Response(
+      JSON.stringify({
+        results,
+        failed,
+        count: results.length,
+        connectedCount: countStatus("connected"),
+        expiredCount: countStatus("expired"),
+        revokedCount: countStatus("revoked"),
+        failedCount: failed.length,
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("tokenRefresh failed", error);
+    return new Response(JSON.stringify({ error: "Token refresh failure" }), {
+      status: 500,
+    });
+  }
+});
@@ -0,0 +1,161 @@
+import {
+  getPlatformPublisher,
+  isRemovedVisibility,
+  isVisibilityCheckDue,
+  resolveVisibility,
+  toPublisherAccount,
+  visibilityCheckWindowStart,
+  PUBLISHABLE_PLATFORM_IDS,
+  VISIBILITY_CHECK_OFFSETS_MINUTES,
+  type PostVisibilityState,
+} from "../../../lib/publishing/index.ts";
+import { supabase } from "../_shared/supabaseClient.ts";
+import { getAccessToken } from "../_shared/accountTokens.ts";
+
+/**
+ * Checks each due post of one account as its author and as a logged-out
+ * visitor, and records what was seen. Returns the states found.
+ */
+async function checkAccount(
+  account: any,
+  posts: any[],
+  checkedAt: string
+): Promise<PostVisibilityState[]> {
+  const publisher = getPlatformPublisher(account.platform_id);
+  if (!publisher) {
+    return [];
+  }
+
+  const accessToken = await getAccessToken(account, publisher);
+  if (!accessToken) {
+    throw new Error(`Failed to obtain valid ${account.platform_id} access token`);
+  }
+
+  const session = { accessToken, account: toPublisherAccount(account) };
+  const states: PostVisibilityState[] = [];
+
+  for (const post of posts) {
+    try {
+      const apiStatus = await publisher.fetchStatus(post.post_external_id, session);
+      const publicState =
+        publisher.fetchPublicStatus && post.post_url
+          ? await publisher.fetchPublicStatus(post.post_url)
+          : null;
+      const visibility = resolveVisibility(apiStatus, publicState, checkedAt);
+      const removed = isRemovedVisibility(visibility.state);
+
+      // Conditional on the check count so overlapping runs record each
+      // check once
+      await supabase
+        .from("campaign_posts")
+        .update({
+          visibility,
+          visibility_checks: post.visibility_checks + 1,
+          // Keep the first time a removal was seen; moderators may reinstate
+          removed_at: removed ? (post.removed_at ?? checkedAt) : null,
+        })
+        .eq("id", post.id)
+        .eq("visibility_checks", post.visibility_checks);
+
+      if (removed && !post.removed_at) {
+        console.log(
+          `Post ${post.id} is ${visibility.state} on ${post.platform_id}` +
+            (visibility.reason ? ` (${visibility.reason})` : "")
+        );
+      }
+
+      states.push(visibility.state);
+    } catch (error) {
+      // Left unchecked, so the next run tries again while the check is due
+      console.error(`Visibility check failed for post ${post.id}:`, error);
+    }
+  }
+
+  return states;
+}
+
+Deno.serve(async () => {
+  const now = new Date();
+  const checkedAt = now.toISOString();
+
+  try {
+    const { data: recentPosts, error } = await supabase
+      .from("campaign_posts")
+      .select(
+        "id, persona_social_account_id, platform_id, post_external_id, post_url, posted_at, visibility_checks, removed_at"
+      )
+      .eq("status", "published")
+      .in("platform_id", PUBLISHABLE_PLATFORM_IDS)
+      .not("post_external_id", "is", null)
+      .not("persona_social_account_id", "is", null)
+      .lt("visibility_checks", VISIBILITY_CHECK_OFFSETS_MINUTES.length)
+      .gte("posted_at", visibilityCheckWindowStart(now).toISOString());
+
+    if (error) {
+      console.error("Failed to fetch published posts", error);
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch published posts" }),
+        { status: 500 }
+      );
+    }
+
+    const postsByAccount = new Map<string, any[]>();
+    for (const post of recentPosts ?? []) {
+      if (!isVisibilityCheckDue(post.posted_at, post.visibility_checks, now)) {
+        continue;
+      }
+      const accountPosts = postsByAccount.get(post.persona_social_account_id) ?? [];
+      accountPosts.push(post);
+      postsByAccount.set(post.persona_social_account_id, accountPosts);
+    }
+
+    const checked: { accountId: string; checked: number; removed: number }[] = [];
+    const failed: { accountId: string; error: string }[] = [];
+
+    for (const [accountId, posts] of postsByAccount) {
+      try {
+        const { data: account, error: accountError } = await supabase
+          .from("persona_social_accounts")
+          .select("*")
+          .eq("id", accountId)
+          .eq("status", "connected")
+          .single();
+
+        if (accountError || !account) {
+          console.log(`Skipping visibility checks for unavailable account ${accountId}`);
+          continue;
+        }
+
+        const states = await checkAccount(account, posts, checkedAt);
+        checked.push({
+          accountId,
+          checked: states.length,
+          removed: states.filter((state) => isRemovedVisibility(state)).length,
+        });
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message.substring(0, 500) : "Unknown error";
+        failed.push({ accountId, error: errorMessage });
+        console.error(`Visibility checks failed for account ${accountId}:`, error);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        checked,
+        failed,
+        count: checked.reduce((sum, entry) => sum + entry.checked, 0),
+        removedCount: checked.reduce((sum, entry) => sum + entry.removed, 0),
+        failedCount: failed.length,
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("visibilityCheck failed", error);
+    return new Response(JSON.stringify({ error: "Visibility check failure" }), {
+      status: 500,
+    });
+  }
+});
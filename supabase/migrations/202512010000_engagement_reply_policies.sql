@@ -0,0 +1,92 @@
+-- Auto-reply policies per persona social account, and a log of every policy decision
+
+create table if not exists public.engagement_reply_policies (
+  id uuid primary key default gen_random_uuid(),
+  persona_social_account_id uuid not null unique references public.persona_social_accounts(id) on delete cascade,
+  enabled boolean not null default false,
+
+  -- Keyword rules (case-insensitive substring match on the comment text)
+  auto_reply_keywords text[] not null default '{}'::text[], -- if set, only matching items may be auto-replied
+  review_keywords text[] not null default '{}'::text[], -- always queue for review
+  skip_keywords text[] not null default '{}'::text[], -- always skip (spam, trolls)
+
+  -- Author rules (handles compared without u/ or @ prefixes)
+  author_allowlist text[] not null default '{}'::text[], -- if set, only these authors may be auto-replied
+  author_denylist text[] not null default '{}'::text[], -- always skipped
+
+  max_auto_replies_per_hour integer not null default 5,
+  -- Sentiment runs from -1 (negative) to 1 (positive)
+  min_sentiment_for_auto_reply numeric not null default 0,
+  skip_below_sentiment numeric,
+
+  -- Quiet hours in the policy's timezone; start > end wraps past midnight
+  quiet_hours_start smallint check (quiet_hours_start between 0 and 23),
+  quiet_hours_end smallint check (quiet_hours_end between 0 and 23),
+  timezone text not null default 'UTC',
+
+  -- WorkflowGuardrails applied to every outgoing auto-reply
+  guardrails jsonb not null default '{}'::jsonb,
+
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.engagement_policy_decisions (
+  id uuid primary key default gen_random_uuid(),
+  engagement_item_id uuid not null references public.engagement_items(id) on delete cascade,
+  persona_social_account_id uuid not null references public.persona_social_accounts(id) on delete cascade,
+  policy_id uuid references public.engagement_reply_policies(id) on delete set null,
+  decision text not null, -- 'auto_reply' | 'review' | 'skip'
+  reasons jsonb not null default '[]'::jsonb,
+  sentiment numeric,
+  reply_text text,
+  guardrail_result jsonb,
+  outcome text not null default 'applied', -- 'applied' | 'replied' | 'downgraded_to_review' | 'failed'
+  error text,
+  created_at timestamptz default now()
+);
+
+alter table public.engagement_reply_policies enable row level security;
+alter table public.engagement_policy_decisions enable row level security;
+
+create policy "Users can manage reply policies for their own personas"
+  on public.engagement_reply_policies
+  for all
+  using (
+    exists (
+      select 1
+      from public.persona_social_accounts psa
+      join public.personas p on p.id = psa.persona_id
+      where psa.id = engagement_reply_policies.persona_social_account_id
+        and p.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from public.persona_social_accounts psa
+      join public.personas p on p.id = psa.persona_id
+      where psa.id = engagement_reply_policies.persona_social_account_id
+        and p.user_id = auth.uid()
+    )
+  );
+
+-- Decisions are written by the service role only
+create policy "Users can view policy decisions for their own personas"
+  on public.engagement_policy_decisions
+  for select
+  using (
+    exists (
+      select 1
+      from public.persona_social_accounts psa
+      join public.personas p on p.id = psa.persona_id
+      where psa.id = engagement_policy_decisions.persona_social_account_id
+        and p.user_id = auth.uid()
+    )
+  );
+
+create index if not exists engagement_policy_decisions_account_created_idx
+  on public.engagement_policy_decisions (persona_social_account_id, created_at desc);
+
+create index if not exists engagement_policy_decisions_item_idx
+  on public.engagement_policy_decisions (engagement_item_id);
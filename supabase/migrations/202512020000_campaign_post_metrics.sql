@@ -0,0 +1,42 @@
+-- Time-series performance snapshots for published campaign posts
+
+create table if not exists public.campaign_post_metrics (
+  id uuid primary key default gen_random_uuid(),
+  campaign_post_id uuid not null references public.campaign_posts(id) on delete cascade,
+  campaign_id uuid not null references public.campaigns(id) on delete cascade,
+  platform_id text not null references public.social_platforms(id),
+  collected_at timestamptz not null default now(),
+  score integer,
+  upvote_ratio numeric,
+  likes integer,
+  comments integer,
+  shares integer,
+  impressions integer,
+  raw jsonb not null default '{}'::jsonb
+);
+
+-- Latest snapshot, mirrored onto the post for cheap listing
+alter table public.campaign_posts
+  add column if not exists metrics jsonb,
+  add column if not exists metrics_synced_at timestamptz;
+
+alter table public.campaign_post_metrics enable row level security;
+
+-- Snapshots are written by the metricsSync edge function (service role)
+create policy "Users can view metrics for their own campaign posts"
+  on public.campaign_post_metrics
+  for select
+  using (
+    exists (
+      select 1
+      from public.campaigns c
+      where c.id = campaign_post_metrics.campaign_id
+        and c.user_id = auth.uid()
+    )
+  );
+
+create index if not exists campaign_post_metrics_post_collected_idx
+  on public.campaign_post_metrics (campaign_post_id, collected_at desc);
+
+create index if not exists campaign_post_metrics_campaign_idx
+  on public.campaign_post_metrics (campaign_id);
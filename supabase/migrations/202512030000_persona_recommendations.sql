@@ -0,0 +1,24 @@
+-- Model-generated "what should this persona do next" recommendation sets
+
+create table if not exists public.persona_recommendations (
+  id uuid primary key default gen_random_uuid(),
+  persona_id uuid not null references public.personas(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  summary text not null default '',
+  recommendations jsonb not null default '[]'::jsonb,
+  sources jsonb not null default '{}'::jsonb,
+  week_start date not null,
+  model text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.persona_recommendations enable row level security;
+
+create policy "Users can manage their own persona recommendations"
+  on public.persona_recommendations
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create index if not exists persona_recommendations_persona_created_idx
+  on public.persona_recommendations (persona_id, created_at desc);
@@ -0,0 +1,11 @@
+-- Weekly posting slot template per social account, e.g.
+-- [{"day_of_week": 2, "time": "09:00"}, {"day_of_week": 4, "time": "09:00"}].
+-- Times are in the persona's demographics.time_zone.
+
+alter table public.persona_social_accounts
+  add column if not exists posting_slots jsonb not null default '[]'::jsonb;
+
+-- Queue lookups: upcoming scheduled posts per account
+create index if not exists campaign_posts_account_scheduled_idx
+  on public.campaign_posts (persona_social_account_id, scheduled_for)
+  where status = 'scheduled';
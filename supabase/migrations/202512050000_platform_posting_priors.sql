@@ -0,0 +1,22 @@
+-- Platform-level fallback for the best-time optimizer. posting_priors holds
+-- relative engagement weights in the audience's local time: days[0..6]
+-- (Sunday first) and hours[0..23]. The optimizer multiplies the two.
+
+alter table public.social_platforms
+  add column if not exists metadata jsonb not null default '{}'::jsonb;
+
+update public.social_platforms
+set metadata = metadata || '{"posting_priors": {"days": [0.8, 1.0, 1.0, 1.0, 0.95, 0.85, 0.8], "hours": [0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.7, 0.9, 1.0, 0.9, 0.7, 0.6, 0.7, 0.6, 0.3, 0.3, 0.3, 0.6, 0.7, 0.8, 0.8, 0.6, 0.4, 0.3]}}'::jsonb
+where id = 'reddit';
+
+update public.social_platforms
+set metadata = metadata || '{"posting_priors": {"days": [0.3, 0.85, 1.0, 1.0, 0.95, 0.7, 0.3], "hours": [0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.3, 0.8, 1.0, 0.9, 0.8, 0.7, 0.9, 0.7, 0.5, 0.5, 0.5, 0.6, 0.4, 0.3, 0.3, 0.3, 0.3, 0.3]}}'::jsonb
+where id = 'linkedin';
+
+update public.social_platforms
+set metadata = metadata || '{"posting_priors": {"days": [0.6, 0.9, 1.0, 1.0, 0.95, 0.8, 0.6], "hours": [0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.3, 0.6, 0.9, 1.0, 0.8, 0.7, 0.9, 0.8, 0.6, 0.5, 0.6, 0.8, 0.7, 0.6, 0.5, 0.4, 0.3, 0.3]}}'::jsonb
+where id = 'x';
+
+update public.social_platforms
+set metadata = metadata || '{"posting_priors": {"days": [0.6, 0.8, 0.9, 1.0, 1.0, 0.9, 0.6], "hours": [0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.3, 0.3, 0.6, 0.9, 1.0, 1.0, 1.0, 0.9, 0.7, 0.6, 0.5, 0.5, 0.6, 0.6, 0.5, 0.3, 0.3, 0.3]}}'::jsonb
+where id = 'facebook';
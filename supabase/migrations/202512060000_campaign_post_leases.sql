@@ -0,0 +1,21 @@
+-- Claim/lease columns so overlapping postScheduler runs (and "Post now")
+-- never publish the same post twice.
+--
+-- A worker claims a due post by moving it from 'scheduled' to 'publishing'
+-- with a fresh lease_token and lease_expires_at; the move is a conditional
+-- update, so only one worker wins. Leases past lease_expires_at belong to
+-- crashed runs and may be reclaimed.
+--
+-- idempotency_key is written just before the platform call and cleared once
+-- the outcome is recorded. A reclaimed post that still has one may already be
+-- live on the platform, so it is dead-lettered for review instead of retried.
+
+alter table public.campaign_posts
+  add column if not exists lease_token uuid,
+  add column if not exists lease_expires_at timestamptz,
+  add column if not exists idempotency_key uuid;
+
+-- Recovery sweep: abandoned leases
+create index if not exists campaign_posts_publishing_lease_idx
+  on public.campaign_posts (lease_expires_at)
+  where status = 'publishing';
@@ -0,0 +1,32 @@
+-- Dry-run publishing. Posts for platforms without a publisher, and every post
+-- in a campaign with dry_run on, end in status 'simulated' instead of
+-- 'published'. simulation holds a preview of what would have been sent.
+
+alter table public.campaigns
+  add column if not exists dry_run boolean not null default false;
+
+alter table public.campaign_posts
+  add column if not exists simulation jsonb;
+
+-- Earlier scheduler runs marked simulated posts as published; relabel them
+-- so they stop counting as real posts in reporting.
+update public.campaign_posts
+set status = 'simulated',
+    posted_at = null,
+    simulation = jsonb_build_object(
+      'reason', 'no_publisher',
+      'rendered_at', workflow_state->'scheduler'->>'lastSimulatedRun',
+      'preview', jsonb_build_object(
+        'platformId', platform_id,
+        'target', null,
+        'endpoint', null,
+        'body', jsonb_build_object(
+          'title', content_json->>'title',
+          'text', content_json->>'text'
+        )
+      ),
+      'validation', null
+    )
+where status = 'published'
+  and post_external_id is null
+  and workflow_state->'scheduler' ? 'lastSimulatedRun';
@@ -0,0 +1,44 @@
+-- One row per postScheduler invocation, plus one row per post it handled.
+-- Written by the edge function with the service role and read by the admin
+-- page, so neither table has user-facing policies.
+
+create table if not exists public.scheduler_runs (
+  id uuid primary key default gen_random_uuid(),
+  started_at timestamptz not null,
+  finished_at timestamptz,
+  duration_ms integer,
+  -- running | completed | failed
+  status text not null default 'running',
+  due_count integer not null default 0,
+  -- Posts per outcome: {"published": 3, "retrying": 1, ...}
+  counts jsonb not null default '{}'::jsonb,
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.scheduler_run_posts (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null references public.scheduler_runs (id) on delete cascade,
+  campaign_post_id uuid references public.campaign_posts (id) on delete set null,
+  platform_id text,
+  -- published | simulated | retrying | failed | dead_letter | skipped
+  outcome text not null,
+  -- transient | permanent, for failed attempts
+  failure_kind text,
+  error text,
+  latency_ms integer,
+  created_at timestamptz not null default now()
+);
+
+alter table public.scheduler_runs enable row level security;
+alter table public.scheduler_run_posts enable row level security;
+
+create index if not exists scheduler_runs_started_idx
+  on public.scheduler_runs (started_at desc);
+
+create index if not exists scheduler_run_posts_run_idx
+  on public.scheduler_run_posts (run_id);
+
+-- Per-platform success rates over a time window
+create index if not exists scheduler_run_posts_created_platform_idx
+  on public.scheduler_run_posts (created_at, platform_id);
@@ -0,0 +1,13 @@
+-- Per-account publishing limit overrides, e.g.
+-- {"posts_per_hour": 1, "posts_per_day": 5, "min_spacing_minutes": 30,
+--  "subreddit_cooldown_minutes": 1440}.
+-- Missing keys fall back to the platform defaults in lib/publishing/rateLimits.ts;
+-- null disables a limit.
+
+alter table public.persona_social_accounts
+  add column if not exists rate_limits jsonb not null default '{}'::jsonb;
+
+-- Rate limit lookups: recent published posts per account
+create index if not exists campaign_posts_account_posted_idx
+  on public.campaign_posts (persona_social_account_id, posted_at)
+  where status = 'published';
@@ -0,0 +1,43 @@
+-- Media library: images users upload once and attach to campaign posts.
+-- Files live in the private "media" Storage bucket under <user_id>/...;
+-- the app and postScheduler read them with the service role. Attaching a
+-- file copies its metadata into campaign_posts.media_assets.
+
+insert into storage.buckets (id, name, public)
+values ('media', 'media', false)
+on conflict (id) do nothing;
+
+create table if not exists public.media_files (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  persona_id uuid references public.personas(id) on delete set null,
+  storage_path text not null unique,
+  file_name text not null,
+  mime_type text not null,
+  size_bytes integer not null,
+  alt_text text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.media_files enable row level security;
+
+create policy "Users can manage their own media files"
+  on public.media_files
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create index if not exists media_files_user_created_idx
+  on public.media_files (user_id, created_at desc);
+
+-- X image uploads need the media.write scope
+update public.social_platforms
+set default_scopes = array_append(default_scopes, 'media.write')
+where id = 'x'
+  and cardinality(default_scopes) > 0
+  and not ('media.write' = any(default_scopes));
+
+-- Reddit image posts are published now
+update public.social_platforms
+set supports_images = true
+where id = 'reddit';
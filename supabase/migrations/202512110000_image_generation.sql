@@ -0,0 +1,16 @@
+-- AI image generation: per-persona visual style guides, provenance for
+-- generated library files, and a public bucket for persona avatars.
+
+alter table public.personas
+  add column if not exists visual_style jsonb not null default '{}'::jsonb;
+
+-- Null for uploads; generated files keep the prompt and provider so they can
+-- be regenerated or varied later.
+alter table public.media_files
+  add column if not exists generation jsonb;
+
+-- Avatars are shown wherever the persona appears, so they need stable URLs
+-- rather than the media bucket's signed ones.
+insert into storage.buckets (id, name, public)
+values ('avatars', 'avatars', true)
+on conflict (id) do nothing;
@@ -0,0 +1,6 @@
+-- Editing and deleting published posts on their platform. Deleted posts keep
+-- their row with status 'deleted'; platform_history records each change.
+
+alter table public.campaign_posts
+  add column if not exists platform_history jsonb not null default '[]'::jsonb,
+  add column if not exists deleted_at timestamptz;
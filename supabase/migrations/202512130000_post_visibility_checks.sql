@@ -0,0 +1,20 @@
+-- Post-publish visibility checks. The visibilityCheck edge function re-checks
+-- published posts a few times in their first day (see
+-- VISIBILITY_CHECK_OFFSETS_MINUTES in lib/publishing/visibility.ts), through
+-- the platform API and a logged-out fetch of post_url. Removed posts stay
+-- 'published' but get removed_at, so metrics and history carry on.
+
+alter table public.campaign_posts
+  add column if not exists visibility jsonb,
+  add column if not exists visibility_checks integer not null default 0,
+  add column if not exists removed_at timestamptz;
+
+-- Due-check lookups: recent published posts with checks left
+create index if not exists campaign_posts_visibility_due_idx
+  on public.campaign_posts (posted_at)
+  where status = 'published' and visibility_checks < 4;
+
+-- Per-community removal rates for a persona
+create index if not exists campaign_posts_persona_visibility_idx
+  on public.campaign_posts (persona_id, posted_at)
+  where visibility is not null;
@@ -0,0 +1,95 @@
+-- OAuth provider registry. social_platforms already carries the endpoint URLs
+-- and default scopes; oauth_options holds the per-provider quirks the generic
+-- /api/social/oauth/[platform]/* routes need (see src/lib/social/config.ts):
+--   use_pkce         send a PKCE challenge/verifier (default true)
+--   client_auth      'basic' (HTTP Basic) or 'body' (client_secret in the form)
+--   scope_separator  how scopes are joined in the authorize URL (default ' ')
+--   authorize_params extra query parameters for the authorize URL
+--   profile          endpoint and fields used to fill provider_username etc.
+
+alter table public.social_platforms
+  add column if not exists oauth_options jsonb not null default '{}'::jsonb;
+
+-- URLs and scopes are only filled in where nobody has configured them yet
+
+update public.social_platforms
+set oauth_authorize_url = coalesce(oauth_authorize_url, 'https://www.reddit.com/api/v1/authorize'),
+    oauth_token_url = coalesce(oauth_token_url, 'https://www.reddit.com/api/v1/access_token'),
+    oauth_revoke_url = coalesce(oauth_revoke_url, 'https://www.reddit.com/api/v1/revoke_token'),
+    default_scopes = case
+      when cardinality(default_scopes) = 0 then array['identity', 'submit', 'read', 'edit']
+      else default_scopes
+    end,
+    oauth_options = '{
+      "use_pkce": false,
+      "client_auth": "basic",
+      "authorize_params": {"duration": "permanent"},
+      "profile": {
+        "url": "https://oauth.reddit.com/api/v1/me",
+        "username_field": "name",
+        "id_field": "id",
+        "handle_template": "u/{username}",
+        "profile_url_template": "https://www.reddit.com/user/{username}"
+      }
+    }'::jsonb || oauth_options
+where id = 'reddit';
+
+update public.social_platforms
+set oauth_authorize_url = coalesce(oauth_authorize_url, 'https://twitter.com/i/oauth2/authorize'),
+    oauth_token_url = coalesce(oauth_token_url, 'https://api.twitter.com/2/oauth2/token'),
+    oauth_revoke_url = coalesce(oauth_revoke_url, 'https://api.twitter.com/2/oauth2/revoke'),
+    default_scopes = case
+      when cardinality(default_scopes) = 0 then array['tweet.read', 'tweet.write', 'users.read', 'offline.access', 'media.write']
+      else default_scopes
+    end,
+    oauth_options = '{
+      "use_pkce": true,
+      "client_auth": "basic",
+      "profile": {
+        "url": "https://api.twitter.com/2/users/me",
+        "username_field": "data.username",
+        "id_field": "data.id",
+        "display_name_field": "data.name",
+        "handle_template": "@{username}",
+        "profile_url_template": "https://x.com/{username}"
+      }
+    }'::jsonb || oauth_options
+where id = 'x';
+
+update public.social_platforms
+set oauth_authorize_url = coalesce(oauth_authorize_url, 'https://www.linkedin.com/oauth/v2/authorization'),
+    oauth_token_url = coalesce(oauth_token_url, 'https://www.linkedin.com/oauth/v2/accessToken'),
+    oauth_revoke_url = coalesce(oauth_revoke_url, 'https://www.linkedin.com/oauth/v2/revoke'),
+    default_scopes = case
+      when cardinality(default_scopes) = 0 then array['openid', 'profile', 'w_member_social']
+      else default_scopes
+    end,
+    oauth_options = '{
+      "use_pkce": false,
+      "client_auth": "body",
+      "profile": {
+        "url": "https://api.linkedin.com/v2/userinfo",
+        "username_field": "name",
+        "id_field": "sub"
+      }
+    }'::jsonb || oauth_options
+where id = 'linkedin';
+
+update public.social_platforms
+set oauth_authorize_url = coalesce(oauth_authorize_url, 'https://www.facebook.com/v19.0/dialog/oauth'),
+    oauth_token_url = coalesce(oauth_token_url, 'https://graph.facebook.com/v19.0/oauth/access_token'),
+    default_scopes = case
+      when cardinality(default_scopes) = 0 then array['pages_show_list', 'pages_manage_posts', 'pages_read_engagement']
+      else default_scopes
+    end,
+    oauth_options = '{
+      "use_pkce": false,
+      "client_auth": "body",
+      "scope_separator": ",",
+      "profile": {
+        "url": "https://graph.facebook.com/v19.0/me?fields=id,name",
+        "username_field": "name",
+        "id_field": "id"
+      }
+    }'::jsonb || oauth_options
+where id = 'facebook';
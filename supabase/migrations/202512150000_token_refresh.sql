@@ -0,0 +1,9 @@
+-- Proactive token refresh. The tokenRefresh edge function renews access
+-- tokens that expire within PROACTIVE_REFRESH_WINDOW_MS (lib/publishing/
+-- tokens.ts). A refresh the provider rejects as a dead grant marks the
+-- account 'revoked'; other failures leave it 'connected' until the access
+-- token runs out, then 'expired'. last_token_error holds the latest failure.
+
+create index if not exists persona_social_accounts_token_expiry_idx
+  on public.persona_social_accounts (access_token_expires_at)
+  where status in ('connected', 'expired');
@@ -0,0 +1,28 @@
+-- Audit trail for social account lifecycle events. Disconnecting an account
+-- revokes its tokens at the provider (social_platforms.oauth_revoke_url),
+-- clears them here and cancels or reassigns its scheduled posts; each step's
+-- outcome is recorded in details so a failed provider revocation is visible.
+-- Written with the service role; users can read their own events.
+
+create table if not exists public.persona_social_account_events (
+  id uuid primary key default gen_random_uuid(),
+  -- Kept after the account row goes, hence no foreign key
+  persona_social_account_id uuid not null,
+  persona_id uuid references public.personas(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete set null,
+  platform_id text not null,
+  -- disconnected
+  action text not null,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+alter table public.persona_social_account_events enable row level security;
+
+create policy "Users can read their own social account events"
+  on public.persona_social_account_events
+  for select
+  using (auth.uid() = user_id);
+
+create index if not exists persona_social_account_events_account_idx
+  on public.persona_social_account_events (persona_social_account_id, created_at desc);
@@ -0,0 +1,76 @@
+-- A persona can connect several accounts on one platform (e.g. a main and an
+-- alt Reddit account). Posts without an account of their own go out on the
+-- campaign's account for the platform (campaigns.account_assignments), then
+-- the persona's default account, then the most recently refreshed one.
+
+-- 1. Default account per persona and platform
+alter table public.persona_social_accounts
+  add column if not exists is_default boolean not null default false;
+
+-- Existing personas have one account per platform; the most recently
+-- refreshed one wins if not
+update public.persona_social_accounts psa
+set is_default = true
+where psa.id = (
+  select candidate.id
+  from public.persona_social_accounts candidate
+  where candidate.persona_id = psa.persona_id
+    and candidate.platform_id = psa.platform_id
+  order by (candidate.status = 'connected') desc,
+    coalesce(candidate.last_token_refresh_at, candidate.created_at) desc nulls last
+  limit 1
+)
+and not exists (
+  select 1
+  from public.persona_social_accounts other
+  where other.persona_id = psa.persona_id
+    and other.platform_id = psa.platform_id
+    and other.is_default
+);
+
+create unique index if not exists persona_social_accounts_default_idx
+  on public.persona_social_accounts (persona_id, platform_id)
+  where is_default;
+
+-- 2. Per-campaign account assignment: { "<platform_id>": "<account id>" }
+alter table public.campaigns
+  add column if not exists account_assignments jsonb not null default '{}'::jsonb;
+
+-- 3. A post's account must belong to the post's persona and platform
+create or replace function public.check_campaign_post_account()
+returns trigger
+language plpgsql
+as $$
+declare
+  account_persona_id uuid;
+  account_platform_id text;
+begin
+  if new.persona_social_account_id is null then
+    return new;
+  end if;
+
+  select persona_id, platform_id
+  into account_persona_id, account_platform_id
+  from public.persona_social_accounts
+  where id = new.persona_social_account_id;
+
+  if account_persona_id is distinct from new.persona_id then
+    raise exception 'Social account % does not belong to persona %',
+      new.persona_social_account_id, new.persona_id;
+  end if;
+
+  if new.platform_id is not null and account_platform_id <> new.platform_id then
+    raise exception 'Social account % is a % account, not %',
+      new.persona_social_account_id, account_platform_id, new.platform_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists campaign_posts_account_check on public.campaign_posts;
+create trigger campaign_posts_account_check
+  before insert or update of persona_social_account_id, platform_id, persona_id
+  on public.campaign_posts
+  for each row
+  execute function public.check_campaign_post_account();
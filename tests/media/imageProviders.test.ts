@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { inflateSync } from "node:zlib";
+import { buildImagePrompt } from "@/lib/media/imageGeneration";
+import { getImageProvider } from "@/lib/media/imageProviders";
+import { MEDIA_LIBRARY_MAX_BYTES, MEDIA_LIBRARY_MIME_TYPES } from "@/lib/publishing";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Width, height and the inflated scanlines of a single-IDAT PNG. */
+function readPng(data: Buffer) {
+  assert.deepEqual(data.subarray(0, 8), PNG_SIGNATURE);
+  assert.equal(data.toString("ascii", 12, 16), "IHDR");
+
+  const idatOffset = data.indexOf("IDAT", 0, "ascii");
+  const idatLength = data.readUInt32BE(idatOffset - 4);
+
+  return {
+    width: data.readUInt32BE(16),
+    height: data.readUInt32BE(20),
+    pixels: inflateSync(data.subarray(idatOffset + 4, idatOffset + 4 + idatLength)),
+  };
+}
+
+function withImageProvider<T>(provider: string, run: () => T): T {
+  const previous = process.env.IMAGE_PROVIDER;
+  process.env.IMAGE_PROVIDER = provider;
+  try {
+    return run();
+  } finally {
+    if (previous === undefined) {
+      delete process.env.IMAGE_PROVIDER;
+    } else {
+      process.env.IMAGE_PROVIDER = previous;
+    }
+  }
+}
+
+const STYLE = {
+  description: "Flat editorial illustration",
+  palette: ["teal", "coral"],
+  avoid: ["photorealism"],
+};
+
+test("IMAGE_PROVIDER=stub generates styled placeholders the library accepts", async () => {
+  const provider = withImageProvider("stub", getImageProvider);
+  assert.equal(provider.id, "stub");
+
+  const prompt = buildImagePrompt("A cart full of groceries", STYLE);
+  const images = await provider.generate({ prompt, size: "1536x1024", count: 2 });
+
+  assert.equal(images.length, 2);
+  for (const image of images) {
+    assert.equal(image.mimeType, "image/png");
+    assert.ok(MEDIA_LIBRARY_MIME_TYPES.includes(image.mimeType));
+    assert.ok(image.data.length <= MEDIA_LIBRARY_MAX_BYTES);
+
+    // A sixteenth of the requested size, one filter byte plus RGB per pixel
+    const png = readPng(image.data);
+    assert.equal(png.width, 96);
+    assert.equal(png.height, 64);
+    assert.equal(png.pixels.length, png.height * (1 + png.width * 3));
+  }
+
+  assert.notDeepEqual(images[0].data, images[1].data);
+});
+
+test("the stub is deterministic per prompt, so the persona's style shows", async () => {
+  const provider = withImageProvider("stub", getImageProvider);
+  const request = {
+    prompt: buildImagePrompt("A cart full of groceries", STYLE),
+    size: "1024x1024" as const,
+    count: 1,
+  };
+
+  const [first] = await provider.generate(request);
+  const [again] = await provider.generate(request);
+  const [unstyled] = await provider.generate({
+    ...request,
+    prompt: buildImagePrompt("A cart full of groceries", null),
+  });
+
+  assert.deepEqual(first.data, again.data);
+  assert.notDeepEqual(first.data, unstyled.data);
+});
+
+test("an unknown IMAGE_PROVIDER is refused", () => {
+  assert.throws(
+    () => withImageProvider("midjourney", getImageProvider),
+    /Unknown IMAGE_PROVIDER "midjourney"/
+  );
+});
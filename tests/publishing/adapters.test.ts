@@ -0,0 +1,383 @@
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, test } from "node:test";
+import {
+  classifyPublishFailure,
+  getPlatformPublisher,
+  PlatformApiError,
+  UnconfirmedPublishError,
+  type PlatformPublisher,
+  type PublishablePlatformId,
+  type PublisherAccount,
+  type PublishRequest,
+} from "../../lib/publishing/index.ts";
+
+// Each adapter runs against a local server standing in for the platform
+// API, so requests, responses and error mapping go through real HTTP.
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+interface CannedResponse {
+  status?: number;
+  json?: unknown;
+  headers?: Record<string, string>;
+}
+
+const routes = new Map<string, CannedResponse>();
+const requests: RecordedRequest[] = [];
+let baseUrl = "";
+
+/** Answers `METHOD /path` (query ignored) with a canned response until reset. */
+function respond(route: string, response: CannedResponse) {
+  routes.set(route, response);
+}
+
+function lastRequest(): RecordedRequest {
+  const request = requests.at(-1);
+  assert.ok(request, "expected the adapter to call the API");
+  return request;
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const url = new URL(req.url ?? "/", baseUrl);
+  const method = req.method ?? "GET";
+  requests.push({
+    method,
+    path: url.pathname,
+    query: url.searchParams,
+    headers: req.headers,
+    body: Buffer.concat(chunks).toString("utf8"),
+  });
+
+  const canned = routes.get(`${method} ${url.pathname}`);
+  if (!canned) {
+    res.writeHead(501, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: `No route for ${method} ${url.pathname}` }));
+    return;
+  }
+
+  res.writeHead(canned.status ?? 200, {
+    ...(canned.json === undefined ? {} : { "Content-Type": "application/json" }),
+    ...canned.headers,
+  });
+  res.end(canned.json === undefined ? "" : JSON.stringify(canned.json));
+}
+
+const server = createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    res.writeHead(500);
+    res.end(String(error));
+  });
+});
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise<void>((resolve, reject) =>
+    server.close((error) => (error ? reject(error) : resolve()))
+  );
+});
+
+beforeEach(() => {
+  routes.clear();
+  requests.length = 0;
+});
+
+function publisherFor(platformId: PublishablePlatformId): PlatformPublisher {
+  const publisher = getPlatformPublisher(platformId, {
+    apiBaseUrl: baseUrl,
+    authBaseUrl: baseUrl,
+  });
+  assert.ok(publisher);
+  return publisher;
+}
+
+const ACCOUNT: PublisherAccount = {
+  id: "account-1",
+  platformAccountId: "page-1",
+  providerAccountId: "member-1",
+  providerUsername: "acme",
+  accountHandle: "@acme",
+};
+
+const SESSION = { accessToken: "access-token", account: ACCOUNT };
+
+const REFRESH_INPUT = {
+  accessToken: "access-token",
+  refreshToken: "refresh-token",
+  clientId: "client-id",
+  clientSecret: "client-secret",
+};
+
+function publishRequest(platformOptions: Record<string, unknown> = {}): PublishRequest {
+  return {
+    title: "Launch day",
+    text: "We shipped it.",
+    content: {},
+    platformOptions,
+    media: [],
+    account: ACCOUNT,
+  };
+}
+
+async function rejectsWithStatus(promise: Promise<unknown>, status: number) {
+  await assert.rejects(promise, (error) => {
+    assert.ok(error instanceof PlatformApiError);
+    assert.equal(error.status, status);
+    return true;
+  });
+}
+
+test("Reddit submits to the subreddit and maps API errors", async () => {
+  const reddit = publisherFor("reddit");
+  const request = publishRequest({ subreddit: "r/startups" });
+
+  respond("POST /api/submit", {
+    json: {
+      json: { errors: [], data: { id: "abc", url: "https://reddit.com/r/startups/comments/abc/" } },
+    },
+  });
+  assert.deepEqual(await reddit.publish(request, SESSION), {
+    externalId: "abc",
+    url: "https://reddit.com/r/startups/comments/abc/",
+  });
+  const submitted = new URLSearchParams(lastRequest().body);
+  assert.equal(submitted.get("sr"), "startups");
+  assert.equal(submitted.get("kind"), "self");
+  assert.equal(submitted.get("text"), "We shipped it.");
+  assert.equal(lastRequest().headers.authorization, "Bearer access-token");
+
+  // Reddit reports rejected submissions in a 200 body
+  respond("POST /api/submit", {
+    json: { json: { errors: [["SUBREDDIT_NOEXIST", "that subreddit doesn't exist", "sr"]] } },
+  });
+  await assert.rejects(reddit.publish(request, SESSION), /SUBREDDIT_NOEXIST/);
+
+  respond("POST /api/submit", { json: { json: { errors: [], data: {} } } });
+  await assert.rejects(reddit.publish(request, SESSION), UnconfirmedPublishError);
+
+  respond("POST /api/submit", { status: 503, json: { message: "down" } });
+  await rejectsWithStatus(reddit.publish(request, SESSION), 503);
+});
+
+test("Reddit refreshes with Basic auth and keeps the refresh token", async () => {
+  const reddit = publisherFor("reddit");
+
+  respond("POST /api/v1/access_token", { json: { access_token: "new-access", expires_in: 3600 } });
+  assert.deepEqual(await reddit.refreshToken(REFRESH_INPUT), {
+    accessToken: "new-access",
+    refreshToken: "refresh-token",
+    expiresIn: 3600,
+  });
+  assert.equal(
+    lastRequest().headers.authorization,
+    `Basic ${Buffer.from("client-id:client-secret").toString("base64")}`
+  );
+  assert.equal(new URLSearchParams(lastRequest().body).get("grant_type"), "refresh_token");
+
+  respond("POST /api/v1/access_token", { status: 400, json: { error: "invalid_grant" } });
+  await assert.rejects(reddit.refreshToken(REFRESH_INPUT), (error) => {
+    assert.ok(error instanceof PlatformApiError);
+    assert.equal(error.status, 400);
+    assert.deepEqual(JSON.parse(error.responseBody ?? ""), { error: "invalid_grant" });
+    return true;
+  });
+});
+
+test("Reddit status reads the post's removal flags", async () => {
+  const reddit = publisherFor("reddit");
+  const post = (data: Record<string, unknown>) => ({
+    json: { data: { children: [{ data: { permalink: "/r/startups/comments/abc/", ...data } }] } },
+  });
+
+  respond("GET /api/info", post({ removed_by_category: null }));
+  assert.equal((await reddit.fetchStatus("abc", SESSION)).state, "live");
+  assert.equal(lastRequest().query.get("id"), "t3_abc");
+
+  respond("GET /api/info", post({ removed_by_category: "moderator" }));
+  assert.equal((await reddit.fetchStatus("abc", SESSION)).state, "removed");
+
+  respond("GET /api/info", { json: { data: { children: [] } } });
+  assert.equal((await reddit.fetchStatus("abc", SESSION)).state, "not_found");
+
+  respond("GET /api/info", { status: 500, json: { message: "oops" } });
+  await rejectsWithStatus(reddit.fetchStatus("abc", SESSION), 500);
+});
+
+test("X posts tweets and maps failures for retry", async () => {
+  const x = publisherFor("x");
+  const request = publishRequest();
+
+  respond("POST /2/tweets", { status: 201, json: { data: { id: "123", text: "We shipped it." } } });
+  assert.deepEqual(await x.publish(request, SESSION), {
+    externalId: "123",
+    url: "https://x.com/acme/status/123",
+  });
+  assert.equal(JSON.parse(lastRequest().body).text, "We shipped it.");
+
+  respond("POST /2/tweets", { status: 429, json: { title: "Too Many Requests" } });
+  await assert.rejects(x.publish(request, SESSION), (error) => {
+    assert.equal(classifyPublishFailure(error), "transient");
+    return true;
+  });
+
+  respond("POST /2/tweets", { status: 403, json: { detail: "duplicate content" } });
+  await assert.rejects(x.publish(request, SESSION), (error) => {
+    assert.equal(classifyPublishFailure(error), "permanent");
+    return true;
+  });
+
+  respond("POST /2/tweets", { status: 201, json: {} });
+  await assert.rejects(x.publish(request, SESSION), (error) => {
+    assert.equal(classifyPublishFailure(error), "unconfirmed");
+    return true;
+  });
+});
+
+test("X refreshes tokens and reports deleted tweets", async () => {
+  const x = publisherFor("x");
+
+  respond("POST /2/oauth2/token", {
+    json: { access_token: "new-access", refresh_token: "new-refresh", expires_in: 7200 },
+  });
+  assert.deepEqual(await x.refreshToken(REFRESH_INPUT), {
+    accessToken: "new-access",
+    refreshToken: "new-refresh",
+    expiresIn: 7200,
+  });
+
+  respond("POST /2/oauth2/token", { status: 401, json: { error: "unauthorized_client" } });
+  await rejectsWithStatus(x.refreshToken(REFRESH_INPUT), 401);
+
+  respond("GET /2/tweets/123", { json: { data: { id: "123" } } });
+  assert.equal((await x.fetchStatus("123", SESSION)).state, "live");
+
+  respond("GET /2/tweets/123", { json: { errors: [{ title: "Not Found Error" }] } });
+  assert.equal((await x.fetchStatus("123", SESSION)).state, "removed");
+
+  respond("GET /2/tweets/123", { status: 404, json: {} });
+  assert.equal((await x.fetchStatus("123", SESSION)).state, "not_found");
+
+  respond("GET /2/tweets/123", { status: 503, json: {} });
+  await rejectsWithStatus(x.fetchStatus("123", SESSION), 503);
+});
+
+test("LinkedIn posts as the member and reads the post's lifecycle", async () => {
+  const linkedin = publisherFor("linkedin");
+  const urn = "urn:li:share:42";
+
+  // LinkedIn answers 201 with the new URN only in a header
+  respond("POST /v2/ugcPosts", { status: 201, headers: { "x-restli-id": urn } });
+  assert.deepEqual(await linkedin.publish(publishRequest(), SESSION), {
+    externalId: urn,
+    url: `https://www.linkedin.com/feed/update/${urn}`,
+  });
+  assert.equal(JSON.parse(lastRequest().body).author, "urn:li:person:member-1");
+
+  respond("POST /v2/ugcPosts", { status: 201 });
+  await assert.rejects(linkedin.publish(publishRequest(), SESSION), UnconfirmedPublishError);
+
+  respond("POST /v2/ugcPosts", { status: 422, json: { message: "Content too long" } });
+  await rejectsWithStatus(linkedin.publish(publishRequest(), SESSION), 422);
+
+  const statusRoute = `GET /v2/ugcPosts/${encodeURIComponent(urn)}`;
+  respond(statusRoute, { json: { lifecycleState: "PUBLISHED" } });
+  assert.equal((await linkedin.fetchStatus(urn, SESSION)).state, "live");
+
+  respond(statusRoute, { json: { lifecycleState: "DELETED" } });
+  assert.equal((await linkedin.fetchStatus(urn, SESSION)).state, "removed");
+
+  respond(statusRoute, { status: 404, json: {} });
+  assert.equal((await linkedin.fetchStatus(urn, SESSION)).state, "not_found");
+
+  respond(statusRoute, { status: 401, json: { message: "Expired token" } });
+  await rejectsWithStatus(linkedin.fetchStatus(urn, SESSION), 401);
+});
+
+test("LinkedIn refreshes with the client credentials in the body", async () => {
+  const linkedin = publisherFor("linkedin");
+
+  respond("POST /oauth/v2/accessToken", {
+    json: { access_token: "new-access", expires_in: 5184000 },
+  });
+  assert.deepEqual(await linkedin.refreshToken(REFRESH_INPUT), {
+    accessToken: "new-access",
+    refreshToken: "refresh-token",
+    expiresIn: 5184000,
+  });
+  const form = new URLSearchParams(lastRequest().body);
+  assert.equal(form.get("client_id"), "client-id");
+  assert.equal(form.get("client_secret"), "client-secret");
+
+  respond("POST /oauth/v2/accessToken", { status: 400, json: { error: "invalid_grant" } });
+  await rejectsWithStatus(linkedin.refreshToken(REFRESH_INPUT), 400);
+});
+
+test("Facebook posts to the Page feed and keeps the Page token on refresh", async () => {
+  const facebook = publisherFor("facebook");
+
+  respond("POST /v19.0/page-1/feed", { json: { id: "page-1_99" } });
+  assert.deepEqual(await facebook.publish(publishRequest(), SESSION), {
+    externalId: "page-1_99",
+    url: "https://www.facebook.com/page-1_99",
+  });
+  assert.equal(new URLSearchParams(lastRequest().body).get("message"), "We shipped it.");
+
+  respond("POST /v19.0/page-1/feed", { json: {} });
+  await assert.rejects(facebook.publish(publishRequest(), SESSION), UnconfirmedPublishError);
+
+  // The exchange extends the user token; the Page token derived from it stays
+  respond("GET /v19.0/oauth/access_token", {
+    json: { access_token: "extended-user-token", expires_in: 5183944 },
+  });
+  assert.deepEqual(await facebook.refreshToken(REFRESH_INPUT), {
+    accessToken: "access-token",
+    refreshToken: "extended-user-token",
+    expiresIn: 5183944,
+  });
+  assert.equal(lastRequest().query.get("fb_exchange_token"), "refresh-token");
+});
+
+test("Facebook treats only missing-object errors as gone", async () => {
+  const facebook = publisherFor("facebook");
+  const graphError = (code: number, subcode?: number) => ({
+    status: 400,
+    json: {
+      error: { message: "Graph error", type: "OAuthException", code, error_subcode: subcode },
+    },
+  });
+
+  respond("GET /v19.0/page-1_99", { json: { id: "page-1_99", is_published: true } });
+  assert.equal((await facebook.fetchStatus("page-1_99", SESSION)).state, "live");
+  assert.equal(lastRequest().query.get("fields"), "id,permalink_url,is_published");
+
+  respond("GET /v19.0/page-1_99", { json: { id: "page-1_99", is_published: false } });
+  assert.equal((await facebook.fetchStatus("page-1_99", SESSION)).state, "removed");
+
+  respond("GET /v19.0/page-1_99", graphError(100, 33));
+  assert.equal((await facebook.fetchStatus("page-1_99", SESSION)).state, "not_found");
+
+  respond("GET /v19.0/page-1_99", graphError(190, 463));
+  await rejectsWithStatus(facebook.fetchStatus("page-1_99", SESSION), 400);
+
+  respond("DELETE /v19.0/page-1_99", graphError(100, 33));
+  await facebook.deletePost("page-1_99", SESSION);
+
+  respond("DELETE /v19.0/page-1_99", graphError(200));
+  await rejectsWithStatus(facebook.deletePost("page-1_99", SESSION), 400);
+});
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  classifyPublishFailure,
+  DEAD_LETTER_STATUS,
+  INTERRUPTED_PUBLISH_MESSAGE,
+  PlatformApiError,
+  planPublishRetry,
+  publishFailureMessage,
+  UnconfirmedPublishError,
+} from "../../lib/publishing/index.ts";
+
+const NOW = new Date("2026-01-01T12:00:00Z");
+
+test("outages and rate limits retry, rejected content fails", () => {
+  assert.equal(classifyPublishFailure(new PlatformApiError("x", 503, "down")), "transient");
+  assert.equal(classifyPublishFailure(new PlatformApiError("x", 429, "slow down")), "transient");
+  assert.equal(classifyPublishFailure(new Error("socket hang up")), "transient");
+  assert.equal(
+    classifyPublishFailure(new PlatformApiError("reddit", 403, "SUBREDDIT_NOEXIST")),
+    "permanent"
+  );
+
+  const retry = planPublishRetry(0, "transient", { now: NOW, baseSeconds: 60 });
+  assert.deepEqual(retry, {
+    status: "scheduled",
+    retryCount: 1,
+    scheduledFor: "2026-01-01T12:01:00.000Z",
+  });
+  assert.deepEqual(planPublishRetry(5, "transient", { now: NOW }), {
+    status: DEAD_LETTER_STATUS,
+    retryCount: 5,
+  });
+  assert.deepEqual(planPublishRetry(2, "permanent", { now: NOW }), {
+    status: "failed",
+    retryCount: 2,
+  });
+});
+
+test("a post accepted without confirmation is dead-lettered, never retried", () => {
+  const error = new UnconfirmedPublishError("x", "X response missing post ID");
+
+  const kind = classifyPublishFailure(error);
+  assert.equal(kind, "unconfirmed");
+  assert.deepEqual(planPublishRetry(0, kind, { now: NOW }), {
+    status: DEAD_LETTER_STATUS,
+    retryCount: 0,
+  });
+
+  const message = publishFailureMessage(error.message, kind);
+  assert.ok(message.startsWith(INTERRUPTED_PUBLISH_MESSAGE));
+  assert.ok(message.includes("X response missing post ID"));
+  assert.equal(publishFailureMessage("down", "transient"), "down");
+});
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { PlatformApiError, resolveRefreshFailure } from "../../lib/publishing/index.ts";
+
+const NOW = new Date("2026-01-01T12:00:00Z");
+const STILL_VALID = "2026-01-01T13:00:00Z";
+const EXPIRED = "2026-01-01T11:00:00Z";
+
+function refreshError(platformId: string, status: number, body: unknown) {
+  return new PlatformApiError(
+    platformId,
+    status,
+    "Failed to refresh access token",
+    body === null ? null : JSON.stringify(body)
+  );
+}
+
+test("invalid_grant marks the account revoked", () => {
+  const error = refreshError("reddit", 400, { error: "invalid_grant" });
+  assert.equal(resolveRefreshFailure(error, STILL_VALID, NOW).status, "revoked");
+});
+
+test("Facebook code 190 revokes only for the revocation subcodes", () => {
+  const removed = refreshError("facebook", 400, {
+    error: { type: "OAuthException", code: 190, error_subcode: 458 },
+  });
+  const expiredSession = refreshError("facebook", 400, {
+    error: { type: "OAuthException", code: 190, error_subcode: 463 },
+  });
+
+  assert.equal(resolveRefreshFailure(removed, STILL_VALID, NOW).status, "revoked");
+  assert.equal(resolveRefreshFailure(expiredSession, EXPIRED, NOW).status, "expired");
+});
+
+test("other 400s keep the account until its token runs out", () => {
+  for (const body of [{ error: "invalid_request" }, { error: "invalid_client" }, null]) {
+    const error = refreshError("x", 400, body);
+    assert.equal(resolveRefreshFailure(error, STILL_VALID, NOW).status, "connected");
+    assert.equal(resolveRefreshFailure(error, EXPIRED, NOW).status, "expired");
+  }
+});
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import path from "node:path";
+import { test } from "node:test";
+import { parseKeyring, encryptStoredSecret } from "../../lib/security/cipher.ts";
+import { decryptSecret, encryptSecret } from "../../lib/security/encryption.ts";
+
+// The app and the edge functions must read each other's ciphertexts; this
+// seals secrets in one runtime and opens them in the other, both ways.
+
+const ROOT = path.resolve(__dirname, "../..");
+const DENO_BIN = path.join(ROOT, "node_modules/.bin/deno");
+const DENO_SCRIPT = path.join(__dirname, "secretsRoundTrip.deno.ts");
+
+const PREVIOUS_KEY = randomBytes(32).toString("base64");
+const PRIMARY_KEY = randomBytes(32).toString("base64");
+
+const ENCRYPTION_ENV = {
+  SOCIAL_OAUTH_ENCRYPTION_KEY: PRIMARY_KEY,
+  SOCIAL_OAUTH_ENCRYPTION_KEY_ID: "current",
+  SOCIAL_OAUTH_ENCRYPTION_PREVIOUS_KEYS: `previous:${PREVIOUS_KEY}`,
+};
+
+const PLAINTEXT = "oauth-token-ünïcødé-🔑";
+
+/** The pre-WebCrypto Node format: IV | auth tag | ciphertext, no key id. */
+function encryptLegacy(plaintext: string, keyBase64: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", Buffer.from(keyBase64, "base64"), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return `\\x${Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("hex")}`;
+}
+
+function decryptLegacy(stored: string, keyBase64: string): string {
+  const payload = Buffer.from(stored.slice(2), "hex");
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    Buffer.from(keyBase64, "base64"),
+    payload.subarray(0, 12)
+  );
+  decipher.setAuthTag(payload.subarray(12, 28));
+  return Buffer.concat([decipher.update(payload.subarray(28)), decipher.final()]).toString(
+    "utf8"
+  );
+}
+
+function runDeno(input: unknown) {
+  const output = execFileSync(
+    DENO_BIN,
+    ["run", "--quiet", "--no-config", "--allow-env", "--allow-read", DENO_SCRIPT],
+    {
+      cwd: ROOT,
+      input: JSON.stringify(input),
+      env: { ...process.env, ...ENCRYPTION_ENV },
+      encoding: "utf8",
+    }
+  );
+
+  return JSON.parse(output) as {
+    decrypted: Record<string, string | null>;
+    ciphertexts: { versioned: string; legacy: string };
+  };
+}
+
+test("secrets sealed in one runtime open in the other", async (t) => {
+  Object.assign(process.env, ENCRYPTION_ENV);
+
+  const ciphertexts = {
+    versioned: (await encryptSecret(PLAINTEXT)) as string,
+    legacy: encryptLegacy(PLAINTEXT, PRIMARY_KEY),
+    previousKey: (await encryptStoredSecret(
+      PLAINTEXT,
+      parseKeyring({ primaryKey: PREVIOUS_KEY, primaryKeyId: "previous" })
+    )) as string,
+    legacyPreviousKey: encryptLegacy(PLAINTEXT, PREVIOUS_KEY),
+  };
+  const deno = runDeno({ plaintext: PLAINTEXT, ciphertexts });
+
+  await t.test("Node to Deno", () => {
+    assert.deepEqual(deno.decrypted, {
+      versioned: PLAINTEXT,
+      legacy: PLAINTEXT,
+      previousKey: PLAINTEXT,
+      legacyPreviousKey: PLAINTEXT,
+    });
+  });
+
+  await t.test("Deno to Node", async () => {
+    assert.match(deno.ciphertexts.versioned, /^\\xdc4b4901/);
+    assert.equal(await decryptSecret(deno.ciphertexts.versioned), PLAINTEXT);
+    assert.equal(await decryptSecret(deno.ciphertexts.legacy), PLAINTEXT);
+    assert.equal(decryptLegacy(deno.ciphertexts.legacy, PRIMARY_KEY), PLAINTEXT);
+  });
+});
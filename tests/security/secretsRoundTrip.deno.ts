@@ -0,0 +1,41 @@
+/**
+ * The Deno half of secrets.crossRuntime.test.ts: decrypts the ciphertexts
+ * Node wrote (from stdin) with the edge functions' helpers, then seals its
+ * own for Node to decrypt. Reads the same SOCIAL_OAUTH_ENCRYPTION_* settings.
+ */
+
+import {
+  decryptSecret,
+  encryptSecret,
+  getEncryptionKeyring,
+  toByteaHex,
+} from "../../supabase/functions/_shared/secrets.ts";
+import { encryptBytes } from "../../lib/security/cipher.ts";
+
+const input = JSON.parse(await new Response(Deno.stdin.readable).text()) as {
+  plaintext: string;
+  ciphertexts: Record<string, string>;
+};
+
+const decrypted: Record<string, string | null> = {};
+for (const [name, stored] of Object.entries(input.ciphertexts)) {
+  decrypted[name] = await decryptSecret(stored);
+}
+
+const keyring = getEncryptionKeyring();
+if (!keyring) {
+  throw new Error("SOCIAL_OAUTH_ENCRYPTION_KEY is not set");
+}
+
+console.log(
+  JSON.stringify({
+    decrypted,
+    ciphertexts: {
+      versioned: await encryptSecret(input.plaintext),
+      // What edge functions wrote before key ids existed
+      legacy: toByteaHex(
+        await encryptBytes(input.plaintext, keyring.keys[keyring.primaryKeyId])
+      ),
+    },
+  })
+);
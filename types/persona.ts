@@ -28,6 +28,18 @@ export interface PersonaPersonality {
   };
 }
 
+/**
+ * How a persona's images should look. Combined with each image prompt so
+ * posts and avatars share one visual identity.
+ */
+export interface PersonaVisualStyle {
+  description?: string;
+  medium?: string;
+  palette?: string[];
+  mood?: string;
+  avoid?: string[];
+}
+
 export interface PersonaState {
   display_name?: string;
   avatar_image_url?: string;
@@ -97,6 +109,7 @@ export interface Persona {
   display_name: string;
   avatar_image_url?: string | null;
   avatar_prompt?: string | null;
+  visual_style?: PersonaVisualStyle | null;
   stats?: PersonaStats | null;
   goals?: string[] | null;
   demographics?: PersonaDemographics | null;
@@ -0,0 +1,51 @@
+export type RecommendationCitation =
+  | {
+      type: "post";
+      post_id: string;
+      /** What about the post supports the recommendation. */
+      detail: string;
+    }
+  | {
+      type: "research";
+      research_id: string;
+      detail: string;
+    };
+
+export interface RecommendedPostingTime {
+  /** 0 = Sunday … 6 = Saturday, in UTC. */
+  day_of_week: number;
+  /** Hour of day in UTC. */
+  hour: number;
+}
+
+export interface PersonaRecommendation {
+  theme: string;
+  format: string;
+  hook: string;
+  platform_id: string | null;
+  posting_time: RecommendedPostingTime | null;
+  rationale: string;
+  citations: RecommendationCitation[];
+  draft: {
+    title: string;
+    text: string;
+  };
+  /** Set once the recommendation has been turned into a draft post. */
+  converted_post_id?: string | null;
+}
+
+export interface PersonaRecommendationSet {
+  id: string;
+  persona_id: string;
+  user_id: string;
+  summary: string;
+  recommendations: PersonaRecommendation[];
+  /** Titles of the posts and studies the model was shown, keyed by id. */
+  sources: {
+    posts: Record<string, { title: string; platform_id: string | null; engagement: number }>;
+    research: Record<string, { title: string }>;
+  };
+  week_start: string;
+  model: string | null;
+  created_at: string;
+}
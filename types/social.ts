@@ -1,3 +1,5 @@
+import type { PublishRateLimits } from "@/lib/publishing";
+
 export type SocialPlatformId = "facebook" | "x" | "linkedin" | "reddit";
 
 export interface SocialPlatform {
@@ -13,10 +15,40 @@ export interface SocialPlatform {
   oauth_revoke_url: string | null;
   default_scopes: string[];
   docs_url: string | null;
+  /** Platform-wide settings, e.g. posting_priors for the best-time optimizer. */
+  metadata?: Record<string, unknown>;
+  /** Provider quirks for the generic OAuth flow. */
+  oauth_options?: SocialPlatformOAuthOptions;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * How a provider deviates from plain OAuth 2.0 authorization-code flow.
+ * Stored on social_platforms.oauth_options; every key is optional.
+ */
+export interface SocialPlatformOAuthOptions {
+  /** Send a PKCE challenge and verifier. Defaults to true. */
+  use_pkce?: boolean;
+  /** How the client authenticates at the token endpoint. Defaults to "body". */
+  client_auth?: "basic" | "body";
+  /** Joins scopes in the authorize URL. Defaults to a space. */
+  scope_separator?: string;
+  /** Extra query parameters for the authorize URL, e.g. Reddit's duration. */
+  authorize_params?: Record<string, string>;
+  /** Where to read the connected account's identity after the exchange. */
+  profile?: {
+    url: string;
+    /** Dot paths into the profile response. */
+    username_field: string;
+    id_field: string;
+    display_name_field?: string;
+    /** "{username}" is replaced with the provider username. */
+    handle_template?: string;
+    profile_url_template?: string;
+  };
+}
+
 export interface PersonaSocialAccount {
   id: string;
   persona_id: string;
@@ -40,10 +72,39 @@ export interface PersonaSocialAccount {
   last_synced_at: string | null;
   last_engagement_sync_at: string | null;
   revoked_at: string | null;
+  /** Picked for the platform when neither the post nor its campaign names an account. */
+  is_default?: boolean;
+  /** Weekly slot template used by the posting queue. */
+  posting_slots?: PostingSlot[];
+  /** Overrides of the platform's default publishing limits. */
+  rate_limits?: Partial<PublishRateLimits>;
+  /** Computed by the accounts API from status and last_token_error. */
+  health?: ConnectionHealth;
+  /**
+   * Posts still scheduled on this account; set when it isn't healthy and
+   * the count could be loaded.
+   */
+  scheduled_post_count?: number;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * "degraded" accounts still work but their last token refresh failed;
+ * "expired" and "revoked" accounts need reconnecting before they can publish.
+ */
+export type ConnectionHealth = "healthy" | "degraded" | "expired" | "revoked";
+
+/**
+ * A recurring weekly posting slot, in the persona's local time.
+ */
+export interface PostingSlot {
+  /** 0 = Sunday … 6 = Saturday. */
+  day_of_week: number;
+  /** 24-hour "HH:MM". */
+  time: string;
+}
+
 export interface OAuthState {
   id: string;
   user_id: string;
@@ -78,7 +139,13 @@ export interface EngagementItem {
   content_text: string | null;
   raw_payload: Record<string, unknown>;
   platform_context: Record<string, unknown>;
-  status: "unreviewed" | "suggested_reply_ready" | "replied" | "skipped" | string;
+  status:
+    | "unreviewed"
+    | "suggested_reply_ready"
+    | "replying"
+    | "replied"
+    | "skipped"
+    | string;
   ai_suggested_reply: string | null;
   final_reply: string | null;
   reply_mode: "ai_auto" | "ai_suggested" | "manual" | string | null;
@@ -89,3 +156,56 @@ export interface EngagementItem {
   updated_at: string;
 }
 
+
+export type EngagementItemStatus =
+  | "unreviewed"
+  | "suggested_reply_ready"
+  | "replying"
+  | "replied"
+  | "skipped";
+
+/**
+ * Engagement item as listed in the inbox, with the persona and account it
+ * arrived on.
+ */
+export interface EngagementInboxItem extends EngagementItem {
+  persona_id: string;
+  persona_name: string;
+  account_handle: string | null;
+}
+
+export interface EngagementReplyPolicy {
+  id: string;
+  persona_social_account_id: string;
+  enabled: boolean;
+  auto_reply_keywords: string[];
+  review_keywords: string[];
+  skip_keywords: string[];
+  author_allowlist: string[];
+  author_denylist: string[];
+  max_auto_replies_per_hour: number;
+  min_sentiment_for_auto_reply: number;
+  skip_below_sentiment: number | null;
+  quiet_hours_start: number | null;
+  quiet_hours_end: number | null;
+  timezone: string;
+  /** WorkflowGuardrails enforced on outgoing auto-replies. */
+  guardrails: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EngagementPolicyDecision {
+  id: string;
+  engagement_item_id: string;
+  persona_social_account_id: string;
+  policy_id: string | null;
+  decision: "auto_reply" | "review" | "skip";
+  reasons: string[];
+  sentiment: number | null;
+  reply_text: string | null;
+  guardrail_result: Record<string, unknown> | null;
+  outcome: "applied" | "replied" | "downgraded_to_review" | "failed" | string;
+  error: string | null;
+  created_at: string;
+}